@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const AddressSchema = z.object({
+  street: z.string().min(1, 'Street is required'),
+  city: z.string().min(1, 'City is required'),
+  postalCode: z.string().min(1, 'Postal code is required'),
+  country: z.string().min(1, 'Country is required'),
+  additionalInfo: z.string().optional(),
+});
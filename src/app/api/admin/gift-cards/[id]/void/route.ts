@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toGiftCardResponse } from '@/app/api/admin/gift-cards/gift-card-response';
+
+// POST /api/admin/gift-cards/:id/void - Void a gift card and write off its remaining balance
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const voidGiftCardUseCase = container.getVoidGiftCardUseCase();
+
+    const result = await voidGiftCardUseCase.execute({ giftCardId: id, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to void gift card');
+    }
+
+    return NextResponse.json(toGiftCardResponse(result.value.giftCard));
+  } catch (error) {
+    console.error('Gift card void error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
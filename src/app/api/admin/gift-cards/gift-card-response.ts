@@ -0,0 +1,22 @@
+import { GiftCard } from '@/domain/gift-card/gift-card';
+
+export function toGiftCardResponse(giftCard: GiftCard) {
+  return {
+    id: giftCard.id,
+    code: giftCard.code,
+    status: giftCard.status,
+    initialBalance: giftCard.initialBalance.amount,
+    balance: giftCard.balance.amount,
+    currency: giftCard.balance.currency,
+    expiresAt: giftCard.expiresAt,
+    issuedBy: giftCard.issuedBy,
+    transactions: giftCard.transactions.map(transaction => ({
+      id: transaction.id,
+      type: transaction.type,
+      amount: transaction.amount.amount,
+      orderId: transaction.orderId,
+      createdAt: transaction.createdAt,
+    })),
+    createdAt: giftCard.createdAt,
+  };
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toGiftCardResponse } from '@/app/api/admin/gift-cards/gift-card-response';
+import { CurrencySchema, Money } from '@/domain/shared/money';
+
+const IssueGiftCardRequestSchema = z.object({
+  amount: z.number().positive().max(10000),
+  currency: CurrencySchema,
+  expiresAt: z.coerce.date().optional(),
+});
+
+// POST /api/admin/gift-cards - Issue a new gift card with a generated code
+export async function POST(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = IssueGiftCardRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { amount, currency, expiresAt } = validationResult.data;
+    const container = DIContainer.getInstance();
+    const issueGiftCardUseCase = container.getIssueGiftCardUseCase();
+
+    const result = await issueGiftCardUseCase.execute({
+      initialBalance: Money.create(amount, currency),
+      expiresAt,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to issue gift card');
+    }
+
+    return NextResponse.json(toGiftCardResponse(result.value.giftCard), { status: 201 });
+  } catch (error) {
+    console.error('Gift card issue error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+
+const SuggestReordersQuerySchema = z.object({
+  storeId: z.string().uuid(),
+  supplierId: z.string().uuid().optional(),
+});
+
+// GET /api/admin/inventory/reorder-suggestions?storeId=&supplierId= - What to order to get back above par
+export async function GET(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = SuggestReordersQuerySchema.safeParse({
+      storeId: searchParams.get('storeId') ?? undefined,
+      supplierId: searchParams.get('supplierId') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const suggestReordersUseCase = container.getSuggestReordersUseCase();
+
+    const result = await suggestReordersUseCase.execute({
+      ...validationResult.data,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to suggest reorders');
+    }
+
+    return NextResponse.json({ suggestions: result.value.suggestions });
+  } catch (error) {
+    console.error('Reorder suggestion error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
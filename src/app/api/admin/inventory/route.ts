@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { CurrencySchema, Money } from '@/domain/shared/money';
+
+const RecordStockRequestSchema = z.object({
+  storeId: z.string().uuid(),
+  ingredientId: z.string().uuid(),
+  received: z.number().positive().optional(),
+  countedOnHand: z.number().min(0).optional(),
+  parLevel: z.number().min(0).optional(),
+  unitCost: z.number().min(0).optional(),
+  currency: CurrencySchema.default('USD'),
+}).refine(
+  data => data.received !== undefined || data.countedOnHand !== undefined ||
+    data.parLevel !== undefined || data.unitCost !== undefined,
+  { message: 'Give a received quantity, a count, a par level or a unit cost', path: ['received'] }
+);
+
+// POST /api/admin/inventory - Record a delivery, a stocktake, a new par level or a cost price for one ingredient
+export async function POST(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = RecordStockRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const recordStockUseCase = container.getRecordStockUseCase();
+
+    const { unitCost, currency, ...data } = validationResult.data;
+    const result = await recordStockUseCase.execute({
+      ...data,
+      unitCost: unitCost !== undefined ? Money.create(unitCost, currency) : undefined,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to record stock');
+    }
+
+    const { stockLevel } = result.value;
+    return NextResponse.json({
+      storeId: stockLevel.storeId,
+      ingredientId: stockLevel.ingredientId,
+      onHand: stockLevel.onHand,
+      reserved: stockLevel.reserved,
+      available: stockLevel.available,
+      parLevel: stockLevel.parLevel,
+      isBelowPar: stockLevel.isBelowPar,
+    });
+  } catch (error) {
+    console.error('Record stock error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
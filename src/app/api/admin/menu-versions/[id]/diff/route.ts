@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toMenuVersionResponse, toMenuVersionDiffResponse } from '@/app/api/admin/menu-versions/menu-version-response';
+
+// GET /api/admin/menu-versions/:id/diff - What publishing the version would change on the live menu
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const getMenuVersionDiffUseCase = container.getGetMenuVersionDiffUseCase();
+
+    const result = await getMenuVersionDiffUseCase.execute({ menuVersionId: id, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to compare menu versions');
+    }
+
+    const { version, live, diff } = result.value;
+
+    return NextResponse.json({
+      version: toMenuVersionResponse(version),
+      liveVersionId: live?.id ?? null,
+      ...toMenuVersionDiffResponse(diff),
+    });
+  } catch (error) {
+    console.error('Menu version diff error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toPizzaMenuResponse } from '@/app/api/menu/pizzas/pizza-menu-response';
+import { parseMenuTimeQuery } from '@/app/api/menu/menu-time-query';
+
+// GET /api/admin/menu-versions/:id/preview?at=&storeId= - The pizza menu as customers will see it once the version
+// is live; every pizza in the version unless a time is given
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const timeQuery = parseMenuTimeQuery(new URL(request.url).searchParams);
+    if (!timeQuery.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: timeQuery.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const getPizzaMenuUseCase = container.getGetPizzaMenuUseCase();
+
+    const result = await getPizzaMenuUseCase.execute({ ...timeQuery.data, menuVersionId: id, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to preview menu version');
+    }
+
+    const pizzas = result.value.pizzas.map(toPizzaMenuResponse);
+
+    return NextResponse.json({
+      pizzas,
+      total: pizzas.length,
+    });
+  } catch (error) {
+    console.error('Menu version preview error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+
+// DELETE /api/admin/menu-versions/:id/recipes/:recipeId - Drop a recipe from a draft
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; recipeId: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id, recipeId } = await params;
+    const container = DIContainer.getInstance();
+    const removeDraftRecipeUseCase = container.getRemoveDraftRecipeUseCase();
+
+    const result = await removeDraftRecipeUseCase.execute({ menuVersionId: id, recipeId, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to remove recipe');
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Menu draft recipe removal error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
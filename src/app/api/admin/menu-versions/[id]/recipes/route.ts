@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { DraftRecipeSchema, toDraftRecipe } from '@/app/api/admin/menu-versions/draft-recipe-schema';
+import { toMenuVersionRecipeResponse } from '@/app/api/admin/menu-versions/menu-version-response';
+
+// PUT /api/admin/menu-versions/:id/recipes - Add a recipe to a draft, or change the draft's copy when recipeId is given
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = DraftRecipeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const saveDraftRecipeUseCase = container.getSaveDraftRecipeUseCase();
+
+    const result = await saveDraftRecipeUseCase.execute({
+      ...toDraftRecipe(validationResult.data),
+      menuVersionId: id,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to save recipe');
+    }
+
+    return NextResponse.json(toMenuVersionRecipeResponse(result.value.entry));
+  } catch (error) {
+    console.error('Menu draft recipe error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
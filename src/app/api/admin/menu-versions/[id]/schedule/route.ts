@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toMenuVersionResponse } from '@/app/api/admin/menu-versions/menu-version-response';
+
+const ScheduleMenuVersionRequestSchema = z.object({
+  // Null takes the version back to a draft; omitted or in the past publishes now
+  publishAt: z.coerce.date().nullable().optional(),
+});
+
+// POST /api/admin/menu-versions/:id/schedule - Schedule a draft for publishing, publish it now or unschedule it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = ScheduleMenuVersionRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const scheduleMenuVersionUseCase = container.getScheduleMenuVersionUseCase();
+
+    const { publishAt } = validationResult.data;
+    const result = await scheduleMenuVersionUseCase.execute({
+      menuVersionId: id,
+      publishAt: publishAt === undefined ? new Date() : publishAt,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to schedule menu version');
+    }
+
+    return NextResponse.json(toMenuVersionResponse(result.value.version));
+  } catch (error) {
+    console.error('Menu version scheduling error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { CurrencySchema, Money } from '@/domain/shared/money';
+import { AvailabilityScheduleSchema } from '@/domain/menu/availability-schedule';
+
+// A recipe as managers write it into a menu draft
+export const DraftRecipeSchema = z.object({
+  recipeId: z.string().uuid().optional(),
+  name: z.string().min(1, 'Pizza name is required').max(100),
+  description: z.string().min(1, 'Description is required'),
+  basePrice: z.number().positive('Base price must be positive'),
+  currency: CurrencySchema.default('USD'),
+  preparationTimeMinutes: z.number().int().positive('Preparation time must be positive'),
+  difficulty: z.number().int().min(1).max(5, 'Difficulty must be between 1 and 5'),
+  ingredients: z.array(z.object({
+    ingredientId: z.string().uuid(),
+    quantity: z.number().positive(),
+  })).min(1, 'Pizza must have at least one ingredient'),
+  isAvailable: z.boolean().default(true),
+  // Omit to sell the pizza whenever the store is open
+  availability: AvailabilityScheduleSchema.nullable().default(null),
+});
+
+export function toDraftRecipe({ basePrice, currency, ingredients, ...recipe }: z.infer<typeof DraftRecipeSchema>) {
+  return {
+    ...recipe,
+    basePrice: Money.create(basePrice, currency),
+    ingredients: new Map(ingredients.map(ingredient => [ingredient.ingredientId, ingredient.quantity])),
+  };
+}
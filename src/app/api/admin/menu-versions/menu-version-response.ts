@@ -0,0 +1,44 @@
+import type { MenuVersion, MenuVersionDiff, MenuVersionRecipe } from '@/domain/menu/menu-version';
+
+export function toMenuVersionResponse(version: MenuVersion) {
+  return {
+    id: version.id,
+    name: version.name,
+    status: version.status,
+    basedOnId: version.basedOnId,
+    publishAt: version.publishAt,
+    publishedAt: version.publishedAt,
+    recipes: version.recipes.map(toMenuVersionRecipeResponse),
+    createdBy: version.createdBy,
+    createdAt: version.createdAt,
+  };
+}
+
+export function toMenuVersionRecipeResponse(entry: MenuVersionRecipe) {
+  return {
+    versionId: entry.id,
+    recipeId: entry.recipe.id,
+    name: entry.recipe.name,
+    description: entry.recipe.description,
+    basePrice: entry.recipe.basePrice.amount,
+    currency: entry.recipe.basePrice.currency,
+    preparationTimeMinutes: entry.recipe.preparationTimeMinutes,
+    difficulty: entry.recipe.difficulty,
+    ingredients: Array.from(entry.recipe.ingredients, ([ingredientId, quantity]) => ({ ingredientId, quantity })),
+    isAvailable: entry.isAvailable,
+    availability: entry.recipe.availability,
+  };
+}
+
+export function toMenuVersionDiffResponse(diff: MenuVersionDiff) {
+  return {
+    added: diff.added.map(toMenuVersionRecipeResponse),
+    removed: diff.removed.map(toMenuVersionRecipeResponse),
+    changed: diff.changed.map(change => ({
+      recipeId: change.after.recipe.id,
+      fields: change.fields,
+      before: toMenuVersionRecipeResponse(change.before),
+      after: toMenuVersionRecipeResponse(change.after),
+    })),
+  };
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toMenuVersionResponse } from '@/app/api/admin/menu-versions/menu-version-response';
+
+// POST /api/admin/menu-versions/publish-due - Publish scheduled versions whose time has come without waiting for the scheduler
+export async function POST(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const publishDueMenuVersionsUseCase = container.getPublishDueMenuVersionsUseCase();
+
+    const result = await publishDueMenuVersionsUseCase.execute({ requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to publish menu versions');
+    }
+
+    const { published } = result.value;
+
+    return NextResponse.json({ published: published ? toMenuVersionResponse(published) : null });
+  } catch (error) {
+    console.error('Menu publishing error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toMenuVersionResponse } from '@/app/api/admin/menu-versions/menu-version-response';
+
+const CreateMenuDraftRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+// POST /api/admin/menu-versions - Start a menu draft as a copy of the live menu
+export async function POST(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = CreateMenuDraftRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const createMenuDraftUseCase = container.getCreateMenuDraftUseCase();
+
+    const result = await createMenuDraftUseCase.execute({ ...validationResult.data, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to create menu draft');
+    }
+
+    return NextResponse.json(toMenuVersionResponse(result.value.version), { status: 201 });
+  } catch (error) {
+    console.error('Menu draft creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
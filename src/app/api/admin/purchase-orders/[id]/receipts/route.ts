@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toPurchaseOrderResponse } from '@/app/api/admin/purchase-orders/purchase-order-response';
+import { CurrencySchema, Money } from '@/domain/shared/money';
+
+const ReceivePurchaseOrderRequestSchema = z.object({
+  currency: CurrencySchema,
+  lines: z.array(z.object({
+    ingredientId: z.string().uuid(),
+    quantity: z.number().positive(),
+    // Leave out when the invoice matches the quoted cost
+    unitCost: z.number().min(0).optional(),
+  })).min(1).max(100),
+  closeShort: z.boolean().default(false),
+});
+
+// POST /api/admin/purchase-orders/:id/receipts - Record a delivery and add it to stock
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = ReceivePurchaseOrderRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const { currency, lines, closeShort } = validationResult.data;
+    const container = DIContainer.getInstance();
+    const receivePurchaseOrderUseCase = container.getReceivePurchaseOrderUseCase();
+
+    const result = await receivePurchaseOrderUseCase.execute({
+      purchaseOrderId: id,
+      lines: lines.map(line => ({
+        ingredientId: line.ingredientId,
+        quantity: line.quantity,
+        unitCost: line.unitCost !== undefined ? Money.create(line.unitCost, currency) : undefined,
+      })),
+      closeShort,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to receive purchase order');
+    }
+
+    return NextResponse.json({
+      purchaseOrder: toPurchaseOrderResponse(result.value.purchaseOrder),
+      stockLevels: result.value.stockLevels.map(level => ({
+        ingredientId: level.ingredientId,
+        onHand: level.onHand,
+        available: level.available,
+        parLevel: level.parLevel,
+      })),
+    });
+  } catch (error) {
+    console.error('Purchase order receipt error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toPurchaseOrderResponse } from '@/app/api/admin/purchase-orders/purchase-order-response';
+
+const ChangePurchaseOrderStatusRequestSchema = z.object({
+  status: z.enum(['SUBMITTED', 'CANCELLED']),
+});
+
+// POST /api/admin/purchase-orders/:id/status - Send a draft to the supplier or cancel it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = ChangePurchaseOrderStatusRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const changePurchaseOrderStatusUseCase = container.getChangePurchaseOrderStatusUseCase();
+
+    const result = await changePurchaseOrderStatusUseCase.execute({
+      purchaseOrderId: id,
+      status: validationResult.data.status,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to change purchase order status');
+    }
+
+    return NextResponse.json(toPurchaseOrderResponse(result.value.purchaseOrder));
+  } catch (error) {
+    console.error('Purchase order status change error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
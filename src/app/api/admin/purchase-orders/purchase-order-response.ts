@@ -0,0 +1,26 @@
+import { PurchaseOrder } from '@/domain/purchasing/purchase-order';
+
+export function toPurchaseOrderResponse(purchaseOrder: PurchaseOrder) {
+  return {
+    id: purchaseOrder.id,
+    supplierId: purchaseOrder.supplierId,
+    storeId: purchaseOrder.storeId,
+    status: purchaseOrder.status,
+    currency: purchaseOrder.currency,
+    expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
+    receivedAt: purchaseOrder.receivedAt,
+    notes: purchaseOrder.notes,
+    lines: purchaseOrder.lines.map(line => ({
+      id: line.id,
+      ingredientId: line.ingredientId,
+      quantity: line.quantity,
+      unitCost: line.unitCost.amount,
+      receivedQuantity: line.receivedQuantity,
+      receivedCost: line.receivedCost.amount,
+    })),
+    orderedTotal: purchaseOrder.orderedTotal.amount,
+    receivedTotal: purchaseOrder.receivedTotal.amount,
+    createdBy: purchaseOrder.createdBy,
+    createdAt: purchaseOrder.createdAt,
+  };
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toPurchaseOrderResponse } from '@/app/api/admin/purchase-orders/purchase-order-response';
+import { CurrencySchema, Money } from '@/domain/shared/money';
+
+const CreatePurchaseOrderRequestSchema = z.object({
+  supplierId: z.string().uuid(),
+  storeId: z.string().uuid(),
+  expectedDeliveryDate: z.coerce.date(),
+  currency: CurrencySchema,
+  lines: z.array(z.object({
+    ingredientId: z.string().uuid(),
+    quantity: z.number().positive(),
+    unitCost: z.number().min(0),
+  })).min(1).max(100),
+  notes: z.string().max(1000).optional(),
+  submit: z.boolean().default(false),
+});
+
+// POST /api/admin/purchase-orders - Raise a purchase order, as a draft or sent straight to the supplier
+export async function POST(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = CreatePurchaseOrderRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { currency, lines, ...data } = validationResult.data;
+    const container = DIContainer.getInstance();
+    const createPurchaseOrderUseCase = container.getCreatePurchaseOrderUseCase();
+
+    const result = await createPurchaseOrderUseCase.execute({
+      ...data,
+      lines: lines.map(line => ({
+        ingredientId: line.ingredientId,
+        quantity: line.quantity,
+        unitCost: Money.create(line.unitCost, currency),
+      })),
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to create purchase order');
+    }
+
+    return NextResponse.json(toPurchaseOrderResponse(result.value.purchaseOrder), { status: 201 });
+  } catch (error) {
+    console.error('Purchase order creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { signedAmount } from '@/app/api/admin/reports/margin-response';
+
+// GET /api/admin/reports/food-costs - Food cost and margin of every recipe on the menu in every size
+export async function GET(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const getMenuFoodCostsUseCase = container.getGetMenuFoodCostsUseCase();
+
+    const result = await getMenuFoodCostsUseCase.execute({ requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to calculate food costs');
+    }
+
+    return NextResponse.json({
+      menuItems: result.value.menuItems.map(item => ({
+        recipeId: item.recipeId,
+        recipeName: item.recipeName,
+        size: item.size,
+        currency: item.price.currency,
+        price: item.price.amount,
+        foodCost: item.foodCost.amount,
+        margin: signedAmount(item.marginMinorUnits, item.price.currency),
+        uncostedIngredientIds: item.uncostedIngredientIds,
+      })),
+    });
+  } catch (error) {
+    console.error('Food cost error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Money, type Currency } from '@/domain/shared/money';
+import type { Margin } from '@/domain/reporting/margin-report';
+
+// Money cannot go negative, so a loss is carried as signed minor units until it reaches JSON
+export function signedAmount(minorUnits: number, currency: Currency): number {
+  return Math.sign(minorUnits) * Money.fromCents(Math.abs(minorUnits), currency).amount;
+}
+
+export function toMarginResponse(margin: Margin) {
+  return {
+    revenue: margin.revenue.amount,
+    foodCost: margin.foodCost.amount,
+    margin: signedAmount(margin.marginMinorUnits, margin.revenue.currency),
+    profitMargin: margin.profitMargin,
+    isComplete: margin.isComplete,
+  };
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toMarginResponse } from '@/app/api/admin/reports/margin-response';
+import { CurrencySchema } from '@/domain/shared/money';
+
+const MarginReportQuerySchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  currency: CurrencySchema.default('USD'),
+});
+
+// GET /api/admin/reports/margins?startDate=&endDate=&currency= - Margins of delivered orders by recipe, order and day
+export async function GET(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = MarginReportQuerySchema.safeParse({
+      startDate: searchParams.get('startDate') ?? undefined,
+      endDate: searchParams.get('endDate') ?? undefined,
+      currency: searchParams.get('currency') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const getMarginReportUseCase = container.getGetMarginReportUseCase();
+
+    const result = await getMarginReportUseCase.execute({
+      ...validationResult.data,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to build margin report');
+    }
+
+    const report = result.value;
+    return NextResponse.json({
+      currency: report.currency,
+      totals: toMarginResponse(report.totals),
+      byRecipe: report.byRecipe.map(recipe => ({
+        recipeId: recipe.recipeId,
+        recipeName: recipe.recipeName,
+        pizzasSold: recipe.pizzasSold,
+        ...toMarginResponse(recipe),
+      })),
+      byOrder: report.byOrder.map(order => ({
+        orderId: order.orderId,
+        orderNumber: order.orderNumber,
+        placedAt: order.placedAt,
+        ...toMarginResponse(order),
+      })),
+      byDay: report.byDay.map(day => ({
+        date: day.date,
+        orderCount: day.orderCount,
+        ...toMarginResponse(day),
+      })),
+    });
+  } catch (error) {
+    console.error('Margin report error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
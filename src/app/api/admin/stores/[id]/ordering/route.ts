@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toAdminStoreResponse } from '@/app/api/stores/store-response';
+
+const PauseStoreOrderingRequestSchema = z.object({
+  paused: z.boolean(),
+  reason: z.string().max(200).optional(),
+});
+
+// PUT /api/admin/stores/:id/ordering - Pause new orders at a store in an emergency, or take them again
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = PauseStoreOrderingRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const pauseStoreOrderingUseCase = container.getPauseStoreOrderingUseCase();
+
+    const result = await pauseStoreOrderingUseCase.execute({
+      ...validationResult.data,
+      storeId: id,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to change store ordering');
+    }
+
+    return NextResponse.json(toAdminStoreResponse(result.value.store));
+  } catch (error) {
+    console.error('Store ordering switch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { StoreRequestSchema, toStoreProps } from '@/app/api/admin/stores/store-request-schema';
+import { toAdminStoreResponse } from '@/app/api/stores/store-response';
+
+// PUT /api/admin/stores/:id - Replace a store's details, hours, closures and menu changes
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = StoreRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const saveStoreUseCase = container.getSaveStoreUseCase();
+
+    const result = await saveStoreUseCase.execute({
+      ...toStoreProps(validationResult.data),
+      storeId: id,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to update store');
+    }
+
+    return NextResponse.json(toAdminStoreResponse(result.value.store));
+  } catch (error) {
+    console.error('Store update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { StoreRequestSchema, toStoreProps } from '@/app/api/admin/stores/store-request-schema';
+import { toAdminStoreResponse } from '@/app/api/stores/store-response';
+
+// POST /api/admin/stores - Open a new store
+export async function POST(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = StoreRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const saveStoreUseCase = container.getSaveStoreUseCase();
+
+    const result = await saveStoreUseCase.execute({
+      ...toStoreProps(validationResult.data),
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to create store');
+    }
+
+    return NextResponse.json(toAdminStoreResponse(result.value.store), { status: 201 });
+  } catch (error) {
+    console.error('Store creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
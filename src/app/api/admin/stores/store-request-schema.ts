@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { CurrencySchema, Money } from '@/domain/shared/money';
+import { AvailabilityWindowSchema, LocalDateSchema, TimeZoneSchema } from '@/domain/menu/availability-schedule';
+import { DEFAULT_ORDER_NUMBER_PREFIX, ORDER_NUMBER_PREFIX_PATTERN } from '@/domain/order/order-number';
+import { AddressSchema } from '@/app/api/address-schema';
+
+// A store as admins write it; saving replaces everything, so omitted lists are cleared
+export const StoreRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  address: AddressSchema,
+  timeZone: TimeZoneSchema,
+  currency: CurrencySchema,
+  orderNumberPrefix: z.string().regex(ORDER_NUMBER_PREFIX_PATTERN, 'Must be 2-8 uppercase letters').default(DEFAULT_ORDER_NUMBER_PREFIX),
+  openingHours: z.array(AvailabilityWindowSchema).max(20).default([]),
+  holidayClosures: z.array(LocalDateSchema).max(100).default([]),
+  excludedItemIds: z.array(z.string().uuid()).default([]),
+  // In the store's currency
+  priceOverrides: z.array(z.object({
+    itemId: z.string().uuid(),
+    price: z.number().positive(),
+  })).default([]),
+  isActive: z.boolean().default(true),
+});
+
+export function toStoreProps({ priceOverrides, ...store }: z.infer<typeof StoreRequestSchema>) {
+  return {
+    ...store,
+    priceOverrides: new Map(priceOverrides.map(override => [override.itemId, Money.create(override.price, store.currency)])),
+  };
+}
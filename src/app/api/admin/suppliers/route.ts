@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+
+const CreateSupplierRequestSchema = z.object({
+  name: z.string().min(1).max(200),
+  email: z.string().email().optional(),
+  phone: z.string().max(20).optional(),
+  leadTimeDays: z.number().int().min(0).max(90),
+});
+
+// POST /api/admin/suppliers - Add a supplier purchase orders can be raised with
+export async function POST(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = CreateSupplierRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const createSupplierUseCase = container.getCreateSupplierUseCase();
+
+    const result = await createSupplierUseCase.execute({
+      ...validationResult.data,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to create supplier');
+    }
+
+    const { supplier } = result.value;
+    return NextResponse.json(
+      {
+        id: supplier.id,
+        name: supplier.name,
+        email: supplier.email,
+        phone: supplier.phone,
+        leadTimeDays: supplier.leadTimeDays,
+        isActive: supplier.isActive,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Supplier creation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
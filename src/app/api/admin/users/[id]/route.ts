@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+
+const UpdateUserRequestSchema = z.object({
+  taxExempt: z.boolean(),
+});
+
+// PATCH /api/admin/users/:id - Mark a customer as tax exempt, or clear it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateUserRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const setTaxExemptUseCase = container.getSetTaxExemptUseCase();
+
+    const result = await setTaxExemptUseCase.execute({
+      userId: id,
+      taxExempt: validationResult.data.taxExempt,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to update user');
+    }
+
+    const { user } = result.value;
+    return NextResponse.json({
+      id: user.id,
+      role: user.role,
+      taxExempt: user.taxExempt,
+    });
+  } catch (error) {
+    console.error('User update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+
+const AssignStaffStoresRequestSchema = z.object({
+  storeIds: z.array(z.string().uuid()).max(100),
+});
+
+// PUT /api/admin/users/:id/stores - Set the stores a staff member or manager may operate
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = AssignStaffStoresRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const assignStaffStoresUseCase = container.getAssignStaffStoresUseCase();
+
+    const result = await assignStaffStoresUseCase.execute({
+      userId: id,
+      storeIds: validationResult.data.storeIds,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to assign stores');
+    }
+
+    const { user } = result.value;
+    return NextResponse.json({
+      id: user.id,
+      role: user.role,
+      storeIds: user.storeIds,
+    });
+  } catch (error) {
+    console.error('Store assignment error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { isCronRequest } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toMenuVersionResponse } from '@/app/api/admin/menu-versions/menu-version-response';
+
+// GET /api/cron/publish-menu-versions - Publish scheduled versions whose time has come; run every few minutes by the scheduler
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const publishDueMenuVersionsUseCase = container.getPublishDueMenuVersionsUseCase();
+
+    const result = await publishDueMenuVersionsUseCase.execute({});
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to publish menu versions');
+    }
+
+    const { published } = result.value;
+
+    return NextResponse.json({ published: published ? toMenuVersionResponse(published) : null });
+  } catch (error) {
+    console.error('Scheduled menu publishing error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
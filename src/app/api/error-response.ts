@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+
+const STATUS_BY_CODE: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  PAYMENT_DECLINED: 402,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  ALREADY_EXISTS: 409,
+  BUSINESS_RULE_VIOLATION: 422,
+};
+
+// Maps DomainError codes to HTTP statuses; anything else is logged and reported as a 500
+export function toErrorResponse(error: Error, fallbackMessage: string): NextResponse {
+  const code = 'code' in error && typeof error.code === 'string' ? error.code : undefined;
+  const status = code ? STATUS_BY_CODE[code] : undefined;
+
+  if (status) {
+    return NextResponse.json(
+      { error: error.message, code },
+      { status }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
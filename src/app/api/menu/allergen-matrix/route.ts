@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { toErrorResponse } from '@/app/api/error-response';
+import type { AllergenMatrix } from '@/domain/menu/pizza-composition';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Printable notice for the counter
+function toHtml(matrix: AllergenMatrix): string {
+  const header = ['Pizza', ...matrix.allergens, 'Vegetarian', 'Vegan', 'Gluten free']
+    .map(title => `<th>${escapeHtml(title)}</th>`)
+    .join('');
+  const mark = (value: boolean) => `<td>${value ? '&#10003;' : ''}</td>`;
+  const rows = matrix.rows.map(row => '<tr>' +
+    `<td>${escapeHtml(row.recipeName)}</td>` +
+    matrix.allergens.map(allergen => mark(row.allergens.includes(allergen))).join('') +
+    mark(row.isVegetarian) + mark(row.isVegan) + mark(row.isGlutenFree) +
+    '</tr>').join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Allergen information</title>
+<style>
+table { border-collapse: collapse; font-family: sans-serif; font-size: 12px; }
+th, td { border: 1px solid #000; padding: 4px; text-align: center; }
+td:first-child { text-align: left; }
+</style>
+</head>
+<body>
+<h1>Allergen information</h1>
+<table>
+<thead><tr>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>`;
+}
+
+// GET /api/menu/allergen-matrix?format=html - Allergens of every pizza on the menu, as JSON or a printable page
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const container = DIContainer.getInstance();
+    const getAllergenMatrixUseCase = container.getGetAllergenMatrixUseCase();
+
+    const result = await getAllergenMatrixUseCase.execute();
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to build allergen matrix');
+    }
+
+    if (searchParams.get('format') === 'html') {
+      return new NextResponse(toHtml(result.value), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error('Allergen matrix error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
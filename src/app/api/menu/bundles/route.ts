@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/infrastructure/database/connection';
+import { bundles } from '@/infrastructure/database/schema';
+import { AvailabilityScheduleSchema, isAvailableAt } from '@/domain/menu/availability-schedule';
+import { findMenuStore, parseMenuTimeQuery } from '@/app/api/menu/menu-time-query';
+import { toErrorResponse } from '@/app/api/error-response';
+import { eq } from 'drizzle-orm';
+
+// GET /api/menu/bundles?at=&storeId= - Get the deals on sale at a time (default now) with their choice groups
+export async function GET(request: NextRequest) {
+  try {
+    const timeQuery = parseMenuTimeQuery(new URL(request.url).searchParams);
+
+    if (!timeQuery.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: timeQuery.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rows = await db
+      .select({
+        id: bundles.id,
+        name: bundles.name,
+        description: bundles.description,
+        priceCents: bundles.priceCents,
+        currency: bundles.currency,
+        choiceGroups: bundles.choiceGroups,
+        availability: bundles.availability,
+      })
+      .from(bundles)
+      .where(eq(bundles.isAvailable, true));
+
+    const storeResult = await findMenuStore(timeQuery.data.storeId);
+    if (storeResult.isErr()) {
+      return toErrorResponse(storeResult.error, 'Failed to fetch bundles');
+    }
+    const store = storeResult.value;
+
+    const at = timeQuery.data.at || new Date();
+    const timeZone = store?.timeZone || 'UTC';
+    const onSale = rows.filter(row =>
+      (!store || store.offers(row.id)) &&
+      isAvailableAt(row.availability && AvailabilityScheduleSchema.parse(row.availability), at, timeZone)
+    );
+
+    return NextResponse.json({
+      bundles: onSale.map(({ priceCents, currency, ...bundle }) => {
+        const storePrice = store?.priceOverrideFor(bundle.id);
+        return storePrice
+          ? { ...bundle, currency: storePrice.currency, price: storePrice.toCents() / 100 }
+          : { ...bundle, currency, price: priceCents / 100 };
+      }),
+      total: onSale.length,
+    });
+  } catch (error) {
+    console.error('Error fetching bundles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bundles' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import type { Store } from '@/domain/store/store';
+import { Ok, type NotFoundError, type Result } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+// ?at=&storeId= on the menu endpoints: what is on sale at that time in the store's time zone
+export const MenuTimeQuerySchema = z.object({
+  at: z.coerce.date().optional(),
+  storeId: z.string().uuid().optional(),
+});
+
+export function parseMenuTimeQuery(searchParams: URLSearchParams) {
+  return MenuTimeQuerySchema.safeParse({
+    at: searchParams.get('at') ?? undefined,
+    storeId: searchParams.get('storeId') ?? undefined,
+  });
+}
+
+// The store whose menu is asked for; without one the shared menu is read in UTC
+export async function findMenuStore(storeId: ID | undefined): Promise<Result<Store | null, NotFoundError | Error>> {
+  return storeId ? DIContainer.getInstance().getStoreRepository().findById(storeId) : Ok(null);
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { PizzaSizeSchema, PizzaCrustSchema } from '@/domain/menu/pizza';
+import { toErrorResponse } from '@/app/api/error-response';
+import { IngredientModifierSchema, PizzaSectionSchema } from '@/app/api/orders/pizza-request-schema';
+
+const DescribePizzaSchema = z.object({
+  recipeId: z.string().uuid().optional(),
+  sections: z.array(PizzaSectionSchema).min(1).max(4).optional(),
+  size: PizzaSizeSchema,
+  crust: PizzaCrustSchema,
+  modifiers: z.array(IngredientModifierSchema).max(20).optional(),
+}).refine(pizza => Boolean(pizza.recipeId) !== Boolean(pizza.sections), {
+  message: 'Give either a recipe or sections',
+  path: ['recipeId'],
+});
+
+// POST /api/menu/pizzas/nutrition - Allergens, dietary flags and nutrition of a customised pizza
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = DescribePizzaSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const describePizzaUseCase = container.getDescribePizzaUseCase();
+
+    const result = await describePizzaUseCase.execute(validationResult.data);
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to describe pizza');
+    }
+
+    return NextResponse.json({
+      ...result.value.dietary,
+      nutrition: result.value.nutrition,
+      isNutritionComplete: result.value.isNutritionComplete,
+    });
+  } catch (error) {
+    console.error('Pizza nutrition error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import type { PizzaMenuEntry } from '@/application/use-cases/menu/get-pizza-menu';
+
+export function toPizzaMenuResponse({ recipe, ingredients, dietary, sizes }: PizzaMenuEntry) {
+  return {
+    id: recipe.id,
+    versionId: recipe.versionId,
+    name: recipe.name,
+    description: recipe.description,
+    basePrice: recipe.basePrice.amount,
+    currency: recipe.basePrice.currency,
+    preparationTimeMinutes: recipe.preparationTimeMinutes,
+    difficulty: recipe.difficulty,
+    availability: recipe.availability,
+    ...dietary,
+    ingredients: ingredients
+      .filter(({ ingredient }) => ingredient.isAvailable)
+      .map(({ ingredient, quantity }) => ({
+        ingredientId: ingredient.id,
+        quantity,
+        ingredient: {
+          id: ingredient.id,
+          name: ingredient.name,
+          category: ingredient.category,
+          pricePerUnit: ingredient.pricePerUnit.amount,
+          currency: ingredient.pricePerUnit.currency,
+          allergens: ingredient.allergens,
+        },
+      })),
+    sizes: sizes.map(size => ({
+      size: size.size,
+      price: size.price.amount,
+      nutrition: size.nutrition,
+      isNutritionComplete: size.isNutritionComplete,
+    })),
+  };
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/infrastructure/database/connection';
+import { products } from '@/infrastructure/database/schema';
+import { ProductCategorySchema } from '@/domain/menu/product';
+import { AvailabilityScheduleSchema, isAvailableAt } from '@/domain/menu/availability-schedule';
+import { findMenuStore, parseMenuTimeQuery } from '@/app/api/menu/menu-time-query';
+import { toErrorResponse } from '@/app/api/error-response';
+import { eq, and } from 'drizzle-orm';
+
+// GET /api/menu/products?category=&at=&storeId= - Get the sides, drinks and desserts on sale at a time (default now)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const category = ProductCategorySchema.safeParse(searchParams.get('category'));
+    const timeQuery = parseMenuTimeQuery(searchParams);
+
+    if (!timeQuery.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: timeQuery.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const conditions = [eq(products.isAvailable, true)];
+    if (category.success) conditions.push(eq(products.category, category.data));
+
+    const rows = await db
+      .select({
+        id: products.id,
+        name: products.name,
+        description: products.description,
+        category: products.category,
+        priceCents: products.priceCents,
+        currency: products.currency,
+        availability: products.availability,
+      })
+      .from(products)
+      .where(and(...conditions));
+
+    const storeResult = await findMenuStore(timeQuery.data.storeId);
+    if (storeResult.isErr()) {
+      return toErrorResponse(storeResult.error, 'Failed to fetch products');
+    }
+    const store = storeResult.value;
+
+    const at = timeQuery.data.at || new Date();
+    const timeZone = store?.timeZone || 'UTC';
+    const onSale = rows.filter(row =>
+      (!store || store.offers(row.id)) &&
+      isAvailableAt(row.availability && AvailabilityScheduleSchema.parse(row.availability), at, timeZone)
+    );
+
+    return NextResponse.json({
+      products: onSale.map(({ priceCents, currency, ...product }) => {
+        const storePrice = store?.priceOverrideFor(product.id);
+        return storePrice
+          ? { ...product, currency: storePrice.currency, price: storePrice.toCents() / 100 }
+          : { ...product, currency, price: priceCents / 100 };
+      }),
+      total: onSale.length,
+    });
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch products' },
+      { status: 500 }
+    );
+  }
+}
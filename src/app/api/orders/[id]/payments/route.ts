@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toOrderResponse } from '@/app/api/orders/order-response';
+
+const PayOrderRequestSchema = z.object({
+  card: z.object({
+    number: z.string().regex(/^[\d ]{12,23}$/, 'Invalid card number'),
+    expiryMonth: z.number().int().min(1).max(12),
+    expiryYear: z.number().int().min(2000),
+    cvc: z.string().regex(/^\d{3,4}$/, 'Invalid CVC'),
+  }).optional(),
+  giftCardCode: z.string().min(1).max(32).optional(),
+}).refine(data => data.card || data.giftCardCode, {
+  message: 'A card or gift card is required',
+  path: ['card'],
+});
+
+// POST /api/orders/:id/payments - Charge the order total to a gift card, a card, or both
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = PayOrderRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const payOrderUseCase = container.getPayOrderUseCase();
+
+    const result = await payOrderUseCase.execute({
+      orderId: id,
+      card: validationResult.data.card,
+      giftCardCode: validationResult.data.giftCardCode,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to process payment');
+    }
+
+    const { order, payments } = result.value;
+
+    return NextResponse.json(
+      {
+        payments: payments.map(payment => ({
+          id: payment.id,
+          status: payment.status,
+          amount: payment.amount.amount,
+          currency: payment.amount.currency,
+          provider: payment.provider,
+          cardLast4: payment.cardLast4,
+        })),
+        order: toOrderResponse(order),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Order payment error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
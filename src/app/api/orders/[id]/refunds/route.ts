@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toOrderResponse } from '@/app/api/orders/order-response';
+
+const RefundOrderRequestSchema = z.object({
+  orderItemIds: z.array(z.string().uuid()).optional(),
+  reason: z.string().min(1, 'Refund reason is required').max(500),
+});
+
+// POST /api/orders/:id/refunds - Refund the whole order or specific lines
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = RefundOrderRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const refundOrderUseCase = container.getRefundOrderUseCase();
+
+    const result = await refundOrderUseCase.execute({
+      orderId: id,
+      ...validationResult.data,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to refund order');
+    }
+
+    const { order, refunds } = result.value;
+
+    return NextResponse.json(
+      {
+        refunds: refunds.map(refund => ({
+          id: refund.id,
+          paymentId: refund.paymentId,
+          amount: refund.amount.amount,
+          currency: refund.amount.currency,
+          orderItemIds: refund.orderItemIds,
+          reason: refund.reason,
+        })),
+        order: toOrderResponse(order),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Order refund error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
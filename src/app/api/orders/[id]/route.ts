@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toOrderResponse } from '@/app/api/orders/order-response';
+
+// GET /api/orders/:id - Get a single order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const getOrderUseCase = container.getGetOrderUseCase();
+
+    const result = await getOrderUseCase.execute({ orderId: id, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to load order');
+    }
+
+    return NextResponse.json({ order: toOrderResponse(result.value.order) });
+  } catch (error) {
+    console.error('Order fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { OrderStatusSchema } from '@/domain/order/order';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toOrderResponse } from '@/app/api/orders/order-response';
+
+const ChangeOrderStatusRequestSchema = z.object({
+  status: OrderStatusSchema,
+  reason: z.string().max(500).optional(),
+});
+
+// POST /api/orders/:id/status - Move an order to its next status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = ChangeOrderStatusRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const changeOrderStatusUseCase = container.getChangeOrderStatusUseCase();
+
+    const result = await changeOrderStatusUseCase.execute({
+      orderId: id,
+      ...validationResult.data,
+      requester,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to change order status');
+    }
+
+    return NextResponse.json({ order: toOrderResponse(result.value.order) });
+  } catch (error) {
+    console.error('Order status change error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+
+const toSeconds = (ms: number | null) => (ms === null ? null : Math.round(ms / 1000));
+
+// GET /api/orders/:id/timeline - Status history with time spent in each stage
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const getOrderTimelineUseCase = container.getGetOrderTimelineUseCase();
+
+    const result = await getOrderTimelineUseCase.execute({ orderId: id, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to load order timeline');
+    }
+
+    const { order, timeline } = result.value;
+
+    return NextResponse.json({
+      orderId: order.id,
+      orderNumber: order.orderNumber.value,
+      currentStatus: order.status,
+      stages: timeline.stages.map(stage => ({
+        status: stage.status,
+        enteredAt: stage.enteredAt.toISOString(),
+        exitedAt: stage.exitedAt ? stage.exitedAt.toISOString() : null,
+        durationSeconds: toSeconds(stage.durationMs),
+        actorId: stage.actorId,
+        reason: stage.reason,
+      })),
+      totalDurationSeconds: toSeconds(timeline.totalDurationMs),
+    });
+  } catch (error) {
+    console.error('Order timeline error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
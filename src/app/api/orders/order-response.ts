@@ -0,0 +1,105 @@
+import { Order, type OrderItem } from '@/domain/order/order';
+import type { Pizza } from '@/domain/menu/pizza';
+
+export function toOrderResponse(order: Order) {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber.value,
+    customerId: order.customerId,
+    storeId: order.storeId,
+    status: order.status,
+    allowedTransitions: order.getAllowedTransitions(),
+    paymentStatus: order.paymentStatus,
+    deliveryType: order.deliveryType,
+    deliveryAddress: order.deliveryAddress,
+    deliveryZoneId: order.deliveryZoneId,
+    specialInstructions: order.specialInstructions,
+    requestedDeliveryTime: order.requestedDeliveryTime,
+    estimatedDeliveryTime: order.estimatedDeliveryTime,
+    items: order.items.map(toOrderItemResponse),
+    totalAmount: order.totalAmount.amount,
+    discounts: order.discounts.map(discount => ({
+      code: discount.code,
+      description: discount.description,
+      appliesTo: discount.appliesTo,
+      amount: discount.amount.amount,
+    })),
+    discountTotal: order.discountTotal.amount,
+    tax: order.tax.amount,
+    taxLines: order.taxLines.map(line => ({
+      orderItemId: line.lineId,
+      category: line.category,
+      ruleName: line.ruleName,
+      rate: line.rate,
+      inclusive: line.inclusive,
+      net: line.net.amount,
+      tax: line.tax.amount,
+    })),
+    deliveryFee: order.deliveryFee.amount,
+    grandTotal: order.grandTotal.amount,
+    refundedAmount: order.refundedAmount.amount,
+    refunds: order.refunds.map(refund => ({
+      id: refund.id,
+      amount: refund.amount.amount,
+      orderItemIds: refund.orderItemIds,
+      reason: refund.reason,
+      status: refund.status,
+      actorId: refund.actorId,
+      createdAt: refund.createdAt,
+    })),
+    currency: order.currency,
+    formattedGrandTotal: order.grandTotal.toString(),
+    exchangeRates: order.exchangeRates,
+    createdAt: order.createdAt,
+  };
+}
+
+function toOrderItemResponse(item: OrderItem) {
+  const line = {
+    id: item.id,
+    type: item.type,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice.amount,
+    totalPrice: item.totalPrice.amount,
+  };
+
+  if (item.type === 'PRODUCT') {
+    return { ...line, product: item.product };
+  }
+
+  if (item.type === 'BUNDLE') {
+    return {
+      ...line,
+      bundleId: item.bundle.bundleId,
+      name: item.bundle.name,
+      components: item.bundle.components.map(component => ({
+        groupId: component.groupId,
+        kind: component.kind,
+        pizza: component.pizza ? toPizzaResponse(component.pizza) : null,
+        product: component.product,
+        allocatedPrice: component.allocatedPrice.amount,
+      })),
+    };
+  }
+
+  return {
+    ...line,
+    ...toPizzaResponse(item.pizza),
+    dietary: item.dietary || null,
+    recipeVersionIds: item.recipeVersionIds || [],
+  };
+}
+
+function toPizzaResponse(pizza: Pizza) {
+  return {
+    recipeId: pizza.recipeId,
+    size: pizza.size,
+    crust: pizza.crust,
+    customIngredients: Object.fromEntries(pizza.customIngredients),
+    sections: pizza.sections.map(section => ({
+      position: section.position,
+      recipeId: section.recipeId,
+      modifiers: section.modifiers,
+    })),
+  };
+}
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { PizzaSectionPositionSchema, IngredientModifierTypeSchema } from '@/domain/menu/pizza';
+
+// How a pizza is described in a request body, shared by ordering and the menu's nutrition lookup
+export const IngredientModifierSchema = z.object({
+  type: IngredientModifierTypeSchema,
+  ingredientId: z.string().uuid(),
+  quantity: z.number().int().positive().optional(),
+  replacementId: z.string().uuid().optional(),
+}).refine(modifier => modifier.type !== 'SUBSTITUTE' || modifier.replacementId, {
+  message: 'Substitutions need a replacementId',
+  path: ['replacementId'],
+});
+
+export const PizzaSectionSchema = z.object({
+  position: PizzaSectionPositionSchema,
+  recipeId: z.string().uuid(),
+  modifiers: z.array(IngredientModifierSchema).max(20).optional(),
+});
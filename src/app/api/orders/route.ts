@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { DeliveryTypeSchema } from '@/domain/order/order';
+import { PizzaSizeSchema, PizzaCrustSchema } from '@/domain/menu/pizza';
+import { CurrencySchema } from '@/domain/shared/money';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toOrderResponse } from '@/app/api/orders/order-response';
+import { IngredientModifierSchema, PizzaSectionSchema } from '@/app/api/orders/pizza-request-schema';
+import { AddressSchema } from '@/app/api/address-schema';
+
+const BundleSelectionSchema = z.object({
+  groupId: z.string().min(1).max(50),
+  recipeId: z.string().uuid().optional(),
+  crust: PizzaCrustSchema.optional(),
+  productId: z.string().uuid().optional(),
+}).refine(selection => Boolean(selection.recipeId) !== Boolean(selection.productId), {
+  message: 'Each selection needs either a recipeId or a productId',
+  path: ['recipeId'],
+}).refine(selection => !selection.recipeId || selection.crust, {
+  message: 'Bundle pizzas need a crust',
+  path: ['crust'],
+});
+
+const PlaceOrderRequestSchema = z.object({
+  customerInfo: z.object({
+    name: z.string().min(1, 'Customer name is required'),
+    phone: z.string().min(10, 'Phone number must be at least 10 characters'),
+    email: z.string().email('Invalid email format').optional(),
+  }),
+  items: z.array(z.object({
+    recipeId: z.string().uuid().optional(),
+    sections: z.array(PizzaSectionSchema).min(1).max(4).optional(),
+    productId: z.string().uuid().optional(),
+    bundleId: z.string().uuid().optional(),
+    size: PizzaSizeSchema.optional(),
+    crust: PizzaCrustSchema.optional(),
+    quantity: z.number().int().positive('Quantity must be positive'),
+    customIngredients: z.record(z.string().uuid(), z.number().int().positive()).optional(),
+    modifiers: z.array(IngredientModifierSchema).max(20).optional(),
+    selections: z.array(BundleSelectionSchema).min(1).max(20).optional(),
+    specialInstructions: z.string().max(500).optional(),
+  }).refine(item => [item.recipeId || item.sections, item.productId, item.bundleId].filter(Boolean).length === 1, {
+    message: 'Each item needs exactly one of a recipe or sections, a product or a bundle',
+    path: ['recipeId'],
+  }).refine(item => !(item.recipeId || item.sections) || (item.size && item.crust), {
+    message: 'Pizzas need a size and crust',
+    path: ['size'],
+  }).refine(item => !item.bundleId || item.selections, {
+    message: 'Bundles need selections',
+    path: ['selections'],
+  })).min(1, 'Order must contain at least one item'),
+  deliveryType: DeliveryTypeSchema,
+  deliveryAddress: AddressSchema.optional(),
+  specialInstructions: z.string().max(1000).optional(),
+  requestedDeliveryTime: z.coerce.date().optional(),
+  currency: CurrencySchema.optional(),
+  promoCodes: z.array(z.string().min(1).max(50)).max(5).optional(),
+  loyaltyPointsToRedeem: z.number().int().positive().optional(),
+  storeId: z.string().uuid().optional(),
+});
+
+// GET /api/orders?orderNumber=DP-20261019-0042 - Look up an order by its number
+export async function GET(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const orderNumber = searchParams.get('orderNumber');
+
+    if (!orderNumber) {
+      return NextResponse.json(
+        { error: 'orderNumber query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const getOrderUseCase = container.getGetOrderUseCase();
+
+    const result = await getOrderUseCase.execute({ orderNumber, requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to load order');
+    }
+
+    return NextResponse.json({ order: toOrderResponse(result.value.order) });
+  } catch (error) {
+    console.error('Order lookup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/orders - Place a new order
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = PlaceOrderRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const placeOrderUseCase = container.getPlaceOrderUseCase();
+
+    const result = await placeOrderUseCase.execute({
+      ...validationResult.data,
+      customerId: getRequester(request)?.userId,
+    });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to place order');
+    }
+
+    const { order } = result.value;
+
+    return NextResponse.json(
+      {
+        message: 'Order placed successfully',
+        order: toOrderResponse(order),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Order placement error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
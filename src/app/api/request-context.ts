@@ -0,0 +1,31 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextRequest } from 'next/server';
+import { UserRoleSchema } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+
+// Reads the user headers set by the auth middleware
+export function getRequester(request: NextRequest): Requester | null {
+  const userId = request.headers.get('x-user-id');
+  const role = UserRoleSchema.safeParse(request.headers.get('x-user-role'));
+
+  if (!userId || !role.success) {
+    return null;
+  }
+
+  const storeIds = request.headers.get('x-user-store-ids');
+
+  return { userId, role: role.data, storeIds: storeIds ? storeIds.split(',') : [] };
+}
+
+// Scheduler calls carry CRON_SECRET as a bearer token; without a configured secret none are accepted.
+// Compared in constant time so response timing gives nothing away about the secret.
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(request.headers.get('authorization') || '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
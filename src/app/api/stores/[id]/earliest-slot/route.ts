@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { toErrorResponse } from '@/app/api/error-response';
+
+// GET /api/stores/:id/earliest-slot - Whether the store is taking orders and the first time a pickup could be ready
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const container = DIContainer.getInstance();
+    const getEarliestSlotUseCase = container.getGetEarliestSlotUseCase();
+
+    const result = await getEarliestSlotUseCase.execute({ storeId: id });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to find a slot');
+    }
+
+    const { store, isOpen, earliestSlot } = result.value;
+    return NextResponse.json({
+      storeId: store.id,
+      timeZone: store.timeZone,
+      isOpen,
+      orderingPaused: store.orderingPause !== null,
+      pauseReason: store.orderingPause?.reason ?? null,
+      earliestSlot,
+    });
+  } catch (error) {
+    console.error('Earliest slot lookup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { DIContainer } from '@/infrastructure/di/container';
+import { toErrorResponse } from '@/app/api/error-response';
+import { AddressSchema } from '@/app/api/address-schema';
+import { toStoreResponse } from '@/app/api/stores/store-response';
+
+const FindStoreForAddressRequestSchema = z.object({
+  address: AddressSchema,
+});
+
+// POST /api/stores/for-address - The store that would deliver to an address
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = FindStoreForAddressRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const findStoreForAddressUseCase = container.getFindStoreForAddressUseCase();
+
+    const result = await findStoreForAddressUseCase.execute(validationResult.data);
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to find a store');
+    }
+
+    return NextResponse.json(toStoreResponse(result.value.store));
+  } catch (error) {
+    console.error('Store lookup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
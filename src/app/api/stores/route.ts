@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { toErrorResponse } from '@/app/api/error-response';
+import { toStoreResponse } from '@/app/api/stores/store-response';
+
+// GET /api/stores - The stores customers can order from
+export async function GET() {
+  try {
+    const container = DIContainer.getInstance();
+    const listStoresUseCase = container.getListStoresUseCase();
+
+    const result = await listStoresUseCase.execute();
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to fetch stores');
+    }
+
+    return NextResponse.json({
+      stores: result.value.stores.map(toStoreResponse),
+      total: result.value.stores.length,
+    });
+  } catch (error) {
+    console.error('Error fetching stores:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stores' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { Store } from '@/domain/store/store';
+
+export function toStoreResponse(store: Store) {
+  return {
+    id: store.id,
+    name: store.name,
+    address: store.address,
+    timeZone: store.timeZone,
+    currency: store.currency,
+    openingHours: store.openingHours,
+    holidayClosures: store.holidayClosures,
+    isActive: store.isActive,
+    orderingPaused: store.orderingPause !== null,
+  };
+}
+
+// What managers see on top: what the store leaves off the menu and its own prices
+export function toAdminStoreResponse(store: Store) {
+  return {
+    ...toStoreResponse(store),
+    orderNumberPrefix: store.orderNumberPrefix,
+    excludedItemIds: store.excludedItemIds,
+    priceOverrides: Array.from(store.priceOverrides, ([itemId, price]) => ({ itemId, price: price.amount })),
+    orderingPause: store.orderingPause,
+    unavailableIngredientIds: store.unavailableIngredientIds,
+    createdAt: store.createdAt,
+    updatedAt: store.updatedAt,
+  };
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIContainer } from '@/infrastructure/di/container';
+import { getRequester } from '@/app/api/request-context';
+import { toErrorResponse } from '@/app/api/error-response';
+
+// GET /api/user/loyalty - Points balance, tier and ledger history for the signed-in customer
+export async function GET(request: NextRequest) {
+  try {
+    const requester = getRequester(request);
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const container = DIContainer.getInstance();
+    const getLoyaltyAccountUseCase = container.getGetLoyaltyAccountUseCase();
+
+    const result = await getLoyaltyAccountUseCase.execute({ requester });
+
+    if (result.isErr()) {
+      return toErrorResponse(result.error, 'Failed to load loyalty account');
+    }
+
+    const { balance, tier, qualifyingPoints, entries } = result.value;
+
+    return NextResponse.json({
+      balance,
+      tier,
+      qualifyingPoints,
+      entries: entries.map(entry => ({
+        id: entry.id,
+        orderId: entry.orderId,
+        type: entry.type,
+        points: entry.points,
+        description: entry.description,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Loyalty account error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import type { UserRole } from '@/domain/user/user';
+import type { ID } from '@/domain/shared/types';
+
+// The authenticated user on whose behalf a use case runs
+export interface Requester {
+  userId: ID;
+  role: UserRole;
+  // Stores the user may operate, from their token
+  storeIds?: ID[];
+}
+
+// Admins operate every store; other staff only the stores they are assigned to
+export function canOperateStore(requester: Requester, storeId: ID): boolean {
+  return requester.role === 'ADMIN' || (requester.storeIds || []).includes(storeId);
+}
@@ -0,0 +1,34 @@
+import { Result, Err, ConflictError, type BusinessRuleViolationError, type NotFoundError } from '@/domain/shared/result';
+import type { Order } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+
+const MAX_ATTEMPTS = 3;
+
+// Saves a change that must not be lost to another save of the order, such as the outcome of money
+// that has already moved: on a conflict the change is applied again to a fresh copy and saved again.
+// The change should only touch state this request owns.
+export async function saveOrderChange(
+  orderRepository: OrderRepository,
+  order: Order,
+  apply: (current: Order) => Result<void, BusinessRuleViolationError>
+): Promise<Result<Order, ConflictError | BusinessRuleViolationError | NotFoundError | Error>> {
+  let current = order;
+  for (let attempt = 1; ; attempt++) {
+    const applyResult = apply(current);
+    if (applyResult.isErr()) {
+      return Err(applyResult.error);
+    }
+
+    const saveResult = await orderRepository.save(current);
+    if (saveResult.isOk() || !(saveResult.error instanceof ConflictError) || attempt === MAX_ATTEMPTS) {
+      return saveResult;
+    }
+
+    const reloadResult = await orderRepository.findById(order.id);
+    if (reloadResult.isErr()) {
+      return Err(reloadResult.error);
+    }
+
+    current = reloadResult.value;
+  }
+}
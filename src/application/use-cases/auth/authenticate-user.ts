@@ -68,6 +68,7 @@ export class AuthenticateUserUseCase {
       userId: user.id,
       email: user.email,
       role: user.role,
+      storeIds: user.storeIds,
     })
       .setProtectedHeader({ alg: 'HS256' })
       .setIssuedAt()
@@ -78,6 +79,9 @@ export class AuthenticateUserUseCase {
   private async generateRefreshToken(user: User): Promise<string> {
     return await new SignJWT({
       userId: user.id,
+      email: user.email,
+      role: user.role,
+      storeIds: user.storeIds,
       type: 'refresh',
     })
       .setProtectedHeader({ alg: 'HS256' })
@@ -0,0 +1,45 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError } from '@/domain/shared/result';
+import { GiftCard, generateGiftCardCode } from '@/domain/gift-card/gift-card';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import type { Money } from '@/domain/shared/money';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface IssueGiftCardRequest {
+  initialBalance: Money;
+  expiresAt?: Date;
+  requester: Requester;
+}
+
+export interface IssueGiftCardResponse {
+  giftCard: GiftCard;
+}
+
+export class IssueGiftCardUseCase {
+  constructor(private giftCardRepository: GiftCardRepository) {}
+
+  async execute(request: IssueGiftCardRequest): Promise<Result<IssueGiftCardResponse, ValidationError | ForbiddenError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('MANAGE_SYSTEM')) {
+      return Err(new ForbiddenError('issue gift cards'));
+    }
+
+    const giftCardResult = GiftCard.issue({
+      id: crypto.randomUUID() as ID,
+      code: generateGiftCardCode(),
+      initialBalance: request.initialBalance,
+      expiresAt: request.expiresAt,
+      issuedBy: request.requester.userId,
+    });
+    if (giftCardResult.isErr()) {
+      return Err(giftCardResult.error);
+    }
+
+    const saveResult = await this.giftCardRepository.save(giftCardResult.value);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ giftCard: saveResult.value });
+  }
+}
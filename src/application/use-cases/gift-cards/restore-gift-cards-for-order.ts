@@ -0,0 +1,139 @@
+import { Result, Ok, Err, NotFoundError, ConflictError, type BusinessRuleViolationError } from '@/domain/shared/result';
+import type { Order } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import type { Payment } from '@/domain/payment/payment';
+import type { PaymentRepository } from '@/domain/payment/payment-repository';
+import { GIFT_CARD_PROVIDER, type GiftCard, type GiftCardTransaction } from '@/domain/gift-card/gift-card';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import { saveOrderChange } from '@/application/save-order-change';
+import type { ID } from '@/domain/shared/types';
+
+const MAX_ATTEMPTS = 3;
+
+export interface RestoreGiftCardsForOrderRequest {
+  orderId: ID;
+}
+
+export interface RestoreGiftCardsForOrderResponse {
+  transactions: GiftCardTransaction[];
+}
+
+// Gives every gift card back what a cancelled order took from it; safe to run twice. Money that
+// was paid with the card goes back as a refund in the order's ledger, like any other refund, so
+// a later refund of the order cannot give it back a second time.
+export class RestoreGiftCardsForOrderUseCase {
+  constructor(
+    private orderRepository: OrderRepository,
+    private paymentRepository: PaymentRepository,
+    private giftCardRepository: GiftCardRepository
+  ) {}
+
+  // Runs from order events, where nobody is there to try again, so a card or order that changed
+  // in the meantime is reloaded and the restore worked out afresh
+  async execute(request: RestoreGiftCardsForOrderRequest): Promise<Result<RestoreGiftCardsForOrderResponse, NotFoundError | BusinessRuleViolationError | Error>> {
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.restore(request);
+      if (result.isOk() || !(result.error instanceof ConflictError) || attempt === MAX_ATTEMPTS) {
+        return result;
+      }
+    }
+  }
+
+  private async restore(request: RestoreGiftCardsForOrderRequest): Promise<Result<RestoreGiftCardsForOrderResponse, NotFoundError | BusinessRuleViolationError | Error>> {
+    const giftCardsResult = await this.giftCardRepository.findByOrderId(request.orderId);
+    if (giftCardsResult.isErr()) {
+      return Err(giftCardsResult.error);
+    }
+
+    const owed = giftCardsResult.value.filter(giftCard => !giftCard.redeemedFor(request.orderId).isZero());
+    if (owed.length === 0) {
+      return Ok({ transactions: [] });
+    }
+
+    const orderResult = await this.orderRepository.findById(request.orderId);
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const paymentsResult = await this.paymentRepository.findByOrderId(request.orderId);
+    if (paymentsResult.isErr()) {
+      return Err(paymentsResult.error);
+    }
+
+    const payment = paymentsResult.value.find(
+      candidate => candidate.provider === GIFT_CARD_PROVIDER && candidate.status === 'CAPTURED'
+    );
+
+    const transactions: GiftCardTransaction[] = [];
+    for (const giftCard of owed) {
+      // Without a captured payment the card was only held by an attempt that never completed
+      const transactionResult = payment
+        ? await this.refundToGiftCard(orderResult.value, payment, giftCard)
+        : await this.release(giftCard, request.orderId);
+      if (transactionResult.isErr()) {
+        return Err(transactionResult.error);
+      }
+
+      transactions.push(transactionResult.value);
+    }
+
+    return Ok({ transactions });
+  }
+
+  private async release(giftCard: GiftCard, orderId: ID): Promise<Result<GiftCardTransaction, Error>> {
+    const transaction = giftCard.restore(orderId)!;
+    const saveResult = await this.giftCardRepository.save(giftCard);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok(transaction);
+  }
+
+  // Recorded as pending before the card is credited, the way RefundOrderUseCase pays out
+  private async refundToGiftCard(
+    order: Order,
+    payment: Payment,
+    giftCard: GiftCard
+  ): Promise<Result<GiftCardTransaction, NotFoundError | BusinessRuleViolationError | Error>> {
+    const startResult = order.startRefund({
+      id: crypto.randomUUID() as ID,
+      paymentId: payment.id,
+      amount: giftCard.redeemedFor(order.id),
+      orderItemIds: [],
+      reason: 'Order cancelled',
+      actorId: null,
+      createdAt: new Date(),
+    });
+    if (startResult.isErr()) {
+      return Err(startResult.error);
+    }
+
+    const refund = startResult.value;
+    const pendingSave = await this.orderRepository.save(order);
+    if (pendingSave.isErr()) {
+      return Err(pendingSave.error);
+    }
+
+    const transaction = giftCard.restore(order.id)!;
+    const cardSave = await this.giftCardRepository.save(giftCard);
+    if (cardSave.isErr()) {
+      const failedSave = await saveOrderChange(this.orderRepository, order, current => {
+        current.failRefund(refund.id);
+        return Ok(undefined);
+      });
+      return Err(failedSave.isErr() ? failedSave.error : cardSave.error);
+    }
+
+    // The card has been credited by now, so the outcome is kept even if the order changed meanwhile
+    const completedSave = await saveOrderChange(this.orderRepository, order, current => {
+      const completeResult = current.completeRefund(refund.id, transaction.id);
+      return completeResult.isErr() ? Err(completeResult.error) : Ok(undefined);
+    });
+    if (completedSave.isErr()) {
+      return Err(completedSave.error);
+    }
+
+    return Ok(transaction);
+  }
+}
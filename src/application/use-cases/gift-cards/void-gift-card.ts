@@ -0,0 +1,44 @@
+import { Result, Ok, Err, NotFoundError, BusinessRuleViolationError, ForbiddenError } from '@/domain/shared/result';
+import { GiftCard } from '@/domain/gift-card/gift-card';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface VoidGiftCardRequest {
+  giftCardId: ID;
+  requester: Requester;
+}
+
+export interface VoidGiftCardResponse {
+  giftCard: GiftCard;
+}
+
+export class VoidGiftCardUseCase {
+  constructor(private giftCardRepository: GiftCardRepository) {}
+
+  async execute(request: VoidGiftCardRequest): Promise<Result<VoidGiftCardResponse, NotFoundError | BusinessRuleViolationError | ForbiddenError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('MANAGE_SYSTEM')) {
+      return Err(new ForbiddenError('void gift cards', { giftCardId: request.giftCardId }));
+    }
+
+    const giftCardResult = await this.giftCardRepository.findById(request.giftCardId);
+    if (giftCardResult.isErr()) {
+      return Err(giftCardResult.error);
+    }
+
+    const giftCard = giftCardResult.value;
+
+    const voidResult = giftCard.void();
+    if (voidResult.isErr()) {
+      return Err(voidResult.error);
+    }
+
+    const saveResult = await this.giftCardRepository.save(giftCard);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ giftCard: saveResult.value });
+  }
+}
@@ -0,0 +1,135 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError, NotFoundError, BusinessRuleViolationError } from '@/domain/shared/result';
+import { StockLevel } from '@/domain/inventory/stock-level';
+import type { InventoryRepository } from '@/domain/inventory/inventory-repository';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { Money } from '@/domain/shared/money';
+import type { ID } from '@/domain/shared/types';
+
+export interface RecordStockRequest {
+  storeId: ID;
+  ingredientId: ID;
+  // A delivery arriving
+  received?: number;
+  // Cost price per unit, usually what the delivery above was invoiced at
+  unitCost?: Money;
+  // A stocktake; replaces on-hand after any delivery above is added
+  countedOnHand?: number;
+  parLevel?: number;
+  requester: Requester;
+}
+
+export interface RecordStockResponse {
+  stockLevel: StockLevel;
+}
+
+// Deliveries, stocktakes and par levels for one ingredient in one store. Stock back at or above
+// par puts the ingredient on that store's menu again.
+export class RecordStockUseCase {
+  constructor(
+    private inventoryRepository: InventoryRepository,
+    private menuRepository: MenuRepository,
+    private storeRepository: StoreRepository
+  ) {}
+
+  async execute(request: RecordStockRequest): Promise<Result<RecordStockResponse, ValidationError | ForbiddenError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('record stock'));
+    }
+
+    if (!canOperateStore(request.requester, request.storeId)) {
+      return Err(new ForbiddenError('record stock for this store'));
+    }
+
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds([request.ingredientId]);
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const [ingredient] = ingredientsResult.value;
+    if (!ingredient) {
+      return Err(new NotFoundError('Ingredient', request.ingredientId));
+    }
+
+    const storeResult = await this.storeRepository.findById(request.storeId);
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+
+    const levelsResult = await this.inventoryRepository.findStockLevels(request.storeId, [request.ingredientId]);
+    if (levelsResult.isErr()) {
+      return Err(levelsResult.error);
+    }
+
+    let stockLevel = levelsResult.value[0];
+    if (!stockLevel) {
+      const createResult = StockLevel.create({
+        storeId: request.storeId,
+        ingredientId: request.ingredientId,
+        parLevel: request.parLevel ?? 0,
+      });
+      if (createResult.isErr()) {
+        return Err(createResult.error);
+      }
+      stockLevel = createResult.value;
+    } else if (request.parLevel !== undefined) {
+      const parResult = stockLevel.changeParLevel(request.parLevel);
+      if (parResult.isErr()) {
+        return Err(parResult.error);
+      }
+    }
+
+    if (request.received !== undefined) {
+      const receiveResult = stockLevel.receive(request.received);
+      if (receiveResult.isErr()) {
+        return Err(receiveResult.error);
+      }
+    }
+
+    if (request.unitCost) {
+      const costResult = ingredient.changeCost(request.unitCost);
+      if (costResult.isErr()) {
+        return Err(costResult.error);
+      }
+    }
+
+    if (request.countedOnHand !== undefined) {
+      const countResult = stockLevel.countedAs(request.countedOnHand);
+      if (countResult.isErr()) {
+        return Err(countResult.error);
+      }
+    }
+
+    const depleted = stockLevel.isBelowPar;
+    const saveResult = await this.inventoryRepository.save([stockLevel]);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    // Only touch the store when stock and availability disagree
+    const store = storeResult.value;
+    if (depleted === store.isIngredientAvailable(ingredient.id)) {
+      if (depleted) {
+        store.markIngredientUnavailable(ingredient.id);
+      } else {
+        store.markIngredientAvailable(ingredient.id);
+      }
+
+      const storeSaveResult = await this.storeRepository.save(store);
+      if (storeSaveResult.isErr()) {
+        return Err(storeSaveResult.error);
+      }
+    }
+
+    if (request.unitCost) {
+      const ingredientSaveResult = await this.menuRepository.saveIngredient(ingredient);
+      if (ingredientSaveResult.isErr()) {
+        return Err(ingredientSaveResult.error);
+      }
+    }
+
+    return Ok({ stockLevel });
+  }
+}
@@ -0,0 +1,200 @@
+import { Result, Ok, Err, NotFoundError, ConflictError } from '@/domain/shared/result';
+import { Order } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import { IngredientDepletedEvent, StockLevel, roundQuantity, type StockMovement } from '@/domain/inventory/stock-level';
+import type { InventoryRepository } from '@/domain/inventory/inventory-repository';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { ingredientUsageOf, pizzasOf } from '@/domain/inventory/ingredient-usage';
+import type { ID } from '@/domain/shared/types';
+
+const MAX_ATTEMPTS = 3;
+
+export type InventoryOrderChange = 'CONFIRMED' | 'PREPARING' | 'CANCELLED';
+
+export interface UpdateInventoryForOrderRequest {
+  orderId: ID;
+  change: InventoryOrderChange;
+}
+
+export interface UpdateInventoryForOrderResponse {
+  movements: StockMovement[];
+  // Ingredients this change took below par, now off the store's menu
+  depletedIngredientIds: ID[];
+}
+
+// Reserves stock when the kitchen accepts an order, consumes it when preparation starts and
+// hands back what is still reserved on cancellation; safe to run twice for the same change
+export class UpdateInventoryForOrderUseCase {
+  constructor(
+    private orderRepository: OrderRepository,
+    private menuRepository: MenuRepository,
+    private menuVersionRepository: MenuVersionRepository,
+    private inventoryRepository: InventoryRepository,
+    private storeRepository: StoreRepository
+  ) {}
+
+  // Runs from order events, where nobody is there to try again, so a level that another order
+  // moved in the meantime is reloaded and the change worked out afresh
+  async execute(request: UpdateInventoryForOrderRequest): Promise<Result<UpdateInventoryForOrderResponse, NotFoundError | Error>> {
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.apply(request);
+      if (result.isOk() || !(result.error instanceof ConflictError) || attempt === MAX_ATTEMPTS) {
+        return result;
+      }
+    }
+  }
+
+  private async apply(request: UpdateInventoryForOrderRequest): Promise<Result<UpdateInventoryForOrderResponse, NotFoundError | Error>> {
+    const orderResult = await this.orderRepository.findById(request.orderId);
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const order = orderResult.value;
+    if (!order.storeId) {
+      // Orders without a store have no stock to draw on
+      return Ok({ movements: [], depletedIngredientIds: [] });
+    }
+
+    const historyResult = await this.inventoryRepository.findMovementsByOrderId(order.id);
+    if (historyResult.isErr()) {
+      return Err(historyResult.error);
+    }
+
+    const history = historyResult.value;
+    const alreadyDone = request.change === 'CONFIRMED'
+      ? history.some(movement => movement.type === 'RESERVE')
+      : request.change === 'PREPARING' && history.some(movement => movement.type === 'CONSUME');
+    if (alreadyDone) {
+      return Ok({ movements: [], depletedIngredientIds: [] });
+    }
+
+    const outstanding = this.outstandingReservations(history);
+    let usage = new Map<ID, number>();
+    if (request.change !== 'CANCELLED') {
+      const usageResult = await this.usageOf(order);
+      if (usageResult.isErr()) {
+        return Err(usageResult.error);
+      }
+      usage = usageResult.value;
+    }
+
+    const ingredientIds = [...new Set([...usage.keys(), ...outstanding.keys()])];
+    const levelsResult = await this.inventoryRepository.findStockLevels(order.storeId, ingredientIds);
+    if (levelsResult.isErr()) {
+      return Err(levelsResult.error);
+    }
+
+    const movements: StockMovement[] = [];
+    for (const level of levelsResult.value) {
+      const reserved = outstanding.get(level.ingredientId) || 0;
+      const used = usage.get(level.ingredientId) || 0;
+
+      if (request.change === 'CONFIRMED' && used > 0) {
+        movements.push(level.reserve(order.id, used));
+      }
+      if (request.change !== 'CONFIRMED' && reserved > 0) {
+        movements.push(level.release(order.id, reserved));
+      }
+      if (request.change === 'PREPARING' && used > 0) {
+        movements.push(level.consume(order.id, used));
+      }
+    }
+
+    const changedLevels = levelsResult.value.filter(level => level.pendingMovements.length > 0);
+    if (changedLevels.length === 0) {
+      return Ok({ movements: [], depletedIngredientIds: [] });
+    }
+
+    // Collected before saving, which hands the events to the dispatcher and clears them
+    const depletedIngredientIds = this.depletedIn(changedLevels);
+
+    const saveResult = await this.inventoryRepository.save(changedLevels);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    const takenOffResult = await this.takeOffMenu(order.storeId, depletedIngredientIds);
+    if (takenOffResult.isErr()) {
+      return Err(takenOffResult.error);
+    }
+
+    return Ok({ movements, depletedIngredientIds });
+  }
+
+  // From the recipe versions the order was sold from; today's recipe only stands in for pizzas
+  // ordered before the menu was versioned
+  private async usageOf(order: Order): Promise<Result<Map<ID, number>, Error>> {
+    const pizzas = pizzasOf(order.items);
+    const versionIds = [...new Set(pizzas.flatMap(({ recipeVersionIds }) => recipeVersionIds))];
+
+    const recordedResult = await this.menuVersionRepository.findRecipesByVersionIds(versionIds);
+    if (recordedResult.isErr()) {
+      return Err(recordedResult.error);
+    }
+
+    const recorded = new Map(recordedResult.value.map(recipe => [recipe.versionId!, recipe]));
+    const unrecordedIds = [...new Set(pizzas.flatMap(({ pizza, recipeVersionIds }) => {
+      const soldIds = recipeVersionIds.map(versionId => recorded.get(versionId)?.id);
+      return pizza.recipeIds.filter(recipeId => !soldIds.includes(recipeId));
+    }))];
+    if (unrecordedIds.length === 0) {
+      return Ok(ingredientUsageOf(order.items, new Map(), recorded));
+    }
+
+    const recipesResult = await this.menuRepository.findRecipesByIds(unrecordedIds);
+    if (recipesResult.isErr()) {
+      return Err(recipesResult.error);
+    }
+
+    return Ok(ingredientUsageOf(order.items, new Map(recipesResult.value.map(recipe => [recipe.id, recipe])), recorded));
+  }
+
+  // Reserved and not yet released, per ingredient
+  private outstandingReservations(history: StockMovement[]): Map<ID, number> {
+    const outstanding = new Map<ID, number>();
+    for (const movement of history) {
+      const sign = movement.type === 'RESERVE' ? 1 : movement.type === 'RELEASE' ? -1 : 0;
+      if (sign !== 0) {
+        outstanding.set(
+          movement.ingredientId,
+          roundQuantity((outstanding.get(movement.ingredientId) || 0) + sign * movement.quantity)
+        );
+      }
+    }
+    return outstanding;
+  }
+
+  private depletedIn(levels: StockLevel[]): ID[] {
+    return levels
+      .filter(level => level.domainEvents.some(event => event instanceof IngredientDepletedEvent))
+      .map(level => level.ingredientId);
+  }
+
+  // Running short only takes the ingredient off the menu of the store that ran short
+  private async takeOffMenu(storeId: ID, ingredientIds: ID[]): Promise<Result<void, NotFoundError | Error>> {
+    if (ingredientIds.length === 0) {
+      return Ok(undefined);
+    }
+
+    const storeResult = await this.storeRepository.findById(storeId);
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+
+    const store = storeResult.value;
+    if (ingredientIds.every(id => !store.isIngredientAvailable(id))) {
+      return Ok(undefined);
+    }
+
+    ingredientIds.forEach(id => store.markIngredientUnavailable(id));
+    const saveResult = await this.storeRepository.save(store);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,39 @@
+import { Result, Ok, Err } from '@/domain/shared/result';
+import { LoyaltyProgram, type LoyaltyLedgerEntry, type LoyaltyTier } from '@/domain/loyalty/loyalty';
+import type { LoyaltyRepository } from '@/domain/loyalty/loyalty-repository';
+import type { Requester } from '@/application/requester';
+
+export interface GetLoyaltyAccountRequest {
+  requester: Requester;
+}
+
+export interface GetLoyaltyAccountResponse {
+  balance: number;
+  tier: LoyaltyTier;
+  qualifyingPoints: number;
+  entries: LoyaltyLedgerEntry[];
+}
+
+// Customers only ever see their own ledger
+export class GetLoyaltyAccountUseCase {
+  constructor(
+    private loyaltyRepository: LoyaltyRepository,
+    private loyaltyProgram: LoyaltyProgram = new LoyaltyProgram()
+  ) {}
+
+  async execute(request: GetLoyaltyAccountRequest): Promise<Result<GetLoyaltyAccountResponse, Error>> {
+    const ledgerResult = await this.loyaltyRepository.findByCustomerId(request.requester.userId);
+    if (ledgerResult.isErr()) {
+      return Err(ledgerResult.error);
+    }
+
+    const entries = ledgerResult.value;
+
+    return Ok({
+      balance: this.loyaltyProgram.balance(entries),
+      tier: this.loyaltyProgram.tierFor(entries),
+      qualifyingPoints: this.loyaltyProgram.qualifyingPoints(entries),
+      entries: [...entries].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    });
+  }
+}
@@ -0,0 +1,119 @@
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import { Order } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import { LoyaltyProgram, type LoyaltyEntryType, type LoyaltyLedgerEntry } from '@/domain/loyalty/loyalty';
+import type { LoyaltyRepository } from '@/domain/loyalty/loyalty-repository';
+import type { Money } from '@/domain/shared/money';
+import type { ID } from '@/domain/shared/types';
+
+export type LoyaltyOrderChange =
+  | { kind: 'DELIVERED' }
+  | { kind: 'CANCELLED' }
+  | { kind: 'REFUNDED'; refundId: ID; amount: Money; fullyRefunded: boolean };
+
+export interface UpdateLoyaltyForOrderRequest {
+  orderId: ID;
+  change: LoyaltyOrderChange;
+}
+
+export interface UpdateLoyaltyForOrderResponse {
+  entries: LoyaltyLedgerEntry[];
+}
+
+// Keeps the ledger in step with the order lifecycle; safe to run twice for the same change
+export class UpdateLoyaltyForOrderUseCase {
+  constructor(
+    private orderRepository: OrderRepository,
+    private loyaltyRepository: LoyaltyRepository,
+    private loyaltyProgram: LoyaltyProgram = new LoyaltyProgram()
+  ) {}
+
+  async execute(request: UpdateLoyaltyForOrderRequest): Promise<Result<UpdateLoyaltyForOrderResponse, NotFoundError | Error>> {
+    const orderResult = await this.orderRepository.findById(request.orderId);
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const order = orderResult.value;
+    if (!order.customerId) {
+      // Guest orders have no account to credit
+      return Ok({ entries: [] });
+    }
+
+    const ledgerResult = await this.loyaltyRepository.findByOrderId(order.id);
+    if (ledgerResult.isErr()) {
+      return Err(ledgerResult.error);
+    }
+
+    const entries = this.entriesFor(order, order.customerId, ledgerResult.value, request.change);
+    if (entries.length === 0) {
+      return Ok({ entries });
+    }
+
+    const appendResult = await this.loyaltyRepository.append(entries);
+    if (appendResult.isErr()) {
+      return Err(appendResult.error);
+    }
+
+    return Ok({ entries });
+  }
+
+  private entriesFor(
+    order: Order,
+    customerId: ID,
+    ledger: LoyaltyLedgerEntry[],
+    change: LoyaltyOrderChange
+  ): LoyaltyLedgerEntry[] {
+    const sumOf = (...types: LoyaltyEntryType[]) =>
+      ledger.filter(entry => types.includes(entry.type)).reduce((total, entry) => total + entry.points, 0);
+
+    const originallyEarned = sumOf('EARN');
+    const stillEarned = sumOf('EARN', 'REVERSE_EARN');
+    const stillRedeemed = -sumOf('REDEEM', 'RESTORE_REDEEM');
+
+    const entry = (type: LoyaltyEntryType, points: number, reference: ID, description: string): LoyaltyLedgerEntry => ({
+      id: crypto.randomUUID() as ID,
+      customerId,
+      orderId: order.id,
+      type,
+      points,
+      reference,
+      description,
+      createdAt: new Date(),
+    });
+
+    const entries: LoyaltyLedgerEntry[] = [];
+
+    switch (change.kind) {
+      case 'DELIVERED': {
+        const points = this.loyaltyProgram.pointsFor(order.grandTotal.subtract(order.refundedAmount));
+        if (points > 0) {
+          entries.push(entry('EARN', points, order.id, `Order ${order.orderNumber.value} delivered`));
+        }
+        break;
+      }
+      case 'CANCELLED':
+        if (stillEarned > 0) {
+          entries.push(entry('REVERSE_EARN', -stillEarned, order.id, `Order ${order.orderNumber.value} cancelled`));
+        }
+        if (stillRedeemed > 0) {
+          entries.push(entry('RESTORE_REDEEM', stillRedeemed, order.id, `Order ${order.orderNumber.value} cancelled`));
+        }
+        break;
+      case 'REFUNDED': {
+        // Take back points in proportion to the money returned
+        const proportional = Math.round((originallyEarned * change.amount.minorUnits) / order.grandTotal.minorUnits);
+        const reversed = change.fullyRefunded ? stillEarned : Math.min(stillEarned, proportional);
+        if (reversed > 0) {
+          entries.push(entry('REVERSE_EARN', -reversed, change.refundId, `Refund on order ${order.orderNumber.value}`));
+        }
+        if (change.fullyRefunded && stillRedeemed > 0) {
+          entries.push(entry('RESTORE_REDEEM', stillRedeemed, order.id, `Order ${order.orderNumber.value} refunded`));
+        }
+        break;
+      }
+    }
+
+    return entries;
+  }
+}
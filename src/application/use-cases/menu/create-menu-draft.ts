@@ -0,0 +1,64 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError } from '@/domain/shared/result';
+import { MenuVersion } from '@/domain/menu/menu-version';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface CreateMenuDraftRequest {
+  name: string;
+  requester: Requester;
+}
+
+export interface CreateMenuDraftResponse {
+  version: MenuVersion;
+}
+
+// Starts a draft as a copy of the live menu. Before the first version is published the live menu
+// is whatever pizza_recipes offers, so the first draft copies the available recipes.
+export class CreateMenuDraftUseCase {
+  constructor(
+    private menuVersionRepository: MenuVersionRepository,
+    private menuRepository: MenuRepository
+  ) {}
+
+  async execute(request: CreateMenuDraftRequest): Promise<Result<CreateMenuDraftResponse, ValidationError | ForbiddenError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('edit the menu'));
+    }
+
+    const publishedResult = await this.menuVersionRepository.findPublished();
+    if (publishedResult.isErr()) {
+      return Err(publishedResult.error);
+    }
+
+    const published = publishedResult.value;
+    let recipes = published?.recipes.map(entry => ({ recipe: entry.recipe, isAvailable: entry.isAvailable }));
+    if (!recipes) {
+      const liveResult = await this.menuRepository.findAvailableRecipes();
+      if (liveResult.isErr()) {
+        return Err(liveResult.error);
+      }
+      recipes = liveResult.value.map(recipe => ({ recipe, isAvailable: true }));
+    }
+
+    const versionResult = MenuVersion.create({
+      id: crypto.randomUUID() as ID,
+      name: request.name,
+      recipes,
+      basedOnId: published?.id,
+      createdBy: request.requester.userId,
+    });
+    if (versionResult.isErr()) {
+      return Err(versionResult.error);
+    }
+
+    const saveResult = await this.menuVersionRepository.save(versionResult.value);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ version: saveResult.value });
+  }
+}
@@ -0,0 +1,94 @@
+import { Result, Ok, Err, ValidationError, NotFoundError, BusinessRuleViolationError } from '@/domain/shared/result';
+import { Pizza, type Ingredient, type IngredientModifierProps, type PizzaCrust, type PizzaSize } from '@/domain/menu/pizza';
+import { composeSection, dietaryProfileOf, type PizzaDietaryProfile } from '@/domain/menu/pizza-composition';
+import { nutritionOf, type NutritionFacts } from '@/domain/menu/nutrition';
+import { sectionUsageOf } from '@/domain/inventory/ingredient-usage';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import type { PlaceOrderSectionRequest } from '@/application/use-cases/orders/place-order';
+import type { ID } from '@/domain/shared/types';
+
+// The same pizza description an order item takes
+export interface DescribePizzaRequest {
+  recipeId?: ID;
+  sections?: PlaceOrderSectionRequest[];
+  size: PizzaSize;
+  crust: PizzaCrust;
+  modifiers?: IngredientModifierProps[];
+}
+
+export interface DescribePizzaResponse {
+  dietary: PizzaDietaryProfile;
+  // Whole pizza
+  nutrition: NutritionFacts;
+  isNutritionComplete: boolean;
+}
+
+// Allergens, dietary flags and nutrition of a customised pizza before it is ordered, checked the
+// way an order would check it
+export class DescribePizzaUseCase {
+  constructor(private menuRepository: MenuRepository) {}
+
+  async execute(request: DescribePizzaRequest): Promise<Result<DescribePizzaResponse, ValidationError | NotFoundError | BusinessRuleViolationError | Error>> {
+    const pizzaResult = Pizza.create({
+      recipeId: request.recipeId,
+      size: request.size,
+      crust: request.crust,
+      modifiers: request.modifiers,
+      sections: request.sections,
+    });
+    if (pizzaResult.isErr()) {
+      return Err(pizzaResult.error);
+    }
+
+    const pizza = pizzaResult.value;
+    const recipeIds = Array.from(new Set(pizza.sections.map(section => section.recipeId)));
+    const recipesResult = await this.menuRepository.findAvailableRecipesByIds(recipeIds);
+    if (recipesResult.isErr()) {
+      return Err(recipesResult.error);
+    }
+
+    const recipeMap = new Map(recipesResult.value.map(recipe => [recipe.id, recipe]));
+    const missingRecipeId = recipeIds.find(recipeId => !recipeMap.has(recipeId));
+    if (missingRecipeId) {
+      return Err(new NotFoundError('PizzaRecipe', missingRecipeId));
+    }
+
+    const ingredientIds = new Set<ID>(recipesResult.value.flatMap(recipe => Array.from(recipe.ingredients.keys())));
+    for (const modifier of pizza.sections.flatMap(section => section.modifiers)) {
+      ingredientIds.add(modifier.ingredientId);
+      if (modifier.replacementId) {
+        ingredientIds.add(modifier.replacementId);
+      }
+    }
+
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds(Array.from(ingredientIds));
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const ingredientMap = new Map<ID, Ingredient>(ingredientsResult.value.map(ingredient => [ingredient.id, ingredient]));
+
+    const compositions: Map<ID, number>[] = [];
+    const usage = new Map<ID, number>();
+    for (const section of pizza.sections) {
+      const recipe = recipeMap.get(section.recipeId)!;
+      const compositionResult = composeSection(recipe, section.modifiers, ingredientMap);
+      if (compositionResult.isErr()) {
+        return Err(compositionResult.error);
+      }
+      compositions.push(compositionResult.value);
+
+      for (const [ingredientId, quantity] of sectionUsageOf(pizza, section, recipe, 1)) {
+        usage.set(ingredientId, (usage.get(ingredientId) || 0) + quantity);
+      }
+    }
+
+    const { nutrition, isComplete } = nutritionOf(usage, ingredientMap);
+
+    return Ok({
+      dietary: dietaryProfileOf(compositions, ingredientMap),
+      nutrition,
+      isNutritionComplete: isComplete,
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import { Result, Ok, Err } from '@/domain/shared/result';
+import { allergenMatrixOf, type AllergenMatrix } from '@/domain/menu/pizza-composition';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+
+export type GetAllergenMatrixResponse = AllergenMatrix;
+
+// Which allergens each pizza on the menu contains, for the notice customers ask to see in store
+export class GetAllergenMatrixUseCase {
+  constructor(private menuRepository: MenuRepository) {}
+
+  async execute(): Promise<Result<GetAllergenMatrixResponse, Error>> {
+    const recipesResult = await this.menuRepository.findAvailableRecipes();
+    if (recipesResult.isErr()) {
+      return Err(recipesResult.error);
+    }
+
+    const recipes = recipesResult.value;
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds(
+      Array.from(new Set(recipes.flatMap(recipe => Array.from(recipe.ingredients.keys()))))
+    );
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    return Ok(allergenMatrixOf(
+      recipes,
+      new Map(ingredientsResult.value.map(ingredient => [ingredient.id, ingredient]))
+    ));
+  }
+}
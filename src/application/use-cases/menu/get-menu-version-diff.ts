@@ -0,0 +1,44 @@
+import { Result, Ok, Err, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import { diffMenuVersions, type MenuVersion, type MenuVersionDiff } from '@/domain/menu/menu-version';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface GetMenuVersionDiffRequest {
+  menuVersionId: ID;
+  requester: Requester;
+}
+
+export interface GetMenuVersionDiffResponse {
+  version: MenuVersion;
+  // Null before the first version is published, when every recipe counts as added
+  live: MenuVersion | null;
+  diff: MenuVersionDiff;
+}
+
+export class GetMenuVersionDiffUseCase {
+  constructor(private menuVersionRepository: MenuVersionRepository) {}
+
+  async execute(request: GetMenuVersionDiffRequest): Promise<Result<GetMenuVersionDiffResponse, ForbiddenError | NotFoundError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('view menu drafts'));
+    }
+
+    const versionResult = await this.menuVersionRepository.findById(request.menuVersionId);
+    if (versionResult.isErr()) {
+      return Err(versionResult.error);
+    }
+
+    const liveResult = await this.menuVersionRepository.findPublished();
+    if (liveResult.isErr()) {
+      return Err(liveResult.error);
+    }
+
+    return Ok({
+      version: versionResult.value,
+      live: liveResult.value,
+      diff: diffMenuVersions(liveResult.value, versionResult.value),
+    });
+  }
+}
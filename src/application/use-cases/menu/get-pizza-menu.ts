@@ -0,0 +1,135 @@
+import { Result, Ok, Err, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import { PizzaRecipe, PizzaSizeSchema, type Ingredient, type PizzaSize } from '@/domain/menu/pizza';
+import { dietaryProfileOf, type PizzaDietaryProfile } from '@/domain/menu/pizza-composition';
+import { nutritionOf, type NutritionFacts } from '@/domain/menu/nutrition';
+import { isAvailableAt } from '@/domain/menu/availability-schedule';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { Money } from '@/domain/shared/money';
+import type { ID } from '@/domain/shared/types';
+
+export interface GetPizzaMenuRequest {
+  vegetarian?: boolean;
+  vegan?: boolean;
+  glutenFree?: boolean;
+  // Only pizzas on sale at this time in the store's time zone (UTC without a store); every pizza when unset
+  at?: Date;
+  // The menu as this store sells it, with its own prices
+  storeId?: ID;
+  // Preview a menu version that is not live yet instead of the live menu; managers only
+  menuVersionId?: ID;
+  requester?: Requester;
+}
+
+export interface PizzaMenuSize {
+  size: PizzaSize;
+  price: Money;
+  // Whole pizza
+  nutrition: NutritionFacts;
+  isNutritionComplete: boolean;
+}
+
+export interface PizzaMenuEntry {
+  recipe: PizzaRecipe;
+  ingredients: { ingredient: Ingredient; quantity: number }[];
+  dietary: PizzaDietaryProfile;
+  sizes: PizzaMenuSize[];
+}
+
+export interface GetPizzaMenuResponse {
+  pizzas: PizzaMenuEntry[];
+}
+
+// Every pizza on the menu with its allergens, dietary flags and nutrition per size, all worked
+// out from the ingredients. Prices are list prices, before modifiers and promotions.
+export class GetPizzaMenuUseCase {
+  constructor(
+    private menuRepository: MenuRepository,
+    private menuVersionRepository: MenuVersionRepository,
+    private storeRepository: StoreRepository
+  ) {}
+
+  async execute(request: GetPizzaMenuRequest = {}): Promise<Result<GetPizzaMenuResponse, ForbiddenError | NotFoundError | Error>> {
+    const recipesResult = await this.findRecipes(request);
+    if (recipesResult.isErr()) {
+      return Err(recipesResult.error);
+    }
+
+    let storeRecipes = recipesResult.value;
+    let timeZone = 'UTC';
+    if (request.storeId) {
+      const storeResult = await this.storeRepository.findById(request.storeId);
+      if (storeResult.isErr()) {
+        return Err(storeResult.error);
+      }
+      storeRecipes = storeResult.value.menuOf(storeRecipes);
+      timeZone = storeResult.value.timeZone;
+    }
+
+    const at = request.at;
+    const recipes = at
+      ? storeRecipes.filter(recipe => isAvailableAt(recipe.availability, at, timeZone))
+      : storeRecipes;
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds(
+      Array.from(new Set(recipes.flatMap(recipe => Array.from(recipe.ingredients.keys()))))
+    );
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const ingredientMap = new Map<ID, Ingredient>(ingredientsResult.value.map(ingredient => [ingredient.id, ingredient]));
+
+    const pizzas = recipes
+      .map(recipe => this.toEntry(recipe, ingredientMap))
+      .filter(entry =>
+        (!request.vegetarian || entry.dietary.isVegetarian) &&
+        (!request.vegan || entry.dietary.isVegan) &&
+        (!request.glutenFree || entry.dietary.isGlutenFree)
+      );
+
+    return Ok({ pizzas });
+  }
+
+  private async findRecipes(request: GetPizzaMenuRequest): Promise<Result<PizzaRecipe[], ForbiddenError | NotFoundError | Error>> {
+    if (!request.menuVersionId) {
+      return this.menuRepository.findAvailableRecipes();
+    }
+
+    if (!request.requester || !ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('preview menu drafts'));
+    }
+
+    const versionResult = await this.menuVersionRepository.findById(request.menuVersionId);
+    if (versionResult.isErr()) {
+      return Err(versionResult.error);
+    }
+
+    return Ok(versionResult.value.availableRecipes());
+  }
+
+  private toEntry(recipe: PizzaRecipe, ingredientMap: Map<ID, Ingredient>): PizzaMenuEntry {
+    return {
+      recipe,
+      ingredients: Array.from(recipe.ingredients)
+        .filter(([ingredientId]) => ingredientMap.has(ingredientId))
+        .map(([ingredientId, quantity]) => ({ ingredient: ingredientMap.get(ingredientId)!, quantity })),
+      dietary: dietaryProfileOf([recipe.ingredients], ingredientMap),
+      sizes: PizzaSizeSchema.options.map(size => {
+        const sizeMultiplier = recipe.getSizeMultiplier(size);
+        const usage = new Map(
+          Array.from(recipe.ingredients, ([ingredientId, quantity]) => [ingredientId, quantity * sizeMultiplier] as const)
+        );
+        const { nutrition, isComplete } = nutritionOf(usage, ingredientMap);
+        return {
+          size,
+          price: recipe.basePrice.multiply(sizeMultiplier),
+          nutrition,
+          isNutritionComplete: isComplete,
+        };
+      }),
+    };
+  }
+}
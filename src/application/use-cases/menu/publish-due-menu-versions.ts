@@ -0,0 +1,65 @@
+import { Result, Ok, Err, ForbiddenError, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { MenuVersion } from '@/domain/menu/menu-version';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+
+export interface PublishDueMenuVersionsRequest {
+  // Absent when the scheduler runs it on its own, see /api/cron/publish-menu-versions
+  requester?: Requester;
+  now?: Date;
+}
+
+export interface PublishDueMenuVersionsResponse {
+  // The version now live, or null when nothing was due
+  published: MenuVersion | null;
+}
+
+// Run every few minutes by the scheduler. When several versions fell due since the last run only
+// the latest is published; the ones it overtook are retired without ever going live.
+export class PublishDueMenuVersionsUseCase {
+  constructor(private menuVersionRepository: MenuVersionRepository) {}
+
+  async execute(request: PublishDueMenuVersionsRequest): Promise<Result<PublishDueMenuVersionsResponse, ForbiddenError | BusinessRuleViolationError | Error>> {
+    if (request.requester && !ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('publish the menu'));
+    }
+
+    const now = request.now || new Date();
+    const dueResult = await this.menuVersionRepository.findDue(now);
+    if (dueResult.isErr()) {
+      return Err(dueResult.error);
+    }
+
+    const due = dueResult.value;
+    if (due.length === 0) {
+      return Ok({ published: null });
+    }
+
+    const liveResult = await this.menuVersionRepository.findPublished();
+    if (liveResult.isErr()) {
+      return Err(liveResult.error);
+    }
+
+    const replaced = [...due.slice(0, -1), ...(liveResult.value ? [liveResult.value] : [])];
+    for (const version of replaced) {
+      const retireResult = version.retire();
+      if (retireResult.isErr()) {
+        return Err(retireResult.error);
+      }
+    }
+
+    const version = due[due.length - 1];
+    const publishResult = version.publish(now);
+    if (publishResult.isErr()) {
+      return Err(publishResult.error);
+    }
+
+    const saveResult = await this.menuVersionRepository.publish(version, replaced);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ published: saveResult.value });
+  }
+}
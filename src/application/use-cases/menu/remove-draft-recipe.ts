@@ -0,0 +1,40 @@
+import { Result, Ok, Err, ForbiddenError, NotFoundError, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface RemoveDraftRecipeRequest {
+  menuVersionId: ID;
+  recipeId: ID;
+  requester: Requester;
+}
+
+// Takes a recipe off the menu from the draft's publish on; past orders keep their recipe versions
+export class RemoveDraftRecipeUseCase {
+  constructor(private menuVersionRepository: MenuVersionRepository) {}
+
+  async execute(request: RemoveDraftRecipeRequest): Promise<Result<void, ForbiddenError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('edit the menu'));
+    }
+
+    const versionResult = await this.menuVersionRepository.findById(request.menuVersionId);
+    if (versionResult.isErr()) {
+      return Err(versionResult.error);
+    }
+
+    const version = versionResult.value;
+    const removeResult = version.removeRecipe(request.recipeId);
+    if (removeResult.isErr()) {
+      return Err(removeResult.error);
+    }
+
+    const saveResult = await this.menuVersionRepository.save(version);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok(undefined);
+  }
+}
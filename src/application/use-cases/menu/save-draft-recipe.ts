@@ -0,0 +1,100 @@
+import {
+  Result,
+  Ok,
+  Err,
+  ValidationError,
+  ForbiddenError,
+  NotFoundError,
+  BusinessRuleViolationError,
+} from '@/domain/shared/result';
+import { PizzaRecipe } from '@/domain/menu/pizza';
+import type { MenuVersionRecipe } from '@/domain/menu/menu-version';
+import type { AvailabilitySchedule } from '@/domain/menu/availability-schedule';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import type { Money } from '@/domain/shared/money';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface SaveDraftRecipeRequest {
+  menuVersionId: ID;
+  // Omitted for a recipe new to the menu
+  recipeId?: ID;
+  name: string;
+  description: string;
+  basePrice: Money;
+  preparationTimeMinutes: number;
+  difficulty: number;
+  ingredients: Map<ID, number>;
+  isAvailable?: boolean;
+  availability?: AvailabilitySchedule | null;
+  requester: Requester;
+}
+
+export interface SaveDraftRecipeResponse {
+  entry: MenuVersionRecipe;
+}
+
+// Adds a recipe to a draft or changes the draft's copy of it; nothing reaches customers until the
+// draft is published
+export class SaveDraftRecipeUseCase {
+  constructor(
+    private menuVersionRepository: MenuVersionRepository,
+    private menuRepository: MenuRepository
+  ) {}
+
+  async execute(request: SaveDraftRecipeRequest): Promise<Result<SaveDraftRecipeResponse, ValidationError | ForbiddenError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('edit the menu'));
+    }
+
+    const versionResult = await this.menuVersionRepository.findById(request.menuVersionId);
+    if (versionResult.isErr()) {
+      return Err(versionResult.error);
+    }
+
+    const version = versionResult.value;
+    if (request.recipeId && !version.recipes.some(entry => entry.recipe.id === request.recipeId)) {
+      return Err(new NotFoundError('PizzaRecipe', request.recipeId));
+    }
+
+    const ingredientIds = Array.from(request.ingredients.keys());
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds(ingredientIds);
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const knownIds = new Set(ingredientsResult.value.map(ingredient => ingredient.id));
+    const unknownId = ingredientIds.find(id => !knownIds.has(id));
+    if (unknownId) {
+      return Err(new NotFoundError('Ingredient', unknownId));
+    }
+
+    const recipeResult = PizzaRecipe.create({
+      id: request.recipeId || crypto.randomUUID() as ID,
+      name: request.name,
+      description: request.description,
+      ingredients: request.ingredients,
+      basePrice: request.basePrice,
+      preparationTimeMinutes: request.preparationTimeMinutes,
+      difficulty: request.difficulty,
+      availability: request.availability,
+    });
+    if (recipeResult.isErr()) {
+      return Err(recipeResult.error);
+    }
+
+    const entryResult = version.putRecipe(recipeResult.value, request.isAvailable ?? true);
+    if (entryResult.isErr()) {
+      return Err(entryResult.error);
+    }
+
+    const saveResult = await this.menuVersionRepository.save(version);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ entry: entryResult.value });
+  }
+}
@@ -0,0 +1,64 @@
+import { Result, Ok, Err, ForbiddenError, NotFoundError, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { MenuVersion } from '@/domain/menu/menu-version';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import { PublishDueMenuVersionsUseCase } from '@/application/use-cases/menu/publish-due-menu-versions';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface ScheduleMenuVersionRequest {
+  menuVersionId: ID;
+  // Null takes a scheduled version back to a draft; a time already passed publishes straight away
+  publishAt: Date | null;
+  requester: Requester;
+}
+
+export interface ScheduleMenuVersionResponse {
+  version: MenuVersion;
+}
+
+export class ScheduleMenuVersionUseCase {
+  constructor(
+    private menuVersionRepository: MenuVersionRepository,
+    private publishDueMenuVersionsUseCase: PublishDueMenuVersionsUseCase
+  ) {}
+
+  async execute(request: ScheduleMenuVersionRequest): Promise<Result<ScheduleMenuVersionResponse, ForbiddenError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('publish the menu'));
+    }
+
+    const versionResult = await this.menuVersionRepository.findById(request.menuVersionId);
+    if (versionResult.isErr()) {
+      return Err(versionResult.error);
+    }
+
+    const version = versionResult.value;
+    const scheduleResult = request.publishAt ? version.schedule(request.publishAt) : version.unschedule();
+    if (scheduleResult.isErr()) {
+      return Err(scheduleResult.error);
+    }
+
+    const saveResult = await this.menuVersionRepository.save(version);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    const now = new Date();
+    if (!version.isDue(now)) {
+      return Ok({ version });
+    }
+
+    const publishResult = await this.publishDueMenuVersionsUseCase.execute({ requester: request.requester, now });
+    if (publishResult.isErr()) {
+      return Err(publishResult.error);
+    }
+
+    const publishedResult = await this.menuVersionRepository.findById(version.id);
+    if (publishedResult.isErr()) {
+      return Err(publishedResult.error);
+    }
+
+    return Ok({ version: publishedResult.value });
+  }
+}
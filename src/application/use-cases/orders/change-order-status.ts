@@ -0,0 +1,61 @@
+import { Result, Ok, Err, NotFoundError, BusinessRuleViolationError, ForbiddenError } from '@/domain/shared/result';
+import { Order, type OrderStatus } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface ChangeOrderStatusRequest {
+  orderId: ID;
+  status: OrderStatus;
+  reason?: string;
+  requester: Requester;
+}
+
+export interface ChangeOrderStatusResponse {
+  order: Order;
+}
+
+export class ChangeOrderStatusUseCase {
+  constructor(private orderRepository: OrderRepository) {}
+
+  async execute(request: ChangeOrderStatusRequest): Promise<Result<ChangeOrderStatusResponse, NotFoundError | BusinessRuleViolationError | ForbiddenError | Error>> {
+    const orderResult = await this.orderRepository.findById(request.orderId);
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const order = orderResult.value;
+    const canWriteOrders = ROLE_PERMISSIONS[request.requester.role].includes('WRITE_ORDERS');
+
+    // Customers may only cancel their own orders, and only before the kitchen accepts them
+    if (!canWriteOrders) {
+      if (order.customerId !== request.requester.userId) {
+        return Err(new NotFoundError('Order', request.orderId));
+      }
+
+      if (request.status !== 'CANCELLED' || order.status !== 'PENDING') {
+        return Err(new ForbiddenError(`change order status to ${request.status}`, {
+          orderId: order.id,
+        }));
+      }
+    } else if (order.storeId && !canOperateStore(request.requester, order.storeId)) {
+      return Err(new NotFoundError('Order', request.orderId));
+    }
+
+    const transitionResult = order.transitionTo(request.status, {
+      actorId: request.requester.userId,
+      reason: request.reason,
+    });
+    if (transitionResult.isErr()) {
+      return Err(transitionResult.error);
+    }
+
+    const saveResult = await this.orderRepository.save(order);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ order: saveResult.value });
+  }
+}
@@ -0,0 +1,43 @@
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import { Order } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import { buildOrderTimeline, type OrderTimeline } from '@/domain/order/order-timeline';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+import { GetOrderUseCase } from './get-order';
+
+export interface GetOrderTimelineRequest {
+  orderId: ID;
+  requester: Requester;
+}
+
+export interface GetOrderTimelineResponse {
+  order: Order;
+  timeline: OrderTimeline;
+}
+
+export class GetOrderTimelineUseCase {
+  private getOrderUseCase: GetOrderUseCase;
+
+  constructor(private orderRepository: OrderRepository) {
+    this.getOrderUseCase = new GetOrderUseCase(orderRepository);
+  }
+
+  async execute(request: GetOrderTimelineRequest): Promise<Result<GetOrderTimelineResponse, NotFoundError | Error>> {
+    // Same visibility rules as fetching the order itself
+    const orderResult = await this.getOrderUseCase.execute(request);
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const historyResult = await this.orderRepository.findStatusHistory(request.orderId);
+    if (historyResult.isErr()) {
+      return Err(historyResult.error);
+    }
+
+    return Ok({
+      order: orderResult.value.order,
+      timeline: buildOrderTimeline(historyResult.value),
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import { Order } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export type GetOrderRequest =
+  | { orderId: ID; requester: Requester }
+  | { orderNumber: string; requester: Requester };
+
+export interface GetOrderResponse {
+  order: Order;
+}
+
+export class GetOrderUseCase {
+  constructor(private orderRepository: OrderRepository) {}
+
+  async execute(request: GetOrderRequest): Promise<Result<GetOrderResponse, NotFoundError | Error>> {
+    const orderResult = 'orderId' in request
+      ? await this.orderRepository.findById(request.orderId)
+      : await this.orderRepository.findByOrderNumber(request.orderNumber);
+
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const order = orderResult.value;
+
+    // Customers only see their own orders; don't reveal that others exist
+    if (request.requester.role === 'CUSTOMER' && order.customerId !== request.requester.userId) {
+      return Err(new NotFoundError('Order', 'orderId' in request ? request.orderId : request.orderNumber));
+    }
+
+    // ...and staff only the orders of the stores they operate
+    if (request.requester.role !== 'CUSTOMER' && order.storeId && !canOperateStore(request.requester, order.storeId)) {
+      return Err(new NotFoundError('Order', 'orderId' in request ? request.orderId : request.orderNumber));
+    }
+
+    return Ok({ order });
+  }
+}
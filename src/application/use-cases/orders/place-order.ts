@@ -0,0 +1,771 @@
+import { Result, Ok, Err, ValidationError, NotFoundError, BusinessRuleViolationError } from '@/domain/shared/result';
+import {
+  Order,
+  type Address,
+  type BundleComponent,
+  type CustomerInfo,
+  type DeliveryType,
+  type OrderItem,
+  type OrderItemType,
+} from '@/domain/order/order';
+import {
+  OrderPricingService,
+  SplitPizzaPricingPolicy,
+  type SplitPizzaPricingRule,
+} from '@/domain/order/order-pricing-service';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import type { OrderNumberGenerator } from '@/domain/order/order-number';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { TaxEngine } from '@/domain/tax/tax-engine';
+import type { DeliveryZoneService } from '@/domain/delivery/delivery-zone-service';
+import type { DeliveryQuote } from '@/domain/delivery/delivery-zone';
+import { PromotionEngine, type PromotionCart } from '@/domain/promotion/promotion-engine';
+import { normalizePromoCode, type OrderDiscount } from '@/domain/promotion/promotion';
+import type { PromotionRepository } from '@/domain/promotion/promotion-repository';
+import { LoyaltyProgram, type LoyaltyLedgerEntry, type LoyaltyTier } from '@/domain/loyalty/loyalty';
+import type { LoyaltyRepository } from '@/domain/loyalty/loyalty-repository';
+import type { Store } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { OrderAcceptancePolicy } from '@/domain/store/order-acceptance-policy';
+import { composeSection, dietaryProfileOf } from '@/domain/menu/pizza-composition';
+import type { Product } from '@/domain/menu/product';
+import type { Bundle, BundlePick } from '@/domain/menu/bundle';
+import {
+  Pizza,
+  PizzaRecipe,
+  Ingredient,
+  sectionFraction,
+  type IngredientModifierProps,
+  type PizzaSize,
+  type PizzaCrust,
+  type PizzaSectionPosition,
+} from '@/domain/menu/pizza';
+import type { ExchangeRate, ExchangeRateProvider } from '@/domain/shared/exchange-rate';
+import { Money, type Currency } from '@/domain/shared/money';
+import type { ID } from '@/domain/shared/types';
+import type { UserRepository } from '@/infrastructure/database/repositories/user-repository';
+
+export interface PlaceOrderSectionRequest {
+  position: PizzaSectionPosition;
+  recipeId: ID;
+  modifiers?: IngredientModifierProps[];
+}
+
+// One pick for a bundle choice group: a recipe (with crust) for pizza groups, a product otherwise
+export interface PlaceOrderBundleSelectionRequest {
+  groupId: string;
+  recipeId?: ID;
+  crust?: PizzaCrust;
+  productId?: ID;
+}
+
+export interface PlaceOrderItemRequest {
+  // A pizza is a recipe (with optional modifiers) or sections, each with its own recipe and modifiers
+  recipeId?: ID;
+  sections?: PlaceOrderSectionRequest[];
+  // ...or the line is a product or a bundle instead
+  productId?: ID;
+  bundleId?: ID;
+  quantity: number;
+  // Pizzas only
+  size?: PizzaSize;
+  crust?: PizzaCrust;
+  // Short form for ADD modifiers
+  customIngredients?: Record<ID, number>;
+  modifiers?: IngredientModifierProps[];
+  // Bundles only, one entry per pick
+  selections?: PlaceOrderBundleSelectionRequest[];
+  specialInstructions?: string;
+}
+
+export interface PlaceOrderRequest {
+  customerId?: ID;
+  // Delivery orders without one go to the store that delivers to the address
+  storeId?: ID;
+  customerInfo: CustomerInfo;
+  items: PlaceOrderItemRequest[];
+  deliveryType: DeliveryType;
+  deliveryAddress?: Address;
+  specialInstructions?: string;
+  // As soon as possible when unset
+  requestedDeliveryTime?: Date;
+  // Defaults to the store's currency
+  currency?: Currency;
+  promoCodes?: string[];
+  loyaltyPointsToRedeem?: number;
+}
+
+export interface PlaceOrderResponse {
+  order: Order;
+}
+
+export class PlaceOrderUseCase {
+  constructor(
+    private orderRepository: OrderRepository,
+    private menuRepository: MenuRepository,
+    private userRepository: UserRepository,
+    private orderNumberGenerator: OrderNumberGenerator,
+    private exchangeRateProvider: ExchangeRateProvider,
+    private deliveryZoneService: DeliveryZoneService,
+    private promotionRepository: PromotionRepository,
+    private loyaltyRepository: LoyaltyRepository,
+    private storeRepository: StoreRepository,
+    private taxEngine: TaxEngine = new TaxEngine(),
+    private promotionEngine: PromotionEngine = new PromotionEngine(),
+    private loyaltyProgram: LoyaltyProgram = new LoyaltyProgram(),
+    private pricingService: OrderPricingService = new OrderPricingService(),
+    private splitPizzaPricingPolicy: SplitPizzaPricingPolicy = new SplitPizzaPricingPolicy(),
+    private orderAcceptancePolicy: OrderAcceptancePolicy = new OrderAcceptancePolicy()
+  ) {}
+
+  async execute(request: PlaceOrderRequest): Promise<Result<PlaceOrderResponse, ValidationError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (request.items.length === 0) {
+      return Err(new ValidationError('Order must contain at least one item', 'items'));
+    }
+
+    const itemTypes = request.items.map(itemTypeOf);
+    if (itemTypes.some(type => type === null)) {
+      return Err(new ValidationError('Each item needs exactly one of a recipe or sections, a product or a bundle', 'items'));
+    }
+
+    if (request.items.some(item => item.sections?.length && (item.customIngredients || item.modifiers?.length))) {
+      return Err(new ValidationError('Add ingredients per section on a sectioned pizza', 'items'));
+    }
+
+    if (request.items.some((item, index) => itemTypes[index] === 'PIZZA' && (!item.size || !item.crust))) {
+      return Err(new ValidationError('Pizzas need a size and crust', 'items'));
+    }
+
+    if (request.items.some(item => item.selections?.some(selection => selection.recipeId && !selection.crust))) {
+      return Err(new ValidationError('Bundle pizzas need a crust', 'items'));
+    }
+
+    const storeResult = await this.resolveStore(request);
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+    const store = storeResult.value;
+
+    const itemSections = request.items.map((item, index) => (itemTypes[index] === 'PIZZA' ? sectionsOf(item) : []));
+    const selections = request.items.flatMap(item => item.selections || []);
+
+    // Load everything the order references up front; recipe ingredients come along
+    // so the final composition of every pizza is known
+    const recipeIds = [...new Set([
+      ...itemSections.flat().map(section => section.recipeId),
+      ...selections.flatMap(selection => (selection.recipeId ? [selection.recipeId] : [])),
+    ])];
+    const productIds = [...new Set([
+      ...request.items.flatMap(item => (item.productId ? [item.productId] : [])),
+      ...selections.flatMap(selection => (selection.productId ? [selection.productId] : [])),
+    ])];
+    const bundleIds = [...new Set(request.items.flatMap(item => (item.bundleId ? [item.bundleId] : [])))];
+    const ingredientIds = [
+      ...new Set(itemSections.flat().flatMap(section => (section.modifiers || []).flatMap(modifier =>
+        modifier.replacementId ? [modifier.ingredientId, modifier.replacementId] : [modifier.ingredientId]
+      ))),
+    ];
+
+    const recipesResult = await this.menuRepository.findAvailableRecipesByIds(recipeIds);
+    if (recipesResult.isErr()) {
+      return Err(recipesResult.error);
+    }
+
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds([
+      ...new Set([
+        ...ingredientIds,
+        ...recipesResult.value.flatMap(recipe => Array.from(recipe.ingredients.keys())),
+      ]),
+    ]);
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const productsResult = await this.menuRepository.findAvailableProductsByIds(productIds);
+    if (productsResult.isErr()) {
+      return Err(productsResult.error);
+    }
+
+    const bundlesResult = await this.menuRepository.findAvailableBundlesByIds(bundleIds);
+    if (bundlesResult.isErr()) {
+      return Err(bundlesResult.error);
+    }
+
+    const loyaltyResult = request.customerId
+      ? await this.loyaltyRepository.findByCustomerId(request.customerId)
+      : Ok([]);
+    if (loyaltyResult.isErr()) {
+      return Err(loyaltyResult.error);
+    }
+    const loyaltyEntries: LoyaltyLedgerEntry[] = loyaltyResult.value;
+    const tier = this.loyaltyProgram.tierFor(loyaltyEntries);
+
+    // Items the store does not sell are as good as missing; the rest carry the store's prices
+    const recipeMap = new Map(store.menuOf(recipesResult.value).map(recipe => [recipe.id, recipe]));
+    const ingredientMap = new Map(ingredientsResult.value.map(ingredient => [ingredient.id, ingredient]));
+
+    const missingRecipeId = recipeIds.find(id => !recipeMap.has(id));
+    if (missingRecipeId) {
+      return Err(new NotFoundError('PizzaRecipe', missingRecipeId));
+    }
+
+    const missingIngredientId = ingredientIds.find(id => !ingredientMap.has(id));
+    if (missingIngredientId) {
+      return Err(new NotFoundError('Ingredient', missingIngredientId));
+    }
+
+    // Nor can a pizza be topped with something this store has run short of
+    const shortIngredientId = itemSections.flat()
+      .flatMap(section => section.modifiers || [])
+      .flatMap(modifier => {
+        if (modifier.type === 'SUBSTITUTE') return modifier.replacementId ? [modifier.replacementId] : [];
+        return modifier.type === 'ADD' || modifier.type === 'EXTRA' ? [modifier.ingredientId] : [];
+      })
+      .find(id => !store.isIngredientAvailable(id));
+    if (shortIngredientId) {
+      return Err(new BusinessRuleViolationError(`Ingredient ${ingredientMap.get(shortIngredientId)!.name} is not available`, {
+        ingredientId: shortIngredientId,
+        storeId: store.id,
+      }));
+    }
+
+    const productMap = new Map(store.menuOf(productsResult.value).map(product => [product.id, product]));
+    const missingProductId = productIds.find(id => !productMap.has(id));
+    if (missingProductId) {
+      return Err(new NotFoundError('Product', missingProductId));
+    }
+
+    const bundleMap = new Map(store.menuOf(bundlesResult.value).map(bundle => [bundle.id, bundle]));
+    const missingBundleId = bundleIds.find(id => !bundleMap.has(id));
+    if (missingBundleId) {
+      return Err(new NotFoundError('Bundle', missingBundleId));
+    }
+
+    // Price each line in the menu currency, then bring it into the order currency
+    const splitPricingRule = this.splitPizzaPricingPolicy.ruleFor(store.id);
+    const menuItems: OrderItem[] = [];
+    for (const [index, itemRequest] of request.items.entries()) {
+      if (itemRequest.quantity <= 0) {
+        return Err(new ValidationError('Item quantity must be positive', 'quantity'));
+      }
+
+      let itemResult: Result<OrderItem, ValidationError | BusinessRuleViolationError>;
+      if (itemTypes[index] === 'PRODUCT') {
+        itemResult = this.buildProductItem(itemRequest, productMap.get(itemRequest.productId!)!);
+      } else if (itemTypes[index] === 'BUNDLE') {
+        itemResult = await this.buildBundleItem(itemRequest, bundleMap.get(itemRequest.bundleId!)!, recipeMap, productMap);
+      } else {
+        itemResult = await this.buildPizzaItem(
+          itemRequest,
+          itemSections[index],
+          recipeMap,
+          ingredientMap,
+          tier,
+          splitPricingRule
+        );
+      }
+      if (itemResult.isErr()) {
+        return Err(itemResult.error);
+      }
+      menuItems.push(itemResult.value);
+    }
+
+    const currency = request.currency || store.currency;
+    const exchangeRates = new Map<Currency, ExchangeRate>();
+    const items: OrderItem[] = [];
+    for (const menuItem of menuItems) {
+      const convertedResult = this.convertOrderItem(menuItem, currency, exchangeRates);
+      if (convertedResult.isErr()) {
+        return Err(convertedResult.error);
+      }
+      items.push(convertedResult.value);
+    }
+
+    const subtotal = items.reduce((total, item) => total.add(item.totalPrice), Money.zero(currency));
+
+    let deliveryQuote: DeliveryQuote | undefined;
+    if (request.deliveryType === 'DELIVERY') {
+      if (!request.deliveryAddress) {
+        return Err(new ValidationError('Delivery address is required for delivery orders', 'deliveryAddress'));
+      }
+
+      const quoteResult = await this.deliveryZoneService.quote(request.deliveryAddress, subtotal, store.id);
+      if (quoteResult.isErr()) {
+        return Err(quoteResult.error);
+      }
+      deliveryQuote = quoteResult.value;
+    }
+
+    // A delivery has to leave the kitchen early enough for the drive
+    const acceptanceResult = this.orderAcceptancePolicy.accept(
+      store,
+      request.requestedDeliveryTime,
+      new Date(),
+      deliveryQuote?.maxEtaMinutes
+    );
+    if (acceptanceResult.isErr()) {
+      return Err(acceptanceResult.error);
+    }
+
+    const discountsResult = await this.applyPromoCodes(request, {
+      items,
+      subtotal,
+      deliveryFee: deliveryQuote?.fee || Money.zero(currency),
+      customerId: request.customerId,
+    });
+    if (discountsResult.isErr()) {
+      return Err(discountsResult.error);
+    }
+    const discounts = discountsResult.value;
+
+    const pointsToRedeem = request.loyaltyPointsToRedeem || 0;
+    if (pointsToRedeem > 0) {
+      const loyaltyDiscount = this.loyaltyDiscount(request, pointsToRedeem, loyaltyEntries, subtotal, discounts);
+      if (loyaltyDiscount.isErr()) {
+        return Err(loyaltyDiscount.error);
+      }
+      discounts.push(loyaltyDiscount.value);
+    }
+
+    const taxExempt = await this.isTaxExempt(request.customerId);
+
+    // Numbers are only drawn once the order is known to be priceable
+    const orderNumberResult = await this.orderNumberGenerator.next(
+      store.orderNumberPrefix,
+      new Date(),
+      store.timeZone
+    );
+    if (orderNumberResult.isErr()) {
+      return Err(orderNumberResult.error);
+    }
+
+    // Create domain order
+    const orderResult = Order.create({
+      id: crypto.randomUUID() as ID,
+      orderNumber: orderNumberResult.value,
+      customerId: request.customerId,
+      customerInfo: request.customerInfo,
+      items,
+      deliveryType: request.deliveryType,
+      deliveryAddress: request.deliveryAddress,
+      specialInstructions: request.specialInstructions,
+      requestedDeliveryTime: request.requestedDeliveryTime,
+      exchangeRates: [...exchangeRates.values()],
+      taxContext: { storeId: store.id, storeLocation: store.taxLocation, taxExempt },
+      deliveryQuote,
+      discounts,
+      availability: {
+        timeZone: store.timeZone,
+        items: [...recipeMap.values(), ...productMap.values(), ...bundleMap.values()],
+      },
+    }, this.taxEngine);
+
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+    const order = orderResult.value;
+
+    // Redeeming is the atomic step that enforces usage limits, so it happens last
+    const promotionRedemptions = discounts.flatMap(discount =>
+      discount.promotionId
+        ? [{ promotionId: discount.promotionId, orderId: order.id, customerId: order.customerId }]
+        : []
+    );
+    if (promotionRedemptions.length > 0) {
+      const redeemResult = await this.promotionRepository.redeem(promotionRedemptions);
+      if (redeemResult.isErr()) {
+        return Err(redeemResult.error);
+      }
+    }
+
+    if (pointsToRedeem > 0) {
+      const redeemResult = await this.loyaltyRepository.redeem(
+        this.loyaltyEntry(order, 'REDEEM', -pointsToRedeem, `Redeemed on order ${order.orderNumber.value}`)
+      );
+      if (redeemResult.isErr()) {
+        await this.promotionRepository.release(order.id);
+        return Err(redeemResult.error);
+      }
+    }
+
+    // Save order
+    const saveResult = await this.orderRepository.save(order);
+    if (saveResult.isErr()) {
+      if (promotionRedemptions.length > 0) {
+        await this.promotionRepository.release(order.id);
+      }
+      if (pointsToRedeem > 0) {
+        await this.loyaltyRepository.append([
+          this.loyaltyEntry(order, 'RESTORE_REDEEM', pointsToRedeem, `Order ${order.orderNumber.value} could not be placed`),
+        ]);
+      }
+      return Err(saveResult.error);
+    }
+
+    return Ok({ order: saveResult.value });
+  }
+
+  private async resolveStore(request: PlaceOrderRequest): Promise<Result<Store, ValidationError | NotFoundError | BusinessRuleViolationError | Error>> {
+    let storeId = request.storeId;
+    if (!storeId && request.deliveryType === 'DELIVERY' && request.deliveryAddress) {
+      const assignedResult = await this.deliveryZoneService.storeFor(request.deliveryAddress);
+      if (assignedResult.isErr()) {
+        return Err(assignedResult.error);
+      }
+      storeId = assignedResult.value;
+    }
+
+    if (!storeId) {
+      return Err(new ValidationError('Choose a store to order from', 'storeId'));
+    }
+
+    const storeResult = await this.storeRepository.findById(storeId);
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+
+    if (!storeResult.value.isActive) {
+      return Err(new BusinessRuleViolationError(`${storeResult.value.name} is not taking orders`, { storeId }));
+    }
+
+    return Ok(storeResult.value);
+  }
+
+  private async applyPromoCodes(
+    request: PlaceOrderRequest,
+    cart: PromotionCart
+  ): Promise<Result<OrderDiscount[], NotFoundError | BusinessRuleViolationError | Error>> {
+    const codes = [...new Set((request.promoCodes || []).map(normalizePromoCode))];
+    if (codes.length === 0) {
+      return Ok([]);
+    }
+
+    const promotionsResult = await this.promotionRepository.findByCodes(codes);
+    if (promotionsResult.isErr()) {
+      return Err(promotionsResult.error);
+    }
+
+    const missingCode = codes.find(code => !promotionsResult.value.some(promotion => promotion.code === code));
+    if (missingCode) {
+      return Err(new NotFoundError('Promotion', missingCode));
+    }
+
+    return this.promotionEngine.apply(promotionsResult.value, cart);
+  }
+
+  private loyaltyDiscount(
+    request: PlaceOrderRequest,
+    points: number,
+    entries: LoyaltyLedgerEntry[],
+    subtotal: Money,
+    discounts: OrderDiscount[]
+  ): Result<OrderDiscount, ValidationError | BusinessRuleViolationError> {
+    if (!request.customerId) {
+      return Err(new ValidationError('Sign in to redeem loyalty points', 'loyaltyPointsToRedeem'));
+    }
+
+    if (!Number.isInteger(points)) {
+      return Err(new ValidationError('Loyalty points must be a whole number', 'loyaltyPointsToRedeem'));
+    }
+
+    const balance = this.loyaltyProgram.balance(entries);
+    if (points > balance) {
+      return Err(new BusinessRuleViolationError('Not enough loyalty points', { balance, requested: points }));
+    }
+
+    const alreadyDiscounted = discounts
+      .filter(discount => discount.appliesTo === 'ITEMS')
+      .reduce((total, discount) => total.add(discount.amount), Money.zero(subtotal.currency));
+    const amount = this.loyaltyProgram.valueOf(points, subtotal.currency);
+    if (amount.isGreaterThan(subtotal.subtract(alreadyDiscounted))) {
+      return Err(new BusinessRuleViolationError('Cannot redeem more points than the order is worth', {
+        requested: points,
+      }));
+    }
+
+    return Ok({
+      promotionId: null,
+      code: 'LOYALTY',
+      description: `${points} loyalty points`,
+      appliesTo: 'ITEMS',
+      amount,
+    });
+  }
+
+  private loyaltyEntry(
+    order: Order,
+    type: 'REDEEM' | 'RESTORE_REDEEM',
+    points: number,
+    description: string
+  ): LoyaltyLedgerEntry {
+    return {
+      id: crypto.randomUUID() as ID,
+      customerId: order.customerId!,
+      orderId: order.id,
+      type,
+      points,
+      reference: order.id,
+      description,
+      createdAt: new Date(),
+    };
+  }
+
+  // Guests and unknown customers are taxed normally
+  private async isTaxExempt(customerId?: ID): Promise<boolean> {
+    if (!customerId) {
+      return false;
+    }
+
+    const userResult = await this.userRepository.findById(customerId);
+    return userResult.isOk() && userResult.value.taxExempt;
+  }
+
+  // Reuses one rate per source currency so every line in the order agrees
+  private convertOrderItem(
+    item: OrderItem,
+    currency: Currency,
+    exchangeRates: Map<Currency, ExchangeRate>
+  ): Result<OrderItem, NotFoundError | ValidationError> {
+    const from = item.totalPrice.currency;
+    if (from === currency) {
+      return Ok(item);
+    }
+
+    if (!exchangeRates.has(from)) {
+      const rateResult = this.exchangeRateProvider.getRate(from, currency);
+      if (rateResult.isErr()) {
+        return Err(rateResult.error);
+      }
+      exchangeRates.set(from, rateResult.value);
+    }
+
+    const rate = exchangeRates.get(from)!;
+    const unitPrice = item.unitPrice.convertWith(rate);
+    if (unitPrice.isErr()) {
+      return Err(unitPrice.error);
+    }
+
+    // Convert the unit price and multiply back up so line totals stay consistent
+    const converted = {
+      unitPrice: unitPrice.value,
+      totalPrice: unitPrice.value.multiply(item.quantity),
+    };
+    if (item.type !== 'BUNDLE') {
+      return Ok({ ...item, ...converted });
+    }
+
+    // Re-split the converted price so the component shares still add up to it exactly
+    const shares = unitPrice.value.allocate(
+      item.bundle.components.map(component => component.allocatedPrice.toCents())
+    );
+    return Ok({
+      ...item,
+      ...converted,
+      bundle: {
+        ...item.bundle,
+        components: item.bundle.components.map((component, index) => ({ ...component, allocatedPrice: shares[index] })),
+      },
+    });
+  }
+
+  private buildProductItem(itemRequest: PlaceOrderItemRequest, product: Product): Result<OrderItem, ValidationError> {
+    return Ok({
+      id: crypto.randomUUID() as ID,
+      type: 'PRODUCT',
+      product: { productId: product.id, name: product.name, category: product.category },
+      quantity: itemRequest.quantity,
+      unitPrice: product.price,
+      totalPrice: product.price.multiply(itemRequest.quantity),
+    });
+  }
+
+  // The bundle sells at its own price; each pick gets a share in proportion to its list price
+  private async buildBundleItem(
+    itemRequest: PlaceOrderItemRequest,
+    bundle: Bundle,
+    recipeMap: Map<ID, PizzaRecipe>,
+    productMap: Map<ID, Product>
+  ): Promise<Result<OrderItem, ValidationError>> {
+    const selections = itemRequest.selections || [];
+    const picks: BundlePick[] = [];
+    for (const selection of selections) {
+      if (Boolean(selection.recipeId) === Boolean(selection.productId)) {
+        return Err(new ValidationError('Each bundle selection needs either a recipe or a product', 'selections'));
+      }
+
+      picks.push(selection.recipeId
+        ? { groupId: selection.groupId, kind: 'PIZZA', id: selection.recipeId }
+        : {
+          groupId: selection.groupId,
+          kind: 'PRODUCT',
+          id: selection.productId!,
+          productCategory: productMap.get(selection.productId!)!.category,
+        });
+    }
+
+    const picksResult = bundle.checkPicks(picks);
+    if (picksResult.isErr()) {
+      return Err(picksResult.error);
+    }
+
+    const components: Omit<BundleComponent, 'allocatedPrice'>[] = [];
+    const listPrices: Money[] = [];
+    for (const selection of selections) {
+      if (selection.productId) {
+        const product = productMap.get(selection.productId)!;
+        components.push({
+          groupId: selection.groupId,
+          kind: 'PRODUCT',
+          pizza: null,
+          product: { productId: product.id, name: product.name, category: product.category },
+        });
+        listPrices.push(product.price);
+        continue;
+      }
+
+      const size = bundle.choiceGroups.find(group => group.id === selection.groupId)!.pizzaSize!;
+      const pizzaResult = Pizza.create({ recipeId: selection.recipeId, size, crust: selection.crust! });
+      if (pizzaResult.isErr()) {
+        return Err(pizzaResult.error);
+      }
+
+      const recipe = recipeMap.get(selection.recipeId!)!;
+      const priceResult = await this.pricingService.calculatePizzaUnitPriceAsync(
+        [{ recipe, fraction: 1, modifiers: [] }],
+        {
+          size,
+          customIngredients: new Map(),
+          quantity: 1,
+          customerType: 'REGULAR',
+          orderTime: new Date(),
+          isHappyHour: false,
+          seasonalModifiers: [],
+        },
+        new Map()
+      );
+      if (priceResult.isErr()) {
+        return Err(priceResult.error);
+      }
+
+      components.push({
+        groupId: selection.groupId,
+        kind: 'PIZZA',
+        pizza: pizzaResult.value,
+        recipeVersionId: recipe.versionId,
+        product: null,
+      });
+      listPrices.push(priceResult.value);
+    }
+
+    const shares = bundle.allocatePrice(listPrices);
+
+    return Ok({
+      id: crypto.randomUUID() as ID,
+      type: 'BUNDLE',
+      bundle: {
+        bundleId: bundle.id,
+        name: bundle.name,
+        components: components.map((component, index) => ({ ...component, allocatedPrice: shares[index] })),
+      },
+      quantity: itemRequest.quantity,
+      unitPrice: bundle.price,
+      totalPrice: bundle.price.multiply(itemRequest.quantity),
+    });
+  }
+
+  private async buildPizzaItem(
+    itemRequest: PlaceOrderItemRequest,
+    sections: PlaceOrderSectionRequest[],
+    recipeMap: Map<ID, PizzaRecipe>,
+    ingredientMap: Map<ID, Ingredient>,
+    tier: LoyaltyTier,
+    splitPricingRule: SplitPizzaPricingRule
+  ): Promise<Result<OrderItem, ValidationError | BusinessRuleViolationError>> {
+    const size = itemRequest.size!;
+    const pizzaResult = Pizza.create({
+      recipeId: itemRequest.recipeId,
+      size,
+      crust: itemRequest.crust!,
+      sections,
+      specialInstructions: itemRequest.specialInstructions,
+    });
+    if (pizzaResult.isErr()) {
+      return Err(pizzaResult.error);
+    }
+
+    const pizza = pizzaResult.value;
+
+    const compositions: Map<ID, number>[] = [];
+    for (const section of pizza.sections) {
+      const compositionResult = composeSection(recipeMap.get(section.recipeId)!, section.modifiers, ingredientMap);
+      if (compositionResult.isErr()) {
+        return Err(compositionResult.error);
+      }
+      compositions.push(compositionResult.value);
+    }
+
+    const priceResult = await this.pricingService.calculatePizzaUnitPriceAsync(
+      pizza.sections.map(section => ({
+        recipe: recipeMap.get(section.recipeId)!,
+        fraction: sectionFraction(section.position),
+        modifiers: section.modifiers,
+      })),
+      {
+        size,
+        customIngredients: pizza.customIngredients,
+        quantity: itemRequest.quantity,
+        customerType: tier,
+        orderTime: new Date(),
+        isHappyHour: false,
+        seasonalModifiers: [],
+        splitPricingRule,
+      },
+      ingredientMap
+    );
+    if (priceResult.isErr()) {
+      return Err(priceResult.error);
+    }
+
+    const unitPrice = priceResult.value;
+
+    return Ok({
+      id: crypto.randomUUID() as ID,
+      type: 'PIZZA',
+      pizza,
+      quantity: itemRequest.quantity,
+      unitPrice,
+      totalPrice: unitPrice.multiply(itemRequest.quantity),
+      dietary: dietaryProfileOf(compositions, ingredientMap),
+      recipeVersionIds: Array.from(new Set(
+        pizza.sections.flatMap(section => recipeMap.get(section.recipeId)!.versionId || [])
+      )),
+    });
+  }
+}
+
+function itemTypeOf(item: PlaceOrderItemRequest): OrderItemType | null {
+  const types: OrderItemType[] = [
+    ...(item.recipeId || item.sections?.length ? ['PIZZA' as const] : []),
+    ...(item.productId ? ['PRODUCT' as const] : []),
+    ...(item.bundleId ? ['BUNDLE' as const] : []),
+  ];
+  return types.length === 1 ? types[0] : null;
+}
+
+// A plain recipe with modifiers is the one-section case
+function sectionsOf(item: PlaceOrderItemRequest): PlaceOrderSectionRequest[] {
+  if (item.sections && item.sections.length > 0) {
+    return item.sections;
+  }
+
+  if (!item.recipeId) {
+    return [];
+  }
+
+  const additions = Object.entries(item.customIngredients || {}).map(([ingredientId, quantity]) => ({
+    type: 'ADD' as const,
+    ingredientId,
+    quantity,
+  }));
+  return [{ position: 'WHOLE', recipeId: item.recipeId, modifiers: [...additions, ...(item.modifiers || [])] }];
+}
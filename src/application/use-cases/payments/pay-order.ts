@@ -0,0 +1,267 @@
+import {
+  Result,
+  Ok,
+  Err,
+  NotFoundError,
+  ValidationError,
+  BusinessRuleViolationError,
+  PaymentDeclinedError,
+} from '@/domain/shared/result';
+import { Order } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import { Payment } from '@/domain/payment/payment';
+import type { PaymentRepository } from '@/domain/payment/payment-repository';
+import type { CardDetails, PaymentGateway } from '@/domain/payment/payment-gateway';
+import { GiftCard, GIFT_CARD_PROVIDER } from '@/domain/gift-card/gift-card';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import type { Money } from '@/domain/shared/money';
+import { GetOrderUseCase } from '@/application/use-cases/orders/get-order';
+import type { Requester } from '@/application/requester';
+import { saveOrderChange } from '@/application/save-order-change';
+import type { ID } from '@/domain/shared/types';
+
+export interface PayOrderRequest {
+  orderId: ID;
+  // May be omitted when the gift card covers the whole total
+  card?: CardDetails;
+  giftCardCode?: string;
+  requester: Requester;
+}
+
+export interface PayOrderResponse {
+  order: Order;
+  // The gift card payment comes first when the order is split between tenders
+  payments: Payment[];
+}
+
+interface GiftCardHold {
+  giftCard: GiftCard;
+  payment: Payment;
+}
+
+export class PayOrderUseCase {
+  private getOrderUseCase: GetOrderUseCase;
+
+  constructor(
+    private orderRepository: OrderRepository,
+    private paymentRepository: PaymentRepository,
+    private paymentGateway: PaymentGateway,
+    private giftCardRepository: GiftCardRepository
+  ) {
+    this.getOrderUseCase = new GetOrderUseCase(orderRepository);
+  }
+
+  async execute(request: PayOrderRequest): Promise<Result<PayOrderResponse, NotFoundError | ValidationError | BusinessRuleViolationError | PaymentDeclinedError | Error>> {
+    const orderResult = await this.getOrderUseCase.execute(request);
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const { order } = orderResult.value;
+
+    const startResult = order.startPayment();
+    if (startResult.isErr()) {
+      return Err(startResult.error);
+    }
+
+    if (!request.card && !request.giftCardCode) {
+      return Err(new ValidationError('A card or gift card is required', 'card'));
+    }
+
+    // Claims the order before any money moves; of two attempts on the same copy only one gets here
+    const claimResult = await this.orderRepository.save(order);
+    if (claimResult.isErr()) {
+      return Err(claimResult.error);
+    }
+
+    let hold: GiftCardHold | null = null;
+    if (request.giftCardCode) {
+      const holdResult = await this.holdGiftCard(order, request.giftCardCode, !request.card);
+      if (holdResult.isErr()) {
+        await this.abandon(order);
+        return Err(holdResult.error);
+      }
+      hold = holdResult.value;
+    }
+
+    const remaining = hold ? order.grandTotal.subtract(hold.payment.amount) : order.grandTotal;
+    if (remaining.isZero() || !request.card) {
+      return this.settle(order, [], hold);
+    }
+
+    const payment = Payment.create({
+      id: crypto.randomUUID() as ID,
+      orderId: order.id,
+      amount: remaining,
+      provider: this.paymentGateway.name,
+      cardLast4: request.card.number.replace(/\s+/g, '').slice(-4),
+    });
+
+    // Recorded before the provider is called, so a charge never happens without a trace of it
+    const recordResult = await this.paymentRepository.save(payment);
+    if (recordResult.isErr()) {
+      await this.releaseGiftCard(order, hold, recordResult.error.message);
+      await this.abandon(order);
+      return Err(recordResult.error);
+    }
+
+    const authorization = await this.paymentGateway.authorize({
+      amount: payment.amount,
+      card: request.card,
+      reference: order.orderNumber.value,
+    });
+    if (authorization.isErr()) {
+      await this.releaseGiftCard(order, hold, authorization.error.message);
+      await this.abandon(order);
+      return Err(authorization.error);
+    }
+
+    if (!authorization.value.approved) {
+      const { declineReason, providerReference } = authorization.value;
+      payment.decline(declineReason, providerReference || undefined);
+      return this.settleFailure(order, payment, hold, declineReason);
+    }
+
+    const providerReference = authorization.value.providerReference;
+    payment.authorize(providerReference);
+
+    const capture = await this.paymentGateway.capture(providerReference, payment.amount);
+    const captureFailure = capture.isErr()
+      ? capture.error.message
+      : !capture.value.approved ? capture.value.declineReason : null;
+
+    if (captureFailure !== null) {
+      // Release the hold so the customer isn't left with a pending charge
+      await this.paymentGateway.void(providerReference);
+      payment.void(captureFailure);
+      return this.settleFailure(order, payment, hold, captureFailure);
+    }
+
+    payment.capture();
+
+    return this.settle(order, [payment], hold);
+  }
+
+  // Takes what the gift card can cover straight away; the matching payment stays authorized
+  // until the rest of the total is captured, so a declined card can still hand it back
+  private async holdGiftCard(
+    order: Order,
+    code: string,
+    mustCoverTotal: boolean
+  ): Promise<Result<GiftCardHold, NotFoundError | ValidationError | BusinessRuleViolationError | Error>> {
+    const giftCardResult = await this.giftCardRepository.findByCode(code);
+    if (giftCardResult.isErr()) {
+      return Err(giftCardResult.error);
+    }
+
+    const giftCard = giftCardResult.value;
+    const amount = this.giftCardShare(giftCard, order.grandTotal);
+
+    if (mustCoverTotal && !amount.equals(order.grandTotal)) {
+      return Err(new ValidationError('Gift card does not cover the order total; add a card for the rest', 'card'));
+    }
+
+    const redeemResult = giftCard.redeem(amount, order.id);
+    if (redeemResult.isErr()) {
+      return Err(redeemResult.error);
+    }
+
+    const saveResult = await this.giftCardRepository.save(giftCard);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    const payment = Payment.create({
+      id: crypto.randomUUID() as ID,
+      orderId: order.id,
+      amount,
+      provider: GIFT_CARD_PROVIDER,
+      cardLast4: giftCard.code.slice(-4),
+    });
+    payment.authorize(redeemResult.value.id);
+
+    return Ok({ giftCard, payment });
+  }
+
+  // A card in another currency is left for redeem() to reject
+  private giftCardShare(giftCard: GiftCard, total: Money): Money {
+    if (giftCard.balance.currency !== total.currency) {
+      return total;
+    }
+
+    return giftCard.balance.isLessThan(total) ? giftCard.balance : total;
+  }
+
+  private async releaseGiftCard(order: Order, hold: GiftCardHold | null, reason: string): Promise<void> {
+    if (!hold) {
+      return;
+    }
+
+    hold.giftCard.restore(order.id);
+    await this.giftCardRepository.save(hold.giftCard);
+    hold.payment.void(reason);
+  }
+
+  private async settle(
+    order: Order,
+    payments: Payment[],
+    hold: GiftCardHold | null
+  ): Promise<Result<PayOrderResponse, BusinessRuleViolationError | Error>> {
+    if (hold) {
+      hold.payment.capture();
+    }
+
+    const captured = hold ? [hold.payment, ...payments] : payments;
+    return this.persist(order, captured, current => current.recordPayment(...captured));
+  }
+
+  private async settleFailure(
+    order: Order,
+    payment: Payment,
+    hold: GiftCardHold | null,
+    reason: string
+  ): Promise<Result<PayOrderResponse, PaymentDeclinedError | BusinessRuleViolationError | Error>> {
+    await this.releaseGiftCard(order, hold, reason);
+
+    // The failed attempt is still recorded so support can see what happened
+    const persisted = await this.persist(
+      order,
+      hold ? [hold.payment, payment] : [payment],
+      current => current.recordPaymentFailure(payment)
+    );
+    if (persisted.isErr()) {
+      return persisted;
+    }
+
+    return Err(new PaymentDeclinedError(reason, { orderId: order.id, paymentId: payment.id }));
+  }
+
+  // The outcome is kept even if the order changed since it was claimed
+  private async persist(
+    order: Order,
+    payments: Payment[],
+    apply: (current: Order) => Result<void, BusinessRuleViolationError>
+  ): Promise<Result<PayOrderResponse, BusinessRuleViolationError | Error>> {
+    for (const payment of payments) {
+      const paymentResult = await this.paymentRepository.save(payment);
+      if (paymentResult.isErr()) {
+        return Err(paymentResult.error);
+      }
+    }
+
+    const orderSaveResult = await saveOrderChange(this.orderRepository, order, apply);
+    if (orderSaveResult.isErr()) {
+      return Err(orderSaveResult.error);
+    }
+
+    return Ok({ order: orderSaveResult.value, payments });
+  }
+
+  // Hands the claim back when the attempt ends before any payment was made
+  private async abandon(order: Order): Promise<void> {
+    await saveOrderChange(this.orderRepository, order, current => {
+      current.abandonPayment();
+      return Ok(undefined);
+    });
+  }
+}
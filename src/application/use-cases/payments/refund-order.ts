@@ -0,0 +1,249 @@
+import {
+  Result,
+  Ok,
+  Err,
+  NotFoundError,
+  ValidationError,
+  BusinessRuleViolationError,
+  ForbiddenError,
+} from '@/domain/shared/result';
+import { Order, type OrderRefund } from '@/domain/order/order';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import type { Payment } from '@/domain/payment/payment';
+import type { PaymentRepository } from '@/domain/payment/payment-repository';
+import type { PaymentGateway } from '@/domain/payment/payment-gateway';
+import { GIFT_CARD_PROVIDER } from '@/domain/gift-card/gift-card';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import { saveOrderChange } from '@/application/save-order-change';
+import { Money } from '@/domain/shared/money';
+import type { ID } from '@/domain/shared/types';
+
+export interface RefundOrderRequest {
+  orderId: ID;
+  // Omit to refund everything not refunded yet
+  orderItemIds?: ID[];
+  reason: string;
+  requester: Requester;
+}
+
+export interface RefundOrderResponse {
+  order: Order;
+  // One refund per tender the money went back to; the card comes before the gift card
+  refunds: OrderRefund[];
+}
+
+// The part of a refund that goes back through one payment
+interface RefundShare {
+  payment: Payment;
+  amount: Money;
+}
+
+export class RefundOrderUseCase {
+  constructor(
+    private orderRepository: OrderRepository,
+    private paymentRepository: PaymentRepository,
+    private paymentGateway: PaymentGateway,
+    private giftCardRepository: GiftCardRepository
+  ) {}
+
+  async execute(request: RefundOrderRequest): Promise<Result<RefundOrderResponse, NotFoundError | ValidationError | BusinessRuleViolationError | ForbiddenError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_ORDERS')) {
+      return Err(new ForbiddenError('refund orders', { orderId: request.orderId }));
+    }
+
+    if (!request.reason.trim()) {
+      return Err(new ValidationError('Refund reason is required', 'reason'));
+    }
+
+    const orderResult = await this.orderRepository.findById(request.orderId);
+    if (orderResult.isErr()) {
+      return Err(orderResult.error);
+    }
+
+    const order = orderResult.value;
+    if (order.storeId && !canOperateStore(request.requester, order.storeId)) {
+      return Err(new NotFoundError('Order', request.orderId));
+    }
+
+    const quoteResult = order.quoteRefund(request.orderItemIds);
+    if (quoteResult.isErr()) {
+      return Err(quoteResult.error);
+    }
+
+    const paymentsResult = await this.paymentRepository.findByOrderId(order.id);
+    if (paymentsResult.isErr()) {
+      return Err(paymentsResult.error);
+    }
+
+    const { amount, orderItemIds } = quoteResult.value;
+    const sharesResult = this.splitAcrossTenders(order, paymentsResult.value, amount);
+    if (sharesResult.isErr()) {
+      return Err(sharesResult.error);
+    }
+
+    const pending: OrderRefund[] = [];
+    for (const share of sharesResult.value) {
+      const startResult = order.startRefund({
+        id: crypto.randomUUID() as ID,
+        paymentId: share.payment.id,
+        amount: share.amount,
+        orderItemIds,
+        reason: request.reason.trim(),
+        actorId: request.requester.userId,
+        createdAt: new Date(),
+      });
+      if (startResult.isErr()) {
+        return Err(startResult.error);
+      }
+      pending.push(startResult.value);
+    }
+
+    // Saved before any money moves: if the final save fails, the PENDING entries still hold the
+    // amount back and show which refunds need checking against the provider. The save only lands
+    // over the copy the quote was made from, so two refunds racing for the same money cannot both pay out
+    const pendingSave = await this.orderRepository.save(order);
+    if (pendingSave.isErr()) {
+      return Err(pendingSave.error);
+    }
+
+    // Provider reference per refund paid out
+    const paidOut = new Map<ID, string>();
+    for (const [index, share] of sharesResult.value.entries()) {
+      const payout = share.payment.provider === GIFT_CARD_PROVIDER
+        ? await this.refundToGiftCard(order, share.amount)
+        : await this.refundToCard(order, share.payment, share.amount);
+
+      if (payout.isErr()) {
+        const unpaid = pending.slice(index);
+        const failedSave = await saveOrderChange(this.orderRepository, order, current => {
+          unpaid.forEach(refund => current.failRefund(refund.id));
+          return Ok(undefined);
+        });
+        return Err(failedSave.isErr() ? failedSave.error : payout.error);
+      }
+
+      paidOut.set(pending[index].id, payout.value);
+    }
+
+    let completed: OrderRefund[] = [];
+    // The money has moved by now, so the outcome is kept even if the order changed meanwhile
+    const saveResult = await saveOrderChange(this.orderRepository, order, current => {
+      completed = [];
+      for (const [refundId, providerReference] of paidOut) {
+        const completeResult = current.completeRefund(refundId, providerReference);
+        if (completeResult.isErr()) {
+          return Err(completeResult.error);
+        }
+        completed.push(completeResult.value);
+      }
+      return Ok(undefined);
+    });
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ order: saveResult.value, refunds: completed });
+  }
+
+  // Money goes back to the card first; whatever the card cannot take goes back to the gift card
+  private splitAcrossTenders(
+    order: Order,
+    payments: Payment[],
+    amount: Money
+  ): Result<RefundShare[], BusinessRuleViolationError> {
+    const tenders = payments
+      .filter(payment => payment.status === 'CAPTURED')
+      .filter(payment => payment.provider === this.paymentGateway.name || payment.provider === GIFT_CARD_PROVIDER)
+      .sort((a, b) => Number(a.provider === GIFT_CARD_PROVIDER) - Number(b.provider === GIFT_CARD_PROVIDER));
+
+    if (tenders.length === 0) {
+      return Err(new BusinessRuleViolationError('Order has no captured payment to refund', {
+        orderId: order.id,
+      }));
+    }
+
+    const shares: RefundShare[] = [];
+    let left = amount;
+    for (const payment of tenders) {
+      const alreadyRefunded = order.refunds
+        .filter(refund => refund.paymentId === payment.id && refund.status !== 'FAILED')
+        .reduce((total, refund) => total.add(refund.amount), Money.zero(amount.currency));
+      const refundable = payment.amount.subtract(alreadyRefunded);
+      if (left.isZero() || refundable.isZero()) {
+        continue;
+      }
+
+      const share = left.isGreaterThan(refundable) ? refundable : left;
+      shares.push({ payment, amount: share });
+      left = left.subtract(share);
+    }
+
+    if (!left.isZero()) {
+      return Err(new BusinessRuleViolationError('Refund exceeds the amount paid for the order', {
+        orderId: order.id,
+        requested: amount.toString(),
+      }));
+    }
+
+    return Ok(shares);
+  }
+
+  private async refundToCard(order: Order, payment: Payment, amount: Money): Promise<Result<string, BusinessRuleViolationError | Error>> {
+    if (!payment.providerReference) {
+      return Err(new BusinessRuleViolationError('Order has no captured payment to refund', {
+        orderId: order.id,
+        paymentId: payment.id,
+      }));
+    }
+
+    const gatewayResult = await this.paymentGateway.refund(payment.providerReference, amount);
+    if (gatewayResult.isErr()) {
+      return Err(gatewayResult.error);
+    }
+
+    if (!gatewayResult.value.approved) {
+      return Err(new BusinessRuleViolationError(
+        `Refund rejected by payment provider: ${gatewayResult.value.declineReason}`,
+        { orderId: order.id, paymentId: payment.id }
+      ));
+    }
+
+    return Ok(gatewayResult.value.providerReference);
+  }
+
+  // Puts the amount back on the gift card the order was paid with; the transaction id is the reference
+  private async refundToGiftCard(order: Order, amount: Money): Promise<Result<string, BusinessRuleViolationError | Error>> {
+    const giftCardsResult = await this.giftCardRepository.findByOrderId(order.id);
+    if (giftCardsResult.isErr()) {
+      return Err(giftCardsResult.error);
+    }
+
+    const giftCard = giftCardsResult.value.find(card => !card.redeemedFor(order.id).isZero());
+    if (!giftCard) {
+      return Err(new BusinessRuleViolationError('Gift card has nothing left to give back for this order', {
+        orderId: order.id,
+      }));
+    }
+
+    // restore() gives back no more than the card still holds for the order, and the ledger must
+    // not record more than actually went back
+    if (giftCard.redeemedFor(order.id).isLessThan(amount)) {
+      return Err(new BusinessRuleViolationError('Gift card has less left to give back for this order than the refund', {
+        orderId: order.id,
+        giftCardId: giftCard.id,
+        requested: amount.toString(),
+      }));
+    }
+
+    const transaction = giftCard.restore(order.id, amount)!;
+
+    const saveResult = await this.giftCardRepository.save(giftCard);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok(transaction.id);
+  }
+}
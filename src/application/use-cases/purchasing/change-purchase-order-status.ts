@@ -0,0 +1,49 @@
+import { Result, Ok, Err, ForbiddenError, NotFoundError, BusinessRuleViolationError } from '@/domain/shared/result';
+import { PurchaseOrder } from '@/domain/purchasing/purchase-order';
+import type { PurchaseOrderRepository } from '@/domain/purchasing/purchase-order-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface ChangePurchaseOrderStatusRequest {
+  purchaseOrderId: ID;
+  // Receiving has its own use case, since it carries quantities
+  status: 'SUBMITTED' | 'CANCELLED';
+  requester: Requester;
+}
+
+export interface ChangePurchaseOrderStatusResponse {
+  purchaseOrder: PurchaseOrder;
+}
+
+export class ChangePurchaseOrderStatusUseCase {
+  constructor(private purchaseOrderRepository: PurchaseOrderRepository) {}
+
+  async execute(request: ChangePurchaseOrderStatusRequest): Promise<Result<ChangePurchaseOrderStatusResponse, ForbiddenError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('change purchase orders'));
+    }
+
+    const purchaseOrderResult = await this.purchaseOrderRepository.findById(request.purchaseOrderId);
+    if (purchaseOrderResult.isErr()) {
+      return Err(purchaseOrderResult.error);
+    }
+
+    const purchaseOrder = purchaseOrderResult.value;
+    if (!canOperateStore(request.requester, purchaseOrder.storeId)) {
+      return Err(new ForbiddenError('change purchase orders for this store'));
+    }
+
+    const changeResult = request.status === 'SUBMITTED' ? purchaseOrder.submit() : purchaseOrder.cancel();
+    if (changeResult.isErr()) {
+      return Err(changeResult.error);
+    }
+
+    const saveResult = await this.purchaseOrderRepository.save(purchaseOrder);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ purchaseOrder: saveResult.value });
+  }
+}
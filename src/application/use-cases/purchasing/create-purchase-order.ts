@@ -0,0 +1,100 @@
+import {
+  Result,
+  Ok,
+  Err,
+  ValidationError,
+  ForbiddenError,
+  NotFoundError,
+  BusinessRuleViolationError,
+} from '@/domain/shared/result';
+import { PurchaseOrder, type PurchaseOrderLineProps } from '@/domain/purchasing/purchase-order';
+import type { PurchaseOrderRepository } from '@/domain/purchasing/purchase-order-repository';
+import type { SupplierRepository } from '@/domain/purchasing/supplier-repository';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface CreatePurchaseOrderRequest {
+  supplierId: ID;
+  storeId: ID;
+  expectedDeliveryDate: Date;
+  lines: PurchaseOrderLineProps[];
+  notes?: string;
+  // Send it to the supplier straight away instead of keeping a draft
+  submit?: boolean;
+  requester: Requester;
+}
+
+export interface CreatePurchaseOrderResponse {
+  purchaseOrder: PurchaseOrder;
+}
+
+export class CreatePurchaseOrderUseCase {
+  constructor(
+    private purchaseOrderRepository: PurchaseOrderRepository,
+    private supplierRepository: SupplierRepository,
+    private menuRepository: MenuRepository
+  ) {}
+
+  async execute(request: CreatePurchaseOrderRequest): Promise<Result<CreatePurchaseOrderResponse, ValidationError | ForbiddenError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('raise purchase orders'));
+    }
+
+    if (!canOperateStore(request.requester, request.storeId)) {
+      return Err(new ForbiddenError('raise purchase orders for this store'));
+    }
+
+    const supplierResult = await this.supplierRepository.findById(request.supplierId);
+    if (supplierResult.isErr()) {
+      return Err(supplierResult.error);
+    }
+
+    if (!supplierResult.value.isActive) {
+      return Err(new BusinessRuleViolationError(`${supplierResult.value.name} is no longer an active supplier`, {
+        supplierId: request.supplierId,
+      }));
+    }
+
+    const ingredientIds = request.lines.map(line => line.ingredientId);
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds(ingredientIds);
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const knownIds = new Set(ingredientsResult.value.map(ingredient => ingredient.id));
+    const unknownId = ingredientIds.find(id => !knownIds.has(id));
+    if (unknownId) {
+      return Err(new NotFoundError('Ingredient', unknownId));
+    }
+
+    const purchaseOrderResult = PurchaseOrder.create({
+      id: crypto.randomUUID() as ID,
+      supplierId: request.supplierId,
+      storeId: request.storeId,
+      expectedDeliveryDate: request.expectedDeliveryDate,
+      lines: request.lines,
+      notes: request.notes,
+      createdBy: request.requester.userId,
+    });
+    if (purchaseOrderResult.isErr()) {
+      return Err(purchaseOrderResult.error);
+    }
+
+    const purchaseOrder = purchaseOrderResult.value;
+    if (request.submit) {
+      const submitResult = purchaseOrder.submit();
+      if (submitResult.isErr()) {
+        return Err(submitResult.error);
+      }
+    }
+
+    const saveResult = await this.purchaseOrderRepository.save(purchaseOrder);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ purchaseOrder: saveResult.value });
+  }
+}
@@ -0,0 +1,46 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError } from '@/domain/shared/result';
+import { Supplier } from '@/domain/purchasing/supplier';
+import type { SupplierRepository } from '@/domain/purchasing/supplier-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface CreateSupplierRequest {
+  name: string;
+  email?: string;
+  phone?: string;
+  leadTimeDays: number;
+  requester: Requester;
+}
+
+export interface CreateSupplierResponse {
+  supplier: Supplier;
+}
+
+export class CreateSupplierUseCase {
+  constructor(private supplierRepository: SupplierRepository) {}
+
+  async execute(request: CreateSupplierRequest): Promise<Result<CreateSupplierResponse, ValidationError | ForbiddenError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('manage suppliers'));
+    }
+
+    const supplierResult = Supplier.create({
+      id: crypto.randomUUID() as ID,
+      name: request.name,
+      email: request.email,
+      phone: request.phone,
+      leadTimeDays: request.leadTimeDays,
+    });
+    if (supplierResult.isErr()) {
+      return Err(supplierResult.error);
+    }
+
+    const saveResult = await this.supplierRepository.save(supplierResult.value);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ supplier: saveResult.value });
+  }
+}
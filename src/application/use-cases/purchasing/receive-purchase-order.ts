@@ -0,0 +1,81 @@
+import {
+  Result,
+  Ok,
+  Err,
+  ValidationError,
+  ForbiddenError,
+  NotFoundError,
+  BusinessRuleViolationError,
+} from '@/domain/shared/result';
+import { PurchaseOrder, type PurchaseOrderReceiptLine } from '@/domain/purchasing/purchase-order';
+import type { PurchaseOrderRepository } from '@/domain/purchasing/purchase-order-repository';
+import type { StockLevel } from '@/domain/inventory/stock-level';
+import type { RecordStockUseCase } from '@/application/use-cases/inventory/record-stock';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface ReceivePurchaseOrderRequest {
+  purchaseOrderId: ID;
+  lines: PurchaseOrderReceiptLine[];
+  // Close the order even though some lines came short and the rest will not follow
+  closeShort?: boolean;
+  requester: Requester;
+}
+
+export interface ReceivePurchaseOrderResponse {
+  purchaseOrder: PurchaseOrder;
+  stockLevels: StockLevel[];
+}
+
+export class ReceivePurchaseOrderUseCase {
+  constructor(
+    private purchaseOrderRepository: PurchaseOrderRepository,
+    private recordStockUseCase: RecordStockUseCase
+  ) {}
+
+  async execute(request: ReceivePurchaseOrderRequest): Promise<Result<ReceivePurchaseOrderResponse, ValidationError | ForbiddenError | NotFoundError | BusinessRuleViolationError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('receive purchase orders'));
+    }
+
+    const purchaseOrderResult = await this.purchaseOrderRepository.findById(request.purchaseOrderId);
+    if (purchaseOrderResult.isErr()) {
+      return Err(purchaseOrderResult.error);
+    }
+
+    const purchaseOrder = purchaseOrderResult.value;
+    if (!canOperateStore(request.requester, purchaseOrder.storeId)) {
+      return Err(new ForbiddenError('receive purchase orders for this store'));
+    }
+
+    const receiveResult = purchaseOrder.receive(request.lines, request.closeShort);
+    if (receiveResult.isErr()) {
+      return Err(receiveResult.error);
+    }
+
+    // The receipt is recorded before stock moves: if stock fails half way, a stocktake fixes
+    // the shortfall, whereas the other order would add the delivery twice on a retry
+    const saveResult = await this.purchaseOrderRepository.save(purchaseOrder);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    const stockLevels: StockLevel[] = [];
+    for (const line of request.lines) {
+      const stockResult = await this.recordStockUseCase.execute({
+        storeId: purchaseOrder.storeId,
+        ingredientId: line.ingredientId,
+        received: line.quantity,
+        unitCost: line.unitCost || purchaseOrder.lines.find(ordered => ordered.ingredientId === line.ingredientId)!.unitCost,
+        requester: request.requester,
+      });
+      if (stockResult.isErr()) {
+        return Err(stockResult.error);
+      }
+      stockLevels.push(stockResult.value.stockLevel);
+    }
+
+    return Ok({ purchaseOrder: saveResult.value, stockLevels });
+  }
+}
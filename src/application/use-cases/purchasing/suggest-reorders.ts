@@ -0,0 +1,87 @@
+import { Result, Ok, Err, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import { ReorderPolicy, type ReorderSuggestion } from '@/domain/purchasing/reorder-policy';
+import type { InventoryRepository } from '@/domain/inventory/inventory-repository';
+import type { PurchaseOrderRepository } from '@/domain/purchasing/purchase-order-repository';
+import type { SupplierRepository } from '@/domain/purchasing/supplier-repository';
+import { roundQuantity } from '@/domain/inventory/stock-level';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface SuggestReordersRequest {
+  storeId: ID;
+  // Uses the supplier's lead time; without one, stock only has to last the cover period
+  supplierId?: ID;
+  requester: Requester;
+  now?: Date;
+}
+
+export interface SuggestReordersResponse {
+  suggestions: ReorderSuggestion[];
+}
+
+export class SuggestReordersUseCase {
+  constructor(
+    private inventoryRepository: InventoryRepository,
+    private purchaseOrderRepository: PurchaseOrderRepository,
+    private supplierRepository: SupplierRepository,
+    private reorderPolicy: ReorderPolicy = new ReorderPolicy()
+  ) {}
+
+  async execute(request: SuggestReordersRequest): Promise<Result<SuggestReordersResponse, ForbiddenError | NotFoundError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('WRITE_MENU')) {
+      return Err(new ForbiddenError('view reorder suggestions'));
+    }
+
+    if (!canOperateStore(request.requester, request.storeId)) {
+      return Err(new ForbiddenError('view reorder suggestions for this store'));
+    }
+
+    let leadTimeDays = 0;
+    if (request.supplierId) {
+      const supplierResult = await this.supplierRepository.findById(request.supplierId);
+      if (supplierResult.isErr()) {
+        return Err(supplierResult.error);
+      }
+      leadTimeDays = supplierResult.value.leadTimeDays;
+    }
+
+    const levelsResult = await this.inventoryRepository.findStockLevelsByStore(request.storeId);
+    if (levelsResult.isErr()) {
+      return Err(levelsResult.error);
+    }
+
+    const consumptionResult = await this.inventoryRepository.findConsumptionSince(
+      request.storeId,
+      this.reorderPolicy.consumptionWindowStart(request.now)
+    );
+    if (consumptionResult.isErr()) {
+      return Err(consumptionResult.error);
+    }
+
+    const openOrdersResult = await this.purchaseOrderRepository.findOpenByStore(request.storeId);
+    if (openOrdersResult.isErr()) {
+      return Err(openOrdersResult.error);
+    }
+
+    const onOrder = new Map<ID, number>();
+    for (const purchaseOrder of openOrdersResult.value) {
+      for (const [ingredientId, outstanding] of purchaseOrder.outstandingQuantities()) {
+        onOrder.set(ingredientId, roundQuantity((onOrder.get(ingredientId) || 0) + outstanding));
+      }
+    }
+
+    const suggestions = levelsResult.value
+      .map(level => this.reorderPolicy.suggest({
+        ingredientId: level.ingredientId,
+        available: level.available,
+        parLevel: level.parLevel,
+        onOrder: onOrder.get(level.ingredientId) || 0,
+        consumed: consumptionResult.value.get(level.ingredientId) || 0,
+        leadTimeDays,
+      }))
+      .filter((suggestion): suggestion is ReorderSuggestion => suggestion !== null);
+
+    return Ok({ suggestions });
+  }
+}
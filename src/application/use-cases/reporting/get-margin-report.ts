@@ -0,0 +1,71 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError } from '@/domain/shared/result';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { FoodCostCalculator } from '@/domain/reporting/food-cost';
+import { buildMarginReport, type MarginReport } from '@/domain/reporting/margin-report';
+import { ingredientUsageOf, pizzasOf } from '@/domain/inventory/ingredient-usage';
+import type { Currency } from '@/domain/shared/money';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+
+export interface GetMarginReportRequest {
+  startDate: Date;
+  endDate: Date;
+  currency: Currency;
+  requester: Requester;
+}
+
+export type GetMarginReportResponse = MarginReport;
+
+// Margins of the orders delivered in a period, by recipe, by order and by day. Costs are today's
+// ingredient cost prices, since what each ingredient cost on the day is not kept.
+export class GetMarginReportUseCase {
+  constructor(
+    private orderRepository: OrderRepository,
+    private menuRepository: MenuRepository
+  ) {}
+
+  async execute(request: GetMarginReportRequest): Promise<Result<GetMarginReportResponse, ValidationError | ForbiddenError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('READ_ANALYTICS')) {
+      return Err(new ForbiddenError('view margin reports'));
+    }
+
+    if (request.startDate > request.endDate) {
+      return Err(new ValidationError('Start date must not be after end date', 'startDate'));
+    }
+
+    const ordersResult = await this.orderRepository.findDeliveredByDateRange(
+      request.startDate,
+      request.endDate,
+      request.currency
+    );
+    if (ordersResult.isErr()) {
+      return Err(ordersResult.error);
+    }
+
+    const orders = ordersResult.value;
+    const items = orders.flatMap(order => order.items);
+    const recipeIds = Array.from(new Set(
+      pizzasOf(items).flatMap(({ pizza }) => pizza.sections.map(section => section.recipeId))
+    ));
+
+    const recipesResult = await this.menuRepository.findRecipesByIds(recipeIds);
+    if (recipesResult.isErr()) {
+      return Err(recipesResult.error);
+    }
+
+    const recipes = new Map(recipesResult.value.map(recipe => [recipe.id, recipe]));
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds(
+      Array.from(ingredientUsageOf(items, recipes).keys())
+    );
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const calculator = new FoodCostCalculator(
+      new Map(ingredientsResult.value.map(ingredient => [ingredient.id, ingredient]))
+    );
+
+    return Ok(buildMarginReport(orders, recipes, calculator, request.currency));
+  }
+}
@@ -0,0 +1,44 @@
+import { Result, Ok, Err, ForbiddenError } from '@/domain/shared/result';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { FoodCostCalculator, type MenuItemCost } from '@/domain/reporting/food-cost';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+
+export interface GetMenuFoodCostsRequest {
+  requester: Requester;
+}
+
+export interface GetMenuFoodCostsResponse {
+  // Every size of every recipe on the menu, lowest margin first
+  menuItems: MenuItemCost[];
+}
+
+export class GetMenuFoodCostsUseCase {
+  constructor(private menuRepository: MenuRepository) {}
+
+  async execute(request: GetMenuFoodCostsRequest): Promise<Result<GetMenuFoodCostsResponse, ForbiddenError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('READ_ANALYTICS')) {
+      return Err(new ForbiddenError('view food costs'));
+    }
+
+    const recipesResult = await this.menuRepository.findAvailableRecipes();
+    if (recipesResult.isErr()) {
+      return Err(recipesResult.error);
+    }
+
+    const recipes = recipesResult.value;
+    const ingredientIds = Array.from(new Set(recipes.flatMap(recipe => Array.from(recipe.ingredients.keys()))));
+    const ingredientsResult = await this.menuRepository.findIngredientsByIds(ingredientIds);
+    if (ingredientsResult.isErr()) {
+      return Err(ingredientsResult.error);
+    }
+
+    const calculator = new FoodCostCalculator(
+      new Map(ingredientsResult.value.map(ingredient => [ingredient.id, ingredient]))
+    );
+
+    return Ok({
+      menuItems: calculator.menuCosts(recipes).sort((a, b) => a.marginMinorUnits - b.marginMinorUnits),
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import { ROLE_PERMISSIONS, type User } from '@/domain/user/user';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import type { UserRepository } from '@/infrastructure/database/repositories/user-repository';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface AssignStaffStoresRequest {
+  userId: ID;
+  // Replaces the stores the user may operate; takes effect on their next sign-in
+  storeIds: ID[];
+  requester: Requester;
+}
+
+export interface AssignStaffStoresResponse {
+  user: User;
+}
+
+export class AssignStaffStoresUseCase {
+  constructor(
+    private userRepository: UserRepository,
+    private storeRepository: StoreRepository
+  ) {}
+
+  async execute(request: AssignStaffStoresRequest): Promise<Result<AssignStaffStoresResponse, ValidationError | ForbiddenError | NotFoundError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('MANAGE_USERS')) {
+      return Err(new ForbiddenError('assign staff to stores'));
+    }
+
+    for (const storeId of new Set(request.storeIds)) {
+      const storeResult = await this.storeRepository.findById(storeId);
+      if (storeResult.isErr()) {
+        return Err(storeResult.error);
+      }
+    }
+
+    const userResult = await this.userRepository.findById(request.userId);
+    if (userResult.isErr()) {
+      return Err(userResult.error);
+    }
+    const user = userResult.value;
+
+    const assignResult = user.assignStores(request.storeIds);
+    if (assignResult.isErr()) {
+      return Err(assignResult.error);
+    }
+
+    const saveResult = await this.userRepository.save(user);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ user: saveResult.value });
+  }
+}
@@ -0,0 +1,35 @@
+import { Result, Ok, Err, BusinessRuleViolationError, NotFoundError } from '@/domain/shared/result';
+import type { Store } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import type { DeliveryZoneService } from '@/domain/delivery/delivery-zone-service';
+import type { Address } from '@/domain/order/order';
+
+export interface FindStoreForAddressRequest {
+  address: Address;
+}
+
+export interface FindStoreForAddressResponse {
+  store: Store;
+}
+
+// The store a delivery to the address would be assigned to, so customers can see it before ordering
+export class FindStoreForAddressUseCase {
+  constructor(
+    private storeRepository: StoreRepository,
+    private deliveryZoneService: DeliveryZoneService
+  ) {}
+
+  async execute(request: FindStoreForAddressRequest): Promise<Result<FindStoreForAddressResponse, BusinessRuleViolationError | NotFoundError | Error>> {
+    const storeIdResult = await this.deliveryZoneService.storeFor(request.address);
+    if (storeIdResult.isErr()) {
+      return Err(storeIdResult.error);
+    }
+
+    const storeResult = await this.storeRepository.findById(storeIdResult.value);
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+
+    return Ok({ store: storeResult.value });
+  }
+}
@@ -0,0 +1,40 @@
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { Store } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { OrderAcceptancePolicy } from '@/domain/store/order-acceptance-policy';
+import type { ID } from '@/domain/shared/types';
+
+export interface GetEarliestSlotRequest {
+  storeId: ID;
+  now?: Date;
+}
+
+export interface GetEarliestSlotResponse {
+  store: Store;
+  isOpen: boolean;
+  // When a pickup order placed now could be ready; null while ordering is paused or the store
+  // does not open again within the scheduling window
+  earliestSlot: Date | null;
+}
+
+export class GetEarliestSlotUseCase {
+  constructor(
+    private storeRepository: StoreRepository,
+    private orderAcceptancePolicy: OrderAcceptancePolicy = new OrderAcceptancePolicy()
+  ) {}
+
+  async execute(request: GetEarliestSlotRequest): Promise<Result<GetEarliestSlotResponse, NotFoundError | Error>> {
+    const storeResult = await this.storeRepository.findById(request.storeId);
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+    const store = storeResult.value;
+
+    const now = request.now || new Date();
+    return Ok({
+      store,
+      isOpen: !store.orderingPause && store.isOpenAt(now),
+      earliestSlot: this.orderAcceptancePolicy.earliestSlot(store, now),
+    });
+  }
+}
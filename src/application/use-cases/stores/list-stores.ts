@@ -0,0 +1,21 @@
+import { Result, Ok, Err } from '@/domain/shared/result';
+import type { Store } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+
+export interface ListStoresResponse {
+  stores: Store[];
+}
+
+// The stores customers can order from
+export class ListStoresUseCase {
+  constructor(private storeRepository: StoreRepository) {}
+
+  async execute(): Promise<Result<ListStoresResponse, Error>> {
+    const storesResult = await this.storeRepository.findActive();
+    if (storesResult.isErr()) {
+      return Err(storesResult.error);
+    }
+
+    return Ok({ stores: storesResult.value });
+  }
+}
@@ -0,0 +1,56 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import type { Store } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import { canOperateStore, type Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface PauseStoreOrderingRequest {
+  storeId: ID;
+  // False takes orders again
+  paused: boolean;
+  // Required when pausing; customers see it
+  reason?: string;
+  requester: Requester;
+}
+
+export interface PauseStoreOrderingResponse {
+  store: Store;
+}
+
+// The emergency switch: a paused store turns every new order away until it is flipped back
+export class PauseStoreOrderingUseCase {
+  constructor(private storeRepository: StoreRepository) {}
+
+  async execute(request: PauseStoreOrderingRequest): Promise<Result<PauseStoreOrderingResponse, ValidationError | ForbiddenError | NotFoundError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('MANAGE_ORDERS')) {
+      return Err(new ForbiddenError('pause ordering'));
+    }
+
+    if (!canOperateStore(request.requester, request.storeId)) {
+      return Err(new ForbiddenError('pause ordering for this store'));
+    }
+
+    const storeResult = await this.storeRepository.findById(request.storeId);
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+    const store = storeResult.value;
+
+    if (request.paused) {
+      const pauseResult = store.pauseOrdering(request.reason || '', request.requester.userId);
+      if (pauseResult.isErr()) {
+        return Err(pauseResult.error);
+      }
+    } else {
+      store.resumeOrdering();
+    }
+
+    const saveResult = await this.storeRepository.save(store);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ store: saveResult.value });
+  }
+}
@@ -0,0 +1,78 @@
+import { Result, Ok, Err, ValidationError, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import { Store, type OrderingPause } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import type { Address } from '@/domain/order/order';
+import type { AvailabilityWindow } from '@/domain/menu/availability-schedule';
+import type { Currency, Money } from '@/domain/shared/money';
+import { ROLE_PERMISSIONS } from '@/domain/user/user';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface SaveStoreRequest {
+  // Replaces an existing store; a new one is opened without it
+  storeId?: ID;
+  name: string;
+  address: Address;
+  timeZone: string;
+  currency: Currency;
+  orderNumberPrefix?: string;
+  openingHours?: AvailabilityWindow[];
+  holidayClosures?: string[];
+  excludedItemIds?: ID[];
+  priceOverrides?: Map<ID, Money>;
+  isActive?: boolean;
+  requester: Requester;
+}
+
+export interface SaveStoreResponse {
+  store: Store;
+}
+
+export class SaveStoreUseCase {
+  constructor(private storeRepository: StoreRepository) {}
+
+  async execute(request: SaveStoreRequest): Promise<Result<SaveStoreResponse, ValidationError | ForbiddenError | NotFoundError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('MANAGE_SYSTEM')) {
+      return Err(new ForbiddenError('manage stores'));
+    }
+
+    // Editing a store leaves a pause in place; only the pause switch lifts it. Ingredient
+    // availability follows stock, so it is kept too.
+    let orderingPause: OrderingPause | null = null;
+    let unavailableIngredientIds: ID[] = [];
+    if (request.storeId) {
+      const existingResult = await this.storeRepository.findById(request.storeId);
+      if (existingResult.isErr()) {
+        return Err(existingResult.error);
+      }
+      orderingPause = existingResult.value.orderingPause;
+      unavailableIngredientIds = existingResult.value.unavailableIngredientIds;
+    }
+
+    const storeResult = Store.create({
+      id: request.storeId || (crypto.randomUUID() as ID),
+      name: request.name,
+      address: request.address,
+      timeZone: request.timeZone,
+      currency: request.currency,
+      orderNumberPrefix: request.orderNumberPrefix,
+      openingHours: request.openingHours,
+      holidayClosures: request.holidayClosures,
+      excludedItemIds: request.excludedItemIds,
+      priceOverrides: request.priceOverrides,
+      isActive: request.isActive,
+      orderingPause,
+      unavailableIngredientIds,
+    });
+    if (storeResult.isErr()) {
+      return Err(storeResult.error);
+    }
+
+    const saveResult = await this.storeRepository.save(storeResult.value);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ store: saveResult.value });
+  }
+}
@@ -0,0 +1,41 @@
+import { Result, Ok, Err, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import { ROLE_PERMISSIONS, type User } from '@/domain/user/user';
+import type { UserRepository } from '@/infrastructure/database/repositories/user-repository';
+import type { Requester } from '@/application/requester';
+import type { ID } from '@/domain/shared/types';
+
+export interface SetTaxExemptRequest {
+  userId: ID;
+  // Applies to orders placed from now on; placed orders keep the tax they were charged
+  taxExempt: boolean;
+  requester: Requester;
+}
+
+export interface SetTaxExemptResponse {
+  user: User;
+}
+
+export class SetTaxExemptUseCase {
+  constructor(private userRepository: UserRepository) {}
+
+  async execute(request: SetTaxExemptRequest): Promise<Result<SetTaxExemptResponse, ForbiddenError | NotFoundError | Error>> {
+    if (!ROLE_PERMISSIONS[request.requester.role].includes('MANAGE_USERS')) {
+      return Err(new ForbiddenError('change tax exemptions'));
+    }
+
+    const userResult = await this.userRepository.findById(request.userId);
+    if (userResult.isErr()) {
+      return Err(userResult.error);
+    }
+    const user = userResult.value;
+
+    user.setTaxExempt(request.taxExempt);
+
+    const saveResult = await this.userRepository.save(user);
+    if (saveResult.isErr()) {
+      return Err(saveResult.error);
+    }
+
+    return Ok({ user: saveResult.value });
+  }
+}
@@ -0,0 +1,7 @@
+import { Result } from '../shared/result';
+import type { DeliveryZone } from './delivery-zone';
+
+export interface DeliveryZoneRepository {
+  // Only zones currently accepting orders are returned
+  findActive(): Promise<Result<DeliveryZone[], Error>>;
+}
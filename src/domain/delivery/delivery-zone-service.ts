@@ -0,0 +1,152 @@
+import type { Address } from '../order/order';
+import { Money, type Currency } from '../shared/money';
+import type { ExchangeRateProvider } from '../shared/exchange-rate';
+import { Result, Ok, Err, NotFoundError, ValidationError, BusinessRuleViolationError } from '../shared/result';
+import {
+  distanceInKm,
+  zoneCoversPoint,
+  zoneCoversPostalCode,
+  type Coordinates,
+  type DeliveryQuote,
+  type DeliveryZone,
+} from './delivery-zone';
+import type { DeliveryZoneRepository } from './delivery-zone-repository';
+import type { Geocoder } from './geocoder';
+import type { ID } from '../shared/types';
+
+export class DeliveryZoneService {
+  constructor(
+    private zoneRepository: DeliveryZoneRepository,
+    private geocoder: Geocoder,
+    private exchangeRateProvider: ExchangeRateProvider
+  ) {}
+
+  // Picks the cheapest zone covering the address and checks the order meets its minimum. With a
+  // store, only zones that store delivers to are considered.
+  async quote(
+    address: Address,
+    subtotal: Money,
+    storeId?: ID | null
+  ): Promise<Result<DeliveryQuote, BusinessRuleViolationError | NotFoundError | ValidationError | Error>> {
+    const coveringResult = await this.zonesCovering(address);
+    if (coveringResult.isErr()) {
+      return Err(coveringResult.error);
+    }
+
+    const { coordinates } = coveringResult.value;
+    const candidates = coveringResult.value.zones.filter(zone => !storeId || !zone.storeId || zone.storeId === storeId);
+
+    if (candidates.length === 0) {
+      return Err(new BusinessRuleViolationError('We do not deliver to this address', {
+        postalCode: address.postalCode,
+        country: address.country,
+        ...(storeId ? { storeId } : {}),
+      }));
+    }
+
+    const quotes: { zone: DeliveryZone; quote: DeliveryQuote }[] = [];
+    for (const zone of candidates) {
+      const quoteResult = this.quoteZone(zone, coordinates, subtotal.currency);
+      if (quoteResult.isErr()) {
+        return Err(quoteResult.error);
+      }
+      quotes.push({ zone, quote: quoteResult.value });
+    }
+
+    quotes.sort((a, b) => a.quote.fee.minorUnits - b.quote.fee.minorUnits);
+    const { zone, quote } = quotes[0];
+
+    const minimumOrder = zone.minimumOrder.convertTo(subtotal.currency, this.exchangeRateProvider);
+    if (minimumOrder.isErr()) {
+      return Err(minimumOrder.error);
+    }
+
+    if (subtotal.isLessThan(minimumOrder.value)) {
+      return Err(new BusinessRuleViolationError(`Minimum order for delivery to ${zone.name} is ${minimumOrder.value.toString()}`, {
+        zoneId: zone.id,
+        minimumOrder: minimumOrder.value.toString(),
+        subtotal: subtotal.toString(),
+      }));
+    }
+
+    return Ok(quote);
+  }
+
+  // The store that delivers to the address fastest, for customers who have not picked one
+  async storeFor(address: Address): Promise<Result<ID, BusinessRuleViolationError | Error>> {
+    const coveringResult = await this.zonesCovering(address);
+    if (coveringResult.isErr()) {
+      return Err(coveringResult.error);
+    }
+
+    const [zone] = coveringResult.value.zones
+      .filter(candidate => candidate.storeId)
+      .sort((a, b) => a.maxEtaMinutes - b.maxEtaMinutes);
+    if (!zone) {
+      return Err(new BusinessRuleViolationError('No store delivers to this address', {
+        postalCode: address.postalCode,
+        country: address.country,
+      }));
+    }
+
+    return Ok(zone.storeId!);
+  }
+
+  private async zonesCovering(
+    address: Address
+  ): Promise<Result<{ zones: DeliveryZone[]; coordinates: Coordinates | null }, Error>> {
+    const zonesResult = await this.zoneRepository.findActive();
+    if (zonesResult.isErr()) {
+      return Err(zonesResult.error);
+    }
+    const zones = zonesResult.value;
+
+    // Postal-code zones need no lookup; only geocode when a polygon or distance fee needs it
+    const needsCoordinates = zones.some(zone => zone.area.type === 'POLYGON' || (zone.origin && zone.feePerKm));
+    let coordinates: Coordinates | null = null;
+    if (needsCoordinates) {
+      const geocoded = await this.geocoder.geocode(address);
+      if (geocoded.isOk()) {
+        coordinates = geocoded.value;
+      } else if (!(geocoded.error instanceof NotFoundError)) {
+        return Err(geocoded.error);
+      }
+    }
+
+    return Ok({
+      zones: zones.filter(zone =>
+        zoneCoversPostalCode(zone, address.country, address.postalCode) ||
+        (coordinates !== null && zoneCoversPoint(zone, coordinates))
+      ),
+      coordinates,
+    });
+  }
+
+  private quoteZone(
+    zone: DeliveryZone,
+    coordinates: Coordinates | null,
+    currency: Currency
+  ): Result<DeliveryQuote, NotFoundError | ValidationError> {
+    let fee = zone.fee;
+    let distanceKm: number | null = null;
+
+    if (zone.origin && coordinates) {
+      distanceKm = distanceInKm(zone.origin, coordinates);
+      if (zone.feePerKm) {
+        fee = fee.add(zone.feePerKm.multiply(distanceKm, 'HALF_UP'));
+      }
+    }
+
+    const converted = fee.convertTo(currency, this.exchangeRateProvider);
+    if (converted.isErr()) {
+      return Err(converted.error);
+    }
+
+    return Ok({
+      zoneId: zone.id,
+      fee: converted.value,
+      maxEtaMinutes: zone.maxEtaMinutes,
+      distanceKm,
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { Money } from '../shared/money';
+import type { ID } from '../shared/types';
+
+export const CoordinatesSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+export type Coordinates = z.infer<typeof CoordinatesSchema>;
+
+// A zone covers either a list of postal codes or a polygon drawn on the map
+export const DeliveryZoneAreaSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('POSTAL_CODES'),
+    country: z.string().min(1),
+    postalCodes: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    type: z.literal('POLYGON'),
+    points: z.array(CoordinatesSchema).min(3),
+  }),
+]);
+export type DeliveryZoneArea = z.infer<typeof DeliveryZoneAreaSchema>;
+
+export interface DeliveryZone {
+  id: ID;
+  name: string;
+  area: DeliveryZoneArea;
+  fee: Money;
+  // Charged on top of the fee for every km from the origin, when both are set
+  feePerKm: Money | null;
+  origin: Coordinates | null;
+  minimumOrder: Money;
+  maxEtaMinutes: number;
+  // The store that delivers to the zone; zones without one deliver for any store
+  storeId?: ID | null;
+}
+
+// What delivering to an address costs; carried on the order once it is placed
+export interface DeliveryQuote {
+  zoneId: ID;
+  fee: Money;
+  maxEtaMinutes: number;
+  distanceKm: number | null;
+}
+
+export function normalizePostalCode(postalCode: string): string {
+  return postalCode.replace(/\s+/g, '').toUpperCase();
+}
+
+export function zoneCoversPostalCode(zone: DeliveryZone, country: string, postalCode: string): boolean {
+  if (zone.area.type !== 'POSTAL_CODES') {
+    return false;
+  }
+
+  const normalized = normalizePostalCode(postalCode);
+  return zone.area.country.toUpperCase() === country.toUpperCase() &&
+    zone.area.postalCodes.some(code => normalizePostalCode(code) === normalized);
+}
+
+// Ray casting; longitude is treated as x and latitude as y, which is fine at city scale
+export function zoneCoversPoint(zone: DeliveryZone, point: Coordinates): boolean {
+  if (zone.area.type !== 'POLYGON') {
+    return false;
+  }
+
+  const points = zone.area.points;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Great-circle distance (haversine)
+export function distanceInKm(from: Coordinates, to: Coordinates): number {
+  const earthRadiusKm = 6371;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,7 @@
+import type { Address } from '../order/order';
+import { Result, NotFoundError } from '../shared/result';
+import type { Coordinates } from './delivery-zone';
+
+export interface Geocoder {
+  geocode(address: Address): Promise<Result<Coordinates, NotFoundError | Error>>;
+}
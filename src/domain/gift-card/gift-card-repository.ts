@@ -0,0 +1,11 @@
+import { GiftCard } from './gift-card';
+import { Result, NotFoundError, ConflictError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface GiftCardRepository {
+  findById(id: ID): Promise<Result<GiftCard, NotFoundError>>;
+  findByCode(code: string): Promise<Result<GiftCard, NotFoundError>>;
+  findByOrderId(orderId: ID): Promise<Result<GiftCard[], Error>>;
+  // Writes the card's pending transactions; fails if the stored balance moved since it was loaded
+  save(giftCard: GiftCard): Promise<Result<GiftCard, ConflictError | Error>>;
+}
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { BaseAggregateRoot, ID } from '../shared/types';
+import { Money } from '../shared/money';
+import { Result, Ok, Err, ValidationError, BusinessRuleViolationError } from '../shared/result';
+
+export const GiftCardStatusSchema = z.enum(['ACTIVE', 'VOIDED']);
+export type GiftCardStatus = z.infer<typeof GiftCardStatusSchema>;
+
+export const GiftCardTransactionTypeSchema = z.enum(['ISSUE', 'REDEEM', 'RESTORE', 'VOID']);
+export type GiftCardTransactionType = z.infer<typeof GiftCardTransactionTypeSchema>;
+
+// Payments taken from a gift card are recorded under this provider name
+export const GIFT_CARD_PROVIDER = 'gift-card';
+
+// Amounts are always positive; the type says which way the balance moved
+export interface GiftCardTransaction {
+  id: ID;
+  type: GiftCardTransactionType;
+  amount: Money;
+  orderId: ID | null;
+  createdAt: Date;
+}
+
+export interface GiftCardProps {
+  id: ID;
+  code: string;
+  initialBalance: Money;
+  expiresAt?: Date | null;
+  issuedBy?: ID | null;
+}
+
+// Codes are printed in groups of four but compared without separators
+export function normalizeGiftCardCode(code: string): string {
+  return code.replace(/[\s-]+/g, '').toUpperCase();
+}
+
+// No 0/O or 1/I so codes survive being read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function generateGiftCardCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const characters = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return [0, 4, 8, 12].map(start => characters.slice(start, start + 4).join('')).join('-');
+}
+
+// Signed change to the balance, in minor units
+export function giftCardTransactionDelta(transaction: GiftCardTransaction): number {
+  return transaction.type === 'ISSUE' || transaction.type === 'RESTORE'
+    ? transaction.amount.minorUnits
+    : -transaction.amount.minorUnits;
+}
+
+export class GiftCard extends BaseAggregateRoot {
+  private _balance: Money;
+  private _status: GiftCardStatus = 'ACTIVE';
+  private _transactions: GiftCardTransaction[] = [];
+  // Transactions recorded since the card was loaded; the repository writes and then clears them
+  private _pendingTransactions: GiftCardTransaction[] = [];
+
+  private constructor(
+    id: ID,
+    public readonly code: string,
+    public readonly initialBalance: Money,
+    public readonly expiresAt: Date | null,
+    public readonly issuedBy: ID | null
+  ) {
+    super(id);
+    this._balance = Money.zero(initialBalance.currency);
+  }
+
+  static issue(props: GiftCardProps, now: Date = new Date()): Result<GiftCard, ValidationError> {
+    const code = normalizeGiftCardCode(props.code);
+    if (!code) {
+      return Err(new ValidationError('Gift card code is required', 'code'));
+    }
+
+    if (props.initialBalance.isZero()) {
+      return Err(new ValidationError('Gift card balance must be greater than zero', 'initialBalance'));
+    }
+
+    if (props.expiresAt && props.expiresAt <= now) {
+      return Err(new ValidationError('Expiry must be in the future', 'expiresAt'));
+    }
+
+    const giftCard = new GiftCard(
+      props.id,
+      code,
+      props.initialBalance,
+      props.expiresAt || null,
+      props.issuedBy || null
+    );
+    giftCard.record('ISSUE', props.initialBalance, null);
+
+    return Ok(giftCard);
+  }
+
+  // Rebuild a gift card from persisted state without re-running issue checks
+  static reconstitute(data: {
+    id: ID;
+    code: string;
+    initialBalance: Money;
+    balance: Money;
+    status: GiftCardStatus;
+    expiresAt: Date | null;
+    issuedBy: ID | null;
+    transactions: GiftCardTransaction[];
+    createdAt: Date;
+    updatedAt: Date;
+  }): GiftCard {
+    const giftCard = new GiftCard(data.id, data.code, data.initialBalance, data.expiresAt, data.issuedBy);
+
+    giftCard._balance = data.balance;
+    giftCard._status = data.status;
+    giftCard._transactions = [...data.transactions];
+    (giftCard as { createdAt: Date }).createdAt = data.createdAt;
+    (giftCard as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return giftCard;
+  }
+
+  get balance(): Money {
+    return this._balance;
+  }
+
+  get status(): GiftCardStatus {
+    return this._status;
+  }
+
+  get transactions(): GiftCardTransaction[] {
+    return [...this._transactions];
+  }
+
+  get pendingTransactions(): GiftCardTransaction[] {
+    return [...this._pendingTransactions];
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt !== null && this.expiresAt <= now;
+  }
+
+  // What this order has taken from the card and not yet had back
+  redeemedFor(orderId: ID): Money {
+    return this._transactions
+      .filter(transaction => transaction.orderId === orderId)
+      .reduce((total, transaction) => {
+        if (transaction.type === 'REDEEM') {
+          return total.add(transaction.amount);
+        }
+        return transaction.type === 'RESTORE' ? total.subtract(transaction.amount) : total;
+      }, Money.zero(this._balance.currency));
+  }
+
+  redeem(
+    amount: Money,
+    orderId: ID,
+    now: Date = new Date()
+  ): Result<GiftCardTransaction, BusinessRuleViolationError> {
+    if (this._status === 'VOIDED') {
+      return Err(new BusinessRuleViolationError('Gift card has been voided', { giftCardId: this.id }));
+    }
+
+    if (this.isExpired(now)) {
+      return Err(new BusinessRuleViolationError('Gift card has expired', { giftCardId: this.id }));
+    }
+
+    if (amount.currency !== this._balance.currency) {
+      return Err(new BusinessRuleViolationError(
+        `Gift card is in ${this._balance.currency} and cannot pay for a ${amount.currency} order`,
+        { giftCardId: this.id }
+      ));
+    }
+
+    if (amount.isZero() || amount.isGreaterThan(this._balance)) {
+      return Err(new BusinessRuleViolationError('Gift card balance is too low', {
+        giftCardId: this.id,
+        balance: this._balance.toString(),
+        requested: amount.toString(),
+      }));
+    }
+
+    return Ok(this.record('REDEEM', amount, orderId));
+  }
+
+  // Puts back whatever the order took, or at most the given amount for a partial refund;
+  // returns null when there is nothing to give back
+  restore(orderId: ID, amount?: Money): GiftCardTransaction | null {
+    const outstanding = this.redeemedFor(orderId);
+    if (outstanding.isZero()) {
+      return null;
+    }
+
+    const restored = amount && amount.isLessThan(outstanding) ? amount : outstanding;
+    return this.record('RESTORE', restored, orderId);
+  }
+
+  void(): Result<void, BusinessRuleViolationError> {
+    if (this._status === 'VOIDED') {
+      return Err(new BusinessRuleViolationError('Gift card is already voided', { giftCardId: this.id }));
+    }
+
+    if (!this._balance.isZero()) {
+      this.record('VOID', this._balance, null);
+    }
+    this._status = 'VOIDED';
+
+    return Ok(undefined);
+  }
+
+  markTransactionsPersisted(): void {
+    this._pendingTransactions = [];
+  }
+
+  private record(type: GiftCardTransactionType, amount: Money, orderId: ID | null): GiftCardTransaction {
+    const transaction: GiftCardTransaction = {
+      id: crypto.randomUUID() as ID,
+      type,
+      amount,
+      orderId,
+      createdAt: new Date(),
+    };
+
+    this._balance = type === 'ISSUE' || type === 'RESTORE'
+      ? this._balance.add(amount)
+      : this._balance.subtract(amount);
+    this._transactions.push(transaction);
+    this._pendingTransactions.push(transaction);
+
+    return transaction;
+  }
+}
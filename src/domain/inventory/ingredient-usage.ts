@@ -0,0 +1,73 @@
+import { Pizza, PizzaRecipe, sectionFraction, type PizzaSection } from '../menu/pizza';
+import { applyModifiers } from '../menu/pizza-composition';
+import type { OrderItem } from '../order/order';
+import { roundQuantity } from './stock-level';
+import type { ID } from '../shared/types';
+
+// Every pizza an order asks the kitchen for, including those inside bundles, with the menu
+// version entries its recipes were sold from
+export function pizzasOf(items: OrderItem[]): { pizza: Pizza; quantity: number; recipeVersionIds: ID[] }[] {
+  return items.flatMap(item => {
+    switch (item.type) {
+      case 'PIZZA':
+        return [{ pizza: item.pizza, quantity: item.quantity, recipeVersionIds: item.recipeVersionIds || [] }];
+      case 'BUNDLE':
+        return item.bundle.components
+          .filter(component => component.pizza !== null)
+          .map(component => ({
+            pizza: component.pizza!,
+            quantity: item.quantity,
+            recipeVersionIds: component.recipeVersionId ? [component.recipeVersionId] : [],
+          }));
+      default:
+        return [];
+    }
+  });
+}
+
+// One section's recipe after its modifiers, scaled by the share of the pizza it covers,
+// the size and the item quantity; ingredientId -> quantity
+export function sectionUsageOf(
+  pizza: Pizza,
+  section: PizzaSection,
+  recipe: PizzaRecipe,
+  quantity: number
+): Map<ID, number> {
+  const scale = sectionFraction(section.position) * recipe.getSizeMultiplier(pizza.size) * quantity;
+  const usage = new Map<ID, number>();
+  for (const [ingredientId, sectionQuantity] of applyModifiers(recipe.ingredients, section.modifiers)) {
+    usage.set(ingredientId, roundQuantity(sectionQuantity * scale));
+  }
+  return usage;
+}
+
+// Ingredient quantities the order takes from stock, ingredientId -> quantity, summed over every
+// section of every pizza. A section uses the recipe version its pizza was sold from when that is
+// in recordedRecipes (keyed by version entry) and otherwise recipes (keyed by recipe id).
+// Sections whose recipe is unknown contribute nothing.
+export function ingredientUsageOf(
+  items: OrderItem[],
+  recipes: Map<ID, PizzaRecipe>,
+  recordedRecipes: Map<ID, PizzaRecipe> = new Map()
+): Map<ID, number> {
+  const usage = new Map<ID, number>();
+
+  for (const { pizza, quantity, recipeVersionIds } of pizzasOf(items)) {
+    const sold = recipeVersionIds
+      .map(versionId => recordedRecipes.get(versionId))
+      .filter((recipe): recipe is PizzaRecipe => recipe !== undefined);
+
+    for (const section of pizza.sections) {
+      const recipe = sold.find(candidate => candidate.id === section.recipeId) || recipes.get(section.recipeId);
+      if (!recipe) {
+        continue;
+      }
+
+      for (const [ingredientId, sectionQuantity] of sectionUsageOf(pizza, section, recipe, quantity)) {
+        usage.set(ingredientId, roundQuantity((usage.get(ingredientId) || 0) + sectionQuantity));
+      }
+    }
+  }
+
+  return usage;
+}
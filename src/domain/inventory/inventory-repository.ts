@@ -0,0 +1,15 @@
+import { StockLevel, StockMovement } from './stock-level';
+import { Result, ConflictError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface InventoryRepository {
+  // Ingredients the store does not track stock for have no level and are left out
+  findStockLevels(storeId: ID, ingredientIds: ID[]): Promise<Result<StockLevel[], Error>>;
+  findStockLevelsByStore(storeId: ID): Promise<Result<StockLevel[], Error>>;
+  findMovementsByOrderId(orderId: ID): Promise<Result<StockMovement[], Error>>;
+  // Quantity consumed by orders per ingredient since the given time, ingredientId -> quantity
+  findConsumptionSince(storeId: ID, since: Date): Promise<Result<Map<ID, number>, Error>>;
+  // Writes every level's pending movements in one transaction; fails if any stored figure
+  // moved since the levels were loaded
+  save(levels: StockLevel[]): Promise<Result<StockLevel[], ConflictError | Error>>;
+}
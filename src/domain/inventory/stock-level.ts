@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { BaseAggregateRoot, ID, DomainEvent } from '../shared/types';
+import { Result, Ok, Err, ValidationError } from '../shared/result';
+
+export const StockMovementTypeSchema = z.enum(['RECEIVE', 'ADJUST', 'RESERVE', 'RELEASE', 'CONSUME']);
+export type StockMovementType = z.infer<typeof StockMovementTypeSchema>;
+
+// Quantities are in the same units as recipe quantities and always positive, except ADJUST
+// which carries the signed correction; the type says which figure moved
+export interface StockMovement {
+  id: ID;
+  storeId: ID;
+  ingredientId: ID;
+  type: StockMovementType;
+  quantity: number;
+  orderId: ID | null;
+  createdAt: Date;
+}
+
+export interface StockLevelProps {
+  storeId: ID;
+  ingredientId: ID;
+  // Below this much available stock the ingredient comes off the menu
+  parLevel: number;
+}
+
+// Recipe quantities multiplied by size fractions pick up float noise, so stock is kept to 3 decimals
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 1000) / 1000;
+}
+
+// Signed change a movement makes to the on-hand and reserved figures
+export function stockMovementDelta(movement: StockMovement): { onHand: number; reserved: number } {
+  switch (movement.type) {
+    case 'RECEIVE':
+    case 'ADJUST':
+      return { onHand: movement.quantity, reserved: 0 };
+    case 'CONSUME':
+      return { onHand: -movement.quantity, reserved: 0 };
+    case 'RESERVE':
+      return { onHand: 0, reserved: movement.quantity };
+    case 'RELEASE':
+      return { onHand: 0, reserved: -movement.quantity };
+  }
+}
+
+export class IngredientDepletedEvent implements DomainEvent {
+  constructor(
+    public readonly eventId: ID,
+    public readonly storeId: ID,
+    public readonly ingredientId: ID,
+    public readonly available: number,
+    public readonly parLevel: number,
+    public readonly occurredOn: Date = new Date(),
+    public readonly eventVersion: number = 1
+  ) {}
+}
+
+// On-hand quantity of one ingredient in one store, and how much of it open orders have claimed
+export class StockLevel extends BaseAggregateRoot {
+  private _onHand = 0;
+  private _reserved = 0;
+  // Movements recorded since the level was loaded; the repository writes and then clears them
+  private _pendingMovements: StockMovement[] = [];
+
+  private constructor(
+    id: ID,
+    public readonly storeId: ID,
+    public readonly ingredientId: ID,
+    private _parLevel: number
+  ) {
+    super(id);
+  }
+
+  static create(props: StockLevelProps): Result<StockLevel, ValidationError> {
+    if (props.parLevel < 0) {
+      return Err(new ValidationError('Par level cannot be negative', 'parLevel'));
+    }
+
+    return Ok(new StockLevel(crypto.randomUUID() as ID, props.storeId, props.ingredientId, props.parLevel));
+  }
+
+  // Rebuild a stock level from persisted state
+  static reconstitute(data: {
+    id: ID;
+    storeId: ID;
+    ingredientId: ID;
+    onHand: number;
+    reserved: number;
+    parLevel: number;
+    createdAt: Date;
+    updatedAt: Date;
+  }): StockLevel {
+    const level = new StockLevel(data.id, data.storeId, data.ingredientId, data.parLevel);
+
+    level._onHand = data.onHand;
+    level._reserved = data.reserved;
+    (level as { createdAt: Date }).createdAt = data.createdAt;
+    (level as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return level;
+  }
+
+  get onHand(): number {
+    return this._onHand;
+  }
+
+  get reserved(): number {
+    return this._reserved;
+  }
+
+  get parLevel(): number {
+    return this._parLevel;
+  }
+
+  // What is left for orders that have not been confirmed yet
+  get available(): number {
+    return roundQuantity(this._onHand - this._reserved);
+  }
+
+  get isBelowPar(): boolean {
+    return this.available < this._parLevel;
+  }
+
+  get pendingMovements(): StockMovement[] {
+    return [...this._pendingMovements];
+  }
+
+  receive(quantity: number): Result<StockMovement, ValidationError> {
+    if (quantity <= 0) {
+      return Err(new ValidationError('Received quantity must be positive', 'quantity'));
+    }
+
+    return Ok(this.record('RECEIVE', quantity, null));
+  }
+
+  // Sets on-hand to a counted figure, e.g. after a stocktake or waste
+  countedAs(onHand: number): Result<StockMovement | null, ValidationError> {
+    if (onHand < 0) {
+      return Err(new ValidationError('Counted quantity cannot be negative', 'onHand'));
+    }
+
+    const correction = roundQuantity(onHand - this._onHand);
+    return Ok(correction === 0 ? null : this.record('ADJUST', correction, null));
+  }
+
+  changeParLevel(parLevel: number): Result<void, ValidationError> {
+    if (parLevel < 0) {
+      return Err(new ValidationError('Par level cannot be negative', 'parLevel'));
+    }
+
+    const wasBelowPar = this.isBelowPar;
+    this._parLevel = parLevel;
+    this.reportDepletion(wasBelowPar);
+
+    return Ok(undefined);
+  }
+
+  // Reservations are never refused: the kitchen has already accepted the order, so a shortfall
+  // only takes the ingredient off the menu for the orders still to come
+  reserve(orderId: ID, quantity: number): StockMovement {
+    return this.record('RESERVE', quantity, orderId);
+  }
+
+  release(orderId: ID, quantity: number): StockMovement {
+    return this.record('RELEASE', Math.min(quantity, this._reserved), orderId);
+  }
+
+  consume(orderId: ID, quantity: number): StockMovement {
+    return this.record('CONSUME', quantity, orderId);
+  }
+
+  markMovementsPersisted(): void {
+    this._pendingMovements = [];
+  }
+
+  private record(type: StockMovementType, quantity: number, orderId: ID | null): StockMovement {
+    const movement: StockMovement = {
+      id: crypto.randomUUID() as ID,
+      storeId: this.storeId,
+      ingredientId: this.ingredientId,
+      type,
+      quantity: roundQuantity(quantity),
+      orderId,
+      createdAt: new Date(),
+    };
+
+    const wasBelowPar = this.isBelowPar;
+    const delta = stockMovementDelta(movement);
+    this._onHand = roundQuantity(this._onHand + delta.onHand);
+    this._reserved = roundQuantity(this._reserved + delta.reserved);
+    this._pendingMovements.push(movement);
+    this.reportDepletion(wasBelowPar);
+
+    return movement;
+  }
+
+  // Only the crossing is reported, so a run of orders against an empty shelf raises one event
+  private reportDepletion(wasBelowPar: boolean): void {
+    if (!wasBelowPar && this.isBelowPar) {
+      this.addDomainEvent(
+        new IngredientDepletedEvent(crypto.randomUUID(), this.storeId, this.ingredientId, this.available, this._parLevel)
+      );
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Result, BusinessRuleViolationError } from '../shared/result';
+import type { ID } from '../shared/types';
+import type { LoyaltyLedgerEntry } from './loyalty';
+
+export interface LoyaltyRepository {
+  findByCustomerId(customerId: ID): Promise<Result<LoyaltyLedgerEntry[], Error>>;
+  findByOrderId(orderId: ID): Promise<Result<LoyaltyLedgerEntry[], Error>>;
+  // Entries whose type and reference were already recorded are skipped
+  append(entries: LoyaltyLedgerEntry[]): Promise<Result<void, Error>>;
+  // Records a REDEEM entry only if the customer's balance covers it, atomically
+  redeem(entry: LoyaltyLedgerEntry): Promise<Result<void, BusinessRuleViolationError | Error>>;
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { Money, type Currency } from '../shared/money';
+import type { ID } from '../shared/types';
+
+export const LoyaltyEntryTypeSchema = z.enum(['EARN', 'REVERSE_EARN', 'REDEEM', 'RESTORE_REDEEM']);
+export type LoyaltyEntryType = z.infer<typeof LoyaltyEntryTypeSchema>;
+
+export const LoyaltyTierSchema = z.enum(['REGULAR', 'VIP']);
+export type LoyaltyTier = z.infer<typeof LoyaltyTierSchema>;
+
+// Ledger entries are append-only; a type and reference pair is recorded at most once,
+// which keeps replays of the same order event from earning twice
+export interface LoyaltyLedgerEntry {
+  id: ID;
+  customerId: ID;
+  orderId: ID;
+  type: LoyaltyEntryType;
+  // Signed: earning and restoring add points, spending and reversing take them away
+  points: number;
+  // The order id, or the refund id for refund reversals
+  reference: ID;
+  description: string;
+  createdAt: Date;
+}
+
+export interface LoyaltyProgramConfig {
+  // Points earned per major unit paid (e.g. per dollar)
+  earnRates: Record<Currency, number>;
+  // What one point is worth at checkout, in minor units
+  pointValues: Record<Currency, number>;
+  vipThreshold: number;
+  tierWindowMonths: number;
+}
+
+export const DEFAULT_LOYALTY_PROGRAM: LoyaltyProgramConfig = {
+  earnRates: { USD: 1, EUR: 1, RUB: 0.01 },
+  pointValues: { USD: 1, EUR: 1, RUB: 100 },
+  vipThreshold: 1000,
+  tierWindowMonths: 12,
+};
+
+export class LoyaltyProgram {
+  constructor(private readonly config: LoyaltyProgramConfig = DEFAULT_LOYALTY_PROGRAM) {}
+
+  pointsFor(amountPaid: Money): number {
+    return Math.floor(amountPaid.amount * this.config.earnRates[amountPaid.currency]);
+  }
+
+  valueOf(points: number, currency: Currency): Money {
+    return Money.fromCents(points * this.config.pointValues[currency], currency);
+  }
+
+  balance(entries: LoyaltyLedgerEntry[]): number {
+    return entries.reduce((total, entry) => total + entry.points, 0);
+  }
+
+  // Tiers follow points earned (net of reversals) over a rolling window, not the spendable balance
+  qualifyingPoints(entries: LoyaltyLedgerEntry[], now: Date = new Date()): number {
+    const windowStart = new Date(now);
+    windowStart.setMonth(windowStart.getMonth() - this.config.tierWindowMonths);
+
+    return entries
+      .filter(entry => entry.type === 'EARN' || entry.type === 'REVERSE_EARN')
+      .filter(entry => entry.createdAt >= windowStart)
+      .reduce((total, entry) => total + entry.points, 0);
+  }
+
+  tierFor(entries: LoyaltyLedgerEntry[], now: Date = new Date()): LoyaltyTier {
+    return this.qualifyingPoints(entries, now) >= this.config.vipThreshold ? 'VIP' : 'REGULAR';
+  }
+}
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import type { ID } from '../shared/types';
+
+export const DayOfWeekSchema = z.enum(['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN']);
+export type DayOfWeek = z.infer<typeof DayOfWeekSchema>;
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times are HH:MM');
+export const LocalDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates are YYYY-MM-DD');
+
+// An until earlier than from runs past midnight into the next day, e.g. FRI 22:00-02:00
+// covers Friday night until 2am on Saturday; 00:00 ends the window at midnight
+export const AvailabilityWindowSchema = z.object({
+  days: z.array(DayOfWeekSchema).min(1),
+  from: TimeOfDaySchema,
+  until: TimeOfDaySchema,
+}).refine(window => window.from !== window.until, { message: 'A window cannot start and end at the same time' });
+export type AvailabilityWindow = z.infer<typeof AvailabilityWindowSchema>;
+
+// When an item is on sale, in the store's local time. No windows means all day; the dates are
+// inclusive and either can be left open.
+export const AvailabilityScheduleSchema = z.object({
+  windows: z.array(AvailabilityWindowSchema).max(20).default([]),
+  startDate: LocalDateSchema.optional(),
+  endDate: LocalDateSchema.optional(),
+}).refine(
+  schedule => !schedule.startDate || !schedule.endDate || schedule.startDate <= schedule.endDate,
+  { message: 'Start date must be on or before the end date', path: ['endDate'] }
+);
+export type AvailabilitySchedule = z.infer<typeof AvailabilityScheduleSchema>;
+
+// Anything on the menu that can carry a schedule; null means whenever the store is selling
+export interface ScheduledMenuItem {
+  id: ID;
+  name: string;
+  availability: AvailabilitySchedule | null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const TimeZoneSchema = z.string().refine(isValidTimeZone, { message: 'Unknown time zone' });
+
+interface LocalTime {
+  date: string;
+  day: DayOfWeek;
+  minutes: number;
+}
+
+function localTimeOf(at: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(candidate => candidate.type === type)!.value;
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    day: DayOfWeekSchema.parse(part('weekday').toUpperCase()),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+// The calendar date at that moment where the store is, YYYY-MM-DD
+export function localDateOf(at: Date, timeZone: string): string {
+  return localTimeOf(at, timeZone).date;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function dayBefore(day: DayOfWeek): DayOfWeek {
+  const days = DayOfWeekSchema.options;
+  return days[(days.indexOf(day) + days.length - 1) % days.length];
+}
+
+function windowCovers(window: AvailabilityWindow, local: LocalTime): boolean {
+  const from = minutesOf(window.from);
+  const until = minutesOf(window.until);
+
+  if (from < until) {
+    return window.days.includes(local.day) && local.minutes >= from && local.minutes < until;
+  }
+
+  return (window.days.includes(local.day) && local.minutes >= from) ||
+    (window.days.includes(dayBefore(local.day)) && local.minutes < until);
+}
+
+export function isAvailableAt(schedule: AvailabilitySchedule | null, at: Date, timeZone: string): boolean {
+  if (!schedule) {
+    return true;
+  }
+
+  const local = localTimeOf(at, timeZone);
+  if ((schedule.startDate && local.date < schedule.startDate) || (schedule.endDate && local.date > schedule.endDate)) {
+    return false;
+  }
+
+  return schedule.windows.length === 0 || schedule.windows.some(window => windowCovers(window, local));
+}
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { BaseAggregateRoot, ID } from '../shared/types';
+import { Money } from '../shared/money';
+import { ValidationError, Result, Ok, Err } from '../shared/result';
+import { PizzaSizeSchema } from './pizza';
+import { ProductCategorySchema, type ProductCategory } from './product';
+import type { AvailabilitySchedule } from './availability-schedule';
+
+export const BundleChoiceKindSchema = z.enum(['PIZZA', 'PRODUCT']);
+export type BundleChoiceKind = z.infer<typeof BundleChoiceKindSchema>;
+
+// One "choose N" slot of a bundle, e.g. "any 2 large pizzas" or "2 drinks"
+export const BundleChoiceGroupSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string().min(1).max(100),
+  kind: BundleChoiceKindSchema,
+  quantity: z.number().int().positive(),
+  // Pizza groups fix the size every pick is made in
+  pizzaSize: PizzaSizeSchema.optional(),
+  // Product groups can be limited to one category
+  productCategory: ProductCategorySchema.optional(),
+  // Recipes or products allowed in the group; empty means any of the kind
+  eligibleIds: z.array(z.string().uuid()).default([]),
+});
+export type BundleChoiceGroup = z.infer<typeof BundleChoiceGroupSchema>;
+
+// What the customer picked for a group
+export interface BundlePick {
+  groupId: string;
+  kind: BundleChoiceKind;
+  id: ID; // recipe or product
+  productCategory?: ProductCategory;
+}
+
+export interface BundleProps {
+  id: ID;
+  name: string;
+  description?: string;
+  price: Money;
+  choiceGroups: BundleChoiceGroup[];
+  isAvailable?: boolean;
+  // When the deal runs; null means whenever the store is selling
+  availability?: AvailabilitySchedule | null;
+}
+
+export class Bundle extends BaseAggregateRoot {
+  private constructor(
+    id: ID,
+    public readonly name: string,
+    public readonly description: string,
+    public readonly price: Money,
+    public readonly choiceGroups: BundleChoiceGroup[],
+    private _isAvailable: boolean,
+    public readonly availability: AvailabilitySchedule | null
+  ) {
+    super(id);
+  }
+
+  static create(props: BundleProps): Result<Bundle, ValidationError> {
+    if (!props.name.trim()) {
+      return Err(new ValidationError('Bundle name cannot be empty', 'name'));
+    }
+
+    if (props.price.isZero()) {
+      return Err(new ValidationError('Bundle price must be greater than zero', 'price'));
+    }
+
+    if (props.choiceGroups.length === 0) {
+      return Err(new ValidationError('Bundle must have at least one choice group', 'choiceGroups'));
+    }
+
+    const groupIds = new Set(props.choiceGroups.map(group => group.id));
+    if (groupIds.size !== props.choiceGroups.length) {
+      return Err(new ValidationError('Choice group ids must be unique', 'choiceGroups'));
+    }
+
+    for (const group of props.choiceGroups) {
+      if (group.kind === 'PIZZA' && (!group.pizzaSize || group.productCategory)) {
+        return Err(new ValidationError(`Pizza group ${group.id} needs a size and no product category`, 'choiceGroups'));
+      }
+      if (group.kind === 'PRODUCT' && group.pizzaSize) {
+        return Err(new ValidationError(`Product group ${group.id} cannot have a pizza size`, 'choiceGroups'));
+      }
+    }
+
+    return Ok(
+      new Bundle(
+        props.id,
+        props.name.trim(),
+        (props.description || '').trim(),
+        props.price,
+        props.choiceGroups,
+        props.isAvailable ?? true,
+        props.availability || null
+      )
+    );
+  }
+
+  get isAvailable(): boolean {
+    return this._isAvailable;
+  }
+
+  // The same deal sold at another price, e.g. one store's own price
+  repriced(price: Money): Bundle {
+    return new Bundle(this.id, this.name, this.description, price, this.choiceGroups, this._isAvailable, this.availability);
+  }
+
+  // Every group must get exactly its quantity of eligible picks
+  checkPicks(picks: BundlePick[]): Result<void, ValidationError> {
+    for (const pick of picks) {
+      const group = this.choiceGroups.find(candidate => candidate.id === pick.groupId);
+      if (!group) {
+        return Err(new ValidationError(`${this.name} has no choice group ${pick.groupId}`, 'selections'));
+      }
+
+      const eligible = group.kind === pick.kind &&
+        (group.eligibleIds.length === 0 || group.eligibleIds.includes(pick.id)) &&
+        (!group.productCategory || group.productCategory === pick.productCategory);
+      if (!eligible) {
+        return Err(new ValidationError(`${pick.id} cannot be chosen for ${group.name}`, 'selections'));
+      }
+    }
+
+    for (const group of this.choiceGroups) {
+      const picked = picks.filter(pick => pick.groupId === group.id).length;
+      if (picked !== group.quantity) {
+        return Err(new ValidationError(
+          `Choose ${group.quantity} for ${group.name} (got ${picked})`,
+          'selections'
+        ));
+      }
+    }
+
+    return Ok(undefined);
+  }
+
+  // Splits the bundle price over its components in proportion to what each would cost on its own
+  allocatePrice(standalonePrices: Money[]): Money[] {
+    const weights = standalonePrices.map(price => price.toCents());
+    return this.price.allocate(weights.some(weight => weight > 0) ? weights : weights.map(() => 1));
+  }
+}
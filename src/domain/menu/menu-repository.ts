@@ -0,0 +1,19 @@
+import { PizzaRecipe, Ingredient } from './pizza';
+import { Product } from './product';
+import { Bundle } from './bundle';
+import { Result } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface MenuRepository {
+  // Only recipes currently offered on the menu are returned
+  findAvailableRecipesByIds(ids: ID[]): Promise<Result<PizzaRecipe[], Error>>;
+  // Recipes whether or not they are still offered, for orders placed before one was withdrawn
+  findRecipesByIds(ids: ID[]): Promise<Result<PizzaRecipe[], Error>>;
+  // Everything currently offered on the menu
+  findAvailableRecipes(): Promise<Result<PizzaRecipe[], Error>>;
+  findIngredientsByIds(ids: ID[]): Promise<Result<Ingredient[], Error>>;
+  // Persists availability and cost, the only parts of an ingredient the application changes
+  saveIngredient(ingredient: Ingredient): Promise<Result<Ingredient, Error>>;
+  findAvailableProductsByIds(ids: ID[]): Promise<Result<Product[], Error>>;
+  findAvailableBundlesByIds(ids: ID[]): Promise<Result<Bundle[], Error>>;
+}
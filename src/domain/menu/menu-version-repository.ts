@@ -0,0 +1,19 @@
+import { MenuVersion } from './menu-version';
+import { PizzaRecipe } from './pizza';
+import { Result, NotFoundError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface MenuVersionRepository {
+  findById(id: ID): Promise<Result<MenuVersion, NotFoundError>>;
+  // The version customers see now; null until the first one is published
+  findPublished(): Promise<Result<MenuVersion | null, Error>>;
+  // Scheduled versions whose publish time has come, earliest first
+  findDue(now: Date): Promise<Result<MenuVersion[], Error>>;
+  // Recipes as the given version entries recorded them, for orders that point at those entries
+  findRecipesByVersionIds(ids: ID[]): Promise<Result<PizzaRecipe[], Error>>;
+  // Drafts and scheduling; publishing goes through publish()
+  save(version: MenuVersion): Promise<Result<MenuVersion, Error>>;
+  // Saves the published version and the versions it replaces together and makes its recipes the
+  // live menu. Recipes the version drops stay on record for past orders but come off the menu.
+  publish(version: MenuVersion, replaced: MenuVersion[]): Promise<Result<MenuVersion, Error>>;
+}
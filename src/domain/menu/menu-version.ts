@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import { BaseAggregateRoot, ID } from '../shared/types';
+import { Result, Ok, Err, ValidationError, NotFoundError, BusinessRuleViolationError } from '../shared/result';
+import type { PizzaRecipe } from './pizza';
+
+// A version is edited as a draft, scheduled, published once its time comes and retired when the
+// next one replaces it. Only one version is published at a time.
+export const MenuVersionStatusSchema = z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED', 'RETIRED']);
+export type MenuVersionStatus = z.infer<typeof MenuVersionStatusSchema>;
+
+// One recipe as a version offers it. id names this exact version of the recipe and is what orders
+// record; recipe.id stays the same from version to version.
+export interface MenuVersionRecipe {
+  id: ID;
+  recipe: PizzaRecipe;
+  isAvailable: boolean;
+}
+
+export interface MenuVersionProps {
+  id: ID;
+  name: string;
+  recipes?: { recipe: PizzaRecipe; isAvailable: boolean }[];
+  // The version the draft was copied from
+  basedOnId?: ID | null;
+  createdBy?: ID | null;
+}
+
+export type MenuRecipeField =
+  | 'name'
+  | 'description'
+  | 'basePrice'
+  | 'preparationTimeMinutes'
+  | 'difficulty'
+  | 'ingredients'
+  | 'isAvailable'
+  | 'availability';
+
+export interface MenuRecipeChange {
+  before: MenuVersionRecipe;
+  after: MenuVersionRecipe;
+  fields: MenuRecipeField[];
+}
+
+export interface MenuVersionDiff {
+  added: MenuVersionRecipe[];
+  removed: MenuVersionRecipe[];
+  changed: MenuRecipeChange[];
+}
+
+export class MenuVersion extends BaseAggregateRoot {
+  private _status: MenuVersionStatus = 'DRAFT';
+  private _recipes: MenuVersionRecipe[];
+  private _publishAt: Date | null = null;
+  private _publishedAt: Date | null = null;
+
+  private constructor(
+    id: ID,
+    public readonly name: string,
+    recipes: MenuVersionRecipe[],
+    public readonly basedOnId: ID | null,
+    public readonly createdBy: ID | null
+  ) {
+    super(id);
+    this._recipes = recipes;
+  }
+
+  static create(props: MenuVersionProps): Result<MenuVersion, ValidationError> {
+    if (!props.name.trim()) {
+      return Err(new ValidationError('Menu version name cannot be empty', 'name'));
+    }
+
+    if (props.name.trim().length > 100) {
+      return Err(new ValidationError('Menu version name too long (max 100 characters)', 'name'));
+    }
+
+    const recipes = props.recipes || [];
+    if (new Set(recipes.map(entry => entry.recipe.id)).size !== recipes.length) {
+      return Err(new ValidationError('Each recipe may appear in a menu version once', 'recipes'));
+    }
+
+    return Ok(
+      new MenuVersion(
+        props.id,
+        props.name.trim(),
+        recipes.map(entry => ({ id: crypto.randomUUID() as ID, ...entry })),
+        props.basedOnId || null,
+        props.createdBy || null
+      )
+    );
+  }
+
+  // Rebuild a menu version from persisted state
+  static reconstitute(data: {
+    id: ID;
+    name: string;
+    recipes: MenuVersionRecipe[];
+    basedOnId: ID | null;
+    createdBy: ID | null;
+    status: MenuVersionStatus;
+    publishAt: Date | null;
+    publishedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): MenuVersion {
+    const version = new MenuVersion(data.id, data.name, data.recipes, data.basedOnId, data.createdBy);
+
+    version._status = data.status;
+    version._publishAt = data.publishAt;
+    version._publishedAt = data.publishedAt;
+    (version as { createdAt: Date }).createdAt = data.createdAt;
+    (version as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return version;
+  }
+
+  get status(): MenuVersionStatus {
+    return this._status;
+  }
+
+  get recipes(): MenuVersionRecipe[] {
+    return [...this._recipes];
+  }
+
+  get publishAt(): Date | null {
+    return this._publishAt;
+  }
+
+  get publishedAt(): Date | null {
+    return this._publishedAt;
+  }
+
+  // Recipes customers can order once the version is live
+  availableRecipes(): PizzaRecipe[] {
+    return this._recipes.filter(entry => entry.isAvailable).map(entry => entry.recipe);
+  }
+
+  isDue(now: Date = new Date()): boolean {
+    return this._status === 'SCHEDULED' && this._publishAt !== null && this._publishAt <= now;
+  }
+
+  // Adds the recipe or replaces the version's copy of it
+  putRecipe(recipe: PizzaRecipe, isAvailable: boolean = true): Result<MenuVersionRecipe, BusinessRuleViolationError> {
+    const editable = this.checkEditable();
+    if (editable.isErr()) {
+      return Err(editable.error);
+    }
+
+    const existing = this._recipes.find(entry => entry.recipe.id === recipe.id);
+    const entry: MenuVersionRecipe = { id: existing?.id || crypto.randomUUID() as ID, recipe, isAvailable };
+    this._recipes = existing
+      ? this._recipes.map(candidate => candidate === existing ? entry : candidate)
+      : [...this._recipes, entry];
+
+    return Ok(entry);
+  }
+
+  removeRecipe(recipeId: ID): Result<void, NotFoundError | BusinessRuleViolationError> {
+    const editable = this.checkEditable();
+    if (editable.isErr()) {
+      return Err(editable.error);
+    }
+
+    if (!this._recipes.some(entry => entry.recipe.id === recipeId)) {
+      return Err(new NotFoundError('PizzaRecipe', recipeId));
+    }
+
+    this._recipes = this._recipes.filter(entry => entry.recipe.id !== recipeId);
+    return Ok(undefined);
+  }
+
+  // A publish time already passed makes the version due straight away
+  schedule(publishAt: Date): Result<void, BusinessRuleViolationError> {
+    const editable = this.checkEditable();
+    if (editable.isErr()) {
+      return Err(editable.error);
+    }
+
+    if (!this._recipes.some(entry => entry.isAvailable)) {
+      return Err(new BusinessRuleViolationError('A menu version needs at least one available recipe', {
+        menuVersionId: this.id,
+      }));
+    }
+
+    this._status = 'SCHEDULED';
+    this._publishAt = publishAt;
+    return Ok(undefined);
+  }
+
+  // Back to a draft so it can be edited again
+  unschedule(): Result<void, BusinessRuleViolationError> {
+    if (this._status !== 'SCHEDULED') {
+      return Err(new BusinessRuleViolationError(`Cannot unschedule a ${this._status.toLowerCase()} menu version`, {
+        menuVersionId: this.id,
+      }));
+    }
+
+    this._status = 'DRAFT';
+    this._publishAt = null;
+    return Ok(undefined);
+  }
+
+  publish(now: Date = new Date()): Result<void, BusinessRuleViolationError> {
+    if (!this.isDue(now)) {
+      return Err(new BusinessRuleViolationError('Only a scheduled menu version can be published once its time has come', {
+        menuVersionId: this.id,
+      }));
+    }
+
+    this._status = 'PUBLISHED';
+    this._publishedAt = now;
+    return Ok(undefined);
+  }
+
+  // Ends the live version, or a scheduled one that a later version overtook before it went live
+  retire(): Result<void, BusinessRuleViolationError> {
+    if (this._status !== 'PUBLISHED' && this._status !== 'SCHEDULED') {
+      return Err(new BusinessRuleViolationError(`Cannot retire a ${this._status.toLowerCase()} menu version`, {
+        menuVersionId: this.id,
+      }));
+    }
+
+    this._status = 'RETIRED';
+    return Ok(undefined);
+  }
+
+  private checkEditable(): Result<void, BusinessRuleViolationError> {
+    if (this._status !== 'DRAFT') {
+      return Err(new BusinessRuleViolationError(`A ${this._status.toLowerCase()} menu version can no longer be edited`, {
+        menuVersionId: this.id,
+      }));
+    }
+
+    return Ok(undefined);
+  }
+}
+
+// What publishing the version would change; live is null before anything has been published
+export function diffMenuVersions(live: MenuVersion | null, version: MenuVersion): MenuVersionDiff {
+  const liveRecipes = new Map((live?.recipes || []).map(entry => [entry.recipe.id, entry]));
+  const recipeIds = new Set(version.recipes.map(entry => entry.recipe.id));
+
+  const changed: MenuRecipeChange[] = [];
+  for (const after of version.recipes) {
+    const before = liveRecipes.get(after.recipe.id);
+    const fields = before ? changedFields(before, after) : [];
+    if (before && fields.length > 0) {
+      changed.push({ before, after, fields });
+    }
+  }
+
+  return {
+    added: version.recipes.filter(entry => !liveRecipes.has(entry.recipe.id)),
+    removed: Array.from(liveRecipes.values()).filter(entry => !recipeIds.has(entry.recipe.id)),
+    changed,
+  };
+}
+
+function changedFields(before: MenuVersionRecipe, after: MenuVersionRecipe): MenuRecipeField[] {
+  const fields: MenuRecipeField[] = [];
+  if (before.recipe.name !== after.recipe.name) fields.push('name');
+  if (before.recipe.description !== after.recipe.description) fields.push('description');
+  if (!before.recipe.basePrice.equals(after.recipe.basePrice)) fields.push('basePrice');
+  if (before.recipe.preparationTimeMinutes !== after.recipe.preparationTimeMinutes) fields.push('preparationTimeMinutes');
+  if (before.recipe.difficulty !== after.recipe.difficulty) fields.push('difficulty');
+  if (!sameIngredients(before.recipe.ingredients, after.recipe.ingredients)) fields.push('ingredients');
+  if (before.isAvailable !== after.isAvailable) fields.push('isAvailable');
+  if (JSON.stringify(before.recipe.availability) !== JSON.stringify(after.recipe.availability)) fields.push('availability');
+  return fields;
+}
+
+function sameIngredients(a: Map<ID, number>, b: Map<ID, number>): boolean {
+  return a.size === b.size && Array.from(a).every(([ingredientId, quantity]) => b.get(ingredientId) === quantity);
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import type { Ingredient } from './pizza';
+import type { ID } from '../shared/types';
+
+// Per unit of the ingredient, in the same units recipes are written in; all but kcal are grams
+export const NutritionFactsSchema = z.object({
+  kcal: z.number().nonnegative(),
+  protein: z.number().nonnegative(),
+  fat: z.number().nonnegative(),
+  carbs: z.number().nonnegative(),
+  salt: z.number().nonnegative(),
+});
+export type NutritionFacts = z.infer<typeof NutritionFactsSchema>;
+
+// The allergens that must be declared (EU 1169/2011), in the order menus usually list them.
+// Ingredients may carry others; they follow these in the matrix.
+export const MAJOR_ALLERGENS = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soybeans',
+  'milk',
+  'nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+] as const;
+
+export const GLUTEN_ALLERGEN = 'gluten';
+
+export function normalizeAllergen(allergen: string): string {
+  return allergen.trim().toLowerCase();
+}
+
+export interface NutritionTotals {
+  nutrition: NutritionFacts;
+  // False when an ingredient has no nutrition data, so the figures are a lower bound
+  isComplete: boolean;
+}
+
+// usage is ingredientId -> quantity, e.g. one pizza's ingredients after sections, modifiers and size
+export function nutritionOf(usage: Map<ID, number>, ingredientMap: Map<ID, Ingredient>): NutritionTotals {
+  const totals = { kcal: 0, protein: 0, fat: 0, carbs: 0, salt: 0 };
+  let isComplete = true;
+
+  for (const [ingredientId, quantity] of usage) {
+    const facts = ingredientMap.get(ingredientId)?.nutrition;
+    if (!facts) {
+      isComplete = false;
+      continue;
+    }
+    totals.kcal += facts.kcal * quantity;
+    totals.protein += facts.protein * quantity;
+    totals.fat += facts.fat * quantity;
+    totals.carbs += facts.carbs * quantity;
+    totals.salt += facts.salt * quantity;
+  }
+
+  return {
+    nutrition: {
+      kcal: Math.round(totals.kcal),
+      protein: Math.round(totals.protein * 10) / 10,
+      fat: Math.round(totals.fat * 10) / 10,
+      carbs: Math.round(totals.carbs * 10) / 10,
+      salt: Math.round(totals.salt * 100) / 100,
+    },
+    isComplete,
+  };
+}
@@ -0,0 +1,145 @@
+import { Ingredient, IngredientModifier, PizzaRecipe } from './pizza';
+import { GLUTEN_ALLERGEN, MAJOR_ALLERGENS } from './nutrition';
+import { Result, Ok, Err, ValidationError, BusinessRuleViolationError } from '../shared/result';
+import type { ID } from '../shared/types';
+
+export interface PizzaDietaryProfile {
+  allergens: string[];
+  isVegetarian: boolean;
+  isVegan: boolean;
+  isGlutenFree: boolean;
+}
+
+// The recipe's ingredients after a section's modifiers, ingredientId -> quantity.
+// Every modifier except ADD must name an ingredient the recipe has, so nothing is taken
+// off that was never on the pizza and no quantity drops below zero.
+export function composeSection(
+  recipe: PizzaRecipe,
+  modifiers: IngredientModifier[],
+  ingredientMap: Map<ID, Ingredient>
+): Result<Map<ID, number>, ValidationError | BusinessRuleViolationError> {
+  for (const modifier of modifiers) {
+    if (modifier.type !== 'ADD' && !recipe.ingredients.has(modifier.ingredientId)) {
+      return Err(new ValidationError(
+        `Ingredient ${modifier.ingredientId} is not on ${recipe.name}`,
+        'modifiers'
+      ));
+    }
+
+    const putOn = modifier.type === 'SUBSTITUTE' ? modifier.replacementId! : modifier.ingredientId;
+    if (modifier.type === 'ADD' || modifier.type === 'EXTRA' || modifier.type === 'SUBSTITUTE') {
+      const availability = checkAvailable(putOn, ingredientMap);
+      if (availability.isErr()) {
+        return Err(availability.error);
+      }
+    }
+
+    if (modifier.type === 'SUBSTITUTE') {
+      const original = ingredientMap.get(modifier.ingredientId);
+      const replacement = ingredientMap.get(putOn)!;
+      if (original && original.category !== replacement.category) {
+        return Err(new ValidationError(
+          `${original.name} can only be swapped for another ${original.category.toLowerCase()} ingredient`,
+          'modifiers'
+        ));
+      }
+    }
+  }
+
+  return Ok(applyModifiers(recipe.ingredients, modifiers));
+}
+
+// The quantity arithmetic alone, for modifiers that were already checked when the order was placed
+export function applyModifiers(recipeIngredients: Map<ID, number>, modifiers: IngredientModifier[]): Map<ID, number> {
+  const composition = new Map(recipeIngredients);
+
+  for (const modifier of modifiers) {
+    const recipeQuantity = recipeIngredients.get(modifier.ingredientId) || 0;
+    const current = composition.get(modifier.ingredientId) || 0;
+    switch (modifier.type) {
+      case 'ADD':
+        composition.set(modifier.ingredientId, current + modifier.quantity);
+        break;
+      case 'EXTRA':
+        composition.set(modifier.ingredientId, current + recipeQuantity * modifier.quantity);
+        break;
+      case 'LIGHT':
+        composition.set(modifier.ingredientId, recipeQuantity / 2);
+        break;
+      case 'REMOVE':
+        composition.delete(modifier.ingredientId);
+        break;
+      case 'SUBSTITUTE':
+        composition.delete(modifier.ingredientId);
+        composition.set(modifier.replacementId!, recipeQuantity);
+        break;
+    }
+  }
+
+  return composition;
+}
+
+// Recomputed from what actually ends up on the pizza, so swapping mozzarella for a vegan
+// cheese can make a pizza vegan that its recipe is not. Unknown ingredients count against
+// every flag. Gluten-free means no ingredient declares gluten, the base included.
+export function dietaryProfileOf(
+  compositions: Map<ID, number>[],
+  ingredientMap: Map<ID, Ingredient>
+): PizzaDietaryProfile {
+  const ingredientIds = [...new Set(compositions.flatMap(composition => Array.from(composition.keys())))];
+  const ingredients = ingredientIds.map(id => ingredientMap.get(id));
+
+  return {
+    allergens: [...new Set(ingredients.flatMap(ingredient => ingredient?.allergens || []))].sort(),
+    isVegetarian: ingredients.every(ingredient => ingredient?.isVegetarian === true),
+    isVegan: ingredients.every(ingredient => ingredient?.isVegan === true),
+    isGlutenFree: ingredients.every(ingredient => ingredient !== undefined && !ingredient.allergens.includes(GLUTEN_ALLERGEN)),
+  };
+}
+
+export interface AllergenMatrixRow extends PizzaDietaryProfile {
+  recipeId: ID;
+  recipeName: string;
+}
+
+export interface AllergenMatrix {
+  // Column order: the major allergens, then any others an ingredient declares
+  allergens: string[];
+  rows: AllergenMatrixRow[];
+}
+
+// Recipes as listed, before any modifiers
+export function allergenMatrixOf(recipes: PizzaRecipe[], ingredientMap: Map<ID, Ingredient>): AllergenMatrix {
+  const rows = recipes
+    .map(recipe => ({
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      ...dietaryProfileOf([recipe.ingredients], ingredientMap),
+    }))
+    .sort((a, b) => a.recipeName.localeCompare(b.recipeName));
+
+  const major: readonly string[] = MAJOR_ALLERGENS;
+  const others = [...new Set(rows.flatMap(row => row.allergens))]
+    .filter(allergen => !major.includes(allergen))
+    .sort();
+
+  return { allergens: [...MAJOR_ALLERGENS, ...others], rows };
+}
+
+function checkAvailable(
+  ingredientId: ID,
+  ingredientMap: Map<ID, Ingredient>
+): Result<Ingredient, ValidationError | BusinessRuleViolationError> {
+  const ingredient = ingredientMap.get(ingredientId);
+  if (!ingredient) {
+    return Err(new ValidationError(`Unknown ingredient ${ingredientId}`, 'modifiers'));
+  }
+
+  if (!ingredient.isAvailable) {
+    return Err(new BusinessRuleViolationError(`Ingredient ${ingredient.name} is not available`, {
+      ingredientId,
+    }));
+  }
+
+  return Ok(ingredient);
+}
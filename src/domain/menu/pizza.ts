@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { BaseAggregateRoot, ID } from '../shared/types';
 import { Money, CurrencySchema } from '../shared/money';
 import { ValidationError, Result, Ok, Err } from '../shared/result';
+import { normalizeAllergen, type NutritionFacts } from './nutrition';
+import type { AvailabilitySchedule } from './availability-schedule';
 
 export const PizzaSizeSchema = z.enum(['SMALL', 'MEDIUM', 'LARGE', 'XLARGE']);
 export type PizzaSize = z.infer<typeof PizzaSizeSchema>;
@@ -22,9 +24,17 @@ export interface IngredientProps {
   id: ID;
   name: string;
   category: IngredientCategory;
+  // What customers pay for a portion, e.g. as an extra topping
   pricePerUnit: Money;
+  // What a unit costs to buy in; unknown until set or first received from a supplier
+  costPerUnit?: Money | null;
   isAvailable: boolean;
   allergens?: string[];
+  // Per unit; without it pizzas using the ingredient show incomplete nutrition
+  nutrition?: NutritionFacts | null;
+  // Default from the category when not given: meat is neither, cheese is vegetarian only
+  isVegetarian?: boolean;
+  isVegan?: boolean;
 }
 
 export class Ingredient extends BaseAggregateRoot {
@@ -34,7 +44,11 @@ export class Ingredient extends BaseAggregateRoot {
     public readonly category: IngredientCategory,
     public readonly pricePerUnit: Money,
     private _isAvailable: boolean,
-    public readonly allergens: string[] = []
+    public readonly allergens: string[] = [],
+    public readonly isVegetarian: boolean = true,
+    public readonly isVegan: boolean = true,
+    private _costPerUnit: Money | null = null,
+    public readonly nutrition: NutritionFacts | null = null
   ) {
     super(id);
   }
@@ -44,6 +58,14 @@ export class Ingredient extends BaseAggregateRoot {
       return Err(new ValidationError('Ingredient name cannot be empty'));
     }
 
+    if (props.costPerUnit && props.costPerUnit.currency !== props.pricePerUnit.currency) {
+      return Err(new ValidationError('Cost and price must be in the same currency', 'costPerUnit'));
+    }
+
+    if (props.nutrition && Object.values(props.nutrition).some(value => value < 0)) {
+      return Err(new ValidationError('Nutrition values cannot be negative', 'nutrition'));
+    }
+
     return Ok(
       new Ingredient(
         props.id,
@@ -51,7 +73,11 @@ export class Ingredient extends BaseAggregateRoot {
         props.category,
         props.pricePerUnit,
         props.isAvailable,
-        props.allergens || []
+        [...new Set((props.allergens || []).map(normalizeAllergen))],
+        props.isVegetarian ?? props.category !== 'MEAT',
+        props.isVegan ?? (props.category !== 'MEAT' && props.category !== 'CHEESE'),
+        props.costPerUnit || null,
+        props.nutrition || null
       )
     );
   }
@@ -60,6 +86,19 @@ export class Ingredient extends BaseAggregateRoot {
     return this._isAvailable;
   }
 
+  get costPerUnit(): Money | null {
+    return this._costPerUnit;
+  }
+
+  changeCost(costPerUnit: Money): Result<void, ValidationError> {
+    if (costPerUnit.currency !== this.pricePerUnit.currency) {
+      return Err(new ValidationError(`Cost must be in ${this.pricePerUnit.currency}`, 'costPerUnit'));
+    }
+
+    this._costPerUnit = costPerUnit;
+    return Ok(undefined);
+  }
+
   markAsUnavailable(): void {
     this._isAvailable = false;
   }
@@ -77,11 +116,14 @@ export interface PizzaRecipeProps {
   basePrice: Money;
   preparationTimeMinutes: number;
   difficulty: number; // 1-5
-  isVegetarian?: boolean;
-  isVegan?: boolean;
-  isGlutenFree?: boolean;
+  // The menu version entry the recipe was read from; null for recipes published before versioning
+  versionId?: ID | null;
+  // When the pizza is on sale; null means whenever the store is selling
+  availability?: AvailabilitySchedule | null;
 }
 
+// Vegetarian, vegan and gluten-free are not kept on the recipe; dietaryProfileOf derives them
+// from the ingredients so they cannot drift from what is actually on the pizza
 export class PizzaRecipe extends BaseAggregateRoot {
   private constructor(
     id: ID,
@@ -91,9 +133,8 @@ export class PizzaRecipe extends BaseAggregateRoot {
     public readonly basePrice: Money,
     public readonly preparationTimeMinutes: number,
     public readonly difficulty: number,
-    public readonly isVegetarian: boolean,
-    public readonly isVegan: boolean,
-    public readonly isGlutenFree: boolean
+    public readonly versionId: ID | null,
+    public readonly availability: AvailabilitySchedule | null
   ) {
     super(id);
   }
@@ -124,13 +165,27 @@ export class PizzaRecipe extends BaseAggregateRoot {
         props.basePrice,
         props.preparationTimeMinutes,
         props.difficulty,
-        props.isVegetarian || false,
-        props.isVegan || false,
-        props.isGlutenFree || false
+        props.versionId || null,
+        props.availability || null
       )
     );
   }
 
+  // The same recipe sold at another base price, e.g. one store's own price
+  repriced(basePrice: Money): PizzaRecipe {
+    return new PizzaRecipe(
+      this.id,
+      this.name,
+      this.description,
+      this.ingredients,
+      basePrice,
+      this.preparationTimeMinutes,
+      this.difficulty,
+      this.versionId,
+      this.availability
+    );
+  }
+
   calculateTotalPrice(ingredientPrices: Map<ID, Money>, size: PizzaSize): Money {
     const sizeMultiplier = this.getSizeMultiplier(size);
     let totalPrice = this.basePrice.multiply(sizeMultiplier);
@@ -145,7 +200,8 @@ export class PizzaRecipe extends BaseAggregateRoot {
     return totalPrice;
   }
 
-  private getSizeMultiplier(size: PizzaSize): number {
+  // Scales price, ingredient quantities and preparation time alike
+  getSizeMultiplier(size: PizzaSize): number {
     const multipliers = {
       SMALL: 0.8,
       MEDIUM: 1.0,
@@ -162,35 +218,145 @@ export class PizzaRecipe extends BaseAggregateRoot {
   }
 }
 
-export interface PizzaProps {
+export const PizzaSectionPositionSchema = z.enum([
+  'WHOLE',
+  'LEFT',
+  'RIGHT',
+  'TOP_LEFT',
+  'TOP_RIGHT',
+  'BOTTOM_LEFT',
+  'BOTTOM_RIGHT',
+]);
+export type PizzaSectionPosition = z.infer<typeof PizzaSectionPositionSchema>;
+
+// A pizza is covered by exactly one of these layouts: whole, halves or quarters
+const SECTION_LAYOUTS: PizzaSectionPosition[][] = [
+  ['WHOLE'],
+  ['LEFT', 'RIGHT'],
+  ['TOP_LEFT', 'TOP_RIGHT', 'BOTTOM_LEFT', 'BOTTOM_RIGHT'],
+];
+
+export const IngredientModifierTypeSchema = z.enum(['ADD', 'REMOVE', 'EXTRA', 'LIGHT', 'SUBSTITUTE']);
+export type IngredientModifierType = z.infer<typeof IngredientModifierTypeSchema>;
+
+// ADD puts on something new; the others change an ingredient the recipe already has
+export interface IngredientModifier {
+  type: IngredientModifierType;
+  ingredientId: ID;
+  quantity: number; // portions for ADD and EXTRA, 1 otherwise
+  replacementId: ID | null; // SUBSTITUTE only
+}
+
+export interface IngredientModifierProps {
+  type: IngredientModifierType;
+  ingredientId: ID;
+  quantity?: number;
+  replacementId?: ID;
+}
+
+export interface PizzaSection {
+  position: PizzaSectionPosition;
+  recipeId: ID;
+  modifiers: IngredientModifier[]; // apply to this section only
+}
+
+export function sectionFraction(position: PizzaSectionPosition): number {
+  if (position === 'WHOLE') {
+    return 1;
+  }
+  return position === 'LEFT' || position === 'RIGHT' ? 0.5 : 0.25;
+}
+
+export interface PizzaSectionProps {
+  position: PizzaSectionPosition;
   recipeId: ID;
+  modifiers?: IngredientModifierProps[];
+}
+
+export interface PizzaProps {
+  // Required for whole pizzas; split pizzas take their recipes from the sections
+  recipeId?: ID;
   size: PizzaSize;
   crust: PizzaCrust;
   customIngredients?: Map<ID, number>;
+  // Whole-pizza modifiers; customIngredients are the ADD modifiers in short form
+  modifiers?: IngredientModifierProps[];
   specialInstructions?: string;
+  sections?: PizzaSectionProps[];
 }
 
 export class Pizza {
+  public readonly sections: PizzaSection[];
+
+  // recipeId is the first section's recipe and customIngredients the whole-pizza additions;
+  // both stay so single-recipe pizzas read the same as before sections existed
   constructor(
     public readonly recipeId: ID,
     public readonly size: PizzaSize,
     public readonly crust: PizzaCrust,
     public readonly customIngredients: Map<ID, number> = new Map(),
-    public readonly specialInstructions?: string
-  ) {}
+    public readonly specialInstructions?: string,
+    sections?: PizzaSection[]
+  ) {
+    this.sections = sections && sections.length > 0
+      ? sections
+      : [{
+        position: 'WHOLE',
+        recipeId,
+        modifiers: Array.from(customIngredients, ([ingredientId, quantity]) => ({
+          type: 'ADD' as const,
+          ingredientId,
+          quantity,
+          replacementId: null,
+        })),
+      }];
+  }
 
   static create(props: PizzaProps): Result<Pizza, ValidationError> {
     if (props.specialInstructions && props.specialInstructions.length > 500) {
       return Err(new ValidationError('Special instructions too long (max 500 characters)'));
     }
 
+    const wholeModifiers: IngredientModifierProps[] = [
+      ...Array.from(props.customIngredients || [], ([ingredientId, quantity]) => ({
+        type: 'ADD' as const,
+        ingredientId,
+        quantity,
+      })),
+      ...(props.modifiers || []),
+    ];
+
+    let sectionProps = props.sections || [];
+    if (sectionProps.length === 0) {
+      if (!props.recipeId) {
+        return Err(new ValidationError('Pizza needs a recipe', 'recipeId'));
+      }
+      sectionProps = [{ position: 'WHOLE', recipeId: props.recipeId, modifiers: wholeModifiers }];
+    } else if (wholeModifiers.length > 0) {
+      return Err(new ValidationError('Add ingredients per section on a sectioned pizza', 'customIngredients'));
+    }
+
+    const sectionsResult = Pizza.validateSections(sectionProps);
+    if (sectionsResult.isErr()) {
+      return Err(sectionsResult.error);
+    }
+
+    const sections = sectionsResult.value;
+    const whole = sections.length === 1 ? sections[0] : null;
+    const customIngredients = new Map(
+      (whole ? whole.modifiers : [])
+        .filter(modifier => modifier.type === 'ADD')
+        .map(modifier => [modifier.ingredientId, modifier.quantity])
+    );
+
     return Ok(
       new Pizza(
-        props.recipeId,
+        sections[0].recipeId,
         props.size,
         props.crust,
-        props.customIngredients,
-        props.specialInstructions
+        customIngredients,
+        props.specialInstructions,
+        sections
       )
     );
   }
@@ -198,4 +364,74 @@ export class Pizza {
   hasCustomIngredients(): boolean {
     return this.customIngredients.size > 0;
   }
-}
\ No newline at end of file
+
+  // True for anything beyond a whole pizza with additions, which the flat fields can describe alone
+  hasSections(): boolean {
+    return this.sections.length > 1 || this.sections[0].modifiers.some(modifier => modifier.type !== 'ADD');
+  }
+
+  get recipeIds(): ID[] {
+    return [...new Set(this.sections.map(section => section.recipeId))];
+  }
+
+  private static validateSections(sections: PizzaSectionProps[]): Result<PizzaSection[], ValidationError> {
+    const positions = sections.map(section => section.position);
+    const layout = SECTION_LAYOUTS.find(candidate =>
+      candidate.length === positions.length && candidate.every(position => positions.includes(position))
+    );
+    if (!layout) {
+      return Err(new ValidationError('Sections must cover the pizza as a whole, two halves or four quarters', 'sections'));
+    }
+
+    const validated: PizzaSection[] = [];
+    for (const section of sections) {
+      const modifiersResult = Pizza.validateModifiers(section.modifiers || []);
+      if (modifiersResult.isErr()) {
+        return Err(modifiersResult.error);
+      }
+
+      validated.push({ position: section.position, recipeId: section.recipeId, modifiers: modifiersResult.value });
+    }
+
+    // Keep a stable order so the first section is always the same one for a layout
+    return Ok(validated.sort((a, b) => layout.indexOf(a.position) - layout.indexOf(b.position)));
+  }
+
+  // Whether a change makes sense for the recipe is checked when the pizza is composed;
+  // here only the shape of each modifier is
+  private static validateModifiers(modifiers: IngredientModifierProps[]): Result<IngredientModifier[], ValidationError> {
+    const touched = new Set<ID>();
+    const validated: IngredientModifier[] = [];
+
+    for (const modifier of modifiers) {
+      const quantity = modifier.quantity ?? 1;
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return Err(new ValidationError('Ingredient quantities must be positive whole numbers', 'modifiers'));
+      }
+
+      if (quantity !== 1 && modifier.type !== 'ADD' && modifier.type !== 'EXTRA') {
+        return Err(new ValidationError(`${modifier.type} does not take a quantity`, 'modifiers'));
+      }
+
+      const replacementId = modifier.type === 'SUBSTITUTE' ? modifier.replacementId : undefined;
+      if (modifier.type === 'SUBSTITUTE' && (!replacementId || replacementId === modifier.ingredientId)) {
+        return Err(new ValidationError('A substitution needs a different replacement ingredient', 'modifiers'));
+      }
+
+      const targets = replacementId ? [modifier.ingredientId, replacementId] : [modifier.ingredientId];
+      if (targets.some(ingredientId => touched.has(ingredientId))) {
+        return Err(new ValidationError('Each ingredient can only be changed once per section', 'modifiers'));
+      }
+      targets.forEach(ingredientId => touched.add(ingredientId));
+
+      validated.push({
+        type: modifier.type,
+        ingredientId: modifier.ingredientId,
+        quantity,
+        replacementId: replacementId || null,
+      });
+    }
+
+    return Ok(validated);
+  }
+}
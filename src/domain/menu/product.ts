@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { BaseAggregateRoot, ID } from '../shared/types';
+import { Money } from '../shared/money';
+import { ValidationError, Result, Ok, Err } from '../shared/result';
+import type { TaxCategory } from '../tax/tax-engine';
+import type { AvailabilitySchedule } from './availability-schedule';
+
+// Everything on the menu that is not a pizza
+export const ProductCategorySchema = z.enum(['SIDE', 'DRINK', 'DESSERT']);
+export type ProductCategory = z.infer<typeof ProductCategorySchema>;
+
+export function taxCategoryFor(category: ProductCategory): TaxCategory {
+  return category === 'DRINK' ? 'BEVERAGE' : 'FOOD';
+}
+
+export interface ProductProps {
+  id: ID;
+  name: string;
+  description?: string;
+  category: ProductCategory;
+  price: Money;
+  isAvailable?: boolean;
+  // When the product is on sale; null means whenever the store is selling
+  availability?: AvailabilitySchedule | null;
+}
+
+export class Product extends BaseAggregateRoot {
+  private constructor(
+    id: ID,
+    public readonly name: string,
+    public readonly description: string,
+    public readonly category: ProductCategory,
+    public readonly price: Money,
+    private _isAvailable: boolean,
+    public readonly availability: AvailabilitySchedule | null
+  ) {
+    super(id);
+  }
+
+  static create(props: ProductProps): Result<Product, ValidationError> {
+    if (!props.name.trim()) {
+      return Err(new ValidationError('Product name cannot be empty', 'name'));
+    }
+
+    if (props.price.isZero()) {
+      return Err(new ValidationError('Product price must be greater than zero', 'price'));
+    }
+
+    return Ok(
+      new Product(
+        props.id,
+        props.name.trim(),
+        (props.description || '').trim(),
+        props.category,
+        props.price,
+        props.isAvailable ?? true,
+        props.availability || null
+      )
+    );
+  }
+
+  get isAvailable(): boolean {
+    return this._isAvailable;
+  }
+
+  get taxCategory(): TaxCategory {
+    return taxCategoryFor(this.category);
+  }
+
+  // The same product sold at another price, e.g. one store's own price
+  repriced(price: Money): Product {
+    return new Product(this.id, this.name, this.description, this.category, price, this._isAvailable, this.availability);
+  }
+
+  markAsUnavailable(): void {
+    this._isAvailable = false;
+  }
+
+  markAsAvailable(): void {
+    this._isAvailable = true;
+  }
+}
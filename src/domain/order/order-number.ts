@@ -0,0 +1,71 @@
+import { ValueObject } from '../shared/types';
+import { ValidationError, Result, Ok, Err } from '../shared/result';
+import { localDateOf } from '../menu/availability-schedule';
+
+export const DEFAULT_ORDER_NUMBER_PREFIX = 'DP';
+
+export const ORDER_NUMBER_PREFIX_PATTERN = /^[A-Z]{2,8}$/;
+
+const ORDER_NUMBER_PATTERN = /^([A-Z]{2,8})-(\d{8})-(\d{4,})$/;
+
+// Human-readable order reference, e.g. DP-20261019-0042.
+// The prefix identifies the issuing kitchen and the sequence restarts every day on the
+// kitchen's own calendar, so prefix + business date + sequence is unique.
+// Stores sharing a prefix share its daily sequence.
+export class OrderNumber implements ValueObject {
+  private constructor(
+    public readonly prefix: string,
+    public readonly businessDate: string, // YYYYMMDD
+    public readonly sequence: number
+  ) {}
+
+  static create(
+    prefix: string,
+    businessDate: Date,
+    sequence: number,
+    timeZone: string = 'UTC'
+  ): Result<OrderNumber, ValidationError> {
+    if (!ORDER_NUMBER_PREFIX_PATTERN.test(prefix)) {
+      return Err(new ValidationError('Order number prefix must be 2-8 uppercase letters', 'orderNumber'));
+    }
+
+    if (!Number.isInteger(sequence) || sequence <= 0) {
+      return Err(new ValidationError('Order number sequence must be a positive integer', 'orderNumber'));
+    }
+
+    return Ok(new OrderNumber(prefix, OrderNumber.formatBusinessDate(businessDate, timeZone), sequence));
+  }
+
+  static parse(value: string): Result<OrderNumber, ValidationError> {
+    const match = ORDER_NUMBER_PATTERN.exec(value.trim().toUpperCase());
+    if (!match) {
+      return Err(new ValidationError(`Invalid order number: ${value}`, 'orderNumber'));
+    }
+
+    return Ok(new OrderNumber(match[1], match[2], Number(match[3])));
+  }
+
+  // The business day is the issuing store's local date
+  static formatBusinessDate(date: Date, timeZone: string = 'UTC'): string {
+    return localDateOf(date, timeZone).replace(/-/g, '');
+  }
+
+  get value(): string {
+    return `${this.prefix}-${this.businessDate}-${this.sequence.toString().padStart(4, '0')}`;
+  }
+
+  equals(other: ValueObject): boolean {
+    if (!(other instanceof OrderNumber)) return false;
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+export interface OrderNumberGenerator {
+  // Must be safe to call concurrently: two callers never receive the same number.
+  // The day the sequence belongs to is taken from the moment in the given time zone.
+  next(prefix: string, at: Date, timeZone: string): Promise<Result<OrderNumber, Error>>;
+}
@@ -1,5 +1,7 @@
+import { z } from 'zod';
 import { Money, Currency } from '../shared/money';
-import { PizzaRecipe, PizzaSize, Ingredient } from '../menu/pizza';
+import { PizzaRecipe, PizzaSize, Ingredient, IngredientModifier, IngredientModifierType } from '../menu/pizza';
+import type { ID } from '../shared/types';
 import { OrderItem } from './order';
 import { Maybe, pipe, memoize, Lens } from '../shared/functional';
 import { Result, Ok, Err, ValidationError } from '../shared/result';
@@ -17,6 +19,41 @@ export interface PricingContext {
   orderTime: Date;
   isHappyHour: boolean;
   seasonalModifiers: SeasonalModifier[];
+  splitPricingRule?: SplitPizzaPricingRule;
+}
+
+// How the base of a half-and-half (or quartered) pizza is charged
+export const SplitPizzaPricingRuleSchema = z.enum(['MORE_EXPENSIVE', 'AVERAGE']);
+export type SplitPizzaPricingRule = z.infer<typeof SplitPizzaPricingRuleSchema>;
+
+// Stores without a rule of their own use the default
+export class SplitPizzaPricingPolicy {
+  constructor(
+    private readonly defaultRule: SplitPizzaPricingRule = 'MORE_EXPENSIVE',
+    private readonly storeRules: Record<ID, SplitPizzaPricingRule> = {}
+  ) {}
+
+  ruleFor(storeId?: ID | null): SplitPizzaPricingRule {
+    return (storeId && this.storeRules[storeId]) || this.defaultRule;
+  }
+}
+
+// Share of an ingredient portion's price each modifier charges. REMOVE and LIGHT are credits
+// and SUBSTITUTE charges the price difference between the two ingredients.
+export type ModifierPriceDeltas = Record<IngredientModifierType, number>;
+
+export const DEFAULT_MODIFIER_PRICE_DELTAS: ModifierPriceDeltas = {
+  ADD: 1,
+  EXTRA: 1,
+  LIGHT: 0,
+  REMOVE: 0,
+  SUBSTITUTE: 1,
+};
+
+export interface PricedPizzaSection {
+  recipe: PizzaRecipe;
+  fraction: number;
+  modifiers: IngredientModifier[];
 }
 
 export interface SeasonalModifier {
@@ -114,7 +151,8 @@ export class OrderPricingService {
   private readonly ingredientPriceCache = new Map<string, Money>();
 
   constructor(
-    pricingStrategy: PricingStrategy = new SeasonalPricingStrategy()
+    pricingStrategy: PricingStrategy = new SeasonalPricingStrategy(),
+    private readonly modifierPriceDeltas: ModifierPriceDeltas = DEFAULT_MODIFIER_PRICE_DELTAS
   ) {
     this.pricingStrategy = pricingStrategy;
   }
@@ -140,6 +178,79 @@ export class OrderPricingService {
       .getOrElse(Err(new ValidationError('Invalid recipe or pricing context')));
   }
 
+  // Each section pays for its modifiers in proportion to the share of the pizza it covers;
+  // the base follows the split pricing rule. A whole pizza is the one-section case.
+  // Prices one pizza, after any discount the line's quantity earns; the line total is this
+  // times the quantity, so it always divides back into whole unit prices.
+  async calculatePizzaUnitPriceAsync(
+    sections: PricedPizzaSection[],
+    context: PricingContext,
+    ingredientMap: Map<string, Ingredient>
+  ): Promise<Result<Money, ValidationError>> {
+    if (sections.length === 0 || sections.some(section => section.recipe.basePrice.amount <= 0)) {
+      return Err(new ValidationError('Invalid recipe or pricing context'));
+    }
+
+    const bases = sections.map(section => ({
+      price: this.pricingStrategy.calculatePrice(section.recipe.basePrice, context),
+      fraction: section.fraction,
+    }));
+
+    const basePrice = (context.splitPricingRule || 'MORE_EXPENSIVE') === 'MORE_EXPENSIVE'
+      ? bases.reduce((highest, base) => (base.price.isGreaterThan(highest) ? base.price : highest), bases[0].price)
+      : bases.slice(1).reduce(
+          (total, base) => total.add(base.price.multiply(base.fraction)),
+          bases[0].price.multiply(bases[0].fraction)
+        );
+
+    let modifiersPrice = Money.zero(basePrice.currency);
+    for (const section of sections) {
+      const sectionPrice = this.sectionModifiersPrice(section, ingredientMap, context.size);
+      if (sectionPrice.isErr()) {
+        return Err(sectionPrice.error);
+      }
+      modifiersPrice = modifiersPrice.add(sectionPrice.value);
+    }
+
+    return Ok(this.discountForQuantity(basePrice.add(modifiersPrice), context));
+  }
+
+  // Credits can offset charges on the same section but never take it below zero,
+  // so no amount of removals makes a pizza cheaper than its base
+  private sectionModifiersPrice(
+    section: PricedPizzaSection,
+    ingredientMap: Map<string, Ingredient>,
+    size: PizzaSize
+  ): Result<Money, ValidationError> {
+    const sizeMultiplier = getSizeMultiplier(size);
+    let minorUnits = 0;
+
+    for (const modifier of section.modifiers) {
+      const ingredient = ingredientMap.get(modifier.ingredientId);
+      const replacement = modifier.replacementId ? ingredientMap.get(modifier.replacementId) : undefined;
+      if (!ingredient || (modifier.replacementId && !replacement)) {
+        return Err(new ValidationError('Cannot price a modifier for an unknown ingredient', 'modifiers'));
+      }
+
+      const unitPrice = ingredient.pricePerUnit.minorUnits;
+      const portion = section.recipe.ingredients.get(modifier.ingredientId) || 0;
+      const portionsCharged = {
+        ADD: unitPrice * modifier.quantity,
+        EXTRA: unitPrice * portion * modifier.quantity,
+        LIGHT: -unitPrice * portion / 2,
+        REMOVE: -unitPrice * portion,
+        SUBSTITUTE: ((replacement?.pricePerUnit.minorUnits || 0) - unitPrice) * portion,
+      }[modifier.type];
+
+      minorUnits += portionsCharged * this.modifierPriceDeltas[modifier.type] * sizeMultiplier;
+    }
+
+    return Ok(Money.fromCents(
+      Math.round(Math.max(0, minorUnits) * section.fraction),
+      section.recipe.basePrice.currency
+    ));
+  }
+
   private calculateWithContext(
     recipe: PizzaRecipe,
     context: PricingContext,
@@ -156,14 +267,20 @@ export class OrderPricingService {
     );
     
     // Total price calculation
-    let totalPrice = basePrice.add(customIngredientsPrice);
-    
+    return this.applyQuantity(basePrice.add(customIngredientsPrice), context);
+  }
+
+  private applyQuantity(unitPrice: Money, context: PricingContext): Money {
+    return this.discountForQuantity(unitPrice, context).multiply(context.quantity);
+  }
+
+  private discountForQuantity(unitPrice: Money, context: PricingContext): Money {
     // Apply quantity-based discounts
     if (context.quantity >= 3) {
-      totalPrice = totalPrice.multiply(0.95); // 5% discount for 3+ items
+      return unitPrice.multiply(0.95); // 5% discount for 3+ items
     }
-    
-    return totalPrice.multiply(context.quantity);
+
+    return unitPrice;
   }
 
   private calculateCustomIngredientsPrice(
@@ -298,6 +415,7 @@ export class OrderPricingService {
 export interface OrderHistoryMetrics {
   averageOrderValue: Money;
   customerRetentionRate: number;
+  // Margin over revenue after food cost, as a fraction; see buildMarginReport
   profitMargin: number;
   orderVelocity: number;
 }
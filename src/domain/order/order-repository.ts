@@ -0,0 +1,29 @@
+import { Order, type OrderStatus } from './order';
+import type { OrderStatusHistoryEntry } from './order-timeline';
+import { Money, type Currency } from '../shared/money';
+import { Result, NotFoundError, ConflictError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface PopularPizza {
+  recipeId: ID;
+  recipeName: string;
+  orderCount: number;
+  quantitySold: number;
+}
+
+export interface OrderRepository {
+  findById(id: ID): Promise<Result<Order, NotFoundError | Error>>;
+  findByOrderNumber(orderNumber: string): Promise<Result<Order, NotFoundError | Error>>;
+  findByCustomerId(customerId: ID): Promise<Result<Order[], Error>>;
+  findByStatus(status: OrderStatus): Promise<Result<Order[], Error>>;
+  findActiveOrders(): Promise<Result<Order[], Error>>;
+  // Revenue only counts delivered orders, summed in the requested currency
+  getTotalRevenue(currency: Currency): Promise<Result<Money, Error>>;
+  getRevenueByDateRange(startDate: Date, endDate: Date, currency: Currency): Promise<Result<Money, Error>>;
+  // The orders behind getRevenueByDateRange, for reports that need more than the sum
+  findDeliveredByDateRange(startDate: Date, endDate: Date, currency: Currency): Promise<Result<Order[], Error>>;
+  findPopularPizzas(limit: number): Promise<Result<PopularPizza[], Error>>;
+  findStatusHistory(orderId: ID): Promise<Result<OrderStatusHistoryEntry[], Error>>;
+  // Fails with a ConflictError when the order was saved since this copy was loaded
+  save(order: Order): Promise<Result<Order, ConflictError | Error>>;
+}
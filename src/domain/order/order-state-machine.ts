@@ -0,0 +1,99 @@
+import { ID } from '../shared/types';
+import { Result, Ok, Err, BusinessRuleViolationError } from '../shared/result';
+import type { OrderStatus, PaymentStatus, DeliveryType } from './order';
+
+// Who triggered a transition and why, carried on OrderStatusChangedEvent
+export interface TransitionMetadata {
+  actorId?: ID;
+  reason?: string;
+}
+
+// The slice of order state guards are allowed to inspect
+export interface OrderTransitionContext {
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  deliveryType: DeliveryType;
+}
+
+export interface TransitionGuard {
+  // Rule shown to the caller when the guard rejects the transition
+  rule: string;
+  isSatisfied(context: OrderTransitionContext): boolean;
+}
+
+export interface OrderTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  guards?: TransitionGuard[];
+}
+
+export const paidBeforePreparation: TransitionGuard = {
+  rule: 'Order must be paid before preparation can start',
+  // A refund of some lines leaves the rest of the order paid for
+  isSatisfied: context => context.paymentStatus === 'PAID' || context.paymentStatus === 'PARTIALLY_REFUNDED',
+};
+
+export const deliveryOrdersOnly: TransitionGuard = {
+  rule: 'Pickup orders cannot be delivered',
+  isSatisfied: context => context.deliveryType === 'DELIVERY',
+};
+
+export const pickupOrdersOnly: TransitionGuard = {
+  rule: 'Delivery order must be out for delivery to mark as delivered',
+  isSatisfied: context => context.deliveryType === 'PICKUP',
+};
+
+export const DEFAULT_ORDER_TRANSITIONS: OrderTransition[] = [
+  { from: 'PENDING', to: 'CONFIRMED' },
+  { from: 'CONFIRMED', to: 'PREPARING', guards: [paidBeforePreparation] },
+  { from: 'PREPARING', to: 'READY' },
+  { from: 'READY', to: 'OUT_FOR_DELIVERY', guards: [deliveryOrdersOnly] },
+  { from: 'READY', to: 'DELIVERED', guards: [pickupOrdersOnly] },
+  { from: 'OUT_FOR_DELIVERY', to: 'DELIVERED' },
+  { from: 'PENDING', to: 'CANCELLED' },
+  { from: 'CONFIRMED', to: 'CANCELLED' },
+  { from: 'PREPARING', to: 'CANCELLED' },
+  { from: 'READY', to: 'CANCELLED' },
+];
+
+export class OrderStateMachine {
+  constructor(private readonly transitions: OrderTransition[] = DEFAULT_ORDER_TRANSITIONS) {}
+
+  canTransition(
+    context: OrderTransitionContext,
+    to: OrderStatus
+  ): Result<void, BusinessRuleViolationError> {
+    const candidates = this.transitions.filter(
+      transition => transition.from === context.status && transition.to === to
+    );
+
+    if (candidates.length === 0) {
+      return Err(new BusinessRuleViolationError(
+        `Order cannot move from ${context.status} to ${to}`,
+        { from: context.status, to }
+      ));
+    }
+
+    // Several entries may describe the same edge; any one with all guards satisfied wins
+    let firstFailedGuard: TransitionGuard | undefined;
+    for (const transition of candidates) {
+      const failedGuard = (transition.guards || []).find(guard => !guard.isSatisfied(context));
+      if (!failedGuard) {
+        return Ok(undefined);
+      }
+      firstFailedGuard = firstFailedGuard || failedGuard;
+    }
+
+    return Err(new BusinessRuleViolationError(firstFailedGuard!.rule, { from: context.status, to }));
+  }
+
+  getAllowedTransitions(context: OrderTransitionContext): OrderStatus[] {
+    const targets = new Set(
+      this.transitions
+        .filter(transition => transition.from === context.status)
+        .map(transition => transition.to)
+    );
+
+    return [...targets].filter(to => this.canTransition(context, to).isOk());
+  }
+}
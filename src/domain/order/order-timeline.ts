@@ -0,0 +1,66 @@
+import { ID } from '../shared/types';
+import { ACTIVE_ORDER_STATUSES, type OrderStatus } from './order';
+
+export interface OrderStatusHistoryEntry {
+  orderId: ID;
+  previousStatus: OrderStatus | null;
+  newStatus: OrderStatus;
+  actorId: ID | null;
+  reason: string | null;
+  occurredAt: Date;
+}
+
+export interface OrderTimelineStage {
+  status: OrderStatus;
+  enteredAt: Date;
+  exitedAt: Date | null;
+  // Time spent in this stage; still ticking for the current active stage,
+  // null once the order has reached DELIVERED or CANCELLED
+  durationMs: number | null;
+  actorId: ID | null;
+  reason: string | null;
+}
+
+export interface OrderTimeline {
+  currentStatus: OrderStatus | null;
+  stages: OrderTimelineStage[];
+  // From placement until now, or until the order was closed
+  totalDurationMs: number;
+}
+
+export function buildOrderTimeline(
+  entries: OrderStatusHistoryEntry[],
+  now: Date = new Date()
+): OrderTimeline {
+  const sorted = [...entries].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  const stages = sorted.map((entry, index): OrderTimelineStage => {
+    const next = sorted[index + 1];
+    const isActive = ACTIVE_ORDER_STATUSES.includes(entry.newStatus);
+    const exitedAt = next ? next.occurredAt : null;
+    const durationMs = exitedAt
+      ? exitedAt.getTime() - entry.occurredAt.getTime()
+      : isActive
+        ? now.getTime() - entry.occurredAt.getTime()
+        : null;
+
+    return {
+      status: entry.newStatus,
+      enteredAt: entry.occurredAt,
+      exitedAt,
+      durationMs,
+      actorId: entry.actorId,
+      reason: entry.reason,
+    };
+  });
+
+  const first = stages[0];
+  const last = stages[stages.length - 1];
+  const end = last && !ACTIVE_ORDER_STATUSES.includes(last.status) ? last.enteredAt : now;
+
+  return {
+    currentStatus: last ? last.status : null,
+    stages,
+    totalDurationMs: first ? end.getTime() - first.enteredAt.getTime() : 0,
+  };
+}
@@ -1,8 +1,30 @@
 import { z } from 'zod';
 import { BaseAggregateRoot, ID, DomainEvent } from '../shared/types';
-import { Money } from '../shared/money';
+import { Money, type Currency } from '../shared/money';
+import type { ExchangeRate } from '../shared/exchange-rate';
 import { ValidationError, Result, Ok, Err, BusinessRuleViolationError } from '../shared/result';
 import { Pizza } from '../menu/pizza';
+import type { PizzaDietaryProfile } from '../menu/pizza-composition';
+import { taxCategoryFor, type ProductCategory } from '../menu/product';
+import type { BundleChoiceKind } from '../menu/bundle';
+import { isAvailableAt, type ScheduledMenuItem } from '../menu/availability-schedule';
+import { Payment } from '../payment/payment';
+import type { DeliveryQuote } from '../delivery/delivery-zone';
+import type { OrderDiscount } from '../promotion/promotion';
+import {
+  TaxEngine,
+  ANY_COUNTRY,
+  type OrderTaxLine,
+  type TaxableLine,
+  type TaxCategory,
+  type TaxLocation,
+} from '../tax/tax-engine';
+import { OrderNumber } from './order-number';
+import {
+  OrderStateMachine,
+  type OrderTransitionContext,
+  type TransitionMetadata,
+} from './order-state-machine';
 
 export const OrderStatusSchema = z.enum([
   'PENDING',
@@ -15,7 +37,16 @@ export const OrderStatusSchema = z.enum([
 ]);
 export type OrderStatus = z.infer<typeof OrderStatusSchema>;
 
-export const PaymentStatusSchema = z.enum(['PENDING', 'PAID', 'FAILED', 'REFUNDED']);
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = [
+  'PENDING',
+  'CONFIRMED',
+  'PREPARING',
+  'READY',
+  'OUT_FOR_DELIVERY',
+];
+
+// PROCESSING while one payment attempt is with the provider, so no second attempt can start
+export const PaymentStatusSchema = z.enum(['PENDING', 'PROCESSING', 'PAID', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED']);
 export type PaymentStatus = z.infer<typeof PaymentStatusSchema>;
 
 export const DeliveryTypeSchema = z.enum(['PICKUP', 'DELIVERY']);
@@ -29,21 +60,111 @@ export interface Address {
   additionalInfo?: string;
 }
 
-export interface OrderItem {
-  pizza: Pizza;
+export const OrderItemTypeSchema = z.enum(['PIZZA', 'PRODUCT', 'BUNDLE']);
+export type OrderItemType = z.infer<typeof OrderItemTypeSchema>;
+
+// Name and category as they were when the order was placed
+export interface OrderedProduct {
+  productId: ID;
+  name: string;
+  category: ProductCategory;
+}
+
+export interface BundleComponent {
+  groupId: string;
+  kind: BundleChoiceKind;
+  pizza: Pizza | null;
+  // The menu version entry the pizza's recipe was sold from; null for recipes from before versioning
+  recipeVersionId?: ID | null;
+  product: OrderedProduct | null;
+  // This component's share of one bundle's unit price; the shares add up to it exactly
+  allocatedPrice: Money;
+}
+
+export interface OrderedBundle {
+  bundleId: ID;
+  name: string;
+  components: BundleComponent[];
+}
+
+interface OrderItemBase {
+  id: ID;
   quantity: number;
   unitPrice: Money;
   totalPrice: Money;
 }
 
+export interface PizzaOrderItem extends OrderItemBase {
+  type: 'PIZZA';
+  pizza: Pizza;
+  // Worked out from the final ingredients when the order was placed
+  dietary?: PizzaDietaryProfile;
+  // Menu version entries of the recipes on the pizza, so the line keeps pointing at what was sold
+  // after the menu changes; empty for recipes from before versioning
+  recipeVersionIds?: ID[];
+}
+
+export interface ProductOrderItem extends OrderItemBase {
+  type: 'PRODUCT';
+  product: OrderedProduct;
+}
+
+export interface BundleOrderItem extends OrderItemBase {
+  type: 'BUNDLE';
+  bundle: OrderedBundle;
+}
+
+export type OrderItem = PizzaOrderItem | ProductOrderItem | BundleOrderItem;
+
+// A refund is recorded as PENDING before any money moves, then settled once the provider answers.
+// A PENDING entry that never settles means the outcome is unknown and must be checked with the provider.
+export const RefundStatusSchema = z.enum(['PENDING', 'COMPLETED', 'FAILED']);
+export type RefundStatus = z.infer<typeof RefundStatusSchema>;
+
+// One entry in the order's refund ledger; entries are never removed and only settle once
+export interface OrderRefund {
+  id: ID;
+  paymentId: ID;
+  amount: Money;
+  // Lines covered by this refund; a whole-order refund lists every line not refunded before
+  orderItemIds: ID[];
+  reason: string;
+  actorId: ID | null;
+  status: RefundStatus;
+  // Set when the refund completes: the provider's refund id, or the gift card transaction
+  providerReference: string | null;
+  createdAt: Date;
+}
+
+export type NewOrderRefund = Omit<OrderRefund, 'status' | 'providerReference'>;
+
+export interface RefundQuote {
+  amount: Money;
+  orderItemIds: ID[];
+}
+
 export interface CustomerInfo {
   name: string;
   phone: string;
   email?: string;
 }
 
+export interface OrderTaxContext {
+  storeId?: ID;
+  // Taxes pickup orders; without it only the fallback rules apply
+  storeLocation?: TaxLocation;
+  taxExempt?: boolean;
+}
+
+// The store's time zone and the schedules of the recipes, products and bundles on the order
+export interface OrderAvailability {
+  timeZone: string;
+  items: ScheduledMenuItem[];
+}
+
 export interface OrderProps {
   id: ID;
+  orderNumber: OrderNumber;
   customerId?: ID;
   customerInfo: CustomerInfo;
   items: OrderItem[];
@@ -51,12 +172,22 @@ export interface OrderProps {
   deliveryAddress?: Address;
   specialInstructions?: string;
   requestedDeliveryTime?: Date;
+  // Rates used to bring menu prices into the order currency, if any were needed
+  exchangeRates?: ExchangeRate[];
+  taxContext?: OrderTaxContext;
+  // Required for delivery orders; comes from the zone covering the address
+  deliveryQuote?: DeliveryQuote;
+  // Promotions already checked by the PromotionEngine
+  discounts?: OrderDiscount[];
+  // Items are checked at the requested delivery time, or now for orders wanted straight away
+  availability?: OrderAvailability;
 }
 
 export class OrderCreatedEvent implements DomainEvent {
   constructor(
     public readonly eventId: ID,
     public readonly orderId: ID,
+    public readonly orderNumber: string,
     public readonly customerId: ID | null,
     public readonly totalAmount: Money,
     public readonly occurredOn: Date = new Date(),
@@ -70,18 +201,50 @@ export class OrderStatusChangedEvent implements DomainEvent {
     public readonly orderId: ID,
     public readonly previousStatus: OrderStatus,
     public readonly newStatus: OrderStatus,
+    public readonly actorId: ID | null,
+    public readonly reason: string | null,
+    public readonly occurredOn: Date = new Date(),
+    public readonly eventVersion: number = 1
+  ) {}
+}
+
+export class OrderPaidEvent implements DomainEvent {
+  constructor(
+    public readonly eventId: ID,
+    public readonly orderId: ID,
+    public readonly paymentId: ID,
+    public readonly amount: Money,
+    public readonly occurredOn: Date = new Date(),
+    public readonly eventVersion: number = 1
+  ) {}
+}
+
+export class OrderRefundedEvent implements DomainEvent {
+  constructor(
+    public readonly eventId: ID,
+    public readonly orderId: ID,
+    public readonly refundId: ID,
+    public readonly amount: Money,
+    public readonly fullyRefunded: boolean,
     public readonly occurredOn: Date = new Date(),
     public readonly eventVersion: number = 1
   ) {}
 }
 
 export class Order extends BaseAggregateRoot {
+  private static readonly stateMachine = new OrderStateMachine();
+  private static readonly defaultTaxEngine = new TaxEngine();
+
   private _status: OrderStatus = 'PENDING';
   private _paymentStatus: PaymentStatus = 'PENDING';
   private _estimatedDeliveryTime?: Date;
+  private _refunds: OrderRefund[] = [];
+  // Saves so far; 0 until the order is first saved
+  private _version = 0;
 
   private constructor(
     id: ID,
+    public readonly orderNumber: OrderNumber,
     public readonly customerId: ID | null,
     public readonly customerInfo: CustomerInfo,
     public readonly items: OrderItem[],
@@ -91,23 +254,50 @@ export class Order extends BaseAggregateRoot {
     public readonly requestedDeliveryTime: Date | null,
     public readonly totalAmount: Money,
     public readonly tax: Money,
-    public readonly deliveryFee: Money
+    public readonly deliveryFee: Money,
+    public readonly exchangeRates: ExchangeRate[],
+    // Per-line breakdown for receipts; empty for orders placed before it was recorded
+    public readonly taxLines: OrderTaxLine[],
+    public readonly deliveryZoneId: ID | null,
+    public readonly deliveryEtaMinutes: number | null,
+    public readonly discounts: OrderDiscount[],
+    // Kitchen the order is made in; stock is taken from it
+    public readonly storeId: ID | null
   ) {
     super(id);
   }
 
-  static create(props: OrderProps): Result<Order, ValidationError> {
+  static create(
+    props: OrderProps,
+    taxEngine: TaxEngine = Order.defaultTaxEngine
+  ): Result<Order, ValidationError | BusinessRuleViolationError> {
     const validation = Order.validateOrderProps(props);
     if (validation.isErr()) {
       return validation;
     }
 
+    const availabilityCheck = Order.checkAvailability(props);
+    if (availabilityCheck.isErr()) {
+      return Err(availabilityCheck.error);
+    }
+
     const totalAmount = Order.calculateTotalAmount(props.items);
-    const tax = Order.calculateTax(totalAmount);
-    const deliveryFee = Order.calculateDeliveryFee(props.deliveryType, props.deliveryAddress);
+    const deliveryFee = Order.calculateDeliveryFee(props, totalAmount.currency);
+    const discounts = props.discounts || [];
+    const discountCheck = Order.validateDiscounts(discounts, totalAmount, deliveryFee);
+    if (discountCheck.isErr()) {
+      return Err(discountCheck.error);
+    }
+
+    const taxLines = Order.calculateTax(props, deliveryFee, discounts, taxEngine);
+    if (taxLines.isErr()) {
+      return Err(taxLines.error);
+    }
+    const tax = taxLines.value.reduce((total, line) => total.add(line.tax), Money.zero(totalAmount.currency));
 
     const order = new Order(
       props.id,
+      props.orderNumber,
       props.customerId || null,
       props.customerInfo,
       props.items,
@@ -117,13 +307,20 @@ export class Order extends BaseAggregateRoot {
       props.requestedDeliveryTime || null,
       totalAmount,
       tax,
-      deliveryFee
+      deliveryFee,
+      props.exchangeRates || [],
+      taxLines.value,
+      props.deliveryQuote?.zoneId || null,
+      props.deliveryQuote?.maxEtaMinutes ?? null,
+      discounts,
+      props.taxContext?.storeId || null
     );
 
     order.addDomainEvent(
       new OrderCreatedEvent(
         crypto.randomUUID(),
         order.id,
+        order.orderNumber.value,
         order.customerId,
         order.grandTotal
       )
@@ -132,6 +329,69 @@ export class Order extends BaseAggregateRoot {
     return Ok(order);
   }
 
+  // Factory method for reconstitution from persistence
+  static reconstitute(data: {
+    id: ID;
+    orderNumber: OrderNumber;
+    customerId: ID | null;
+    customerInfo: CustomerInfo;
+    items: OrderItem[];
+    deliveryType: DeliveryType;
+    deliveryAddress: Address | null;
+    specialInstructions: string | null;
+    requestedDeliveryTime: Date | null;
+    totalAmount: Money;
+    tax: Money;
+    deliveryFee: Money;
+    exchangeRates?: ExchangeRate[];
+    taxLines?: OrderTaxLine[];
+    deliveryZoneId?: ID | null;
+    deliveryEtaMinutes?: number | null;
+    discounts?: OrderDiscount[];
+    storeId?: ID | null;
+    status: OrderStatus;
+    paymentStatus: PaymentStatus;
+    estimatedDeliveryTime?: Date;
+    refunds?: OrderRefund[];
+    version?: number;
+    createdAt: Date;
+    updatedAt: Date;
+  }): Order {
+    const order = new Order(
+      data.id,
+      data.orderNumber,
+      data.customerId,
+      data.customerInfo,
+      data.items,
+      data.deliveryType,
+      data.deliveryAddress,
+      data.specialInstructions,
+      data.requestedDeliveryTime,
+      data.totalAmount,
+      data.tax,
+      data.deliveryFee,
+      data.exchangeRates || [],
+      data.taxLines || [],
+      data.deliveryZoneId || null,
+      data.deliveryEtaMinutes ?? null,
+      data.discounts || [],
+      data.storeId || null
+    );
+
+    // Reconstitute state without validation or events
+    order._status = data.status;
+    order._paymentStatus = data.paymentStatus;
+    order._estimatedDeliveryTime = data.estimatedDeliveryTime;
+    order._refunds = data.refunds || [];
+    order._version = data.version ?? 0;
+
+    // Set base entity properties
+    (order as { createdAt: Date }).createdAt = data.createdAt;
+    (order as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return order;
+  }
+
   get status(): OrderStatus {
     return this._status;
   }
@@ -140,90 +400,376 @@ export class Order extends BaseAggregateRoot {
     return this._paymentStatus;
   }
 
+  // The version this copy was loaded at; repositories only save over that same version
+  get version(): number {
+    return this._version;
+  }
+
+  markPersisted(): void {
+    this._version += 1;
+  }
+
   get estimatedDeliveryTime(): Date | null {
     return this._estimatedDeliveryTime || null;
   }
 
+  get currency(): Currency {
+    return this.totalAmount.currency;
+  }
+
+  // Inclusive lines already carry their tax, so the total is built from the breakdown when there is one
   get grandTotal(): Money {
-    return this.totalAmount.add(this.tax).add(this.deliveryFee);
+    if (this.taxLines.length === 0) {
+      return this.totalAmount.add(this.tax).add(this.deliveryFee).subtract(this.discountTotal);
+    }
+
+    return this.taxLines.reduce(
+      (total, line) => total.add(line.net).add(line.tax),
+      Money.zero(this.currency)
+    );
+  }
+
+  get discountTotal(): Money {
+    return this.discounts.reduce((total, discount) => total.add(discount.amount), Money.zero(this.currency));
+  }
+
+  get refunds(): OrderRefund[] {
+    return [...this._refunds];
   }
 
-  confirm(): Result<void, BusinessRuleViolationError> {
-    if (this._status !== 'PENDING') {
-      return Err(new BusinessRuleViolationError('Order can only be confirmed from pending status'));
+  // What has actually gone back to the customer
+  get refundedAmount(): Money {
+    return this.sumRefunds(refund => refund.status === 'COMPLETED');
+  }
+
+  // Pending refunds are held back too, so the same money cannot be refunded twice
+  get refundableAmount(): Money {
+    return this.grandTotal.subtract(this.sumRefunds(refund => refund.status !== 'FAILED'));
+  }
+
+  confirm(metadata: TransitionMetadata = {}): Result<void, BusinessRuleViolationError> {
+    return this.transitionTo('CONFIRMED', metadata);
+  }
+
+  startPreparation(metadata: TransitionMetadata = {}): Result<void, BusinessRuleViolationError> {
+    return this.transitionTo('PREPARING', metadata);
+  }
+
+  markAsReady(metadata: TransitionMetadata = {}): Result<void, BusinessRuleViolationError> {
+    return this.transitionTo('READY', metadata);
+  }
+
+  startDelivery(metadata: TransitionMetadata = {}): Result<void, BusinessRuleViolationError> {
+    return this.transitionTo('OUT_FOR_DELIVERY', metadata);
+  }
+
+  markAsDelivered(metadata: TransitionMetadata = {}): Result<void, BusinessRuleViolationError> {
+    return this.transitionTo('DELIVERED', metadata);
+  }
+
+  cancel(metadata: TransitionMetadata = {}): Result<void, BusinessRuleViolationError> {
+    return this.transitionTo('CANCELLED', metadata);
+  }
+
+  // Every status change goes through the transition table
+  transitionTo(
+    newStatus: OrderStatus,
+    metadata: TransitionMetadata = {}
+  ): Result<void, BusinessRuleViolationError> {
+    const allowed = Order.stateMachine.canTransition(this.transitionContext(), newStatus);
+    if (allowed.isErr()) {
+      return allowed;
+    }
+
+    this.changeStatus(newStatus, metadata);
+
+    if (newStatus === 'CONFIRMED') {
+      this.calculateEstimatedDeliveryTime();
     }
 
-    this.changeStatus('CONFIRMED');
-    this.calculateEstimatedDeliveryTime();
     return Ok(undefined);
   }
 
-  startPreparation(): Result<void, BusinessRuleViolationError> {
-    if (this._status !== 'CONFIRMED') {
-      return Err(new BusinessRuleViolationError('Order must be confirmed before preparation can start'));
+  getAllowedTransitions(): OrderStatus[] {
+    return Order.stateMachine.getAllowedTransitions(this.transitionContext());
+  }
+
+  // The only way an order becomes PAID is captured payments that together cover its full total;
+  // split tender (a gift card plus a card) settles with more than one
+  // Only an unpaid order, or one whose last attempt failed, can be paid
+  startPayment(): Result<void, BusinessRuleViolationError> {
+    if (this._status === 'CANCELLED') {
+      return Err(new BusinessRuleViolationError('Cancelled orders cannot be paid', { orderId: this.id }));
+    }
+
+    if (this._paymentStatus === 'PROCESSING') {
+      return Err(new BusinessRuleViolationError('Order is already being paid', { orderId: this.id }));
     }
 
-    if (this._paymentStatus !== 'PAID') {
-      return Err(new BusinessRuleViolationError('Order must be paid before preparation can start'));
+    if (this._paymentStatus !== 'PENDING' && this._paymentStatus !== 'FAILED') {
+      return Err(new BusinessRuleViolationError('Order is already paid', {
+        orderId: this.id,
+        paymentStatus: this._paymentStatus,
+      }));
     }
 
-    this.changeStatus('PREPARING');
+    this._paymentStatus = 'PROCESSING';
     return Ok(undefined);
   }
 
-  markAsReady(): Result<void, BusinessRuleViolationError> {
-    if (this._status !== 'PREPARING') {
-      return Err(new BusinessRuleViolationError('Order must be in preparation to mark as ready'));
+  // Ends an attempt that failed before any payment was made
+  abandonPayment(): void {
+    if (this._paymentStatus === 'PROCESSING') {
+      this._paymentStatus = 'FAILED';
+    }
+  }
+
+  recordPayment(...payments: Payment[]): Result<void, BusinessRuleViolationError> {
+    for (const payment of payments) {
+      const check = this.ensurePaymentBelongsToOrder(payment);
+      if (check.isErr()) {
+        return check;
+      }
+
+      if (payment.status !== 'CAPTURED') {
+        return Err(new BusinessRuleViolationError('Only a captured payment can settle an order', {
+          paymentId: payment.id,
+          paymentStatus: payment.status,
+        }));
+      }
+    }
+
+    const captured = payments.reduce(
+      (total, payment) => total.add(payment.amount),
+      Money.zero(this.grandTotal.currency)
+    );
+    if (!captured.equals(this.grandTotal)) {
+      return Err(new BusinessRuleViolationError('Captured amount must match the order total', {
+        paymentIds: payments.map(payment => payment.id),
+        captured: captured.toString(),
+        expected: this.grandTotal.toString(),
+      }));
+    }
+
+    this._paymentStatus = 'PAID';
+    for (const payment of payments) {
+      this.addDomainEvent(
+        new OrderPaidEvent(crypto.randomUUID(), this.id, payment.id, payment.amount)
+      );
     }
 
-    this.changeStatus('READY');
     return Ok(undefined);
   }
 
-  startDelivery(): Result<void, BusinessRuleViolationError> {
-    if (this._status !== 'READY') {
-      return Err(new BusinessRuleViolationError('Order must be ready before delivery can start'));
+  recordPaymentFailure(payment: Payment): Result<void, BusinessRuleViolationError> {
+    const check = this.ensurePaymentBelongsToOrder(payment);
+    if (check.isErr()) {
+      return check;
     }
 
-    if (this.deliveryType === 'PICKUP') {
-      return Err(new BusinessRuleViolationError('Pickup orders cannot be delivered'));
+    if (payment.status !== 'DECLINED' && payment.status !== 'VOIDED') {
+      return Err(new BusinessRuleViolationError('Only a declined or voided payment counts as a failure', {
+        paymentId: payment.id,
+        paymentStatus: payment.status,
+      }));
     }
 
-    this.changeStatus('OUT_FOR_DELIVERY');
+    this._paymentStatus = 'FAILED';
     return Ok(undefined);
   }
 
-  markAsDelivered(): Result<void, BusinessRuleViolationError> {
-    if (this.deliveryType === 'PICKUP' && this._status !== 'READY') {
-      return Err(new BusinessRuleViolationError('Pickup order must be ready to mark as delivered'));
+  // Works out what a refund of the given lines (or of everything left) would return
+  quoteRefund(orderItemIds: ID[] = []): Result<RefundQuote, ValidationError | BusinessRuleViolationError> {
+    const refundable = this.ensureRefundable();
+    if (refundable.isErr()) {
+      return Err(refundable.error);
+    }
+
+    const refundedItemIds = new Set(
+      this._refunds.filter(refund => refund.status !== 'FAILED').flatMap(refund => refund.orderItemIds)
+    );
+
+    if (orderItemIds.length === 0) {
+      const amount = this.refundableAmount;
+      if (amount.isZero()) {
+        return Err(new BusinessRuleViolationError('Order has already been fully refunded', {
+          orderId: this.id,
+        }));
+      }
+
+      return Ok({
+        amount,
+        orderItemIds: this.items.map(item => item.id).filter(id => !refundedItemIds.has(id)),
+      });
     }
 
-    if (this.deliveryType === 'DELIVERY' && this._status !== 'OUT_FOR_DELIVERY') {
-      return Err(new BusinessRuleViolationError('Delivery order must be out for delivery to mark as delivered'));
+    const ids = [...new Set(orderItemIds)];
+    let amount = Money.zero(this.grandTotal.currency);
+
+    for (const id of ids) {
+      const item = this.items.find(candidate => candidate.id === id);
+      if (!item) {
+        return Err(new ValidationError(`Order item ${id} not found`, 'orderItemIds'));
+      }
+
+      if (refundedItemIds.has(id)) {
+        return Err(new BusinessRuleViolationError('Order item has already been refunded', {
+          orderId: this.id,
+          orderItemId: id,
+        }));
+      }
+
+      amount = amount.add(this.lineRefundAmount(item));
     }
 
-    this.changeStatus('DELIVERED');
-    return Ok(undefined);
+    const withinLimit = this.ensureWithinRefundable(amount);
+    if (withinLimit.isErr()) {
+      return Err(withinLimit.error);
+    }
+
+    return Ok({ amount, orderItemIds: ids });
+  }
+
+  // Holds the amount and lines back before the money is sent; the payment status changes on completion
+  startRefund(refund: NewOrderRefund): Result<OrderRefund, BusinessRuleViolationError> {
+    const refundable = this.ensureRefundable();
+    if (refundable.isErr()) {
+      return Err(refundable.error);
+    }
+
+    const withinLimit = this.ensureWithinRefundable(refund.amount);
+    if (withinLimit.isErr()) {
+      return Err(withinLimit.error);
+    }
+
+    const pending: OrderRefund = { ...refund, status: 'PENDING', providerReference: null };
+    this._refunds.push(pending);
+
+    return Ok(pending);
+  }
+
+  completeRefund(refundId: ID, providerReference: string): Result<OrderRefund, BusinessRuleViolationError> {
+    const index = this.pendingRefundIndex(refundId);
+    if (index.isErr()) {
+      return Err(index.error);
+    }
+
+    const refund: OrderRefund = { ...this._refunds[index.value], status: 'COMPLETED', providerReference };
+    this._refunds[index.value] = refund;
+
+    const fullyRefunded = this.refundedAmount.equals(this.grandTotal);
+    this._paymentStatus = fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+
+    this.addDomainEvent(
+      new OrderRefundedEvent(crypto.randomUUID(), this.id, refund.id, refund.amount, fullyRefunded)
+    );
+
+    return Ok(refund);
+  }
+
+  // The provider turned the refund down, so its amount and lines can be refunded again
+  failRefund(refundId: ID): Result<OrderRefund, BusinessRuleViolationError> {
+    const index = this.pendingRefundIndex(refundId);
+    if (index.isErr()) {
+      return Err(index.error);
+    }
+
+    const refund: OrderRefund = { ...this._refunds[index.value], status: 'FAILED' };
+    this._refunds[index.value] = refund;
+
+    return Ok(refund);
+  }
+
+  private pendingRefundIndex(refundId: ID): Result<number, BusinessRuleViolationError> {
+    const index = this._refunds.findIndex(refund => refund.id === refundId && refund.status === 'PENDING');
+    if (index === -1) {
+      return Err(new BusinessRuleViolationError('Refund is not pending', {
+        orderId: this.id,
+        refundId,
+      }));
+    }
+
+    return Ok(index);
+  }
+
+  private sumRefunds(include: (refund: OrderRefund) => boolean): Money {
+    return this._refunds
+      .filter(include)
+      .reduce((total, refund) => total.add(refund.amount), Money.zero(this.grandTotal.currency));
   }
 
-  cancel(): Result<void, BusinessRuleViolationError> {
-    if (['DELIVERED', 'OUT_FOR_DELIVERY'].includes(this._status)) {
-      return Err(new BusinessRuleViolationError('Cannot cancel order that is already delivered or out for delivery'));
+  private ensureRefundable(): Result<void, BusinessRuleViolationError> {
+    if (this._paymentStatus !== 'PAID' && this._paymentStatus !== 'PARTIALLY_REFUNDED') {
+      return Err(new BusinessRuleViolationError('Only paid orders can be refunded', {
+        orderId: this.id,
+        paymentStatus: this._paymentStatus,
+      }));
     }
 
-    this.changeStatus('CANCELLED');
     return Ok(undefined);
   }
 
-  markPaymentAsPaid(): void {
-    this._paymentStatus = 'PAID';
+  // Money refuses to go negative, so a failed subtraction means the refund is too large
+  private ensureWithinRefundable(amount: Money): Result<void, BusinessRuleViolationError> {
+    try {
+      this.refundableAmount.subtract(amount);
+      return Ok(undefined);
+    } catch {
+      return Err(new BusinessRuleViolationError('Refund cannot exceed the amount paid', {
+        orderId: this.id,
+        requested: amount.toString(),
+        refundable: this.refundableAmount.toString(),
+      }));
+    }
   }
 
-  markPaymentAsFailed(): void {
-    this._paymentStatus = 'FAILED';
+  // A line refund returns what was charged for the line including its tax; the delivery fee stays.
+  // A bundle spanning tax categories has one tax line per category, all sharing the line id.
+  // Older orders have no breakdown, so their tax is allocated across lines instead.
+  private lineRefundAmount(item: OrderItem): Money {
+    const taxLines = this.taxLines.filter(line => line.lineId === item.id);
+    if (taxLines.length > 0) {
+      return taxLines.reduce(
+        (total, line) => total.add(line.net).add(line.tax),
+        Money.zero(item.totalPrice.currency)
+      );
+    }
+
+    if (this.tax.isZero()) {
+      return item.totalPrice;
+    }
+
+    const taxShares = this.tax.allocate(this.items.map(line => line.totalPrice.toCents()));
+    return item.totalPrice.add(taxShares[this.items.indexOf(item)]);
+  }
+
+  private ensurePaymentBelongsToOrder(payment: Payment): Result<void, BusinessRuleViolationError> {
+    if (payment.orderId !== this.id) {
+      return Err(new BusinessRuleViolationError('Payment belongs to a different order', {
+        paymentId: payment.id,
+        orderId: this.id,
+      }));
+    }
+
+    if (!['PENDING', 'PROCESSING', 'FAILED'].includes(this._paymentStatus)) {
+      return Err(new BusinessRuleViolationError('Order is already paid', {
+        orderId: this.id,
+        paymentStatus: this._paymentStatus,
+      }));
+    }
+
+    return Ok(undefined);
+  }
+
+  private transitionContext(): OrderTransitionContext {
+    return {
+      status: this._status,
+      paymentStatus: this._paymentStatus,
+      deliveryType: this.deliveryType,
+    };
   }
 
-  private changeStatus(newStatus: OrderStatus): void {
+  private changeStatus(newStatus: OrderStatus, metadata: TransitionMetadata): void {
     const previousStatus = this._status;
     this._status = newStatus;
 
@@ -232,19 +778,24 @@ export class Order extends BaseAggregateRoot {
         crypto.randomUUID(),
         this.id,
         previousStatus,
-        newStatus
+        newStatus,
+        metadata.actorId || null,
+        metadata.reason || null
       )
     );
   }
 
   private calculateEstimatedDeliveryTime(): void {
     const totalPreparationTime = this.items.reduce((total, item) => {
-      // This would normally come from the pizza recipe
+      // This would normally come from the pizza recipe; sides and drinks need no oven time
       const estimatedPizzaTime = 20; // minutes per pizza
-      return total + (estimatedPizzaTime * item.quantity);
+      const pizzas = item.type === 'PIZZA'
+        ? 1
+        : item.type === 'BUNDLE' ? item.bundle.components.filter(component => component.pizza).length : 0;
+      return total + (estimatedPizzaTime * pizzas * item.quantity);
     }, 0);
 
-    const deliveryTime = this.deliveryType === 'DELIVERY' ? 30 : 0;
+    const deliveryTime = this.deliveryType === 'DELIVERY' ? this.deliveryEtaMinutes ?? 30 : 0;
     const bufferTime = 10;
 
     this._estimatedDeliveryTime = new Date(
@@ -269,30 +820,159 @@ export class Order extends BaseAggregateRoot {
       return Err(new ValidationError('Delivery address is required for delivery orders'));
     }
 
+    if (props.deliveryType === 'DELIVERY' && !props.deliveryQuote) {
+      return Err(new ValidationError('Delivery orders need a delivery zone quote'));
+    }
+
+    const currency = props.items[0].totalPrice.currency;
+    if (props.deliveryQuote && props.deliveryQuote.fee.currency !== currency) {
+      return Err(new ValidationError('Delivery fee must be priced in the order currency'));
+    }
+
     for (const item of props.items) {
       if (item.quantity <= 0) {
         return Err(new ValidationError('Item quantity must be positive'));
       }
+
+      if (item.totalPrice.currency !== currency || item.unitPrice.currency !== currency) {
+        return Err(new ValidationError('All order items must be priced in the same currency'));
+      }
     }
 
     return Ok(undefined);
   }
 
+  private static checkAvailability(props: OrderProps): Result<void, BusinessRuleViolationError> {
+    if (!props.availability) {
+      return Ok(undefined);
+    }
+
+    const at = props.requestedDeliveryTime || new Date();
+    const { timeZone } = props.availability;
+    const orderedIds = new Set(props.items.flatMap(item => Order.menuItemIdsOf(item)));
+    const unavailable = props.availability.items.find(item =>
+      orderedIds.has(item.id) && !isAvailableAt(item.availability, at, timeZone)
+    );
+    if (unavailable) {
+      return Err(new BusinessRuleViolationError(`${unavailable.name} is not available at the requested time`, {
+        itemId: unavailable.id,
+        requestedTime: at.toISOString(),
+        timeZone,
+      }));
+    }
+
+    return Ok(undefined);
+  }
+
+  // Recipes, products and bundles the line was made from
+  private static menuItemIdsOf(item: OrderItem): ID[] {
+    switch (item.type) {
+      case 'PIZZA':
+        return item.pizza.sections.map(section => section.recipeId);
+      case 'PRODUCT':
+        return [item.product.productId];
+      case 'BUNDLE':
+        return [
+          item.bundle.bundleId,
+          ...item.bundle.components.flatMap(component => [
+            ...(component.pizza?.sections.map(section => section.recipeId) || []),
+            ...(component.product ? [component.product.productId] : []),
+          ]),
+        ];
+    }
+  }
+
   private static calculateTotalAmount(items: OrderItem[]): Money {
-    return items.reduce((total, item) => total.add(item.totalPrice), items[0].totalPrice.multiply(0));
+    return items.reduce((total, item) => total.add(item.totalPrice), Money.zero(items[0].totalPrice.currency));
   }
 
-  private static calculateTax(amount: Money): Money {
-    const taxRate = 0.1; // 10% tax
-    return amount.multiply(taxRate);
+  private static validateDiscounts(
+    discounts: OrderDiscount[],
+    totalAmount: Money,
+    deliveryFee: Money
+  ): Result<void, ValidationError> {
+    if (discounts.some(discount => discount.amount.currency !== totalAmount.currency)) {
+      return Err(new ValidationError('Discounts must be in the order currency'));
+    }
+
+    const itemsDiscount = Order.sumDiscounts(discounts, 'ITEMS', totalAmount.currency);
+    const deliveryDiscount = Order.sumDiscounts(discounts, 'DELIVERY', totalAmount.currency);
+    if (itemsDiscount.isGreaterThan(totalAmount) || deliveryDiscount.isGreaterThan(deliveryFee)) {
+      return Err(new ValidationError('Discounts cannot exceed the amount they apply to'));
+    }
+
+    return Ok(undefined);
+  }
+
+  private static sumDiscounts(discounts: OrderDiscount[], appliesTo: OrderDiscount['appliesTo'], currency: Currency): Money {
+    return discounts
+      .filter(discount => discount.appliesTo === appliesTo)
+      .reduce((total, discount) => total.add(discount.amount), Money.zero(currency));
+  }
+
+  // Tax is charged on what the customer actually pays, so discounts come off each line first
+  private static calculateTax(
+    props: OrderProps,
+    deliveryFee: Money,
+    discounts: OrderDiscount[],
+    taxEngine: TaxEngine
+  ): Result<OrderTaxLine[], BusinessRuleViolationError> {
+    const currency = deliveryFee.currency;
+    const itemsDiscount = Order.sumDiscounts(discounts, 'ITEMS', currency);
+    const itemShares = itemsDiscount.isZero()
+      ? props.items.map(() => Money.zero(currency))
+      : itemsDiscount.allocate(props.items.map(item => item.totalPrice.toCents()));
+
+    const lines: TaxableLine[] = props.items.flatMap((item, index) =>
+      Order.taxableLinesFor(item, item.totalPrice.subtract(itemShares[index]))
+    );
+    if (!deliveryFee.isZero()) {
+      lines.push({
+        lineId: null,
+        category: 'DELIVERY',
+        amount: deliveryFee.subtract(Order.sumDiscounts(discounts, 'DELIVERY', currency)),
+      });
+    }
+
+    const context = props.taxContext || {};
+    const location = props.deliveryType === 'DELIVERY' && props.deliveryAddress
+      ? { country: props.deliveryAddress.country, postalCode: props.deliveryAddress.postalCode }
+      : context.storeLocation || { country: ANY_COUNTRY };
+
+    return taxEngine.calculate(lines, {
+      location,
+      storeId: context.storeId,
+      taxExempt: context.taxExempt,
+    });
+  }
+
+  // A bundle is taxed as its components, each on its allocated share of what was paid for the bundle
+  private static taxableLinesFor(item: OrderItem, amount: Money): TaxableLine[] {
+    if (item.type !== 'BUNDLE') {
+      const category = item.type === 'PRODUCT' ? taxCategoryFor(item.product.category) : 'FOOD';
+      return [{ lineId: item.id, category, amount }];
+    }
+
+    const components = item.bundle.components;
+    const shares = amount.allocate(components.map(component => component.allocatedPrice.toCents()));
+    const byCategory = new Map<TaxCategory, Money>();
+    components.forEach((component, index) => {
+      const category = component.product ? taxCategoryFor(component.product.category) : 'FOOD';
+      byCategory.set(category, (byCategory.get(category) || Money.zero(amount.currency)).add(shares[index]));
+    });
+
+    return Array.from(byCategory, ([category, categoryAmount]) => ({
+      lineId: item.id,
+      category,
+      amount: categoryAmount,
+    }));
   }
 
-  private static calculateDeliveryFee(deliveryType: DeliveryType, address?: Address): Money {
-    if (deliveryType === 'PICKUP') {
-      return Money.create(0, 'USD');
+  private static calculateDeliveryFee(props: OrderProps, currency: Currency): Money {
+    if (props.deliveryType === 'PICKUP' || !props.deliveryQuote) {
+      return Money.zero(currency);
     }
 
-    // Basic delivery fee logic
-    return Money.create(5, 'USD');
+    return props.deliveryQuote.fee;
   }
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { Money } from '../shared/money';
+import { Result } from '../shared/result';
+
+export interface CardDetails {
+  number: string;
+  expiryMonth: number;
+  expiryYear: number;
+  cvc: string;
+}
+
+export interface AuthorizationRequest {
+  amount: Money;
+  card: CardDetails;
+  // Our own identifier for the charge, shown in the provider's dashboard
+  reference: string;
+}
+
+// A decline is an ordinary answer from the provider; Err is reserved for
+// failures where we could not get an answer at all
+export type GatewayOutcome =
+  | { approved: true; providerReference: string }
+  | { approved: false; providerReference: string | null; declineReason: string };
+
+export interface PaymentGateway {
+  readonly name: string;
+  authorize(request: AuthorizationRequest): Promise<Result<GatewayOutcome, Error>>;
+  capture(providerReference: string, amount: Money): Promise<Result<GatewayOutcome, Error>>;
+  void(providerReference: string): Promise<Result<GatewayOutcome, Error>>;
+  refund(providerReference: string, amount: Money): Promise<Result<GatewayOutcome, Error>>;
+}
@@ -0,0 +1,9 @@
+import { Payment } from './payment';
+import { Result, NotFoundError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface PaymentRepository {
+  findById(id: ID): Promise<Result<Payment, NotFoundError>>;
+  findByOrderId(orderId: ID): Promise<Result<Payment[], Error>>;
+  save(payment: Payment): Promise<Result<Payment, Error>>;
+}
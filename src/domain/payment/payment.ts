@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { BaseAggregateRoot, ID } from '../shared/types';
+import { Money } from '../shared/money';
+import { Result, Ok, Err, BusinessRuleViolationError } from '../shared/result';
+
+// Lifecycle of a single payment attempt; the order's PaymentStatus summarises these
+export const PaymentAttemptStatusSchema = z.enum([
+  'PENDING',
+  'AUTHORIZED',
+  'CAPTURED',
+  'VOIDED',
+  'DECLINED',
+]);
+export type PaymentAttemptStatus = z.infer<typeof PaymentAttemptStatusSchema>;
+
+export interface PaymentProps {
+  id: ID;
+  orderId: ID;
+  amount: Money;
+  provider: string;
+  cardLast4?: string;
+}
+
+export class Payment extends BaseAggregateRoot {
+  private _status: PaymentAttemptStatus = 'PENDING';
+  private _providerReference: string | null = null;
+  private _failureReason: string | null = null;
+
+  private constructor(
+    id: ID,
+    public readonly orderId: ID,
+    public readonly amount: Money,
+    public readonly provider: string,
+    public readonly cardLast4: string | null
+  ) {
+    super(id);
+  }
+
+  static create(props: PaymentProps): Payment {
+    return new Payment(
+      props.id,
+      props.orderId,
+      props.amount,
+      props.provider,
+      props.cardLast4 || null
+    );
+  }
+
+  // Rebuild a payment from persisted state without re-running lifecycle checks
+  static reconstitute(data: {
+    id: ID;
+    orderId: ID;
+    amount: Money;
+    provider: string;
+    cardLast4: string | null;
+    status: PaymentAttemptStatus;
+    providerReference: string | null;
+    failureReason: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): Payment {
+    const payment = new Payment(data.id, data.orderId, data.amount, data.provider, data.cardLast4);
+
+    payment._status = data.status;
+    payment._providerReference = data.providerReference;
+    payment._failureReason = data.failureReason;
+    (payment as { createdAt: Date }).createdAt = data.createdAt;
+    (payment as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return payment;
+  }
+
+  get status(): PaymentAttemptStatus {
+    return this._status;
+  }
+
+  get providerReference(): string | null {
+    return this._providerReference;
+  }
+
+  get failureReason(): string | null {
+    return this._failureReason;
+  }
+
+  authorize(providerReference: string): Result<void, BusinessRuleViolationError> {
+    const allowed = this.ensureStatus('PENDING', 'AUTHORIZED');
+    if (allowed.isErr()) {
+      return allowed;
+    }
+
+    this._providerReference = providerReference;
+    this._status = 'AUTHORIZED';
+    return Ok(undefined);
+  }
+
+  decline(reason: string, providerReference?: string): Result<void, BusinessRuleViolationError> {
+    const allowed = this.ensureStatus('PENDING', 'DECLINED');
+    if (allowed.isErr()) {
+      return allowed;
+    }
+
+    this._providerReference = providerReference || null;
+    this._failureReason = reason;
+    this._status = 'DECLINED';
+    return Ok(undefined);
+  }
+
+  capture(): Result<void, BusinessRuleViolationError> {
+    const allowed = this.ensureStatus('AUTHORIZED', 'CAPTURED');
+    if (allowed.isErr()) {
+      return allowed;
+    }
+
+    this._status = 'CAPTURED';
+    return Ok(undefined);
+  }
+
+  // Releases an authorization that will never be captured
+  void(reason: string): Result<void, BusinessRuleViolationError> {
+    const allowed = this.ensureStatus('AUTHORIZED', 'VOIDED');
+    if (allowed.isErr()) {
+      return allowed;
+    }
+
+    this._failureReason = reason;
+    this._status = 'VOIDED';
+    return Ok(undefined);
+  }
+
+  private ensureStatus(
+    expected: PaymentAttemptStatus,
+    target: PaymentAttemptStatus
+  ): Result<void, BusinessRuleViolationError> {
+    if (this._status !== expected) {
+      return Err(new BusinessRuleViolationError(
+        `Payment cannot move from ${this._status} to ${target}`,
+        { paymentId: this.id, from: this._status, to: target }
+      ));
+    }
+
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,123 @@
+import type { OrderItem } from '../order/order';
+import { Money } from '../shared/money';
+import { Result, Ok, Err, BusinessRuleViolationError } from '../shared/result';
+import type { ID } from '../shared/types';
+import type { OrderDiscount, Promotion } from './promotion';
+
+export interface PromotionCart {
+  items: OrderItem[];
+  subtotal: Money;
+  deliveryFee: Money;
+  customerId?: ID;
+}
+
+// Turns the codes a customer entered into discount lines, or explains why one does not apply.
+// Usage limits are enforced when the codes are redeemed, since only the repository can count atomically.
+export class PromotionEngine {
+  apply(
+    promotions: Promotion[],
+    cart: PromotionCart,
+    now: Date = new Date()
+  ): Result<OrderDiscount[], BusinessRuleViolationError> {
+    const unique = [...new Map(promotions.map(promotion => [promotion.id, promotion])).values()];
+
+    if (unique.length > 1) {
+      const exclusive = unique.find(promotion => !promotion.stackable);
+      if (exclusive) {
+        return Err(new BusinessRuleViolationError(`Promo code ${exclusive.code} cannot be combined with other codes`, {
+          code: exclusive.code,
+        }));
+      }
+    }
+
+    const discounts: OrderDiscount[] = [];
+    let remainingItems = cart.subtotal;
+    let remainingDelivery = cart.deliveryFee;
+
+    for (const promotion of unique) {
+      const eligible = this.ensureEligible(promotion, cart, now);
+      if (eligible.isErr()) {
+        return Err(eligible.error);
+      }
+
+      const appliesTo = promotion.reward.type === 'FREE_DELIVERY' ? 'DELIVERY' : 'ITEMS';
+      const remaining = appliesTo === 'DELIVERY' ? remainingDelivery : remainingItems;
+      const computed = this.discountFor(promotion, cart);
+      // Stacked codes can never take a line below zero
+      const amount = computed.isGreaterThan(remaining) ? remaining : computed;
+
+      if (amount.isZero()) {
+        return Err(new BusinessRuleViolationError(`Order does not qualify for promo code ${promotion.code}`, {
+          code: promotion.code,
+        }));
+      }
+
+      if (appliesTo === 'DELIVERY') {
+        remainingDelivery = remainingDelivery.subtract(amount);
+      } else {
+        remainingItems = remainingItems.subtract(amount);
+      }
+
+      discounts.push({
+        promotionId: promotion.id,
+        code: promotion.code,
+        description: promotion.description,
+        appliesTo,
+        amount,
+      });
+    }
+
+    return Ok(discounts);
+  }
+
+  private ensureEligible(promotion: Promotion, cart: PromotionCart, now: Date): Result<void, BusinessRuleViolationError> {
+    const context = { code: promotion.code };
+
+    if (!promotion.isActive || now < promotion.validFrom || (promotion.validUntil && now > promotion.validUntil)) {
+      return Err(new BusinessRuleViolationError(`Promo code ${promotion.code} is not currently valid`, context));
+    }
+
+    if (promotion.currency !== cart.subtotal.currency) {
+      return Err(new BusinessRuleViolationError(
+        `Promo code ${promotion.code} only applies to orders in ${promotion.currency}`,
+        context
+      ));
+    }
+
+    if (promotion.minimumOrder && cart.subtotal.isLessThan(promotion.minimumOrder)) {
+      return Err(new BusinessRuleViolationError(
+        `Promo code ${promotion.code} needs an order of at least ${promotion.minimumOrder.toString()}`,
+        context
+      ));
+    }
+
+    if (promotion.maxRedemptionsPerCustomer !== null && !cart.customerId) {
+      return Err(new BusinessRuleViolationError(`Sign in to use promo code ${promotion.code}`, context));
+    }
+
+    return Ok(undefined);
+  }
+
+  private discountFor(promotion: Promotion, cart: PromotionCart): Money {
+    const reward = promotion.reward;
+    const currency = cart.subtotal.currency;
+
+    switch (reward.type) {
+      case 'PERCENTAGE':
+        return cart.subtotal.multiply(reward.percent / 100, 'HALF_UP');
+      case 'FIXED_AMOUNT':
+        return Money.fromCents(reward.amountCents, currency);
+      case 'FREE_DELIVERY':
+        return cart.deliveryFee;
+      case 'BUY_X_GET_Y': {
+        const unitPrices = cart.items
+          .filter(item => item.type === 'PIZZA' && (!reward.recipeId || item.pizza.recipeIds.includes(reward.recipeId)))
+          .flatMap(item => Array<Money>(item.quantity).fill(item.unitPrice))
+          .sort((a, b) => a.minorUnits - b.minorUnits);
+
+        const freeUnits = Math.floor(unitPrices.length / (reward.buyQuantity + reward.getQuantity)) * reward.getQuantity;
+        return unitPrices.slice(0, freeUnits).reduce((total, price) => total.add(price), Money.zero(currency));
+      }
+    }
+  }
+}
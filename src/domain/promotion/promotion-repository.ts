@@ -0,0 +1,18 @@
+import { Result, BusinessRuleViolationError } from '../shared/result';
+import type { ID } from '../shared/types';
+import type { Promotion } from './promotion';
+
+export interface PromotionRedemption {
+  promotionId: ID;
+  orderId: ID;
+  customerId: ID | null;
+}
+
+export interface PromotionRepository {
+  // Codes are matched case-insensitively; unknown codes are simply absent from the result
+  findByCodes(codes: string[]): Promise<Result<Promotion[], Error>>;
+  // All-or-nothing: either every redemption fits its limits and is recorded, or none is
+  redeem(redemptions: PromotionRedemption[]): Promise<Result<void, BusinessRuleViolationError | Error>>;
+  // Gives back the redemptions of an order that could not be saved
+  release(orderId: ID): Promise<Result<void, Error>>;
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { Money, type Currency } from '../shared/money';
+import type { ID } from '../shared/types';
+
+export const PromotionRewardSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('PERCENTAGE'), percent: z.number().positive().max(100) }),
+  z.object({ type: z.literal('FIXED_AMOUNT'), amountCents: z.number().int().positive() }),
+  z.object({ type: z.literal('FREE_DELIVERY') }),
+  // Every buyQuantity + getQuantity pizzas, the cheapest getQuantity are free
+  z.object({
+    type: z.literal('BUY_X_GET_Y'),
+    buyQuantity: z.number().int().positive(),
+    getQuantity: z.number().int().positive(),
+    recipeId: z.string().uuid().optional(),
+  }),
+]);
+export type PromotionReward = z.infer<typeof PromotionRewardSchema>;
+
+export interface Promotion {
+  id: ID;
+  code: string;
+  description: string;
+  reward: PromotionReward;
+  // Fixed amounts and minimums are in this currency; the code only works for orders in it
+  currency: Currency;
+  minimumOrder: Money | null;
+  validFrom: Date;
+  validUntil: Date | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
+  // Non-stackable codes cannot be combined with any other code
+  stackable: boolean;
+  isActive: boolean;
+}
+
+export const DiscountTargetSchema = z.enum(['ITEMS', 'DELIVERY']);
+export type DiscountTarget = z.infer<typeof DiscountTargetSchema>;
+
+// A discount line on the order, shown on the receipt
+export interface OrderDiscount {
+  // Null for loyalty points redeemed at checkout
+  promotionId: ID | null;
+  code: string;
+  description: string;
+  appliesTo: DiscountTarget;
+  amount: Money;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
@@ -0,0 +1,10 @@
+import { PurchaseOrder } from './purchase-order';
+import { Result, NotFoundError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface PurchaseOrderRepository {
+  findById(id: ID): Promise<Result<PurchaseOrder, NotFoundError>>;
+  // Submitted or partially received, i.e. goods still on their way
+  findOpenByStore(storeId: ID): Promise<Result<PurchaseOrder[], Error>>;
+  save(purchaseOrder: PurchaseOrder): Promise<Result<PurchaseOrder, Error>>;
+}
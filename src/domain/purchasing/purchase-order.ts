@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { BaseAggregateRoot, ID } from '../shared/types';
+import { Money, type Currency } from '../shared/money';
+import { Result, Ok, Err, ValidationError, BusinessRuleViolationError } from '../shared/result';
+import { roundQuantity } from '../inventory/stock-level';
+
+export const PurchaseOrderStatusSchema = z.enum([
+  'DRAFT',
+  'SUBMITTED',
+  'PARTIALLY_RECEIVED',
+  'RECEIVED',
+  'CANCELLED',
+]);
+export type PurchaseOrderStatus = z.infer<typeof PurchaseOrderStatusSchema>;
+
+// Still expecting goods from the supplier
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['SUBMITTED', 'PARTIALLY_RECEIVED'];
+
+// Quantities are in the ingredient's stock units. unitCost is what the supplier quoted;
+// what arrived and what it actually cost are filled in by receipts.
+export interface PurchaseOrderLine {
+  id: ID;
+  ingredientId: ID;
+  quantity: number;
+  unitCost: Money;
+  receivedQuantity: number;
+  // Cost of everything received on the line so far
+  receivedCost: Money;
+}
+
+export interface PurchaseOrderLineProps {
+  ingredientId: ID;
+  quantity: number;
+  unitCost: Money;
+}
+
+export interface PurchaseOrderProps {
+  id: ID;
+  supplierId: ID;
+  storeId: ID;
+  expectedDeliveryDate: Date;
+  lines: PurchaseOrderLineProps[];
+  notes?: string;
+  createdBy?: ID | null;
+}
+
+export interface PurchaseOrderReceiptLine {
+  ingredientId: ID;
+  quantity: number;
+  // Defaults to the quoted cost when the invoice matches
+  unitCost?: Money;
+}
+
+export class PurchaseOrder extends BaseAggregateRoot {
+  private _status: PurchaseOrderStatus = 'DRAFT';
+  private _lines: PurchaseOrderLine[];
+  private _receivedAt: Date | null = null;
+
+  private constructor(
+    id: ID,
+    public readonly supplierId: ID,
+    public readonly storeId: ID,
+    public readonly expectedDeliveryDate: Date,
+    lines: PurchaseOrderLine[],
+    public readonly notes: string | null,
+    public readonly createdBy: ID | null
+  ) {
+    super(id);
+    this._lines = lines;
+  }
+
+  static create(props: PurchaseOrderProps, now: Date = new Date()): Result<PurchaseOrder, ValidationError> {
+    if (props.lines.length === 0) {
+      return Err(new ValidationError('Purchase order must have at least one line', 'lines'));
+    }
+
+    const ingredientIds = new Set(props.lines.map(line => line.ingredientId));
+    if (ingredientIds.size !== props.lines.length) {
+      return Err(new ValidationError('Each ingredient may appear on one line only', 'lines'));
+    }
+
+    if (props.lines.some(line => line.quantity <= 0)) {
+      return Err(new ValidationError('Ordered quantities must be positive', 'lines'));
+    }
+
+    const currency = props.lines[0].unitCost.currency;
+    if (props.lines.some(line => line.unitCost.currency !== currency)) {
+      return Err(new ValidationError('All lines must be costed in the same currency', 'lines'));
+    }
+
+    if (props.expectedDeliveryDate < now) {
+      return Err(new ValidationError('Expected delivery date cannot be in the past', 'expectedDeliveryDate'));
+    }
+
+    if (props.notes && props.notes.length > 1000) {
+      return Err(new ValidationError('Notes too long (max 1000 characters)', 'notes'));
+    }
+
+    return Ok(
+      new PurchaseOrder(
+        props.id,
+        props.supplierId,
+        props.storeId,
+        props.expectedDeliveryDate,
+        props.lines.map(line => ({
+          id: crypto.randomUUID() as ID,
+          ingredientId: line.ingredientId,
+          quantity: roundQuantity(line.quantity),
+          unitCost: line.unitCost,
+          receivedQuantity: 0,
+          receivedCost: Money.zero(currency),
+        })),
+        props.notes?.trim() || null,
+        props.createdBy || null
+      )
+    );
+  }
+
+  // Rebuild a purchase order from persisted state
+  static reconstitute(data: {
+    id: ID;
+    supplierId: ID;
+    storeId: ID;
+    expectedDeliveryDate: Date;
+    lines: PurchaseOrderLine[];
+    notes: string | null;
+    createdBy: ID | null;
+    status: PurchaseOrderStatus;
+    receivedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): PurchaseOrder {
+    const purchaseOrder = new PurchaseOrder(
+      data.id,
+      data.supplierId,
+      data.storeId,
+      data.expectedDeliveryDate,
+      data.lines,
+      data.notes,
+      data.createdBy
+    );
+
+    purchaseOrder._status = data.status;
+    purchaseOrder._receivedAt = data.receivedAt;
+    (purchaseOrder as { createdAt: Date }).createdAt = data.createdAt;
+    (purchaseOrder as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return purchaseOrder;
+  }
+
+  get status(): PurchaseOrderStatus {
+    return this._status;
+  }
+
+  get lines(): PurchaseOrderLine[] {
+    return this._lines.map(line => ({ ...line }));
+  }
+
+  get receivedAt(): Date | null {
+    return this._receivedAt;
+  }
+
+  get currency(): Currency {
+    return this._lines[0].unitCost.currency;
+  }
+
+  get orderedTotal(): Money {
+    return this._lines.reduce(
+      (total, line) => total.add(line.unitCost.multiply(line.quantity)),
+      Money.zero(this.currency)
+    );
+  }
+
+  get receivedTotal(): Money {
+    return this._lines.reduce((total, line) => total.add(line.receivedCost), Money.zero(this.currency));
+  }
+
+  isOpen(): boolean {
+    return OPEN_PURCHASE_ORDER_STATUSES.includes(this._status);
+  }
+
+  // Ordered but not delivered yet, per ingredient; nothing once the order is closed
+  outstandingQuantities(): Map<ID, number> {
+    if (!this.isOpen()) {
+      return new Map();
+    }
+
+    return new Map(
+      this._lines
+        .map(line => [line.ingredientId, roundQuantity(Math.max(line.quantity - line.receivedQuantity, 0))] as const)
+        .filter(([, outstanding]) => outstanding > 0)
+    );
+  }
+
+  submit(): Result<void, BusinessRuleViolationError> {
+    if (this._status !== 'DRAFT') {
+      return Err(new BusinessRuleViolationError(`Cannot submit a ${this._status.toLowerCase()} purchase order`, {
+        purchaseOrderId: this.id,
+      }));
+    }
+
+    this._status = 'SUBMITTED';
+    return Ok(undefined);
+  }
+
+  // Nothing can be cancelled once goods have started arriving
+  cancel(): Result<void, BusinessRuleViolationError> {
+    if (this._status !== 'DRAFT' && this._status !== 'SUBMITTED') {
+      return Err(new BusinessRuleViolationError(`Cannot cancel a ${this._status.toLowerCase().replace('_', ' ')} purchase order`, {
+        purchaseOrderId: this.id,
+      }));
+    }
+
+    this._status = 'CANCELLED';
+    return Ok(undefined);
+  }
+
+  // Records one delivery. Short and over deliveries are both accepted as counted; the order is
+  // received once every line has had at least what was ordered, or when closeShort is set.
+  receive(
+    receipt: PurchaseOrderReceiptLine[],
+    closeShort: boolean = false,
+    now: Date = new Date()
+  ): Result<void, ValidationError | BusinessRuleViolationError> {
+    if (!this.isOpen()) {
+      return Err(new BusinessRuleViolationError(`Cannot receive against a ${this._status.toLowerCase()} purchase order`, {
+        purchaseOrderId: this.id,
+      }));
+    }
+
+    if (receipt.length === 0) {
+      return Err(new ValidationError('Receipt must have at least one line', 'lines'));
+    }
+
+    const seen = new Set<ID>();
+    for (const received of receipt) {
+      const line = this._lines.find(candidate => candidate.ingredientId === received.ingredientId);
+      if (!line) {
+        return Err(new ValidationError(`Ingredient ${received.ingredientId} is not on this purchase order`, 'lines'));
+      }
+      if (seen.has(received.ingredientId)) {
+        return Err(new ValidationError('Each ingredient may appear on one receipt line only', 'lines'));
+      }
+      if (received.quantity <= 0) {
+        return Err(new ValidationError('Received quantities must be positive', 'lines'));
+      }
+      if (received.unitCost && received.unitCost.currency !== this.currency) {
+        return Err(new ValidationError(`Costs must be in ${this.currency}`, 'lines'));
+      }
+      seen.add(received.ingredientId);
+    }
+
+    this._lines = this._lines.map(line => {
+      const received = receipt.find(candidate => candidate.ingredientId === line.ingredientId);
+      if (!received) {
+        return line;
+      }
+
+      return {
+        ...line,
+        receivedQuantity: roundQuantity(line.receivedQuantity + received.quantity),
+        receivedCost: line.receivedCost.add((received.unitCost || line.unitCost).multiply(received.quantity)),
+      };
+    });
+
+    const complete = closeShort || this._lines.every(line => line.receivedQuantity >= line.quantity);
+    this._status = complete ? 'RECEIVED' : 'PARTIALLY_RECEIVED';
+    if (complete) {
+      this._receivedAt = now;
+    }
+
+    return Ok(undefined);
+  }
+}
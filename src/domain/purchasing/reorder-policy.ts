@@ -0,0 +1,71 @@
+import { roundQuantity } from '../inventory/stock-level';
+import type { ID } from '../shared/types';
+
+export interface ReorderPolicyConfig {
+  // How far back consumption is averaged
+  trailingDays: number;
+  // Days of stock a delivery should cover on top of the supplier's lead time
+  coverDays: number;
+}
+
+export const DEFAULT_REORDER_POLICY: ReorderPolicyConfig = {
+  trailingDays: 28,
+  coverDays: 7,
+};
+
+export interface ReorderInput {
+  ingredientId: ID;
+  available: number;
+  parLevel: number;
+  // Already ordered from suppliers and not yet delivered
+  onOrder: number;
+  // Consumed over the trailing window
+  consumed: number;
+  leadTimeDays: number;
+}
+
+export interface ReorderSuggestion {
+  ingredientId: ID;
+  available: number;
+  parLevel: number;
+  onOrder: number;
+  dailyConsumption: number;
+  // Stock that should be on hand or on its way: par plus what the lead time and cover period use up
+  targetLevel: number;
+  suggestedQuantity: number;
+}
+
+export class ReorderPolicy {
+  constructor(private readonly config: ReorderPolicyConfig = DEFAULT_REORDER_POLICY) {}
+
+  get trailingDays(): number {
+    return this.config.trailingDays;
+  }
+
+  consumptionWindowStart(now: Date = new Date()): Date {
+    const start = new Date(now);
+    start.setDate(start.getDate() - this.config.trailingDays);
+    return start;
+  }
+
+  // Whole units only, since suppliers do not deliver fractions; null when nothing needs ordering
+  suggest(input: ReorderInput): ReorderSuggestion | null {
+    const dailyConsumption = roundQuantity(input.consumed / this.config.trailingDays);
+    const targetLevel = roundQuantity(input.parLevel + dailyConsumption * (input.leadTimeDays + this.config.coverDays));
+    const shortfall = roundQuantity(targetLevel - input.available - input.onOrder);
+
+    if (shortfall <= 0) {
+      return null;
+    }
+
+    return {
+      ingredientId: input.ingredientId,
+      available: input.available,
+      parLevel: input.parLevel,
+      onOrder: input.onOrder,
+      dailyConsumption,
+      targetLevel,
+      suggestedQuantity: Math.ceil(shortfall),
+    };
+  }
+}
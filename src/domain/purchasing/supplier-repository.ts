@@ -0,0 +1,9 @@
+import { Supplier } from './supplier';
+import { Result, NotFoundError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface SupplierRepository {
+  findById(id: ID): Promise<Result<Supplier, NotFoundError>>;
+  findAll(): Promise<Result<Supplier[], Error>>;
+  save(supplier: Supplier): Promise<Result<Supplier, Error>>;
+}
@@ -0,0 +1,70 @@
+import { BaseAggregateRoot, ID } from '../shared/types';
+import { ValidationError, Result, Ok, Err } from '../shared/result';
+
+export interface SupplierProps {
+  id: ID;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  // Days between sending a purchase order and the delivery arriving
+  leadTimeDays: number;
+}
+
+export class Supplier extends BaseAggregateRoot {
+  private constructor(
+    id: ID,
+    public readonly name: string,
+    public readonly email: string | null,
+    public readonly phone: string | null,
+    public readonly leadTimeDays: number,
+    private _isActive: boolean
+  ) {
+    super(id);
+  }
+
+  static create(props: SupplierProps): Result<Supplier, ValidationError> {
+    if (!props.name.trim()) {
+      return Err(new ValidationError('Supplier name cannot be empty', 'name'));
+    }
+
+    if (!Number.isInteger(props.leadTimeDays) || props.leadTimeDays < 0) {
+      return Err(new ValidationError('Lead time must be a whole number of days', 'leadTimeDays'));
+    }
+
+    return Ok(
+      new Supplier(
+        props.id,
+        props.name.trim(),
+        props.email?.trim() || null,
+        props.phone?.trim() || null,
+        props.leadTimeDays,
+        true
+      )
+    );
+  }
+
+  // Rebuild a supplier from persisted state
+  static reconstitute(data: SupplierProps & { isActive: boolean; createdAt: Date; updatedAt: Date }): Supplier {
+    const supplier = new Supplier(
+      data.id,
+      data.name,
+      data.email || null,
+      data.phone || null,
+      data.leadTimeDays,
+      data.isActive
+    );
+
+    (supplier as { createdAt: Date }).createdAt = data.createdAt;
+    (supplier as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return supplier;
+  }
+
+  get isActive(): boolean {
+    return this._isActive;
+  }
+
+  deactivate(): void {
+    this._isActive = false;
+  }
+}
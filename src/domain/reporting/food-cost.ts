@@ -0,0 +1,71 @@
+import { PizzaRecipe, PizzaSizeSchema, type Ingredient, type PizzaSize } from '../menu/pizza';
+import { Money, type Currency } from '../shared/money';
+import type { ID } from '../shared/types';
+
+// Ingredients without a cost price (or costed in another currency) are left out of the cost and
+// listed instead, so the figure is known to be a floor rather than quietly wrong
+export interface FoodCost {
+  cost: Money;
+  uncostedIngredientIds: ID[];
+}
+
+// One size of a recipe as listed on the menu, before modifiers and promotions
+export interface MenuItemCost {
+  recipeId: ID;
+  recipeName: string;
+  size: PizzaSize;
+  price: Money;
+  foodCost: Money;
+  // Price less food cost in minor units; negative when the pizza sells at a loss
+  marginMinorUnits: number;
+  uncostedIngredientIds: ID[];
+}
+
+export class FoodCostCalculator {
+  constructor(private readonly ingredients: Map<ID, Ingredient>) {}
+
+  // usage is ingredientId -> quantity in the ingredient's stock units
+  costOf(usage: Map<ID, number>, currency: Currency): FoodCost {
+    let minorUnits = 0;
+    const uncostedIngredientIds: ID[] = [];
+
+    for (const [ingredientId, quantity] of usage) {
+      const costPerUnit = this.ingredients.get(ingredientId)?.costPerUnit;
+      if (!costPerUnit || costPerUnit.currency !== currency) {
+        uncostedIngredientIds.push(ingredientId);
+        continue;
+      }
+      minorUnits += costPerUnit.minorUnits * quantity;
+    }
+
+    // Rounded once, so fractional portions do not each lose part of a cent
+    return { cost: Money.fromCents(Math.round(minorUnits), currency), uncostedIngredientIds };
+  }
+
+  recipeCost(recipe: PizzaRecipe, size: PizzaSize): FoodCost {
+    const sizeMultiplier = recipe.getSizeMultiplier(size);
+    const usage = new Map(
+      Array.from(recipe.ingredients, ([ingredientId, quantity]) => [ingredientId, quantity * sizeMultiplier] as const)
+    );
+    return this.costOf(usage, recipe.basePrice.currency);
+  }
+
+  // Every size of every recipe, priced as BasePricingStrategy lists it
+  menuCosts(recipes: PizzaRecipe[]): MenuItemCost[] {
+    return recipes.flatMap(recipe =>
+      PizzaSizeSchema.options.map(size => {
+        const price = recipe.basePrice.multiply(recipe.getSizeMultiplier(size));
+        const { cost, uncostedIngredientIds } = this.recipeCost(recipe, size);
+        return {
+          recipeId: recipe.id,
+          recipeName: recipe.name,
+          size,
+          price,
+          foodCost: cost,
+          marginMinorUnits: price.minorUnits - cost.minorUnits,
+          uncostedIngredientIds,
+        };
+      })
+    );
+  }
+}
@@ -0,0 +1,218 @@
+import { sectionFraction, type Pizza, type PizzaRecipe } from '../menu/pizza';
+import type { Order, OrderItem } from '../order/order';
+import { sectionUsageOf } from '../inventory/ingredient-usage';
+import { Money, type Currency } from '../shared/money';
+import type { ID } from '../shared/types';
+import type { FoodCostCalculator } from './food-cost';
+
+export interface Margin {
+  // What the business kept: after discounts and excluding tax and delivery
+  revenue: Money;
+  foodCost: Money;
+  // Revenue less food cost in minor units; negative when food cost more than it sold for
+  marginMinorUnits: number;
+  // Margin as a share of revenue, the figure OrderHistoryMetrics.profitMargin carries; 0 without revenue
+  profitMargin: number;
+  // False when something sold had no known cost: an ingredient without a cost price, or a
+  // side, drink or dessert, whose cost is not tracked
+  isComplete: boolean;
+}
+
+export interface RecipeMargin extends Margin {
+  recipeId: ID;
+  recipeName: string;
+  // Half of a half-and-half counts as half a pizza
+  pizzasSold: number;
+}
+
+export interface OrderMargin extends Margin {
+  orderId: ID;
+  orderNumber: string;
+  placedAt: Date;
+}
+
+export interface DailyMargin extends Margin {
+  // UTC calendar day the orders were placed, YYYY-MM-DD
+  date: string;
+  orderCount: number;
+}
+
+export interface MarginReport {
+  currency: Currency;
+  totals: Margin;
+  // Worst margin first, so pizzas sold at a loss lead the list
+  byRecipe: RecipeMargin[];
+  byOrder: OrderMargin[];
+  byDay: DailyMargin[];
+}
+
+interface Tally {
+  revenue: number;
+  foodCost: number;
+  isComplete: boolean;
+}
+
+const emptyTally = (): Tally => ({ revenue: 0, foodCost: 0, isComplete: true });
+
+function addTo(tally: Tally, other: Tally): void {
+  tally.revenue += other.revenue;
+  tally.foodCost += other.foodCost;
+  tally.isComplete = tally.isComplete && other.isComplete;
+}
+
+function marginOf(tally: Tally, currency: Currency): Margin {
+  const marginMinorUnits = tally.revenue - tally.foodCost;
+  return {
+    revenue: Money.fromCents(tally.revenue, currency),
+    foodCost: Money.fromCents(tally.foodCost, currency),
+    marginMinorUnits,
+    profitMargin: tally.revenue > 0 ? Math.round((marginMinorUnits / tally.revenue) * 10000) / 10000 : 0,
+    isComplete: tally.isComplete,
+  };
+}
+
+// Splits an amount by weights, falling back to equal shares when every weight is zero
+function split(amount: Money, weights: number[]): Money[] {
+  return amount.allocate(weights.some(weight => weight > 0) ? weights : weights.map(() => 1));
+}
+
+interface ReportContext {
+  currency: Currency;
+  recipes: Map<ID, PizzaRecipe>;
+  calculator: FoodCostCalculator;
+}
+
+// One costed share of a line: a pizza section, or a product nobody costs
+interface LineShare extends Tally {
+  recipeId: ID | null;
+  pizzas: number;
+}
+
+// Margins of delivered orders in one currency, attributed to the recipe on each pizza section.
+// Revenue per line is the tax breakdown's net where there is one, and otherwise the line total
+// less its share of item discounts, split the way the order split them when it was taxed.
+export function buildMarginReport(
+  orders: Order[],
+  recipes: Map<ID, PizzaRecipe>,
+  calculator: FoodCostCalculator,
+  currency: Currency
+): MarginReport {
+  const context: ReportContext = { currency, recipes, calculator };
+  const totals = emptyTally();
+  const byRecipe = new Map<ID, Tally & { pizzasSold: number }>();
+  const byDay = new Map<string, Tally & { orderCount: number }>();
+  const byOrder: OrderMargin[] = [];
+
+  for (const order of orders.filter(candidate => candidate.currency === currency)) {
+    const revenues = itemRevenues(order, currency);
+    const shares = order.items.flatMap((item, index) => lineShares(item, revenues[index], context));
+
+    const orderTally = emptyTally();
+    for (const share of shares) {
+      addTo(orderTally, share);
+      if (share.recipeId) {
+        const recipeTally = byRecipe.get(share.recipeId) || { ...emptyTally(), pizzasSold: 0 };
+        addTo(recipeTally, share);
+        recipeTally.pizzasSold += share.pizzas;
+        byRecipe.set(share.recipeId, recipeTally);
+      }
+    }
+
+    addTo(totals, orderTally);
+    byOrder.push({
+      orderId: order.id,
+      orderNumber: order.orderNumber.value,
+      placedAt: order.createdAt,
+      ...marginOf(orderTally, currency),
+    });
+
+    const date = order.createdAt.toISOString().slice(0, 10);
+    const dayTally = byDay.get(date) || { ...emptyTally(), orderCount: 0 };
+    addTo(dayTally, orderTally);
+    dayTally.orderCount += 1;
+    byDay.set(date, dayTally);
+  }
+
+  return {
+    currency,
+    totals: marginOf(totals, currency),
+    byRecipe: Array.from(byRecipe, ([recipeId, tally]) => ({
+      recipeId,
+      recipeName: recipes.get(recipeId)!.name,
+      pizzasSold: Math.round(tally.pizzasSold * 100) / 100,
+      ...marginOf(tally, currency),
+    })).sort((a, b) => a.profitMargin - b.profitMargin),
+    byOrder,
+    byDay: Array.from(byDay, ([date, tally]) => ({
+      date,
+      orderCount: tally.orderCount,
+      ...marginOf(tally, currency),
+    })).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+function itemRevenues(order: Order, currency: Currency): Money[] {
+  const itemsDiscount = order.discounts
+    .filter(discount => discount.appliesTo === 'ITEMS')
+    .reduce((total, discount) => total.add(discount.amount), Money.zero(currency));
+  const discountShares = itemsDiscount.isZero()
+    ? order.items.map(() => Money.zero(currency))
+    : itemsDiscount.allocate(order.items.map(item => item.totalPrice.toCents()));
+
+  return order.items.map((item, index) => {
+    const taxLines = order.taxLines.filter(line => line.lineId === item.id);
+    return taxLines.length > 0
+      ? taxLines.reduce((total, line) => total.add(line.net), Money.zero(currency))
+      : item.totalPrice.subtract(discountShares[index]);
+  });
+}
+
+const uncostedShare = (revenue: Money): LineShare => ({
+  revenue: revenue.minorUnits,
+  foodCost: 0,
+  isComplete: false,
+  recipeId: null,
+  pizzas: 0,
+});
+
+// A bundle's revenue goes to its components in proportion to their allocated prices
+function lineShares(item: OrderItem, revenue: Money, context: ReportContext): LineShare[] {
+  switch (item.type) {
+    case 'PIZZA':
+      return pizzaShares(item.pizza, item.quantity, revenue, context);
+    case 'PRODUCT':
+      return [uncostedShare(revenue)];
+    case 'BUNDLE': {
+      const components = item.bundle.components;
+      const componentRevenues = split(revenue, components.map(component => component.allocatedPrice.toCents()));
+      return components.flatMap((component, index) => component.pizza
+        ? pizzaShares(component.pizza, item.quantity, componentRevenues[index], context)
+        : [uncostedShare(componentRevenues[index])]);
+    }
+  }
+}
+
+// Each section earns its share of the pizza's revenue and costs what its own ingredients cost
+function pizzaShares(pizza: Pizza, quantity: number, revenue: Money, context: ReportContext): LineShare[] {
+  const fractions = pizza.sections.map(section => sectionFraction(section.position));
+  const sectionRevenues = split(revenue, fractions);
+
+  return pizza.sections.map((section, index) => {
+    const recipe = context.recipes.get(section.recipeId);
+    if (!recipe) {
+      return uncostedShare(sectionRevenues[index]);
+    }
+
+    const { cost, uncostedIngredientIds } = context.calculator.costOf(
+      sectionUsageOf(pizza, section, recipe, quantity),
+      context.currency
+    );
+    return {
+      revenue: sectionRevenues[index].minorUnits,
+      foodCost: cost.minorUnits,
+      isComplete: uncostedIngredientIds.length === 0,
+      recipeId: recipe.id,
+      pizzas: fractions[index] * quantity,
+    };
+  });
+}
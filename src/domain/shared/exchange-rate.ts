@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { CurrencySchema, type Currency } from './money';
+import { Result, NotFoundError } from './result';
+
+// A rate as quoted at a point in time; orders keep a copy so they can be re-read later
+export const ExchangeRateSchema = z.object({
+  from: CurrencySchema,
+  to: CurrencySchema,
+  rate: z.number().positive(),
+  asOf: z.coerce.date(),
+  source: z.string(),
+});
+export type ExchangeRate = z.infer<typeof ExchangeRateSchema>;
+
+export interface ExchangeRateProvider {
+  getRate(from: Currency, to: Currency): Result<ExchangeRate, NotFoundError>;
+}
@@ -1,81 +1,182 @@
 import { z } from 'zod';
 import { ValueObject } from './types';
-import { ValidationError } from './result';
+import { Result, Ok, Err, ValidationError, NotFoundError } from './result';
+import type { ExchangeRate, ExchangeRateProvider } from './exchange-rate';
 
 export const CurrencySchema = z.enum(['USD', 'EUR', 'RUB']);
 export type Currency = z.infer<typeof CurrencySchema>;
 
+// Decimal places of each currency's minor unit (cents, kopecks)
+export const CURRENCY_DECIMALS: Record<Currency, number> = {
+  USD: 2,
+  EUR: 2,
+  RUB: 2,
+};
+
+// Locale used when formatting amounts in each currency
+export const CURRENCY_LOCALES: Record<Currency, string> = {
+  USD: 'en-US',
+  EUR: 'de-DE',
+  RUB: 'ru-RU',
+};
+
+export const RoundingModeSchema = z.enum(['HALF_EVEN', 'HALF_UP']);
+export type RoundingMode = z.infer<typeof RoundingModeSchema>;
+
 export const MoneySchema = z.object({
-  amount: z.number().positive(),
+  amount: z.number().nonnegative(),
   currency: CurrencySchema,
 });
 
 export class Money implements ValueObject {
   private constructor(
-    public readonly amount: number,
+    // Always a whole number of the currency's minor unit
+    public readonly minorUnits: number,
     public readonly currency: Currency
   ) {
-    if (amount < 0) {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new ValidationError('Money must be a whole number of minor units');
+    }
+    if (minorUnits < 0) {
       throw new ValidationError('Money amount cannot be negative');
     }
   }
 
-  static create(amount: number, currency: Currency): Money {
-    return new Money(amount, currency);
+  // Amount in major units (e.g. dollars); rounded to the nearest minor unit
+  static create(amount: number, currency: Currency, rounding: RoundingMode = 'HALF_EVEN'): Money {
+    return new Money(roundToInteger(amount * Money.minorUnitFactor(currency), rounding), currency);
   }
 
   static fromCents(cents: number, currency: Currency): Money {
-    return new Money(cents / 100, currency);
+    return new Money(cents, currency);
+  }
+
+  static zero(currency: Currency): Money {
+    return new Money(0, currency);
+  }
+
+  get amount(): number {
+    return this.minorUnits / Money.minorUnitFactor(this.currency);
   }
 
   toCents(): number {
-    return Math.round(this.amount * 100);
+    return this.minorUnits;
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
   }
 
   add(other: Money): Money {
     this.ensureSameCurrency(other);
-    return new Money(this.amount + other.amount, this.currency);
+    return new Money(this.minorUnits + other.minorUnits, this.currency);
   }
 
   subtract(other: Money): Money {
     this.ensureSameCurrency(other);
-    const result = this.amount - other.amount;
+    const result = this.minorUnits - other.minorUnits;
     if (result < 0) {
       throw new ValidationError('Cannot subtract more money than available');
     }
     return new Money(result, this.currency);
   }
 
-  multiply(factor: number): Money {
+  multiply(factor: number, rounding: RoundingMode = 'HALF_EVEN'): Money {
     if (factor < 0) {
       throw new ValidationError('Cannot multiply money by negative factor');
     }
-    return new Money(this.amount * factor, this.currency);
+    return new Money(roundToInteger(this.minorUnits * factor, rounding), this.currency);
+  }
+
+  /**
+   * Splits the amount in proportion to the given ratios without losing or
+   * inventing minor units: leftovers go to the largest remainders first.
+   */
+  allocate(ratios: number[]): Money[] {
+    if (ratios.length === 0) {
+      throw new ValidationError('Cannot allocate money to zero ratios');
+    }
+    if (ratios.some(ratio => ratio < 0 || !Number.isFinite(ratio))) {
+      throw new ValidationError('Allocation ratios must be non-negative numbers');
+    }
+
+    // All-zero ratios, e.g. the lines of a fully comped order, split the amount equally
+    const weights = ratios.every(ratio => ratio === 0) ? ratios.map(() => 1) : ratios;
+    const totalRatio = weights.reduce((sum, ratio) => sum + ratio, 0);
+
+    const exactShares = weights.map(ratio => (this.minorUnits * ratio) / totalRatio);
+    const shares = exactShares.map(share => Math.floor(share));
+    let remainder = this.minorUnits - shares.reduce((sum, share) => sum + share, 0);
+
+    const byRemainder = exactShares
+      .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+      .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+    for (const { index } of byRemainder) {
+      if (remainder === 0) break;
+      shares[index] += 1;
+      remainder -= 1;
+    }
+
+    return shares.map(share => new Money(share, this.currency));
+  }
+
+  convertTo(
+    currency: Currency,
+    provider: ExchangeRateProvider,
+    rounding: RoundingMode = 'HALF_EVEN'
+  ): Result<Money, NotFoundError | ValidationError> {
+    if (currency === this.currency) {
+      return Ok(this);
+    }
+
+    const rate = provider.getRate(this.currency, currency);
+    if (rate.isErr()) {
+      return Err(rate.error);
+    }
+
+    return this.convertWith(rate.value, rounding);
+  }
+
+  // Converts with an already-known rate, e.g. the snapshot an order was priced with
+  convertWith(rate: ExchangeRate, rounding: RoundingMode = 'HALF_EVEN'): Result<Money, ValidationError> {
+    if (rate.from !== this.currency) {
+      return Err(new ValidationError(
+        `Exchange rate is for ${rate.from}, cannot convert ${this.currency}`
+      ));
+    }
+
+    const scale = Money.minorUnitFactor(rate.to) / Money.minorUnitFactor(rate.from);
+    return Ok(new Money(roundToInteger(this.minorUnits * rate.rate * scale, rounding), rate.to));
   }
 
   equals(other: ValueObject): boolean {
     if (!(other instanceof Money)) return false;
-    return this.amount === other.amount && this.currency === other.currency;
+    return this.minorUnits === other.minorUnits && this.currency === other.currency;
   }
 
   isGreaterThan(other: Money): boolean {
     this.ensureSameCurrency(other);
-    return this.amount > other.amount;
+    return this.minorUnits > other.minorUnits;
   }
 
   isLessThan(other: Money): boolean {
     this.ensureSameCurrency(other);
-    return this.amount < other.amount;
+    return this.minorUnits < other.minorUnits;
   }
 
-  toString(): string {
-    const formatter = new Intl.NumberFormat('en-US', {
+  toString(locale: string = CURRENCY_LOCALES[this.currency]): string {
+    const formatter = new Intl.NumberFormat(locale, {
       style: 'currency',
       currency: this.currency,
     });
     return formatter.format(this.amount);
   }
 
+  private static minorUnitFactor(currency: Currency): number {
+    return 10 ** CURRENCY_DECIMALS[currency];
+  }
+
   private ensureSameCurrency(other: Money): void {
     if (this.currency !== other.currency) {
       throw new ValidationError(
@@ -83,4 +184,16 @@ export class Money implements ValueObject {
       );
     }
   }
-}
\ No newline at end of file
+}
+
+function roundToInteger(value: number, mode: RoundingMode): number {
+  // Trim binary noise first so 1099.4999999999998 (10.995 * 100) counts as a tie
+  const cleaned = Number(value.toFixed(9));
+  const floor = Math.floor(cleaned);
+  const fraction = cleaned - floor;
+
+  if (fraction < 0.5) return floor;
+  if (fraction > 0.5) return floor + 1;
+
+  return mode === 'HALF_UP' || floor % 2 !== 0 ? floor + 1 : floor;
+}
@@ -44,4 +44,23 @@ export class BusinessRuleViolationError extends DomainError {
   constructor(rule: string, details?: Record<string, unknown>) {
     super(`Business rule violation: ${rule}`, 'BUSINESS_RULE_VIOLATION', details);
   }
-}
\ No newline at end of file
+}
+
+// Another save of the same record landed first; the work can be redone from a fresh copy
+export class ConflictError extends BusinessRuleViolationError {
+  constructor(resource: string, details?: Record<string, unknown>) {
+    super(`${resource} changed, please try again`, details);
+  }
+}
+
+export class ForbiddenError extends DomainError {
+  constructor(action: string, details?: Record<string, unknown>) {
+    super(`Not allowed to ${action}`, 'FORBIDDEN', details);
+  }
+}
+
+export class PaymentDeclinedError extends DomainError {
+  constructor(reason: string, details?: Record<string, unknown>) {
+    super(`Payment declined: ${reason}`, 'PAYMENT_DECLINED', details);
+  }
+}
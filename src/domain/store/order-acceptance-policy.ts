@@ -0,0 +1,102 @@
+import type { Store } from './store';
+import { Result, Ok, Err, BusinessRuleViolationError } from '../shared/result';
+
+export interface OrderAcceptanceConfig {
+  // Kitchen time before an order can be ready
+  leadTimeMinutes: number;
+  // Earliest slots are offered on these boundaries, e.g. 18:00, 18:15
+  slotMinutes: number;
+  // How far ahead an order may be scheduled
+  maxAdvanceDays: number;
+}
+
+export const DEFAULT_ORDER_ACCEPTANCE: OrderAcceptanceConfig = {
+  leadTimeMinutes: 20,
+  slotMinutes: 15,
+  maxAdvanceDays: 7,
+};
+
+// When a store takes orders. ASAP orders need the store open now and still open when the order is
+// ready; scheduled ones need a time the kitchen can make, inside the opening hours and no further
+// ahead than the scheduling window. Delivery orders pass the zone's ETA as extra lead time.
+export class OrderAcceptancePolicy {
+  constructor(private readonly config: OrderAcceptanceConfig = DEFAULT_ORDER_ACCEPTANCE) {}
+
+  accept(
+    store: Store,
+    requestedTime: Date | undefined,
+    now: Date = new Date(),
+    extraMinutes = 0
+  ): Result<void, BusinessRuleViolationError> {
+    if (store.orderingPause) {
+      return Err(new BusinessRuleViolationError(`${store.name} has paused ordering: ${store.orderingPause.reason}`, {
+        storeId: store.id,
+      }));
+    }
+
+    const readyAt = this.readyAt(now, extraMinutes);
+    if (!requestedTime) {
+      return store.isOpenAt(now) && store.isOpenAt(readyAt)
+        ? Ok(undefined)
+        : Err(this.rejection(`${store.name} is closed right now`, store, now, extraMinutes));
+    }
+
+    if (requestedTime < readyAt) {
+      return Err(this.rejection('The requested time is too soon for the kitchen', store, now, extraMinutes));
+    }
+
+    if (requestedTime > this.latestTime(now)) {
+      return Err(this.rejection(
+        `Orders can be scheduled at most ${this.config.maxAdvanceDays} days ahead`,
+        store,
+        now,
+        extraMinutes
+      ));
+    }
+
+    if (!store.isOpenAt(requestedTime)) {
+      return Err(this.rejection(`${store.name} is closed at the requested time`, store, now, extraMinutes));
+    }
+
+    return Ok(undefined);
+  }
+
+  // The first slot an order placed now could be ready for; null while ordering is paused or when
+  // the store does not open again within the scheduling window
+  earliestSlot(store: Store, now: Date = new Date(), extraMinutes = 0): Date | null {
+    if (store.orderingPause) {
+      return null;
+    }
+
+    const slotMs = this.config.slotMinutes * 60000;
+    const latest = this.latestTime(now).getTime();
+    for (let slot = Math.ceil(this.readyAt(now, extraMinutes).getTime() / slotMs) * slotMs; slot <= latest; slot += slotMs) {
+      if (store.isOpenAt(new Date(slot))) {
+        return new Date(slot);
+      }
+    }
+
+    return null;
+  }
+
+  private readyAt(now: Date, extraMinutes: number): Date {
+    return new Date(now.getTime() + (this.config.leadTimeMinutes + extraMinutes) * 60000);
+  }
+
+  private latestTime(now: Date): Date {
+    return new Date(now.getTime() + this.config.maxAdvanceDays * 24 * 60 * 60000);
+  }
+
+  // Points the customer at the first time that would work
+  private rejection(message: string, store: Store, now: Date, extraMinutes: number): BusinessRuleViolationError {
+    const earliestSlot = this.earliestSlot(store, now, extraMinutes);
+    const suggestion = earliestSlot
+      ? `the earliest slot is ${earliestSlot.toISOString()}`
+      : `no slots in the next ${this.config.maxAdvanceDays} days`;
+
+    return new BusinessRuleViolationError(`${message}; ${suggestion}`, {
+      storeId: store.id,
+      earliestSlot: earliestSlot?.toISOString() ?? null,
+    });
+  }
+}
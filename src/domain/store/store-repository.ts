@@ -0,0 +1,10 @@
+import { Store } from './store';
+import { Result, NotFoundError } from '../shared/result';
+import { ID } from '../shared/types';
+
+export interface StoreRepository {
+  findById(id: ID): Promise<Result<Store, NotFoundError>>;
+  // Stores taking orders; what customers pick from
+  findActive(): Promise<Result<Store[], Error>>;
+  save(store: Store): Promise<Result<Store, Error>>;
+}
@@ -0,0 +1,221 @@
+import { BaseAggregateRoot, ID } from '../shared/types';
+import type { Money, Currency } from '../shared/money';
+import { Result, Ok, Err, ValidationError } from '../shared/result';
+import type { Address } from '../order/order';
+import type { TaxLocation } from '../tax/tax-engine';
+import { DEFAULT_ORDER_NUMBER_PREFIX, ORDER_NUMBER_PREFIX_PATTERN } from '../order/order-number';
+import {
+  LocalDateSchema,
+  isAvailableAt,
+  isValidTimeZone,
+  localDateOf,
+  type AvailabilityWindow,
+} from '../menu/availability-schedule';
+
+export interface StoreProps {
+  id: ID;
+  name: string;
+  address: Address;
+  timeZone: string;
+  // Orders placed at the store default to it
+  currency: Currency;
+  // Starts the store's order numbers, e.g. DT for downtown; stores sharing one share its daily sequence
+  orderNumberPrefix?: string;
+  // Weekly hours in the store's time zone; none means open around the clock
+  openingHours?: AvailabilityWindow[];
+  // Local dates the store stays shut, e.g. 2026-12-25
+  holidayClosures?: string[];
+  // Recipes, products and bundles this store does not sell
+  excludedItemIds?: ID[];
+  // The store's own prices, by recipe, product or bundle id; everything else sells at the menu price
+  priceOverrides?: Map<ID, Money>;
+  isActive?: boolean;
+  orderingPause?: OrderingPause | null;
+  // Ingredients this store has run short of; its pizzas using them come off its menu
+  unavailableIngredientIds?: ID[];
+}
+
+// An emergency stop on new orders, e.g. the oven is down or the kitchen is swamped
+export interface OrderingPause {
+  reason: string;
+  pausedBy: ID;
+  pausedAt: Date;
+}
+
+// Anything on the menu a store can reprice; pizzas also list their ingredients
+interface StorePricedItem<T> {
+  id: ID;
+  ingredients?: Map<ID, number>;
+  repriced(price: Money): T;
+}
+
+// One kitchen. Orders, stock and staff all belong to a store; the menu is shared and each store
+// can leave items out or sell them at its own price.
+export class Store extends BaseAggregateRoot {
+  private constructor(
+    id: ID,
+    public readonly name: string,
+    public readonly address: Address,
+    public readonly timeZone: string,
+    public readonly currency: Currency,
+    public readonly orderNumberPrefix: string,
+    public readonly openingHours: AvailabilityWindow[],
+    public readonly holidayClosures: string[],
+    public readonly excludedItemIds: ID[],
+    public readonly priceOverrides: Map<ID, Money>,
+    public readonly isActive: boolean,
+    private _orderingPause: OrderingPause | null,
+    private _unavailableIngredientIds: ID[]
+  ) {
+    super(id);
+  }
+
+  static create(props: StoreProps): Result<Store, ValidationError> {
+    if (!props.name.trim()) {
+      return Err(new ValidationError('Store name cannot be empty', 'name'));
+    }
+
+    if (props.name.trim().length > 100) {
+      return Err(new ValidationError('Store name too long (max 100 characters)', 'name'));
+    }
+
+    const { street, city, postalCode, country } = props.address;
+    if (![street, city, postalCode, country].every(part => part.trim())) {
+      return Err(new ValidationError('Store address needs a street, city, postal code and country', 'address'));
+    }
+
+    if (!isValidTimeZone(props.timeZone)) {
+      return Err(new ValidationError(`Unknown time zone ${props.timeZone}`, 'timeZone'));
+    }
+
+    const orderNumberPrefix = props.orderNumberPrefix || DEFAULT_ORDER_NUMBER_PREFIX;
+    if (!ORDER_NUMBER_PREFIX_PATTERN.test(orderNumberPrefix)) {
+      return Err(new ValidationError('Order number prefix must be 2-8 uppercase letters', 'orderNumberPrefix'));
+    }
+
+    const holidayClosures = props.holidayClosures || [];
+    if (holidayClosures.some(date => !LocalDateSchema.safeParse(date).success)) {
+      return Err(new ValidationError('Holiday closures are dates as YYYY-MM-DD', 'holidayClosures'));
+    }
+
+    const priceOverrides = props.priceOverrides || new Map();
+    if (Array.from(priceOverrides.values()).some(price => price.isZero())) {
+      return Err(new ValidationError('Store prices must be greater than zero', 'priceOverrides'));
+    }
+
+    if (Array.from(priceOverrides.values()).some(price => price.currency !== props.currency)) {
+      return Err(new ValidationError(`Store prices must be in ${props.currency}`, 'priceOverrides'));
+    }
+
+    return Ok(
+      new Store(
+        props.id,
+        props.name.trim(),
+        props.address,
+        props.timeZone,
+        props.currency,
+        orderNumberPrefix,
+        props.openingHours || [],
+        [...new Set(holidayClosures)].sort(),
+        [...new Set(props.excludedItemIds || [])],
+        priceOverrides,
+        props.isActive ?? true,
+        props.orderingPause || null,
+        [...new Set(props.unavailableIngredientIds || [])]
+      )
+    );
+  }
+
+  // Rebuild a store from persisted state
+  static reconstitute(data: Required<StoreProps> & { createdAt: Date; updatedAt: Date }): Store {
+    const store = new Store(
+      data.id,
+      data.name,
+      data.address,
+      data.timeZone,
+      data.currency,
+      data.orderNumberPrefix,
+      data.openingHours,
+      data.holidayClosures,
+      data.excludedItemIds,
+      data.priceOverrides,
+      data.isActive,
+      data.orderingPause,
+      data.unavailableIngredientIds
+    );
+
+    (store as { createdAt: Date }).createdAt = data.createdAt;
+    (store as { updatedAt: Date }).updatedAt = data.updatedAt;
+
+    return store;
+  }
+
+  get orderingPause(): OrderingPause | null {
+    return this._orderingPause;
+  }
+
+  pauseOrdering(reason: string, pausedBy: ID, at: Date = new Date()): Result<void, ValidationError> {
+    if (!reason.trim()) {
+      return Err(new ValidationError('Say why ordering is paused', 'reason'));
+    }
+
+    if (reason.trim().length > 200) {
+      return Err(new ValidationError('Pause reason too long (max 200 characters)', 'reason'));
+    }
+
+    this._orderingPause = { reason: reason.trim(), pausedBy, pausedAt: at };
+    return Ok(undefined);
+  }
+
+  resumeOrdering(): void {
+    this._orderingPause = null;
+  }
+
+  get unavailableIngredientIds(): ID[] {
+    return [...this._unavailableIngredientIds];
+  }
+
+  isIngredientAvailable(ingredientId: ID): boolean {
+    return !this._unavailableIngredientIds.includes(ingredientId);
+  }
+
+  markIngredientUnavailable(ingredientId: ID): void {
+    if (this.isIngredientAvailable(ingredientId)) {
+      this._unavailableIngredientIds.push(ingredientId);
+    }
+  }
+
+  markIngredientAvailable(ingredientId: ID): void {
+    this._unavailableIngredientIds = this._unavailableIngredientIds.filter(id => id !== ingredientId);
+  }
+
+  // Pickup orders are taxed where the store is
+  get taxLocation(): TaxLocation {
+    return { country: this.address.country, postalCode: this.address.postalCode };
+  }
+
+  isOpenAt(at: Date): boolean {
+    return !this.holidayClosures.includes(localDateOf(at, this.timeZone)) &&
+      isAvailableAt({ windows: this.openingHours }, at, this.timeZone);
+  }
+
+  offers(itemId: ID): boolean {
+    return !this.excludedItemIds.includes(itemId);
+  }
+
+  priceOverrideFor(itemId: ID): Money | null {
+    return this.priceOverrides.get(itemId) || null;
+  }
+
+  // The menu as this store sells it: items it leaves out or lacks ingredients for are dropped
+  // and its own prices applied
+  menuOf<T extends StorePricedItem<T>>(items: T[]): T[] {
+    return items
+      .filter(item => this.offers(item.id))
+      .filter(item => Array.from(item.ingredients?.keys() || []).every(id => this.isIngredientAvailable(id)))
+      .map(item => {
+        const price = this.priceOverrideFor(item.id);
+        return price ? item.repriced(price) : item;
+      });
+  }
+}
@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { Money } from '../shared/money';
+import { Result, Ok, Err, BusinessRuleViolationError } from '../shared/result';
+import type { ID } from '../shared/types';
+
+export const TaxCategorySchema = z.enum(['FOOD', 'BEVERAGE', 'DELIVERY']);
+export type TaxCategory = z.infer<typeof TaxCategorySchema>;
+
+// Matches any country; used for the fallback rules
+export const ANY_COUNTRY = '*';
+
+export const TaxRuleSchema = z.object({
+  name: z.string().min(1),
+  category: TaxCategorySchema,
+  rate: z.number().min(0).max(1),
+  // Inclusive rules treat the listed price as already containing the tax (VAT style)
+  inclusive: z.boolean(),
+  country: z.string().min(1),
+  postalCodePrefix: z.string().min(1).optional(),
+  storeId: z.string().uuid().optional(),
+});
+export type TaxRule = z.infer<typeof TaxRuleSchema>;
+
+export interface TaxLocation {
+  country: string;
+  postalCode?: string;
+}
+
+export interface TaxContext {
+  // Where the food is handed over: the delivery address, or the store for pickup
+  location: TaxLocation;
+  storeId?: ID;
+  taxExempt?: boolean;
+}
+
+export interface TaxableLine {
+  // Order item id, or null for the delivery fee
+  lineId: ID | null;
+  category: TaxCategory;
+  amount: Money;
+}
+
+// One row of the receipt breakdown; net + tax is what the customer pays for the line
+export interface OrderTaxLine {
+  lineId: ID | null;
+  category: TaxCategory;
+  ruleName: string;
+  rate: number;
+  inclusive: boolean;
+  net: Money;
+  tax: Money;
+}
+
+export const TAX_EXEMPT_RULE_NAME = 'EXEMPT';
+
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+  { name: 'Sales tax', category: 'FOOD', rate: 0.1, inclusive: false, country: ANY_COUNTRY },
+  { name: 'Sales tax', category: 'BEVERAGE', rate: 0.1, inclusive: false, country: ANY_COUNTRY },
+  { name: 'Delivery', category: 'DELIVERY', rate: 0, inclusive: false, country: ANY_COUNTRY },
+  { name: 'USt. 7%', category: 'FOOD', rate: 0.07, inclusive: true, country: 'DE' },
+  { name: 'USt. 19%', category: 'BEVERAGE', rate: 0.19, inclusive: true, country: 'DE' },
+  { name: 'USt. 19%', category: 'DELIVERY', rate: 0.19, inclusive: true, country: 'DE' },
+  { name: 'NDS 20%', category: 'FOOD', rate: 0.2, inclusive: true, country: 'RU' },
+  { name: 'NDS 20%', category: 'BEVERAGE', rate: 0.2, inclusive: true, country: 'RU' },
+  { name: 'NDS 20%', category: 'DELIVERY', rate: 0.2, inclusive: true, country: 'RU' },
+];
+
+export class TaxEngine {
+  constructor(private readonly rules: TaxRule[] = DEFAULT_TAX_RULES) {}
+
+  calculate(lines: TaxableLine[], context: TaxContext): Result<OrderTaxLine[], BusinessRuleViolationError> {
+    const taxLines: OrderTaxLine[] = [];
+
+    for (const line of lines) {
+      const rule = this.findRule(line.category, context);
+      if (!rule) {
+        return Err(new BusinessRuleViolationError('No tax rule applies to this order', {
+          category: line.category,
+          country: context.location.country,
+          postalCode: context.location.postalCode,
+        }));
+      }
+
+      taxLines.push(TaxEngine.applyRule(line, rule, context.taxExempt === true));
+    }
+
+    return Ok(taxLines);
+  }
+
+  // Most specific rule wins: store, then longest postal prefix, then country, then the fallback
+  private findRule(category: TaxCategory, context: TaxContext): TaxRule | undefined {
+    const country = context.location.country.toUpperCase();
+    const postalCode = (context.location.postalCode || '').replace(/\s+/g, '').toUpperCase();
+
+    const candidates = this.rules.filter(rule =>
+      rule.category === category &&
+      (!rule.storeId || rule.storeId === context.storeId) &&
+      (rule.country === ANY_COUNTRY || rule.country.toUpperCase() === country) &&
+      (!rule.postalCodePrefix || postalCode.startsWith(rule.postalCodePrefix.toUpperCase()))
+    );
+
+    return candidates.sort((a, b) => TaxEngine.specificity(b) - TaxEngine.specificity(a))[0];
+  }
+
+  private static specificity(rule: TaxRule): number {
+    return (rule.storeId ? 1000 : 0) +
+      (rule.postalCodePrefix ? 100 + rule.postalCodePrefix.length : 0) +
+      (rule.country !== ANY_COUNTRY ? 10 : 0);
+  }
+
+  private static applyRule(line: TaxableLine, rule: TaxRule, taxExempt: boolean): OrderTaxLine {
+    const includedTax = rule.inclusive
+      ? line.amount.multiply(rule.rate / (1 + rule.rate), 'HALF_UP')
+      : Money.zero(line.amount.currency);
+    const net = line.amount.subtract(includedTax);
+
+    if (taxExempt) {
+      // Exempt customers pay the net price, even where menu prices include VAT
+      return {
+        lineId: line.lineId,
+        category: line.category,
+        ruleName: TAX_EXEMPT_RULE_NAME,
+        rate: 0,
+        inclusive: rule.inclusive,
+        net,
+        tax: Money.zero(line.amount.currency),
+      };
+    }
+
+    return {
+      lineId: line.lineId,
+      category: line.category,
+      ruleName: rule.name,
+      rate: rule.rate,
+      inclusive: rule.inclusive,
+      net,
+      tax: rule.inclusive ? includedTax : net.multiply(rule.rate, 'HALF_UP'),
+    };
+  }
+}
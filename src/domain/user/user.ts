@@ -43,6 +43,8 @@ export class User extends BaseAggregateRoot {
   private _status: UserStatus = 'ACTIVE';
   private _lastLoginAt?: Date;
   private _emailVerified: boolean = false;
+  private _taxExempt: boolean = false;
+  private _storeIds: ID[] = [];
 
   private constructor(
     id: ID,
@@ -97,6 +99,8 @@ export class User extends BaseAggregateRoot {
     role: UserRole;
     status: UserStatus;
     emailVerified: boolean;
+    taxExempt?: boolean;
+    storeIds?: ID[];
     lastLoginAt?: Date;
     createdAt: Date;
     updatedAt: Date;
@@ -114,6 +118,8 @@ export class User extends BaseAggregateRoot {
     // Reconstitute state without validation or events
     user._status = data.status;
     user._emailVerified = data.emailVerified;
+    user._taxExempt = data.taxExempt || false;
+    user._storeIds = data.storeIds || [];
     user._lastLoginAt = data.lastLoginAt;
     
     // Set base entity properties
@@ -135,6 +141,16 @@ export class User extends BaseAggregateRoot {
     return this._emailVerified;
   }
 
+  // Set by staff once an exemption certificate is on file
+  get taxExempt(): boolean {
+    return this._taxExempt;
+  }
+
+  // Stores a staff member may operate; admins operate every store
+  get storeIds(): ID[] {
+    return [...this._storeIds];
+  }
+
   get fullName(): string {
     return `${this.firstName} ${this.lastName}`;
   }
@@ -165,6 +181,19 @@ export class User extends BaseAggregateRoot {
     }
   }
 
+  setTaxExempt(taxExempt: boolean): void {
+    this._taxExempt = taxExempt;
+  }
+
+  assignStores(storeIds: ID[]): Result<void, ValidationError> {
+    if (this.role === 'CUSTOMER' && storeIds.length > 0) {
+      return Err(new ValidationError('Only staff can be assigned to stores', 'storeIds'));
+    }
+
+    this._storeIds = [...new Set(storeIds)];
+    return Ok(undefined);
+  }
+
   suspend(): Result<void, ValidationError> {
     if (this._status === 'DELETED') {
       return Err(new ValidationError('Cannot suspend deleted user'));
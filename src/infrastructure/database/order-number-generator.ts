@@ -0,0 +1,34 @@
+import { sql } from 'drizzle-orm';
+import { db } from './connection';
+import { orderNumberSequences } from './schema';
+import { OrderNumber, type OrderNumberGenerator } from '@/domain/order/order-number';
+import { localDateOf } from '@/domain/menu/availability-schedule';
+import { Result, Err } from '@/domain/shared/result';
+
+export class DrizzleOrderNumberGenerator implements OrderNumberGenerator {
+  async next(prefix: string, at: Date, timeZone: string): Promise<Result<OrderNumber, Error>> {
+    try {
+      // A single upsert increments the counter atomically, so concurrent
+      // inserts for the same prefix and day never read the same value
+      const [row] = await db
+        .insert(orderNumberSequences)
+        .values({
+          prefix,
+          businessDate: localDateOf(at, timeZone),
+          lastValue: 1,
+        })
+        .onConflictDoUpdate({
+          target: [orderNumberSequences.prefix, orderNumberSequences.businessDate],
+          set: {
+            lastValue: sql`${orderNumberSequences.lastValue} + 1`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ lastValue: orderNumberSequences.lastValue });
+
+      return OrderNumber.create(prefix, at, row.lastValue, timeZone);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to generate order number'));
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../connection';
+import { deliveryZones, type DeliveryZone as DBDeliveryZone } from '../schema';
+import { DeliveryZoneAreaSchema, CoordinatesSchema, type DeliveryZone } from '@/domain/delivery/delivery-zone';
+import type { DeliveryZoneRepository } from '@/domain/delivery/delivery-zone-repository';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err } from '@/domain/shared/result';
+
+export class DrizzleDeliveryZoneRepository implements DeliveryZoneRepository {
+  async findActive(): Promise<Result<DeliveryZone[], Error>> {
+    try {
+      const dbZones = await db
+        .select()
+        .from(deliveryZones)
+        .where(eq(deliveryZones.isActive, true));
+
+      return Ok(dbZones.map(dbZone => this.toDomain(dbZone)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load delivery zones'));
+    }
+  }
+
+  private toDomain(dbZone: DBDeliveryZone): DeliveryZone {
+    return {
+      id: dbZone.id,
+      name: dbZone.name,
+      area: DeliveryZoneAreaSchema.parse(dbZone.area),
+      fee: Money.fromCents(dbZone.feeCents, dbZone.currency),
+      feePerKm: dbZone.feePerKmCents === null ? null : Money.fromCents(dbZone.feePerKmCents, dbZone.currency),
+      origin: dbZone.origin ? CoordinatesSchema.parse(dbZone.origin) : null,
+      minimumOrder: Money.fromCents(dbZone.minimumOrderCents, dbZone.currency),
+      maxEtaMinutes: dbZone.maxEtaMinutes,
+      storeId: dbZone.storeId,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db } from '../connection';
+import {
+  giftCards,
+  giftCardTransactions,
+  type GiftCard as DBGiftCard,
+  type GiftCardTransaction as DBGiftCardTransaction,
+} from '../schema';
+import {
+  GiftCard,
+  giftCardTransactionDelta,
+  normalizeGiftCardCode,
+  type GiftCardTransaction,
+} from '@/domain/gift-card/gift-card';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err, NotFoundError, ConflictError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzleGiftCardRepository implements GiftCardRepository {
+  async findById(id: ID): Promise<Result<GiftCard, NotFoundError>> {
+    try {
+      const [dbGiftCard] = await db.select().from(giftCards).where(eq(giftCards.id, id)).limit(1);
+
+      if (!dbGiftCard) {
+        return Err(new NotFoundError('GiftCard', id));
+      }
+
+      return Ok(await this.loadWithTransactions(dbGiftCard));
+    } catch {
+      return Err(new NotFoundError('GiftCard', id));
+    }
+  }
+
+  async findByCode(code: string): Promise<Result<GiftCard, NotFoundError>> {
+    try {
+      const [dbGiftCard] = await db
+        .select()
+        .from(giftCards)
+        .where(eq(giftCards.code, normalizeGiftCardCode(code)))
+        .limit(1);
+
+      if (!dbGiftCard) {
+        return Err(new NotFoundError('GiftCard', code));
+      }
+
+      return Ok(await this.loadWithTransactions(dbGiftCard));
+    } catch {
+      return Err(new NotFoundError('GiftCard', code));
+    }
+  }
+
+  async findByOrderId(orderId: ID): Promise<Result<GiftCard[], Error>> {
+    try {
+      const rows = await db
+        .selectDistinct({ giftCardId: giftCardTransactions.giftCardId })
+        .from(giftCardTransactions)
+        .where(eq(giftCardTransactions.orderId, orderId));
+
+      if (rows.length === 0) {
+        return Ok([]);
+      }
+
+      const dbGiftCards = await db
+        .select()
+        .from(giftCards)
+        .where(inArray(giftCards.id, rows.map(row => row.giftCardId)));
+
+      return Ok(await Promise.all(dbGiftCards.map(dbGiftCard => this.loadWithTransactions(dbGiftCard))));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load gift cards'));
+    }
+  }
+
+  async save(giftCard: GiftCard): Promise<Result<GiftCard, ConflictError | Error>> {
+    const pending = giftCard.pendingTransactions;
+    const pendingDelta = pending.reduce((total, transaction) => total + giftCardTransactionDelta(transaction), 0);
+
+    try {
+      await db.transaction(async (tx) => {
+        // The row lock plus the balance comparison turns two concurrent redemptions of the
+        // same card into one success and one conflict instead of a lost update
+        const [stored] = await tx
+          .select({ balanceCents: giftCards.balanceCents })
+          .from(giftCards)
+          .where(eq(giftCards.id, giftCard.id))
+          .for('update');
+
+        if (!stored) {
+          await tx.insert(giftCards).values({
+            id: giftCard.id,
+            code: giftCard.code,
+            initialBalanceCents: giftCard.initialBalance.minorUnits,
+            balanceCents: giftCard.balance.minorUnits,
+            currency: giftCard.balance.currency,
+            status: giftCard.status,
+            expiresAt: giftCard.expiresAt,
+            issuedBy: giftCard.issuedBy,
+            createdAt: giftCard.createdAt,
+            updatedAt: giftCard.updatedAt,
+          });
+        } else {
+          if (stored.balanceCents + pendingDelta !== giftCard.balance.minorUnits) {
+            throw new ConflictError('Gift card balance', {
+              giftCardId: giftCard.id,
+            });
+          }
+
+          await tx
+            .update(giftCards)
+            .set({
+              balanceCents: giftCard.balance.minorUnits,
+              status: giftCard.status,
+              updatedAt: new Date(),
+            })
+            .where(eq(giftCards.id, giftCard.id));
+        }
+
+        if (pending.length > 0) {
+          await tx.insert(giftCardTransactions).values(pending.map(transaction => ({
+            id: transaction.id,
+            giftCardId: giftCard.id,
+            type: transaction.type,
+            amountCents: transaction.amount.minorUnits,
+            orderId: transaction.orderId,
+            createdAt: transaction.createdAt,
+          })));
+        }
+      });
+
+      giftCard.markTransactionsPersisted();
+      giftCard.clearEvents();
+      return Ok(giftCard);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save gift card'));
+    }
+  }
+
+  private async loadWithTransactions(dbGiftCard: DBGiftCard): Promise<GiftCard> {
+    const dbTransactions = await db
+      .select()
+      .from(giftCardTransactions)
+      .where(eq(giftCardTransactions.giftCardId, dbGiftCard.id))
+      .orderBy(asc(giftCardTransactions.createdAt));
+
+    return GiftCard.reconstitute({
+      id: dbGiftCard.id,
+      code: dbGiftCard.code,
+      initialBalance: Money.fromCents(dbGiftCard.initialBalanceCents, dbGiftCard.currency),
+      balance: Money.fromCents(dbGiftCard.balanceCents, dbGiftCard.currency),
+      status: dbGiftCard.status,
+      expiresAt: dbGiftCard.expiresAt,
+      issuedBy: dbGiftCard.issuedBy,
+      transactions: dbTransactions.map(dbTransaction => this.toTransaction(dbTransaction, dbGiftCard)),
+      createdAt: dbGiftCard.createdAt,
+      updatedAt: dbGiftCard.updatedAt,
+    });
+  }
+
+  private toTransaction(dbTransaction: DBGiftCardTransaction, dbGiftCard: DBGiftCard): GiftCardTransaction {
+    return {
+      id: dbTransaction.id,
+      type: dbTransaction.type,
+      amount: Money.fromCents(dbTransaction.amountCents, dbGiftCard.currency),
+      orderId: dbTransaction.orderId,
+      createdAt: dbTransaction.createdAt,
+    };
+  }
+}
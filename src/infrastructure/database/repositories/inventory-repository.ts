@@ -0,0 +1,173 @@
+import { and, asc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { db } from '../connection';
+import { stockLevels, stockMovements, type StockLevel as DBStockLevel } from '../schema';
+import { StockLevel, roundQuantity, stockMovementDelta, type StockMovement } from '@/domain/inventory/stock-level';
+import type { InventoryRepository } from '@/domain/inventory/inventory-repository';
+import { Result, Ok, Err, ConflictError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+import { DomainEventDispatcher } from '@/infrastructure/events/domain-event-dispatcher';
+
+export class DrizzleInventoryRepository implements InventoryRepository {
+  private eventDispatcher = DomainEventDispatcher.getInstance();
+
+  async findStockLevels(storeId: ID, ingredientIds: ID[]): Promise<Result<StockLevel[], Error>> {
+    if (ingredientIds.length === 0) {
+      return Ok([]);
+    }
+
+    try {
+      const rows = await db
+        .select()
+        .from(stockLevels)
+        .where(and(eq(stockLevels.storeId, storeId), inArray(stockLevels.ingredientId, ingredientIds)));
+
+      return Ok(rows.map(row => this.toDomain(row)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load stock levels'));
+    }
+  }
+
+  async findStockLevelsByStore(storeId: ID): Promise<Result<StockLevel[], Error>> {
+    try {
+      const rows = await db.select().from(stockLevels).where(eq(stockLevels.storeId, storeId));
+
+      return Ok(rows.map(row => this.toDomain(row)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load stock levels'));
+    }
+  }
+
+  async findMovementsByOrderId(orderId: ID): Promise<Result<StockMovement[], Error>> {
+    try {
+      const rows = await db
+        .select({
+          id: stockMovements.id,
+          storeId: stockLevels.storeId,
+          ingredientId: stockLevels.ingredientId,
+          type: stockMovements.type,
+          quantity: stockMovements.quantity,
+          orderId: stockMovements.orderId,
+          createdAt: stockMovements.createdAt,
+        })
+        .from(stockMovements)
+        .innerJoin(stockLevels, eq(stockMovements.stockLevelId, stockLevels.id))
+        .where(eq(stockMovements.orderId, orderId))
+        .orderBy(asc(stockMovements.createdAt));
+
+      return Ok(rows.map(row => ({ ...row, quantity: Number(row.quantity) })));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load stock movements'));
+    }
+  }
+
+  async findConsumptionSince(storeId: ID, since: Date): Promise<Result<Map<ID, number>, Error>> {
+    try {
+      const rows = await db
+        .select({
+          ingredientId: stockLevels.ingredientId,
+          consumed: sql<string>`coalesce(sum(${stockMovements.quantity}), 0)`,
+        })
+        .from(stockMovements)
+        .innerJoin(stockLevels, eq(stockMovements.stockLevelId, stockLevels.id))
+        .where(and(
+          eq(stockLevels.storeId, storeId),
+          eq(stockMovements.type, 'CONSUME'),
+          gte(stockMovements.createdAt, since)
+        ))
+        .groupBy(stockLevels.ingredientId);
+
+      return Ok(new Map(rows.map(row => [row.ingredientId, Number(row.consumed)])));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load stock consumption'));
+    }
+  }
+
+  async save(levels: StockLevel[]): Promise<Result<StockLevel[], ConflictError | Error>> {
+    try {
+      await db.transaction(async (tx) => {
+        for (const level of levels) {
+          const pending = level.pendingMovements;
+          const onHandDelta = pending.reduce((total, movement) => total + stockMovementDelta(movement).onHand, 0);
+          const reservedDelta = pending.reduce((total, movement) => total + stockMovementDelta(movement).reserved, 0);
+
+          // Same compare-and-set as gift cards: two orders confirmed at once against the same
+          // shelf give one success and one conflict instead of a lost reservation
+          const [stored] = await tx
+            .select({ onHand: stockLevels.onHand, reserved: stockLevels.reserved })
+            .from(stockLevels)
+            .where(eq(stockLevels.id, level.id))
+            .for('update');
+
+          if (!stored) {
+            await tx.insert(stockLevels).values({
+              id: level.id,
+              storeId: level.storeId,
+              ingredientId: level.ingredientId,
+              onHand: level.onHand.toString(),
+              reserved: level.reserved.toString(),
+              parLevel: level.parLevel.toString(),
+              createdAt: level.createdAt,
+              updatedAt: level.updatedAt,
+            });
+          } else {
+            const moved = roundQuantity(Number(stored.onHand) + onHandDelta) !== level.onHand ||
+              roundQuantity(Number(stored.reserved) + reservedDelta) !== level.reserved;
+            if (moved) {
+              throw new ConflictError('Stock level', {
+                storeId: level.storeId,
+                ingredientId: level.ingredientId,
+              });
+            }
+
+            await tx
+              .update(stockLevels)
+              .set({
+                onHand: level.onHand.toString(),
+                reserved: level.reserved.toString(),
+                parLevel: level.parLevel.toString(),
+                updatedAt: new Date(),
+              })
+              .where(eq(stockLevels.id, level.id));
+          }
+
+          if (pending.length > 0) {
+            await tx.insert(stockMovements).values(pending.map(movement => ({
+              id: movement.id,
+              stockLevelId: level.id,
+              type: movement.type,
+              quantity: movement.quantity.toString(),
+              orderId: movement.orderId,
+              createdAt: movement.createdAt,
+            })));
+          }
+        }
+      });
+
+      const events = levels.flatMap(level => level.domainEvents);
+      for (const level of levels) {
+        level.markMovementsPersisted();
+        level.clearEvents();
+      }
+      if (events.length > 0) {
+        await this.eventDispatcher.dispatch(events);
+      }
+
+      return Ok(levels);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save stock levels'));
+    }
+  }
+
+  private toDomain(row: DBStockLevel): StockLevel {
+    return StockLevel.reconstitute({
+      id: row.id,
+      storeId: row.storeId,
+      ingredientId: row.ingredientId,
+      onHand: Number(row.onHand),
+      reserved: Number(row.reserved),
+      parLevel: Number(row.parLevel),
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import { asc, eq, sql } from 'drizzle-orm';
+import { db } from '../connection';
+import {
+  loyaltyLedger,
+  users,
+  type LoyaltyLedgerEntry as DBLoyaltyLedgerEntry,
+  type NewLoyaltyLedgerEntry,
+} from '../schema';
+import type { LoyaltyLedgerEntry } from '@/domain/loyalty/loyalty';
+import type { LoyaltyRepository } from '@/domain/loyalty/loyalty-repository';
+import { Result, Ok, Err, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzleLoyaltyRepository implements LoyaltyRepository {
+  async findByCustomerId(customerId: ID): Promise<Result<LoyaltyLedgerEntry[], Error>> {
+    try {
+      const dbEntries = await db
+        .select()
+        .from(loyaltyLedger)
+        .where(eq(loyaltyLedger.customerId, customerId))
+        .orderBy(asc(loyaltyLedger.createdAt));
+
+      return Ok(dbEntries.map(dbEntry => this.toDomain(dbEntry)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load loyalty ledger'));
+    }
+  }
+
+  async findByOrderId(orderId: ID): Promise<Result<LoyaltyLedgerEntry[], Error>> {
+    try {
+      const dbEntries = await db
+        .select()
+        .from(loyaltyLedger)
+        .where(eq(loyaltyLedger.orderId, orderId))
+        .orderBy(asc(loyaltyLedger.createdAt));
+
+      return Ok(dbEntries.map(dbEntry => this.toDomain(dbEntry)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load loyalty ledger'));
+    }
+  }
+
+  async append(entries: LoyaltyLedgerEntry[]): Promise<Result<void, Error>> {
+    if (entries.length === 0) {
+      return Ok(undefined);
+    }
+
+    try {
+      await db
+        .insert(loyaltyLedger)
+        .values(entries.map(entry => this.fromDomain(entry)))
+        .onConflictDoNothing({ target: [loyaltyLedger.type, loyaltyLedger.reference] });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to append loyalty entries'));
+    }
+  }
+
+  async redeem(entry: LoyaltyLedgerEntry): Promise<Result<void, BusinessRuleViolationError | Error>> {
+    try {
+      await db.transaction(async (tx) => {
+        // Locking the customer row serializes checkouts that spend from the same balance
+        await tx
+          .select({ id: users.id })
+          .from(users)
+          .where(eq(users.id, entry.customerId))
+          .for('update');
+
+        const [row] = await tx
+          .select({ balance: sql<string>`coalesce(sum(${loyaltyLedger.points}), 0)` })
+          .from(loyaltyLedger)
+          .where(eq(loyaltyLedger.customerId, entry.customerId));
+
+        if (Number(row.balance) + entry.points < 0) {
+          throw new BusinessRuleViolationError('Not enough loyalty points', {
+            balance: Number(row.balance),
+            requested: -entry.points,
+          });
+        }
+
+        await tx.insert(loyaltyLedger).values(this.fromDomain(entry));
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to redeem loyalty points'));
+    }
+  }
+
+  private toDomain(dbEntry: DBLoyaltyLedgerEntry): LoyaltyLedgerEntry {
+    return {
+      id: dbEntry.id,
+      customerId: dbEntry.customerId,
+      orderId: dbEntry.orderId,
+      type: dbEntry.type,
+      points: dbEntry.points,
+      reference: dbEntry.reference,
+      description: dbEntry.description,
+      createdAt: dbEntry.createdAt,
+    };
+  }
+
+  private fromDomain(entry: LoyaltyLedgerEntry): NewLoyaltyLedgerEntry {
+    return {
+      id: entry.id,
+      customerId: entry.customerId,
+      orderId: entry.orderId,
+      type: entry.type,
+      points: entry.points,
+      reference: entry.reference,
+      description: entry.description,
+      createdAt: entry.createdAt,
+    };
+  }
+}
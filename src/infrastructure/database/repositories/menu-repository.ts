@@ -0,0 +1,235 @@
+import { and, eq, inArray, type SQL } from 'drizzle-orm';
+import { db } from '../connection';
+import {
+  pizzaRecipes,
+  ingredients,
+  pizzaRecipeIngredients,
+  products,
+  bundles,
+  type PizzaRecipe as DBPizzaRecipe,
+  type Ingredient as DBIngredient,
+  type Product as DBProduct,
+  type Bundle as DBBundle,
+} from '../schema';
+import { PizzaRecipe, Ingredient } from '@/domain/menu/pizza';
+import { Product } from '@/domain/menu/product';
+import { Bundle, BundleChoiceGroupSchema } from '@/domain/menu/bundle';
+import { AvailabilityScheduleSchema } from '@/domain/menu/availability-schedule';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzleMenuRepository implements MenuRepository {
+  async findAvailableRecipesByIds(ids: ID[]): Promise<Result<PizzaRecipe[], Error>> {
+    if (ids.length === 0) {
+      return Ok([]);
+    }
+
+    return this.findRecipesWhere(and(inArray(pizzaRecipes.id, ids), eq(pizzaRecipes.isAvailable, true))!);
+  }
+
+  async findRecipesByIds(ids: ID[]): Promise<Result<PizzaRecipe[], Error>> {
+    if (ids.length === 0) {
+      return Ok([]);
+    }
+
+    return this.findRecipesWhere(inArray(pizzaRecipes.id, ids));
+  }
+
+  async findAvailableRecipes(): Promise<Result<PizzaRecipe[], Error>> {
+    return this.findRecipesWhere(eq(pizzaRecipes.isAvailable, true));
+  }
+
+  async findIngredientsByIds(ids: ID[]): Promise<Result<Ingredient[], Error>> {
+    if (ids.length === 0) {
+      return Ok([]);
+    }
+
+    try {
+      const dbIngredients = await db
+        .select()
+        .from(ingredients)
+        .where(inArray(ingredients.id, ids));
+
+      const result: Ingredient[] = [];
+      for (const dbIngredient of dbIngredients) {
+        const ingredientResult = this.toDomainIngredient(dbIngredient);
+        if (ingredientResult.isErr()) {
+          return Err(ingredientResult.error);
+        }
+        result.push(ingredientResult.value);
+      }
+
+      return Ok(result);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load ingredients'));
+    }
+  }
+
+  async saveIngredient(ingredient: Ingredient): Promise<Result<Ingredient, Error>> {
+    try {
+      await db
+        .update(ingredients)
+        .set({
+          isAvailable: ingredient.isAvailable,
+          costPerUnitCents: ingredient.costPerUnit?.toCents() ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(ingredients.id, ingredient.id));
+
+      return Ok(ingredient);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save ingredient'));
+    }
+  }
+
+  async findAvailableProductsByIds(ids: ID[]): Promise<Result<Product[], Error>> {
+    if (ids.length === 0) {
+      return Ok([]);
+    }
+
+    try {
+      const dbProducts = await db
+        .select()
+        .from(products)
+        .where(and(inArray(products.id, ids), eq(products.isAvailable, true)));
+
+      const result: Product[] = [];
+      for (const dbProduct of dbProducts) {
+        const productResult = this.toDomainProduct(dbProduct);
+        if (productResult.isErr()) {
+          return Err(productResult.error);
+        }
+        result.push(productResult.value);
+      }
+
+      return Ok(result);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load products'));
+    }
+  }
+
+  async findAvailableBundlesByIds(ids: ID[]): Promise<Result<Bundle[], Error>> {
+    if (ids.length === 0) {
+      return Ok([]);
+    }
+
+    try {
+      const dbBundles = await db
+        .select()
+        .from(bundles)
+        .where(and(inArray(bundles.id, ids), eq(bundles.isAvailable, true)));
+
+      const result: Bundle[] = [];
+      for (const dbBundle of dbBundles) {
+        const bundleResult = this.toDomainBundle(dbBundle);
+        if (bundleResult.isErr()) {
+          return Err(bundleResult.error);
+        }
+        result.push(bundleResult.value);
+      }
+
+      return Ok(result);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load bundles'));
+    }
+  }
+
+  private async findRecipesWhere(condition: SQL): Promise<Result<PizzaRecipe[], Error>> {
+    try {
+      const dbRecipes = await db
+        .select()
+        .from(pizzaRecipes)
+        .where(condition);
+
+      if (dbRecipes.length === 0) {
+        return Ok([]);
+      }
+
+      const recipeIngredients = await db
+        .select()
+        .from(pizzaRecipeIngredients)
+        .where(inArray(pizzaRecipeIngredients.recipeId, dbRecipes.map(recipe => recipe.id)));
+
+      const ingredientsByRecipe = new Map<ID, Map<ID, number>>();
+      for (const row of recipeIngredients) {
+        if (!ingredientsByRecipe.has(row.recipeId)) {
+          ingredientsByRecipe.set(row.recipeId, new Map());
+        }
+        ingredientsByRecipe.get(row.recipeId)!.set(row.ingredientId, Number(row.quantity));
+      }
+
+      const recipes: PizzaRecipe[] = [];
+      for (const dbRecipe of dbRecipes) {
+        const recipeResult = this.toDomainRecipe(
+          dbRecipe,
+          ingredientsByRecipe.get(dbRecipe.id) || new Map()
+        );
+        if (recipeResult.isErr()) {
+          return Err(recipeResult.error);
+        }
+        recipes.push(recipeResult.value);
+      }
+
+      return Ok(recipes);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load pizza recipes'));
+    }
+  }
+
+  private toDomainRecipe(dbRecipe: DBPizzaRecipe, recipeIngredients: Map<ID, number>) {
+    return PizzaRecipe.create({
+      id: dbRecipe.id,
+      name: dbRecipe.name,
+      description: dbRecipe.description,
+      ingredients: recipeIngredients,
+      basePrice: Money.fromCents(dbRecipe.basePriceCents, dbRecipe.currency),
+      preparationTimeMinutes: dbRecipe.preparationTimeMinutes,
+      difficulty: dbRecipe.difficulty,
+      versionId: dbRecipe.versionId,
+      availability: dbRecipe.availability ? AvailabilityScheduleSchema.parse(dbRecipe.availability) : null,
+    });
+  }
+
+  private toDomainIngredient(dbIngredient: DBIngredient) {
+    return Ingredient.create({
+      id: dbIngredient.id,
+      name: dbIngredient.name,
+      category: dbIngredient.category,
+      pricePerUnit: Money.fromCents(dbIngredient.pricePerUnitCents, dbIngredient.currency),
+      costPerUnit: dbIngredient.costPerUnitCents !== null
+        ? Money.fromCents(dbIngredient.costPerUnitCents, dbIngredient.currency)
+        : null,
+      isAvailable: dbIngredient.isAvailable,
+      allergens: dbIngredient.allergens || [],
+      nutrition: dbIngredient.nutrition,
+      isVegetarian: dbIngredient.isVegetarian ?? undefined,
+      isVegan: dbIngredient.isVegan ?? undefined,
+    });
+  }
+
+  private toDomainProduct(dbProduct: DBProduct) {
+    return Product.create({
+      id: dbProduct.id,
+      name: dbProduct.name,
+      description: dbProduct.description,
+      category: dbProduct.category,
+      price: Money.fromCents(dbProduct.priceCents, dbProduct.currency),
+      isAvailable: dbProduct.isAvailable,
+      availability: dbProduct.availability ? AvailabilityScheduleSchema.parse(dbProduct.availability) : null,
+    });
+  }
+
+  private toDomainBundle(dbBundle: DBBundle) {
+    return Bundle.create({
+      id: dbBundle.id,
+      name: dbBundle.name,
+      description: dbBundle.description,
+      price: Money.fromCents(dbBundle.priceCents, dbBundle.currency),
+      choiceGroups: dbBundle.choiceGroups.map(group => BundleChoiceGroupSchema.parse(group)),
+      isAvailable: dbBundle.isAvailable,
+      availability: dbBundle.availability ? AvailabilityScheduleSchema.parse(dbBundle.availability) : null,
+    });
+  }
+}
@@ -0,0 +1,234 @@
+import { and, asc, eq, inArray, lte, notInArray } from 'drizzle-orm';
+import { db } from '../connection';
+import {
+  menuVersions,
+  menuVersionRecipes,
+  pizzaRecipes,
+  pizzaRecipeIngredients,
+  type MenuVersion as DBMenuVersion,
+  type MenuVersionRecipe as DBMenuVersionRecipe,
+} from '../schema';
+import { MenuVersion, type MenuVersionRecipe } from '@/domain/menu/menu-version';
+import { PizzaRecipe } from '@/domain/menu/pizza';
+import { AvailabilityScheduleSchema } from '@/domain/menu/availability-schedule';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class DrizzleMenuVersionRepository implements MenuVersionRepository {
+  async findById(id: ID): Promise<Result<MenuVersion, NotFoundError>> {
+    try {
+      const [dbVersion] = await db.select().from(menuVersions).where(eq(menuVersions.id, id)).limit(1);
+
+      if (!dbVersion) {
+        return Err(new NotFoundError('MenuVersion', id));
+      }
+
+      const [version] = await this.withRecipes([dbVersion]);
+      return Ok(version);
+    } catch {
+      return Err(new NotFoundError('MenuVersion', id));
+    }
+  }
+
+  async findPublished(): Promise<Result<MenuVersion | null, Error>> {
+    try {
+      const [dbVersion] = await db.select().from(menuVersions).where(eq(menuVersions.status, 'PUBLISHED')).limit(1);
+
+      if (!dbVersion) {
+        return Ok(null);
+      }
+
+      const [version] = await this.withRecipes([dbVersion]);
+      return Ok(version);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load published menu version'));
+    }
+  }
+
+  async findDue(now: Date): Promise<Result<MenuVersion[], Error>> {
+    try {
+      const dbVersions = await db
+        .select()
+        .from(menuVersions)
+        .where(and(eq(menuVersions.status, 'SCHEDULED'), lte(menuVersions.publishAt, now)))
+        .orderBy(asc(menuVersions.publishAt));
+
+      return Ok(await this.withRecipes(dbVersions));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load scheduled menu versions'));
+    }
+  }
+
+  async findRecipesByVersionIds(ids: ID[]): Promise<Result<PizzaRecipe[], Error>> {
+    if (ids.length === 0) {
+      return Ok([]);
+    }
+
+    try {
+      const dbRecipes = await db.select().from(menuVersionRecipes).where(inArray(menuVersionRecipes.id, ids));
+      return Ok(dbRecipes.map(dbRecipe => this.toDomainRecipe(dbRecipe).recipe));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load menu version recipes'));
+    }
+  }
+
+  async save(version: MenuVersion): Promise<Result<MenuVersion, Error>> {
+    try {
+      await db.transaction(async (tx) => {
+        await this.saveVersion(tx, version);
+      });
+
+      return Ok(version);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save menu version'));
+    }
+  }
+
+  async publish(version: MenuVersion, replaced: MenuVersion[]): Promise<Result<MenuVersion, Error>> {
+    try {
+      await db.transaction(async (tx) => {
+        for (const replacedVersion of replaced) {
+          await this.saveVersion(tx, replacedVersion);
+        }
+        await this.saveVersion(tx, version);
+
+        for (const entry of version.recipes) {
+          const values = {
+            name: entry.recipe.name,
+            description: entry.recipe.description,
+            basePriceCents: entry.recipe.basePrice.toCents(),
+            currency: entry.recipe.basePrice.currency,
+            preparationTimeMinutes: entry.recipe.preparationTimeMinutes,
+            difficulty: entry.recipe.difficulty,
+            isAvailable: entry.isAvailable,
+            availability: entry.recipe.availability,
+            versionId: entry.id,
+            updatedAt: new Date(),
+          };
+
+          await tx
+            .insert(pizzaRecipes)
+            .values({ id: entry.recipe.id, ...values })
+            .onConflictDoUpdate({ target: pizzaRecipes.id, set: values });
+
+          await tx.delete(pizzaRecipeIngredients).where(eq(pizzaRecipeIngredients.recipeId, entry.recipe.id));
+          await tx.insert(pizzaRecipeIngredients).values(
+            Array.from(entry.recipe.ingredients, ([ingredientId, quantity]) => ({
+              recipeId: entry.recipe.id,
+              ingredientId,
+              quantity: quantity.toString(),
+            }))
+          );
+        }
+
+        const recipeIds = version.recipes.map(entry => entry.recipe.id);
+        await tx
+          .update(pizzaRecipes)
+          .set({ isAvailable: false, updatedAt: new Date() })
+          .where(recipeIds.length > 0 ? notInArray(pizzaRecipes.id, recipeIds) : undefined);
+      });
+
+      return Ok(version);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to publish menu version'));
+    }
+  }
+
+  private async saveVersion(tx: Transaction, version: MenuVersion): Promise<void> {
+    await tx
+      .insert(menuVersions)
+      .values({
+        id: version.id,
+        name: version.name,
+        status: version.status,
+        basedOnId: version.basedOnId,
+        publishAt: version.publishAt,
+        publishedAt: version.publishedAt,
+        createdBy: version.createdBy,
+        createdAt: version.createdAt,
+        updatedAt: version.updatedAt,
+      })
+      .onConflictDoUpdate({
+        target: menuVersions.id,
+        set: {
+          status: version.status,
+          publishAt: version.publishAt,
+          publishedAt: version.publishedAt,
+          updatedAt: new Date(),
+        },
+      });
+
+    // Recipes only change while the version is a draft, which nothing points at yet
+    if (version.status !== 'DRAFT') {
+      return;
+    }
+
+    await tx.delete(menuVersionRecipes).where(eq(menuVersionRecipes.menuVersionId, version.id));
+    if (version.recipes.length > 0) {
+      await tx.insert(menuVersionRecipes).values(version.recipes.map(entry => ({
+        id: entry.id,
+        menuVersionId: version.id,
+        recipeId: entry.recipe.id,
+        name: entry.recipe.name,
+        description: entry.recipe.description,
+        basePriceCents: entry.recipe.basePrice.toCents(),
+        currency: entry.recipe.basePrice.currency,
+        preparationTimeMinutes: entry.recipe.preparationTimeMinutes,
+        difficulty: entry.recipe.difficulty,
+        isAvailable: entry.isAvailable,
+        availability: entry.recipe.availability,
+        ingredients: Object.fromEntries(entry.recipe.ingredients),
+      })));
+    }
+  }
+
+  private async withRecipes(dbVersions: DBMenuVersion[]): Promise<MenuVersion[]> {
+    if (dbVersions.length === 0) {
+      return [];
+    }
+
+    const dbRecipes = await db
+      .select()
+      .from(menuVersionRecipes)
+      .where(inArray(menuVersionRecipes.menuVersionId, dbVersions.map(dbVersion => dbVersion.id)));
+
+    return dbVersions.map(dbVersion => MenuVersion.reconstitute({
+      id: dbVersion.id,
+      name: dbVersion.name,
+      recipes: dbRecipes
+        .filter(dbRecipe => dbRecipe.menuVersionId === dbVersion.id)
+        .map(dbRecipe => this.toDomainRecipe(dbRecipe)),
+      basedOnId: dbVersion.basedOnId,
+      createdBy: dbVersion.createdBy,
+      status: dbVersion.status,
+      publishAt: dbVersion.publishAt,
+      publishedAt: dbVersion.publishedAt,
+      createdAt: dbVersion.createdAt,
+      updatedAt: dbVersion.updatedAt,
+    }));
+  }
+
+  private toDomainRecipe(dbRecipe: DBMenuVersionRecipe): MenuVersionRecipe {
+    const recipeResult = PizzaRecipe.create({
+      id: dbRecipe.recipeId,
+      name: dbRecipe.name,
+      description: dbRecipe.description,
+      ingredients: new Map(Object.entries(dbRecipe.ingredients)),
+      basePrice: Money.fromCents(dbRecipe.basePriceCents, dbRecipe.currency),
+      preparationTimeMinutes: dbRecipe.preparationTimeMinutes,
+      difficulty: dbRecipe.difficulty,
+      versionId: dbRecipe.id,
+      availability: dbRecipe.availability ? AvailabilityScheduleSchema.parse(dbRecipe.availability) : null,
+    });
+
+    if (recipeResult.isErr()) {
+      throw recipeResult.error;
+    }
+
+    return { id: dbRecipe.id, recipe: recipeResult.value, isAvailable: dbRecipe.isAvailable };
+  }
+}
@@ -0,0 +1,599 @@
+import { and, desc, eq, gte, inArray, lte, ne, sql, type SQL } from 'drizzle-orm';
+import { db } from '../connection';
+import {
+  orders,
+  orderItems,
+  orderStatusHistory,
+  pizzaRecipes,
+  refunds,
+  type Order as DBOrder,
+  type NewOrder,
+  type OrderItem as DBOrderItem,
+  type NewOrderItem,
+  type NewOrderStatusHistory,
+  type Refund as DBRefund,
+  type NewRefund,
+} from '../schema';
+import {
+  Order,
+  OrderCreatedEvent,
+  OrderStatusChangedEvent,
+  ACTIVE_ORDER_STATUSES,
+  type OrderItem,
+  type OrderRefund,
+  type OrderStatus,
+} from '@/domain/order/order';
+import type { OrderRepository, PopularPizza } from '@/domain/order/order-repository';
+import { OrderNumber } from '@/domain/order/order-number';
+import type { OrderStatusHistoryEntry } from '@/domain/order/order-timeline';
+import {
+  Pizza,
+  PizzaSizeSchema,
+  PizzaCrustSchema,
+  PizzaSectionPositionSchema,
+  IngredientModifierTypeSchema,
+} from '@/domain/menu/pizza';
+import { ProductCategorySchema } from '@/domain/menu/product';
+import { BundleChoiceKindSchema } from '@/domain/menu/bundle';
+import { Money, type Currency } from '@/domain/shared/money';
+import { ExchangeRateSchema } from '@/domain/shared/exchange-rate';
+import { TaxCategorySchema } from '@/domain/tax/tax-engine';
+import { DiscountTargetSchema } from '@/domain/promotion/promotion';
+import { Result, Ok, Err, NotFoundError, ConflictError } from '@/domain/shared/result';
+import type { ID, DomainEvent } from '@/domain/shared/types';
+import { DomainEventDispatcher } from '@/infrastructure/events/domain-event-dispatcher';
+
+export class DrizzleOrderRepository implements OrderRepository {
+  private eventDispatcher = DomainEventDispatcher.getInstance();
+
+  async findById(id: ID): Promise<Result<Order, NotFoundError | Error>> {
+    try {
+      const [found] = await this.findWhere(eq(orders.id, id));
+
+      if (!found) {
+        return Err(new NotFoundError('Order', id));
+      }
+
+      return Ok(found);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load order'));
+    }
+  }
+
+  async findByOrderNumber(orderNumber: string): Promise<Result<Order, NotFoundError | Error>> {
+    const parsed = OrderNumber.parse(orderNumber);
+    if (parsed.isErr()) {
+      return Err(new NotFoundError('Order', orderNumber));
+    }
+
+    try {
+      const [found] = await this.findWhere(eq(orders.orderNumber, parsed.value.value));
+
+      if (!found) {
+        return Err(new NotFoundError('Order', orderNumber));
+      }
+
+      return Ok(found);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load order'));
+    }
+  }
+
+  async findByCustomerId(customerId: ID): Promise<Result<Order[], Error>> {
+    return this.findManyWhere(eq(orders.customerId, customerId));
+  }
+
+  async findByStatus(status: OrderStatus): Promise<Result<Order[], Error>> {
+    return this.findManyWhere(eq(orders.status, status));
+  }
+
+  async findActiveOrders(): Promise<Result<Order[], Error>> {
+    return this.findManyWhere(inArray(orders.status, ACTIVE_ORDER_STATUSES));
+  }
+
+  async getTotalRevenue(currency: Currency): Promise<Result<Money, Error>> {
+    return this.sumRevenue(currency);
+  }
+
+  async getRevenueByDateRange(startDate: Date, endDate: Date, currency: Currency): Promise<Result<Money, Error>> {
+    return this.sumRevenue(
+      currency,
+      gte(orders.createdAt, startDate),
+      lte(orders.createdAt, endDate)
+    );
+  }
+
+  async findDeliveredByDateRange(startDate: Date, endDate: Date, currency: Currency): Promise<Result<Order[], Error>> {
+    return this.findManyWhere(and(
+      eq(orders.status, 'DELIVERED'),
+      eq(orders.currency, currency),
+      gte(orders.createdAt, startDate),
+      lte(orders.createdAt, endDate)
+    )!);
+  }
+
+  async findPopularPizzas(limit: number): Promise<Result<PopularPizza[], Error>> {
+    try {
+      const quantitySold = sql<string>`sum(${orderItems.quantity})`;
+
+      const rows = await db
+        .select({
+          recipeId: orderItems.recipeId,
+          recipeName: pizzaRecipes.name,
+          orderCount: sql<string>`count(distinct ${orderItems.orderId})`,
+          quantitySold,
+        })
+        .from(orderItems)
+        .innerJoin(orders, eq(orderItems.orderId, orders.id))
+        .innerJoin(pizzaRecipes, eq(orderItems.recipeId, pizzaRecipes.id))
+        .where(ne(orders.status, 'CANCELLED'))
+        .groupBy(orderItems.recipeId, pizzaRecipes.name)
+        .orderBy(desc(quantitySold))
+        .limit(limit);
+
+      return Ok(rows.map(row => ({
+        recipeId: row.recipeId!,
+        recipeName: row.recipeName,
+        orderCount: Number(row.orderCount),
+        quantitySold: Number(row.quantitySold),
+      })));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load popular pizzas'));
+    }
+  }
+
+  async findStatusHistory(orderId: ID): Promise<Result<OrderStatusHistoryEntry[], Error>> {
+    try {
+      const rows = await db
+        .select()
+        .from(orderStatusHistory)
+        .where(eq(orderStatusHistory.orderId, orderId))
+        .orderBy(orderStatusHistory.occurredAt);
+
+      return Ok(rows.map(row => ({
+        orderId: row.orderId,
+        previousStatus: row.previousStatus,
+        newStatus: row.newStatus,
+        actorId: row.actorId,
+        reason: row.reason,
+        occurredAt: row.occurredAt,
+      })));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load order status history'));
+    }
+  }
+
+  async save(order: Order): Promise<Result<Order, ConflictError | Error>> {
+    try {
+      const dbOrder = this.fromDomain(order);
+      const dbItems = this.itemsFromDomain(order);
+      const dbRefunds = this.refundsFromDomain(order);
+      const events = order.domainEvents;
+      const dbHistory = this.historyFromEvents(order, events);
+
+      await db.transaction(async (tx) => {
+        // Compare-and-set on the version: of two saves from the same copy only the first lands,
+        // and the other rolls back with everything it would have written alongside
+        const saved = await tx
+          .insert(orders)
+          .values(dbOrder)
+          .onConflictDoUpdate({
+            target: orders.id,
+            set: {
+              status: dbOrder.status,
+              paymentStatus: dbOrder.paymentStatus,
+              estimatedDeliveryTime: dbOrder.estimatedDeliveryTime,
+              version: dbOrder.version,
+              updatedAt: new Date(),
+            },
+            setWhere: eq(orders.version, order.version),
+          })
+          .returning({ id: orders.id });
+
+        if (saved.length === 0) {
+          throw new ConflictError('Order', { orderId: order.id });
+        }
+
+        // Order lines are immutable once placed, so existing rows are left untouched
+        await tx
+          .insert(orderItems)
+          .values(dbItems)
+          .onConflictDoNothing({ target: orderItems.id });
+
+        // Refund entries are never removed; a pending one only changes when it settles
+        if (dbRefunds.length > 0) {
+          await tx
+            .insert(refunds)
+            .values(dbRefunds)
+            .onConflictDoUpdate({
+              target: refunds.id,
+              set: {
+                status: sql`excluded.status`,
+                providerReference: sql`excluded.provider_reference`,
+              },
+            });
+        }
+
+        // History is written with the status it describes, so the two never disagree
+        if (dbHistory.length > 0) {
+          await tx.insert(orderStatusHistory).values(dbHistory);
+        }
+      });
+
+      // Dispatch domain events
+      order.markPersisted();
+      order.clearEvents();
+      if (events.length > 0) {
+        await this.eventDispatcher.dispatch(events);
+      }
+
+      return Ok(order);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save order'));
+    }
+  }
+
+  private async findManyWhere(condition: SQL): Promise<Result<Order[], Error>> {
+    try {
+      return Ok(await this.findWhere(condition));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load orders'));
+    }
+  }
+
+  private async findWhere(condition: SQL): Promise<Order[]> {
+    const dbOrders = await db
+      .select()
+      .from(orders)
+      .where(condition)
+      .orderBy(desc(orders.createdAt));
+
+    if (dbOrders.length === 0) {
+      return [];
+    }
+
+    const dbItems = await db
+      .select()
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, dbOrders.map(dbOrder => dbOrder.id)))
+      .orderBy(orderItems.createdAt);
+
+    const dbRefunds = await db
+      .select()
+      .from(refunds)
+      .where(inArray(refunds.orderId, dbOrders.map(dbOrder => dbOrder.id)))
+      .orderBy(refunds.createdAt);
+
+    const itemsByOrder = new Map<ID, DBOrderItem[]>();
+    for (const dbItem of dbItems) {
+      if (!itemsByOrder.has(dbItem.orderId)) {
+        itemsByOrder.set(dbItem.orderId, []);
+      }
+      itemsByOrder.get(dbItem.orderId)!.push(dbItem);
+    }
+
+    const refundsByOrder = new Map<ID, DBRefund[]>();
+    for (const dbRefund of dbRefunds) {
+      if (!refundsByOrder.has(dbRefund.orderId)) {
+        refundsByOrder.set(dbRefund.orderId, []);
+      }
+      refundsByOrder.get(dbRefund.orderId)!.push(dbRefund);
+    }
+
+    return dbOrders.map(dbOrder => this.toDomain(
+      dbOrder,
+      itemsByOrder.get(dbOrder.id) || [],
+      refundsByOrder.get(dbOrder.id) || []
+    ));
+  }
+
+  private async sumRevenue(currency: Currency, ...conditions: SQL[]): Promise<Result<Money, Error>> {
+    try {
+      const [row] = await db
+        .select({
+          revenueCents: sql<string>`coalesce(sum(${orders.grandTotalCents}), 0)`,
+        })
+        .from(orders)
+        .where(and(eq(orders.status, 'DELIVERED'), eq(orders.currency, currency), ...conditions));
+
+      return Ok(Money.fromCents(Number(row.revenueCents), currency));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to calculate revenue'));
+    }
+  }
+
+  private toDomain(dbOrder: DBOrder, dbItems: DBOrderItem[], dbRefunds: DBRefund[]): Order {
+    const orderNumber = OrderNumber.parse(dbOrder.orderNumber);
+    if (orderNumber.isErr()) {
+      throw orderNumber.error;
+    }
+
+    return Order.reconstitute({
+      id: dbOrder.id,
+      orderNumber: orderNumber.value,
+      customerId: dbOrder.customerId,
+      customerInfo: {
+        name: dbOrder.customerName,
+        phone: dbOrder.customerPhone,
+        email: dbOrder.customerEmail || undefined,
+      },
+      items: dbItems.map(dbItem => this.itemToDomain(dbItem)),
+      deliveryType: dbOrder.deliveryType,
+      deliveryAddress: dbOrder.deliveryAddress,
+      specialInstructions: dbOrder.specialInstructions,
+      requestedDeliveryTime: dbOrder.requestedDeliveryTime,
+      totalAmount: Money.fromCents(dbOrder.totalAmountCents, dbOrder.currency),
+      tax: Money.fromCents(dbOrder.taxCents, dbOrder.currency),
+      deliveryFee: Money.fromCents(dbOrder.deliveryFeeCents, dbOrder.currency),
+      exchangeRates: dbOrder.exchangeRates.map(rate => ExchangeRateSchema.parse(rate)),
+      taxLines: dbOrder.taxLines.map(line => ({
+        lineId: line.lineId,
+        category: TaxCategorySchema.parse(line.category),
+        ruleName: line.ruleName,
+        rate: line.rate,
+        inclusive: line.inclusive,
+        net: Money.fromCents(line.netCents, dbOrder.currency),
+        tax: Money.fromCents(line.taxCents, dbOrder.currency),
+      })),
+      deliveryZoneId: dbOrder.deliveryZoneId,
+      deliveryEtaMinutes: dbOrder.deliveryEtaMinutes,
+      storeId: dbOrder.storeId,
+      discounts: dbOrder.discounts.map(discount => ({
+        promotionId: discount.promotionId,
+        code: discount.code,
+        description: discount.description,
+        appliesTo: DiscountTargetSchema.parse(discount.appliesTo),
+        amount: Money.fromCents(discount.amountCents, dbOrder.currency),
+      })),
+      status: dbOrder.status,
+      paymentStatus: dbOrder.paymentStatus,
+      estimatedDeliveryTime: dbOrder.estimatedDeliveryTime || undefined,
+      refunds: dbRefunds.map(dbRefund => this.refundToDomain(dbRefund)),
+      version: dbOrder.version,
+      createdAt: dbOrder.createdAt,
+      updatedAt: dbOrder.updatedAt,
+    });
+  }
+
+  private itemToDomain(dbItem: DBOrderItem): OrderItem {
+    const line = {
+      id: dbItem.id,
+      quantity: dbItem.quantity,
+      unitPrice: Money.fromCents(dbItem.unitPriceCents, dbItem.currency),
+      totalPrice: Money.fromCents(dbItem.totalPriceCents, dbItem.currency),
+    };
+
+    if (dbItem.type === 'PRODUCT') {
+      return {
+        ...line,
+        type: 'PRODUCT',
+        product: {
+          productId: dbItem.productId!,
+          name: dbItem.product!.name,
+          category: ProductCategorySchema.parse(dbItem.product!.category),
+        },
+      };
+    }
+
+    if (dbItem.type === 'BUNDLE') {
+      return {
+        ...line,
+        type: 'BUNDLE',
+        bundle: {
+          bundleId: dbItem.bundleId!,
+          name: dbItem.bundle!.name,
+          components: dbItem.bundle!.components.map(component => ({
+            groupId: component.groupId,
+            kind: BundleChoiceKindSchema.parse(component.kind),
+            pizza: component.pizza
+              ? new Pizza(
+                component.pizza.recipeId,
+                PizzaSizeSchema.parse(component.pizza.size),
+                PizzaCrustSchema.parse(component.pizza.crust)
+              )
+              : null,
+            recipeVersionId: component.pizza?.recipeVersionId ?? null,
+            product: component.product
+              ? { ...component.product, category: ProductCategorySchema.parse(component.product.category) }
+              : null,
+            allocatedPrice: Money.fromCents(component.allocatedPriceCents, dbItem.currency),
+          })),
+        },
+      };
+    }
+
+    return {
+      ...line,
+      type: 'PIZZA',
+      pizza: new Pizza(
+        dbItem.recipeId!,
+        dbItem.size!,
+        dbItem.crust!,
+        new Map(Object.entries(dbItem.customIngredients || {})),
+        dbItem.specialInstructions || undefined,
+        dbItem.sections?.map(section => ({
+          position: PizzaSectionPositionSchema.parse(section.position),
+          recipeId: section.recipeId,
+          modifiers: section.modifiers.map(modifier => ({
+            ...modifier,
+            type: IngredientModifierTypeSchema.parse(modifier.type),
+          })),
+        }))
+      ),
+      dietary: dbItem.dietary
+        ? { ...dbItem.dietary, isGlutenFree: dbItem.dietary.isGlutenFree ?? false }
+        : undefined,
+      recipeVersionIds: dbItem.recipeVersionIds || [],
+    };
+  }
+
+  private refundToDomain(dbRefund: DBRefund): OrderRefund {
+    return {
+      id: dbRefund.id,
+      paymentId: dbRefund.paymentId,
+      amount: Money.fromCents(dbRefund.amountCents, dbRefund.currency),
+      orderItemIds: dbRefund.orderItemIds,
+      reason: dbRefund.reason,
+      actorId: dbRefund.actorId,
+      status: dbRefund.status,
+      providerReference: dbRefund.providerReference,
+      createdAt: dbRefund.createdAt,
+    };
+  }
+
+  private refundsFromDomain(order: Order): NewRefund[] {
+    return order.refunds.map(refund => ({
+      id: refund.id,
+      orderId: order.id,
+      paymentId: refund.paymentId,
+      amountCents: refund.amount.toCents(),
+      currency: refund.amount.currency,
+      orderItemIds: refund.orderItemIds,
+      reason: refund.reason,
+      actorId: refund.actorId,
+      status: refund.status,
+      providerReference: refund.providerReference,
+      createdAt: refund.createdAt,
+    }));
+  }
+
+  private historyFromEvents(order: Order, events: DomainEvent[]): NewOrderStatusHistory[] {
+    return events.flatMap((event): NewOrderStatusHistory[] => {
+      if (event instanceof OrderCreatedEvent) {
+        return [{
+          orderId: order.id,
+          previousStatus: null,
+          newStatus: 'PENDING',
+          actorId: event.customerId,
+          reason: null,
+          occurredAt: event.occurredOn,
+        }];
+      }
+
+      if (event instanceof OrderStatusChangedEvent) {
+        return [{
+          orderId: order.id,
+          previousStatus: event.previousStatus,
+          newStatus: event.newStatus,
+          actorId: event.actorId,
+          reason: event.reason,
+          occurredAt: event.occurredOn,
+        }];
+      }
+
+      return [];
+    });
+  }
+
+  private fromDomain(order: Order): NewOrder {
+    return {
+      id: order.id,
+      orderNumber: order.orderNumber.value,
+      customerId: order.customerId,
+      customerName: order.customerInfo.name,
+      customerPhone: order.customerInfo.phone,
+      customerEmail: order.customerInfo.email || null,
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      deliveryType: order.deliveryType,
+      deliveryAddress: order.deliveryAddress,
+      specialInstructions: order.specialInstructions,
+      requestedDeliveryTime: order.requestedDeliveryTime,
+      estimatedDeliveryTime: order.estimatedDeliveryTime,
+      totalAmountCents: order.totalAmount.toCents(),
+      taxCents: order.tax.toCents(),
+      deliveryFeeCents: order.deliveryFee.toCents(),
+      exchangeRates: order.exchangeRates.map(rate => ({ ...rate, asOf: rate.asOf.toISOString() })),
+      taxLines: order.taxLines.map(line => ({
+        lineId: line.lineId,
+        category: line.category,
+        ruleName: line.ruleName,
+        rate: line.rate,
+        inclusive: line.inclusive,
+        netCents: line.net.toCents(),
+        taxCents: line.tax.toCents(),
+      })),
+      grandTotalCents: order.grandTotal.toCents(),
+      deliveryZoneId: order.deliveryZoneId,
+      deliveryEtaMinutes: order.deliveryEtaMinutes,
+      storeId: order.storeId,
+      discounts: order.discounts.map(discount => ({
+        promotionId: discount.promotionId,
+        code: discount.code,
+        description: discount.description,
+        appliesTo: discount.appliesTo,
+        amountCents: discount.amount.toCents(),
+      })),
+      currency: order.totalAmount.currency,
+      version: order.version + 1,
+      createdAt: order.createdAt,
+      updatedAt: order.updatedAt,
+    };
+  }
+
+  private itemsFromDomain(order: Order): NewOrderItem[] {
+    return order.items.map(item => {
+      const line = {
+        id: item.id,
+        orderId: order.id,
+        type: item.type,
+        quantity: item.quantity,
+        unitPriceCents: item.unitPrice.toCents(),
+        totalPriceCents: item.totalPrice.toCents(),
+        currency: item.totalPrice.currency,
+      };
+
+      if (item.type === 'PRODUCT') {
+        return {
+          ...line,
+          productId: item.product.productId,
+          product: { name: item.product.name, category: item.product.category },
+        };
+      }
+
+      if (item.type === 'BUNDLE') {
+        return {
+          ...line,
+          bundleId: item.bundle.bundleId,
+          bundle: {
+            name: item.bundle.name,
+            components: item.bundle.components.map(component => ({
+              groupId: component.groupId,
+              kind: component.kind,
+              pizza: component.pizza
+                ? {
+                  recipeId: component.pizza.recipeId,
+                  size: component.pizza.size,
+                  crust: component.pizza.crust,
+                  recipeVersionId: component.recipeVersionId ?? null,
+                }
+                : null,
+              product: component.product,
+              allocatedPriceCents: component.allocatedPrice.toCents(),
+            })),
+          },
+        };
+      }
+
+      return {
+        ...line,
+        recipeId: item.pizza.recipeId,
+        size: item.pizza.size,
+        crust: item.pizza.crust,
+        customIngredients: item.pizza.hasCustomIngredients()
+          ? Object.fromEntries(item.pizza.customIngredients)
+          : null,
+        sections: item.pizza.hasSections()
+          ? item.pizza.sections.map(section => ({
+            position: section.position,
+            recipeId: section.recipeId,
+            modifiers: section.modifiers,
+          }))
+          : null,
+        dietary: item.dietary || null,
+        recipeVersionIds: item.recipeVersionIds || null,
+        specialInstructions: item.pizza.specialInstructions || null,
+      };
+    });
+  }
+}
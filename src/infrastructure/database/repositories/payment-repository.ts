@@ -0,0 +1,97 @@
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../connection';
+import { payments, type Payment as DBPayment, type NewPayment } from '../schema';
+import { Payment } from '@/domain/payment/payment';
+import type { PaymentRepository } from '@/domain/payment/payment-repository';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzlePaymentRepository implements PaymentRepository {
+  async findById(id: ID): Promise<Result<Payment, NotFoundError>> {
+    try {
+      const [dbPayment] = await db
+        .select()
+        .from(payments)
+        .where(eq(payments.id, id))
+        .limit(1);
+
+      if (!dbPayment) {
+        return Err(new NotFoundError('Payment', id));
+      }
+
+      return Ok(this.toDomain(dbPayment));
+    } catch {
+      return Err(new NotFoundError('Payment', id));
+    }
+  }
+
+  async findByOrderId(orderId: ID): Promise<Result<Payment[], Error>> {
+    try {
+      const dbPayments = await db
+        .select()
+        .from(payments)
+        .where(eq(payments.orderId, orderId))
+        .orderBy(desc(payments.createdAt));
+
+      return Ok(dbPayments.map(dbPayment => this.toDomain(dbPayment)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load payments'));
+    }
+  }
+
+  async save(payment: Payment): Promise<Result<Payment, Error>> {
+    try {
+      const dbPayment = this.fromDomain(payment);
+
+      await db
+        .insert(payments)
+        .values(dbPayment)
+        .onConflictDoUpdate({
+          target: payments.id,
+          set: {
+            status: dbPayment.status,
+            providerReference: dbPayment.providerReference,
+            failureReason: dbPayment.failureReason,
+            updatedAt: new Date(),
+          },
+        });
+
+      payment.clearEvents();
+      return Ok(payment);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save payment'));
+    }
+  }
+
+  private toDomain(dbPayment: DBPayment): Payment {
+    return Payment.reconstitute({
+      id: dbPayment.id,
+      orderId: dbPayment.orderId,
+      amount: Money.fromCents(dbPayment.amountCents, dbPayment.currency),
+      provider: dbPayment.provider,
+      cardLast4: dbPayment.cardLast4,
+      status: dbPayment.status,
+      providerReference: dbPayment.providerReference,
+      failureReason: dbPayment.failureReason,
+      createdAt: dbPayment.createdAt,
+      updatedAt: dbPayment.updatedAt,
+    });
+  }
+
+  private fromDomain(payment: Payment): NewPayment {
+    return {
+      id: payment.id,
+      orderId: payment.orderId,
+      provider: payment.provider,
+      providerReference: payment.providerReference,
+      status: payment.status,
+      amountCents: payment.amount.toCents(),
+      currency: payment.amount.currency,
+      cardLast4: payment.cardLast4,
+      failureReason: payment.failureReason,
+      createdAt: payment.createdAt,
+      updatedAt: payment.updatedAt,
+    };
+  }
+}
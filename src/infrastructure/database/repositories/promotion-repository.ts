@@ -0,0 +1,125 @@
+import { and, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '../connection';
+import { promotions, promotionRedemptions, type Promotion as DBPromotion } from '../schema';
+import { PromotionRewardSchema, normalizePromoCode, type Promotion } from '@/domain/promotion/promotion';
+import type { PromotionRedemption, PromotionRepository } from '@/domain/promotion/promotion-repository';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzlePromotionRepository implements PromotionRepository {
+  async findByCodes(codes: string[]): Promise<Result<Promotion[], Error>> {
+    if (codes.length === 0) {
+      return Ok([]);
+    }
+
+    try {
+      const dbPromotions = await db
+        .select()
+        .from(promotions)
+        .where(inArray(sql`upper(${promotions.code})`, codes.map(normalizePromoCode)));
+
+      return Ok(dbPromotions.map(dbPromotion => this.toDomain(dbPromotion)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load promotions'));
+    }
+  }
+
+  async redeem(redemptions: PromotionRedemption[]): Promise<Result<void, BusinessRuleViolationError | Error>> {
+    // A fixed lock order keeps two orders redeeming the same pair of codes from deadlocking
+    const ordered = [...redemptions].sort((a, b) => a.promotionId.localeCompare(b.promotionId));
+
+    try {
+      await db.transaction(async (tx) => {
+        for (const redemption of ordered) {
+          // The conditional increment both checks the global limit and locks the promotion row,
+          // so concurrent redemptions of one code are serialized from here to commit
+          const [promotion] = await tx
+            .update(promotions)
+            .set({ redemptionCount: sql`${promotions.redemptionCount} + 1`, updatedAt: new Date() })
+            .where(and(
+              eq(promotions.id, redemption.promotionId),
+              or(isNull(promotions.maxRedemptions), lt(promotions.redemptionCount, promotions.maxRedemptions))
+            ))
+            .returning({
+              code: promotions.code,
+              maxRedemptionsPerCustomer: promotions.maxRedemptionsPerCustomer,
+            });
+
+          if (!promotion) {
+            throw new BusinessRuleViolationError('Promo code has already been used up', {
+              promotionId: redemption.promotionId,
+            });
+          }
+
+          if (promotion.maxRedemptionsPerCustomer !== null && redemption.customerId) {
+            const [row] = await tx
+              .select({ count: sql<string>`count(*)` })
+              .from(promotionRedemptions)
+              .where(and(
+                eq(promotionRedemptions.promotionId, redemption.promotionId),
+                eq(promotionRedemptions.customerId, redemption.customerId)
+              ));
+
+            if (Number(row.count) >= promotion.maxRedemptionsPerCustomer) {
+              throw new BusinessRuleViolationError(`You have already used promo code ${promotion.code}`, {
+                promotionId: redemption.promotionId,
+              });
+            }
+          }
+
+          await tx.insert(promotionRedemptions).values({
+            promotionId: redemption.promotionId,
+            orderId: redemption.orderId,
+            customerId: redemption.customerId,
+          });
+        }
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to redeem promotions'));
+    }
+  }
+
+  async release(orderId: ID): Promise<Result<void, Error>> {
+    try {
+      await db.transaction(async (tx) => {
+        const released = await tx
+          .delete(promotionRedemptions)
+          .where(eq(promotionRedemptions.orderId, orderId))
+          .returning({ promotionId: promotionRedemptions.promotionId });
+
+        for (const { promotionId } of released) {
+          await tx
+            .update(promotions)
+            .set({ redemptionCount: sql`${promotions.redemptionCount} - 1`, updatedAt: new Date() })
+            .where(eq(promotions.id, promotionId));
+        }
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to release promotions'));
+    }
+  }
+
+  private toDomain(dbPromotion: DBPromotion): Promotion {
+    return {
+      id: dbPromotion.id,
+      code: normalizePromoCode(dbPromotion.code),
+      description: dbPromotion.description,
+      reward: PromotionRewardSchema.parse(dbPromotion.reward),
+      currency: dbPromotion.currency,
+      minimumOrder: dbPromotion.minimumOrderCents === null
+        ? null
+        : Money.fromCents(dbPromotion.minimumOrderCents, dbPromotion.currency),
+      validFrom: dbPromotion.validFrom,
+      validUntil: dbPromotion.validUntil,
+      maxRedemptions: dbPromotion.maxRedemptions,
+      maxRedemptionsPerCustomer: dbPromotion.maxRedemptionsPerCustomer,
+      stackable: dbPromotion.stackable,
+      isActive: dbPromotion.isActive,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../connection';
+import {
+  purchaseOrders,
+  purchaseOrderLines,
+  type PurchaseOrder as DBPurchaseOrder,
+  type PurchaseOrderLine as DBPurchaseOrderLine,
+} from '../schema';
+import { PurchaseOrder, OPEN_PURCHASE_ORDER_STATUSES } from '@/domain/purchasing/purchase-order';
+import type { PurchaseOrderRepository } from '@/domain/purchasing/purchase-order-repository';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzlePurchaseOrderRepository implements PurchaseOrderRepository {
+  async findById(id: ID): Promise<Result<PurchaseOrder, NotFoundError>> {
+    try {
+      const [dbPurchaseOrder] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).limit(1);
+
+      if (!dbPurchaseOrder) {
+        return Err(new NotFoundError('PurchaseOrder', id));
+      }
+
+      const [purchaseOrder] = await this.withLines([dbPurchaseOrder]);
+      return Ok(purchaseOrder);
+    } catch {
+      return Err(new NotFoundError('PurchaseOrder', id));
+    }
+  }
+
+  async findOpenByStore(storeId: ID): Promise<Result<PurchaseOrder[], Error>> {
+    try {
+      const dbPurchaseOrders = await db
+        .select()
+        .from(purchaseOrders)
+        .where(and(
+          eq(purchaseOrders.storeId, storeId),
+          inArray(purchaseOrders.status, OPEN_PURCHASE_ORDER_STATUSES)
+        ));
+
+      return Ok(await this.withLines(dbPurchaseOrders));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load purchase orders'));
+    }
+  }
+
+  async save(purchaseOrder: PurchaseOrder): Promise<Result<PurchaseOrder, Error>> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx
+          .insert(purchaseOrders)
+          .values({
+            id: purchaseOrder.id,
+            supplierId: purchaseOrder.supplierId,
+            storeId: purchaseOrder.storeId,
+            status: purchaseOrder.status,
+            currency: purchaseOrder.currency,
+            expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
+            receivedAt: purchaseOrder.receivedAt,
+            notes: purchaseOrder.notes,
+            createdBy: purchaseOrder.createdBy,
+            createdAt: purchaseOrder.createdAt,
+            updatedAt: purchaseOrder.updatedAt,
+          })
+          .onConflictDoUpdate({
+            target: purchaseOrders.id,
+            set: {
+              status: purchaseOrder.status,
+              receivedAt: purchaseOrder.receivedAt,
+              updatedAt: new Date(),
+            },
+          });
+
+        // Lines are fixed when the order is raised; only what was received on them changes
+        for (const line of purchaseOrder.lines) {
+          await tx
+            .insert(purchaseOrderLines)
+            .values({
+              id: line.id,
+              purchaseOrderId: purchaseOrder.id,
+              ingredientId: line.ingredientId,
+              quantity: line.quantity.toString(),
+              unitCostCents: line.unitCost.toCents(),
+              receivedQuantity: line.receivedQuantity.toString(),
+              receivedCostCents: line.receivedCost.toCents(),
+            })
+            .onConflictDoUpdate({
+              target: purchaseOrderLines.id,
+              set: {
+                receivedQuantity: line.receivedQuantity.toString(),
+                receivedCostCents: line.receivedCost.toCents(),
+              },
+            });
+        }
+      });
+
+      return Ok(purchaseOrder);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save purchase order'));
+    }
+  }
+
+  private async withLines(dbPurchaseOrders: DBPurchaseOrder[]): Promise<PurchaseOrder[]> {
+    if (dbPurchaseOrders.length === 0) {
+      return [];
+    }
+
+    const dbLines = await db
+      .select()
+      .from(purchaseOrderLines)
+      .where(inArray(purchaseOrderLines.purchaseOrderId, dbPurchaseOrders.map(dbPurchaseOrder => dbPurchaseOrder.id)));
+
+    return dbPurchaseOrders.map(dbPurchaseOrder => this.toDomain(
+      dbPurchaseOrder,
+      dbLines.filter(dbLine => dbLine.purchaseOrderId === dbPurchaseOrder.id)
+    ));
+  }
+
+  private toDomain(dbPurchaseOrder: DBPurchaseOrder, dbLines: DBPurchaseOrderLine[]): PurchaseOrder {
+    const currency = dbPurchaseOrder.currency;
+
+    return PurchaseOrder.reconstitute({
+      id: dbPurchaseOrder.id,
+      supplierId: dbPurchaseOrder.supplierId,
+      storeId: dbPurchaseOrder.storeId,
+      expectedDeliveryDate: dbPurchaseOrder.expectedDeliveryDate,
+      lines: dbLines.map(dbLine => ({
+        id: dbLine.id,
+        ingredientId: dbLine.ingredientId,
+        quantity: Number(dbLine.quantity),
+        unitCost: Money.fromCents(dbLine.unitCostCents, currency),
+        receivedQuantity: Number(dbLine.receivedQuantity),
+        receivedCost: Money.fromCents(dbLine.receivedCostCents, currency),
+      })),
+      notes: dbPurchaseOrder.notes,
+      createdBy: dbPurchaseOrder.createdBy,
+      status: dbPurchaseOrder.status,
+      receivedAt: dbPurchaseOrder.receivedAt,
+      createdAt: dbPurchaseOrder.createdAt,
+      updatedAt: dbPurchaseOrder.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../connection';
+import { stores, type Store as DBStore } from '../schema';
+import { Store } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { AvailabilityWindowSchema } from '@/domain/menu/availability-schedule';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzleStoreRepository implements StoreRepository {
+  async findById(id: ID): Promise<Result<Store, NotFoundError>> {
+    try {
+      const [dbStore] = await db.select().from(stores).where(eq(stores.id, id)).limit(1);
+
+      if (!dbStore) {
+        return Err(new NotFoundError('Store', id));
+      }
+
+      return Ok(this.toDomain(dbStore));
+    } catch {
+      return Err(new NotFoundError('Store', id));
+    }
+  }
+
+  async findActive(): Promise<Result<Store[], Error>> {
+    try {
+      const dbStores = await db.select().from(stores).where(eq(stores.isActive, true)).orderBy(asc(stores.name));
+
+      return Ok(dbStores.map(dbStore => this.toDomain(dbStore)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load stores'));
+    }
+  }
+
+  async save(store: Store): Promise<Result<Store, Error>> {
+    try {
+      const values = {
+        name: store.name,
+        address: store.address,
+        timeZone: store.timeZone,
+        currency: store.currency,
+        orderNumberPrefix: store.orderNumberPrefix,
+        openingHours: store.openingHours,
+        holidayClosures: store.holidayClosures,
+        excludedItemIds: store.excludedItemIds,
+        priceOverrides: Object.fromEntries(Array.from(store.priceOverrides, ([itemId, price]) => [itemId, price.toCents()])),
+        isActive: store.isActive,
+        orderingPausedReason: store.orderingPause?.reason ?? null,
+        orderingPausedBy: store.orderingPause?.pausedBy ?? null,
+        orderingPausedAt: store.orderingPause?.pausedAt ?? null,
+        unavailableIngredientIds: store.unavailableIngredientIds,
+      };
+
+      await db
+        .insert(stores)
+        .values({ id: store.id, ...values, createdAt: store.createdAt, updatedAt: store.updatedAt })
+        .onConflictDoUpdate({
+          target: stores.id,
+          set: { ...values, updatedAt: new Date() },
+        });
+
+      return Ok(store);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save store'));
+    }
+  }
+
+  private toDomain(dbStore: DBStore): Store {
+    return Store.reconstitute({
+      id: dbStore.id,
+      name: dbStore.name,
+      address: dbStore.address,
+      timeZone: dbStore.timeZone,
+      currency: dbStore.currency,
+      orderNumberPrefix: dbStore.orderNumberPrefix,
+      openingHours: dbStore.openingHours.map(window => AvailabilityWindowSchema.parse(window)),
+      holidayClosures: dbStore.holidayClosures,
+      excludedItemIds: dbStore.excludedItemIds,
+      priceOverrides: new Map(
+        Object.entries(dbStore.priceOverrides).map(([itemId, cents]) => [itemId, Money.fromCents(cents, dbStore.currency)])
+      ),
+      isActive: dbStore.isActive,
+      orderingPause: dbStore.orderingPausedReason && dbStore.orderingPausedBy && dbStore.orderingPausedAt
+        ? { reason: dbStore.orderingPausedReason, pausedBy: dbStore.orderingPausedBy, pausedAt: dbStore.orderingPausedAt }
+        : null,
+      unavailableIngredientIds: dbStore.unavailableIngredientIds,
+      createdAt: dbStore.createdAt,
+      updatedAt: dbStore.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../connection';
+import { suppliers, type Supplier as DBSupplier } from '../schema';
+import { Supplier } from '@/domain/purchasing/supplier';
+import type { SupplierRepository } from '@/domain/purchasing/supplier-repository';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+export class DrizzleSupplierRepository implements SupplierRepository {
+  async findById(id: ID): Promise<Result<Supplier, NotFoundError>> {
+    try {
+      const [dbSupplier] = await db.select().from(suppliers).where(eq(suppliers.id, id)).limit(1);
+
+      if (!dbSupplier) {
+        return Err(new NotFoundError('Supplier', id));
+      }
+
+      return Ok(this.toDomain(dbSupplier));
+    } catch {
+      return Err(new NotFoundError('Supplier', id));
+    }
+  }
+
+  async findAll(): Promise<Result<Supplier[], Error>> {
+    try {
+      const dbSuppliers = await db.select().from(suppliers).orderBy(asc(suppliers.name));
+
+      return Ok(dbSuppliers.map(dbSupplier => this.toDomain(dbSupplier)));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to load suppliers'));
+    }
+  }
+
+  async save(supplier: Supplier): Promise<Result<Supplier, Error>> {
+    try {
+      await db
+        .insert(suppliers)
+        .values({
+          id: supplier.id,
+          name: supplier.name,
+          email: supplier.email,
+          phone: supplier.phone,
+          leadTimeDays: supplier.leadTimeDays,
+          isActive: supplier.isActive,
+          createdAt: supplier.createdAt,
+          updatedAt: supplier.updatedAt,
+        })
+        .onConflictDoUpdate({
+          target: suppliers.id,
+          set: {
+            isActive: supplier.isActive,
+            updatedAt: new Date(),
+          },
+        });
+
+      return Ok(supplier);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to save supplier'));
+    }
+  }
+
+  private toDomain(dbSupplier: DBSupplier): Supplier {
+    return Supplier.reconstitute({
+      id: dbSupplier.id,
+      name: dbSupplier.name,
+      email: dbSupplier.email,
+      phone: dbSupplier.phone,
+      leadTimeDays: dbSupplier.leadTimeDays,
+      isActive: dbSupplier.isActive,
+      createdAt: dbSupplier.createdAt,
+      updatedAt: dbSupplier.updatedAt,
+    });
+  }
+}
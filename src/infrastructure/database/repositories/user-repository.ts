@@ -66,6 +66,8 @@ export class DrizzleUserRepository implements UserRepository {
             phone: dbUser.phone,
             status: dbUser.status,
             emailVerified: dbUser.emailVerified,
+            taxExempt: dbUser.taxExempt,
+            storeIds: dbUser.storeIds,
             lastLoginAt: dbUser.lastLoginAt,
             updatedAt: new Date(),
           },
@@ -110,6 +112,8 @@ export class DrizzleUserRepository implements UserRepository {
       role: dbUser.role,
       status: dbUser.status,
       emailVerified: dbUser.emailVerified,
+      taxExempt: dbUser.taxExempt,
+      storeIds: dbUser.storeIds,
       lastLoginAt: dbUser.lastLoginAt || undefined,
       createdAt: dbUser.createdAt,
       updatedAt: dbUser.updatedAt,
@@ -127,6 +131,8 @@ export class DrizzleUserRepository implements UserRepository {
       role: user.role,
       status: user.status,
       emailVerified: user.emailVerified,
+      taxExempt: user.taxExempt,
+      storeIds: user.storeIds,
       lastLoginAt: user.lastLoginAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
@@ -9,9 +9,21 @@ import {
   timestamp,
   json,
   pgEnum,
+  date,
+  primaryKey,
+  index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
+// When a menu item is on sale in the store's local time: days MON-SUN, times HH:MM, dates YYYY-MM-DD.
+// Null columns mean whenever the store is selling.
+type AvailabilityScheduleColumn = {
+  windows: { days: string[]; from: string; until: string }[];
+  startDate?: string;
+  endDate?: string;
+};
+
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['CUSTOMER', 'STAFF', 'MANAGER', 'ADMIN']);
 export const userStatusEnum = pgEnum('user_status', ['ACTIVE', 'SUSPENDED', 'DELETED']);
@@ -33,9 +45,54 @@ export const orderStatusEnum = pgEnum('order_status', [
   'DELIVERED',
   'CANCELLED',
 ]);
-export const paymentStatusEnum = pgEnum('payment_status', ['PENDING', 'PAID', 'FAILED', 'REFUNDED']);
+export const paymentStatusEnum = pgEnum('payment_status', [
+  'PENDING',
+  'PROCESSING',
+  'PAID',
+  'FAILED',
+  'PARTIALLY_REFUNDED',
+  'REFUNDED',
+]);
+export const paymentAttemptStatusEnum = pgEnum('payment_attempt_status', [
+  'PENDING',
+  'AUTHORIZED',
+  'CAPTURED',
+  'VOIDED',
+  'DECLINED',
+]);
 export const deliveryTypeEnum = pgEnum('delivery_type', ['PICKUP', 'DELIVERY']);
 export const currencyEnum = pgEnum('currency', ['USD', 'EUR', 'RUB']);
+export const loyaltyEntryTypeEnum = pgEnum('loyalty_entry_type', [
+  'EARN',
+  'REVERSE_EARN',
+  'REDEEM',
+  'RESTORE_REDEEM',
+]);
+export const refundStatusEnum = pgEnum('refund_status', ['PENDING', 'COMPLETED', 'FAILED']);
+export const giftCardStatusEnum = pgEnum('gift_card_status', ['ACTIVE', 'VOIDED']);
+export const giftCardTransactionTypeEnum = pgEnum('gift_card_transaction_type', [
+  'ISSUE',
+  'REDEEM',
+  'RESTORE',
+  'VOID',
+]);
+export const productCategoryEnum = pgEnum('product_category', ['SIDE', 'DRINK', 'DESSERT']);
+export const orderItemTypeEnum = pgEnum('order_item_type', ['PIZZA', 'PRODUCT', 'BUNDLE']);
+export const stockMovementTypeEnum = pgEnum('stock_movement_type', [
+  'RECEIVE',
+  'ADJUST',
+  'RESERVE',
+  'RELEASE',
+  'CONSUME',
+]);
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', [
+  'DRAFT',
+  'SUBMITTED',
+  'PARTIALLY_RECEIVED',
+  'RECEIVED',
+  'CANCELLED',
+]);
+export const menuVersionStatusEnum = pgEnum('menu_version_status', ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'RETIRED']);
 
 // Users table
 export const users = pgTable('users', {
@@ -48,6 +105,9 @@ export const users = pgTable('users', {
   role: userRoleEnum('role').notNull().default('CUSTOMER'),
   status: userStatusEnum('status').notNull().default('ACTIVE'),
   emailVerified: boolean('email_verified').notNull().default(false),
+  taxExempt: boolean('tax_exempt').notNull().default(false),
+  // Stores a staff member may operate; admins operate all of them
+  storeIds: json('store_ids').$type<string[]>().notNull().default([]),
   lastLoginAt: timestamp('last_login_at'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -59,9 +119,16 @@ export const ingredients = pgTable('ingredients', {
   name: varchar('name', { length: 100 }).notNull(),
   category: ingredientCategoryEnum('category').notNull(),
   pricePerUnitCents: integer('price_per_unit_cents').notNull(),
+  // What the business pays per unit, kept apart from the price customers are charged
+  costPerUnitCents: integer('cost_per_unit_cents'),
   currency: currencyEnum('currency').notNull().default('USD'),
   isAvailable: boolean('is_available').notNull().default(true),
   allergens: json('allergens').$type<string[]>(),
+  // Per unit; grams except kcal
+  nutrition: json('nutrition').$type<{ kcal: number; protein: number; fat: number; carbs: number; salt: number }>(),
+  // Null falls back to the category default
+  isVegetarian: boolean('is_vegetarian'),
+  isVegan: boolean('is_vegan'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -75,10 +142,10 @@ export const pizzaRecipes = pgTable('pizza_recipes', {
   currency: currencyEnum('currency').notNull().default('USD'),
   preparationTimeMinutes: integer('preparation_time_minutes').notNull(),
   difficulty: integer('difficulty').notNull(), // 1-5
-  isVegetarian: boolean('is_vegetarian').notNull().default(false),
-  isVegan: boolean('is_vegan').notNull().default(false),
-  isGlutenFree: boolean('is_gluten_free').notNull().default(false),
   isAvailable: boolean('is_available').notNull().default(true),
+  availability: json('availability').$type<AvailabilityScheduleColumn>(),
+  // The menu version entry this row was last published from; null for recipes from before versioning
+  versionId: uuid('version_id').references(() => menuVersionRecipes.id),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -92,9 +159,112 @@ export const pizzaRecipeIngredients = pgTable('pizza_recipe_ingredients', {
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+// Menu versions. pizza_recipes is the live menu, rewritten from a version when it is published.
+export const menuVersions = pgTable('menu_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  status: menuVersionStatusEnum('status').notNull().default('DRAFT'),
+  basedOnId: uuid('based_on_id'),
+  publishAt: timestamp('publish_at'),
+  publishedAt: timestamp('published_at'),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('menu_versions_status_publish_at_idx').on(table.status, table.publishAt),
+]);
+
+// Rows are never changed once their version is scheduled, so orders can point at them.
+// recipe_id has no foreign key: recipes new in a draft have no pizza_recipes row until published.
+export const menuVersionRecipes = pgTable('menu_version_recipes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  menuVersionId: uuid('menu_version_id').notNull().references(() => menuVersions.id),
+  recipeId: uuid('recipe_id').notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description').notNull(),
+  basePriceCents: integer('base_price_cents').notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  preparationTimeMinutes: integer('preparation_time_minutes').notNull(),
+  difficulty: integer('difficulty').notNull(),
+  isAvailable: boolean('is_available').notNull().default(true),
+  availability: json('availability').$type<AvailabilityScheduleColumn>(),
+  // ingredientId -> quantity
+  ingredients: json('ingredients').$type<Record<string, number>>().notNull(),
+}, (table) => [
+  uniqueIndex('menu_version_recipes_version_recipe_idx').on(table.menuVersionId, table.recipeId),
+]);
+
+// Sides, drinks and desserts
+export const products = pgTable('products', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description').notNull().default(''),
+  category: productCategoryEnum('category').notNull(),
+  priceCents: integer('price_cents').notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  isAvailable: boolean('is_available').notNull().default(true),
+  availability: json('availability').$type<AvailabilityScheduleColumn>(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Fixed-price deals made of choice groups
+export const bundles = pgTable('bundles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description').notNull().default(''),
+  priceCents: integer('price_cents').notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  choiceGroups: json('choice_groups').$type<{
+    id: string;
+    name: string;
+    kind: string;
+    quantity: number;
+    pizzaSize?: string;
+    productCategory?: string;
+    eligibleIds: string[];
+  }[]>().notNull(),
+  isAvailable: boolean('is_available').notNull().default(true),
+  availability: json('availability').$type<AvailabilityScheduleColumn>(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Kitchens; orders, stock, delivery zones and staff belong to one
+export const stores = pgTable('stores', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  address: json('address').$type<{
+    street: string;
+    city: string;
+    postalCode: string;
+    country: string;
+    additionalInfo?: string;
+  }>().notNull(),
+  timeZone: varchar('time_zone', { length: 64 }).notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  orderNumberPrefix: varchar('order_number_prefix', { length: 8 }).notNull().default('DP'),
+  openingHours: json('opening_hours').$type<{ days: string[]; from: string; until: string }[]>().notNull().default([]),
+  // Local dates, YYYY-MM-DD
+  holidayClosures: json('holiday_closures').$type<string[]>().notNull().default([]),
+  excludedItemIds: json('excluded_item_ids').$type<string[]>().notNull().default([]),
+  // Recipe, product or bundle id -> price in cents in the store currency
+  priceOverrides: json('price_overrides').$type<Record<string, number>>().notNull().default({}),
+  isActive: boolean('is_active').notNull().default(true),
+  // Set while managers have paused new orders
+  orderingPausedReason: varchar('ordering_paused_reason', { length: 200 }),
+  orderingPausedBy: uuid('ordering_paused_by').references(() => users.id),
+  orderingPausedAt: timestamp('ordering_paused_at'),
+  // Ingredients the store has run short of; kept in step with its stock levels
+  unavailableIngredientIds: json('unavailable_ingredient_ids').$type<string[]>().notNull().default([]),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
 // Orders table
 export const orders = pgTable('orders', {
   id: uuid('id').primaryKey().defaultRandom(),
+  orderNumber: varchar('order_number', { length: 32 }).notNull().unique(),
   customerId: uuid('customer_id').references(() => users.id),
   customerName: varchar('customer_name', { length: 200 }).notNull(),
   customerPhone: varchar('customer_phone', { length: 20 }).notNull(),
@@ -112,10 +282,42 @@ export const orders = pgTable('orders', {
   specialInstructions: text('special_instructions'),
   requestedDeliveryTime: timestamp('requested_delivery_time'),
   estimatedDeliveryTime: timestamp('estimated_delivery_time'),
-  totalAmount: decimal('total_amount', { precision: 10, scale: 2 }).notNull(),
-  tax: decimal('tax', { precision: 10, scale: 2 }).notNull(),
-  deliveryFee: decimal('delivery_fee', { precision: 10, scale: 2 }).notNull(),
+  totalAmountCents: integer('total_amount_cents').notNull(),
+  taxCents: integer('tax_cents').notNull(),
+  deliveryFeeCents: integer('delivery_fee_cents').notNull(),
   currency: currencyEnum('currency').notNull().default('USD'),
+  // Rates the order was priced with, kept so totals can be explained later
+  exchangeRates: json('exchange_rates').$type<{
+    from: string;
+    to: string;
+    rate: number;
+    asOf: string;
+    source: string;
+  }[]>().notNull().default([]),
+  // Receipt breakdown, one entry per item plus one for the delivery fee
+  taxLines: json('tax_lines').$type<{
+    lineId: string | null;
+    category: string;
+    ruleName: string;
+    rate: number;
+    inclusive: boolean;
+    netCents: number;
+    taxCents: number;
+  }[]>().notNull().default([]),
+  // What the customer is charged; kept as a column so revenue can be summed in SQL
+  grandTotalCents: integer('grand_total_cents').notNull(),
+  deliveryZoneId: uuid('delivery_zone_id').references(() => deliveryZones.id),
+  deliveryEtaMinutes: integer('delivery_eta_minutes'),
+  storeId: uuid('store_id').references(() => stores.id),
+  discounts: json('discounts').$type<{
+    promotionId: string | null;
+    code: string;
+    description: string;
+    appliesTo: string;
+    amountCents: number;
+  }[]>().notNull().default([]),
+  // Bumped on every save; a save from an older copy of the order is rejected
+  version: integer('version').notNull().default(1),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -124,18 +326,262 @@ export const orders = pgTable('orders', {
 export const orderItems = pgTable('order_items', {
   id: uuid('id').primaryKey().defaultRandom(),
   orderId: uuid('order_id').notNull().references(() => orders.id),
-  recipeId: uuid('recipe_id').notNull().references(() => pizzaRecipes.id),
-  size: pizzaSizeEnum('size').notNull(),
-  crust: pizzaCrustEnum('crust').notNull(),
+  type: orderItemTypeEnum('type').notNull().default('PIZZA'),
+  // Pizza lines only
+  recipeId: uuid('recipe_id').references(() => pizzaRecipes.id),
+  // menu_version_recipes rows of every recipe on the pizza, as it was sold
+  recipeVersionIds: json('recipe_version_ids').$type<string[]>(),
+  size: pizzaSizeEnum('size'),
+  crust: pizzaCrustEnum('crust'),
+  // Product lines only, with the name and category they were sold under
+  productId: uuid('product_id').references(() => products.id),
+  product: json('product').$type<{ name: string; category: string }>(),
+  // Bundle lines only; each component keeps its share of the bundle price for tax and reporting
+  bundleId: uuid('bundle_id').references(() => bundles.id),
+  bundle: json('bundle').$type<{
+    name: string;
+    components: {
+      groupId: string;
+      kind: string;
+      pizza: { recipeId: string; size: string; crust: string; recipeVersionId?: string | null } | null;
+      product: { productId: string; name: string; category: string } | null;
+      allocatedPriceCents: number;
+    }[];
+  }>(),
   quantity: integer('quantity').notNull(),
-  unitPrice: decimal('unit_price', { precision: 10, scale: 2 }).notNull(),
-  totalPrice: decimal('total_price', { precision: 10, scale: 2 }).notNull(),
+  unitPriceCents: integer('unit_price_cents').notNull(),
+  totalPriceCents: integer('total_price_cents').notNull(),
   currency: currencyEnum('currency').notNull().default('USD'),
   customIngredients: json('custom_ingredients').$type<Record<string, number>>(),
+  // Only set for split pizzas or modifiers other than additions; recipe_id holds the first section's recipe
+  sections: json('sections').$type<{
+    position: string;
+    recipeId: string;
+    modifiers: { type: string; ingredientId: string; quantity: number; replacementId: string | null }[];
+  }[]>(),
+  // isGlutenFree is missing on items ordered before it was derived
+  dietary: json('dietary').$type<{ allergens: string[]; isVegetarian: boolean; isVegan: boolean; isGlutenFree?: boolean }>(),
   specialInstructions: text('special_instructions'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+// Order status history, one row per status change
+export const orderStatusHistory = pgTable('order_status_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').notNull().references(() => orders.id),
+  previousStatus: orderStatusEnum('previous_status'),
+  newStatus: orderStatusEnum('new_status').notNull(),
+  actorId: uuid('actor_id').references(() => users.id),
+  reason: text('reason'),
+  occurredAt: timestamp('occurred_at').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('order_status_history_order_id_idx').on(table.orderId, table.occurredAt),
+]);
+
+// Payment attempts against an order, one row per card charge
+export const payments = pgTable('payments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').notNull().references(() => orders.id),
+  provider: varchar('provider', { length: 50 }).notNull(),
+  providerReference: varchar('provider_reference', { length: 255 }),
+  status: paymentAttemptStatusEnum('status').notNull().default('PENDING'),
+  amountCents: integer('amount_cents').notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  cardLast4: varchar('card_last4', { length: 4 }),
+  failureReason: text('failure_reason'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('payments_order_id_idx').on(table.orderId),
+]);
+
+// Refund ledger; append-only, one row per refund issued through the gateway
+export const refunds = pgTable('refunds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').notNull().references(() => orders.id),
+  paymentId: uuid('payment_id').notNull().references(() => payments.id),
+  amountCents: integer('amount_cents').notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  orderItemIds: json('order_item_ids').$type<string[]>().notNull(),
+  reason: text('reason').notNull(),
+  actorId: uuid('actor_id').references(() => users.id),
+  status: refundStatusEnum('status').notNull().default('COMPLETED'),
+  providerReference: varchar('provider_reference', { length: 255 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('refunds_order_id_idx').on(table.orderId),
+]);
+
+// Delivery zones; the area is a postal-code list or a polygon, see DeliveryZoneAreaSchema
+export const deliveryZones = pgTable('delivery_zones', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  area: json('area').notNull(),
+  feeCents: integer('fee_cents').notNull(),
+  feePerKmCents: integer('fee_per_km_cents'),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  origin: json('origin').$type<{ latitude: number; longitude: number }>(),
+  minimumOrderCents: integer('minimum_order_cents').notNull().default(0),
+  maxEtaMinutes: integer('max_eta_minutes').notNull(),
+  // The store that delivers to the zone; zones without one deliver for any store
+  storeId: uuid('store_id').references(() => stores.id),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Promo codes; the reward is one of the shapes in PromotionRewardSchema
+export const promotions = pgTable('promotions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  code: varchar('code', { length: 50 }).notNull().unique(),
+  description: varchar('description', { length: 255 }).notNull(),
+  reward: json('reward').notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  minimumOrderCents: integer('minimum_order_cents'),
+  validFrom: timestamp('valid_from').notNull().defaultNow(),
+  validUntil: timestamp('valid_until'),
+  maxRedemptions: integer('max_redemptions'),
+  maxRedemptionsPerCustomer: integer('max_redemptions_per_customer'),
+  // Kept in step with promotion_redemptions so the global limit can be checked in one update
+  redemptionCount: integer('redemption_count').notNull().default(0),
+  stackable: boolean('stackable').notNull().default(false),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const promotionRedemptions = pgTable('promotion_redemptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  promotionId: uuid('promotion_id').notNull().references(() => promotions.id),
+  // No foreign key: codes are redeemed just before the order row is written
+  orderId: uuid('order_id').notNull(),
+  customerId: uuid('customer_id').references(() => users.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('promotion_redemptions_promotion_order_idx').on(table.promotionId, table.orderId),
+  index('promotion_redemptions_customer_idx').on(table.promotionId, table.customerId),
+]);
+
+// Loyalty points ledger; append-only, the balance is the sum of points
+export const loyaltyLedger = pgTable('loyalty_ledger', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  customerId: uuid('customer_id').notNull().references(() => users.id),
+  // No foreign key: points are redeemed just before the order row is written
+  orderId: uuid('order_id').notNull(),
+  type: loyaltyEntryTypeEnum('type').notNull(),
+  points: integer('points').notNull(),
+  reference: uuid('reference').notNull(),
+  description: varchar('description', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('loyalty_ledger_type_reference_idx').on(table.type, table.reference),
+  index('loyalty_ledger_customer_id_idx').on(table.customerId),
+  index('loyalty_ledger_order_id_idx').on(table.orderId),
+]);
+
+// Gift cards; balance_cents always equals the sum of the card's transactions
+export const giftCards = pgTable('gift_cards', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  code: varchar('code', { length: 32 }).notNull().unique(),
+  initialBalanceCents: integer('initial_balance_cents').notNull(),
+  balanceCents: integer('balance_cents').notNull(),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  status: giftCardStatusEnum('status').notNull().default('ACTIVE'),
+  expiresAt: timestamp('expires_at'),
+  issuedBy: uuid('issued_by').references(() => users.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const giftCardTransactions = pgTable('gift_card_transactions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  giftCardId: uuid('gift_card_id').notNull().references(() => giftCards.id),
+  type: giftCardTransactionTypeEnum('type').notNull(),
+  amountCents: integer('amount_cents').notNull(),
+  orderId: uuid('order_id').references(() => orders.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('gift_card_transactions_gift_card_id_idx').on(table.giftCardId),
+  index('gift_card_transactions_order_id_idx').on(table.orderId),
+]);
+
+// On-hand stock of an ingredient per store; on_hand and reserved always equal the sum of its movements
+export const stockLevels = pgTable('stock_levels', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  storeId: uuid('store_id').notNull().references(() => stores.id),
+  ingredientId: uuid('ingredient_id').notNull().references(() => ingredients.id),
+  onHand: decimal('on_hand', { precision: 12, scale: 3 }).notNull().default('0'),
+  reserved: decimal('reserved', { precision: 12, scale: 3 }).notNull().default('0'),
+  parLevel: decimal('par_level', { precision: 12, scale: 3 }).notNull().default('0'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('stock_levels_store_ingredient_idx').on(table.storeId, table.ingredientId),
+]);
+
+export const stockMovements = pgTable('stock_movements', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  stockLevelId: uuid('stock_level_id').notNull().references(() => stockLevels.id),
+  type: stockMovementTypeEnum('type').notNull(),
+  quantity: decimal('quantity', { precision: 12, scale: 3 }).notNull(),
+  orderId: uuid('order_id').references(() => orders.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('stock_movements_stock_level_id_idx').on(table.stockLevelId),
+  index('stock_movements_order_id_idx').on(table.orderId),
+]);
+
+export const suppliers = pgTable('suppliers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 200 }).notNull(),
+  email: varchar('email', { length: 255 }),
+  phone: varchar('phone', { length: 20 }),
+  leadTimeDays: integer('lead_time_days').notNull().default(1),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const purchaseOrders = pgTable('purchase_orders', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  supplierId: uuid('supplier_id').notNull().references(() => suppliers.id),
+  storeId: uuid('store_id').notNull().references(() => stores.id),
+  status: purchaseOrderStatusEnum('status').notNull().default('DRAFT'),
+  currency: currencyEnum('currency').notNull().default('USD'),
+  expectedDeliveryDate: timestamp('expected_delivery_date').notNull(),
+  receivedAt: timestamp('received_at'),
+  notes: text('notes'),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('purchase_orders_store_id_status_idx').on(table.storeId, table.status),
+]);
+
+// Supplier cost lives here, not on ingredients, whose price is what customers pay for add-ons
+export const purchaseOrderLines = pgTable('purchase_order_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  purchaseOrderId: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id),
+  ingredientId: uuid('ingredient_id').notNull().references(() => ingredients.id),
+  quantity: decimal('quantity', { precision: 12, scale: 3 }).notNull(),
+  unitCostCents: integer('unit_cost_cents').notNull(),
+  receivedQuantity: decimal('received_quantity', { precision: 12, scale: 3 }).notNull().default('0'),
+  receivedCostCents: integer('received_cost_cents').notNull().default(0),
+}, (table) => [
+  uniqueIndex('purchase_order_lines_order_ingredient_idx').on(table.purchaseOrderId, table.ingredientId),
+]);
+
+// Daily order number sequences, one counter per prefix and business date
+export const orderNumberSequences = pgTable('order_number_sequences', {
+  prefix: varchar('prefix', { length: 8 }).notNull(),
+  businessDate: date('business_date').notNull(),
+  lastValue: integer('last_value').notNull(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.prefix, table.businessDate] }),
+]);
+
 // Domain events table
 export const domainEvents = pgTable('domain_events', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -155,6 +601,7 @@ export const usersRelations = relations(users, ({ many }) => ({
 
 export const ingredientsRelations = relations(ingredients, ({ many }) => ({
   pizzaRecipeIngredients: many(pizzaRecipeIngredients),
+  stockLevels: many(stockLevels),
 }));
 
 export const pizzaRecipesRelations = relations(pizzaRecipes, ({ many }) => ({
@@ -178,7 +625,14 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     fields: [orders.customerId],
     references: [users.id],
   }),
+  deliveryZone: one(deliveryZones, {
+    fields: [orders.deliveryZoneId],
+    references: [deliveryZones.id],
+  }),
   items: many(orderItems),
+  statusHistory: many(orderStatusHistory),
+  payments: many(payments),
+  refunds: many(refunds),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -190,6 +644,131 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
     fields: [orderItems.recipeId],
     references: [pizzaRecipes.id],
   }),
+  product: one(products, {
+    fields: [orderItems.productId],
+    references: [products.id],
+  }),
+  bundle: one(bundles, {
+    fields: [orderItems.bundleId],
+    references: [bundles.id],
+  }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
+  actor: one(users, {
+    fields: [orderStatusHistory.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [payments.orderId],
+    references: [orders.id],
+  }),
+  refunds: many(refunds),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  payment: one(payments, {
+    fields: [refunds.paymentId],
+    references: [payments.id],
+  }),
+  actor: one(users, {
+    fields: [refunds.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const loyaltyLedgerRelations = relations(loyaltyLedger, ({ one }) => ({
+  customer: one(users, {
+    fields: [loyaltyLedger.customerId],
+    references: [users.id],
+  }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ many }) => ({
+  redemptions: many(promotionRedemptions),
+}));
+
+export const promotionRedemptionsRelations = relations(promotionRedemptions, ({ one }) => ({
+  promotion: one(promotions, {
+    fields: [promotionRedemptions.promotionId],
+    references: [promotions.id],
+  }),
+  customer: one(users, {
+    fields: [promotionRedemptions.customerId],
+    references: [users.id],
+  }),
+}));
+
+export const giftCardsRelations = relations(giftCards, ({ one, many }) => ({
+  issuer: one(users, {
+    fields: [giftCards.issuedBy],
+    references: [users.id],
+  }),
+  transactions: many(giftCardTransactions),
+}));
+
+export const giftCardTransactionsRelations = relations(giftCardTransactions, ({ one }) => ({
+  giftCard: one(giftCards, {
+    fields: [giftCardTransactions.giftCardId],
+    references: [giftCards.id],
+  }),
+  order: one(orders, {
+    fields: [giftCardTransactions.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const stockLevelsRelations = relations(stockLevels, ({ one, many }) => ({
+  ingredient: one(ingredients, {
+    fields: [stockLevels.ingredientId],
+    references: [ingredients.id],
+  }),
+  movements: many(stockMovements),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  stockLevel: one(stockLevels, {
+    fields: [stockMovements.stockLevelId],
+    references: [stockLevels.id],
+  }),
+  order: one(orders, {
+    fields: [stockMovements.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ many }) => ({
+  purchaseOrders: many(purchaseOrders),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  lines: many(purchaseOrderLines),
+}));
+
+export const purchaseOrderLinesRelations = relations(purchaseOrderLines, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderLines.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  ingredient: one(ingredients, {
+    fields: [purchaseOrderLines.ingredientId],
+    references: [ingredients.id],
+  }),
 }));
 
 // Export types for use in application
@@ -199,7 +778,45 @@ export type Ingredient = typeof ingredients.$inferSelect;
 export type NewIngredient = typeof ingredients.$inferInsert;
 export type PizzaRecipe = typeof pizzaRecipes.$inferSelect;
 export type NewPizzaRecipe = typeof pizzaRecipes.$inferInsert;
+export type Product = typeof products.$inferSelect;
+export type NewProduct = typeof products.$inferInsert;
+export type Bundle = typeof bundles.$inferSelect;
+export type NewBundle = typeof bundles.$inferInsert;
 export type Order = typeof orders.$inferSelect;
 export type NewOrder = typeof orders.$inferInsert;
 export type OrderItem = typeof orderItems.$inferSelect;
-export type NewOrderItem = typeof orderItems.$inferInsert;
\ No newline at end of file
+export type NewOrderItem = typeof orderItems.$inferInsert;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type NewOrderStatusHistory = typeof orderStatusHistory.$inferInsert;
+export type Payment = typeof payments.$inferSelect;
+export type NewPayment = typeof payments.$inferInsert;
+export type Refund = typeof refunds.$inferSelect;
+export type NewRefund = typeof refunds.$inferInsert;
+export type DeliveryZone = typeof deliveryZones.$inferSelect;
+export type NewDeliveryZone = typeof deliveryZones.$inferInsert;
+export type Promotion = typeof promotions.$inferSelect;
+export type NewPromotion = typeof promotions.$inferInsert;
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+export type NewPromotionRedemption = typeof promotionRedemptions.$inferInsert;
+export type LoyaltyLedgerEntry = typeof loyaltyLedger.$inferSelect;
+export type NewLoyaltyLedgerEntry = typeof loyaltyLedger.$inferInsert;
+export type GiftCard = typeof giftCards.$inferSelect;
+export type NewGiftCard = typeof giftCards.$inferInsert;
+export type GiftCardTransaction = typeof giftCardTransactions.$inferSelect;
+export type NewGiftCardTransaction = typeof giftCardTransactions.$inferInsert;
+export type StockLevel = typeof stockLevels.$inferSelect;
+export type NewStockLevel = typeof stockLevels.$inferInsert;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type NewStockMovement = typeof stockMovements.$inferInsert;
+export type Supplier = typeof suppliers.$inferSelect;
+export type NewSupplier = typeof suppliers.$inferInsert;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type NewPurchaseOrder = typeof purchaseOrders.$inferInsert;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type NewPurchaseOrderLine = typeof purchaseOrderLines.$inferInsert;
+export type MenuVersion = typeof menuVersions.$inferSelect;
+export type NewMenuVersion = typeof menuVersions.$inferInsert;
+export type MenuVersionRecipe = typeof menuVersionRecipes.$inferSelect;
+export type NewMenuVersionRecipe = typeof menuVersionRecipes.$inferInsert;
+export type Store = typeof stores.$inferSelect;
+export type NewStore = typeof stores.$inferInsert;
\ No newline at end of file
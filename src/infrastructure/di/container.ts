@@ -1,13 +1,140 @@
 import { RegisterUserUseCase } from '@/application/use-cases/auth/register-user';
 import { AuthenticateUserUseCase } from '@/application/use-cases/auth/authenticate-user';
+import { PlaceOrderUseCase } from '@/application/use-cases/orders/place-order';
+import { GetOrderUseCase } from '@/application/use-cases/orders/get-order';
+import { GetOrderTimelineUseCase } from '@/application/use-cases/orders/get-order-timeline';
+import { ChangeOrderStatusUseCase } from '@/application/use-cases/orders/change-order-status';
+import { PayOrderUseCase } from '@/application/use-cases/payments/pay-order';
+import { RefundOrderUseCase } from '@/application/use-cases/payments/refund-order';
+import { GetLoyaltyAccountUseCase } from '@/application/use-cases/loyalty/get-loyalty-account';
+import { UpdateLoyaltyForOrderUseCase } from '@/application/use-cases/loyalty/update-loyalty-for-order';
+import { IssueGiftCardUseCase } from '@/application/use-cases/gift-cards/issue-gift-card';
+import { VoidGiftCardUseCase } from '@/application/use-cases/gift-cards/void-gift-card';
+import { RestoreGiftCardsForOrderUseCase } from '@/application/use-cases/gift-cards/restore-gift-cards-for-order';
+import { UpdateInventoryForOrderUseCase } from '@/application/use-cases/inventory/update-inventory-for-order';
+import { RecordStockUseCase } from '@/application/use-cases/inventory/record-stock';
+import { CreateSupplierUseCase } from '@/application/use-cases/purchasing/create-supplier';
+import { CreatePurchaseOrderUseCase } from '@/application/use-cases/purchasing/create-purchase-order';
+import { ChangePurchaseOrderStatusUseCase } from '@/application/use-cases/purchasing/change-purchase-order-status';
+import { ReceivePurchaseOrderUseCase } from '@/application/use-cases/purchasing/receive-purchase-order';
+import { SuggestReordersUseCase } from '@/application/use-cases/purchasing/suggest-reorders';
+import { GetMarginReportUseCase } from '@/application/use-cases/reporting/get-margin-report';
+import { GetMenuFoodCostsUseCase } from '@/application/use-cases/reporting/get-menu-food-costs';
+import { GetPizzaMenuUseCase } from '@/application/use-cases/menu/get-pizza-menu';
+import { DescribePizzaUseCase } from '@/application/use-cases/menu/describe-pizza';
+import { GetAllergenMatrixUseCase } from '@/application/use-cases/menu/get-allergen-matrix';
+import { CreateMenuDraftUseCase } from '@/application/use-cases/menu/create-menu-draft';
+import { SaveDraftRecipeUseCase } from '@/application/use-cases/menu/save-draft-recipe';
+import { RemoveDraftRecipeUseCase } from '@/application/use-cases/menu/remove-draft-recipe';
+import { GetMenuVersionDiffUseCase } from '@/application/use-cases/menu/get-menu-version-diff';
+import { PublishDueMenuVersionsUseCase } from '@/application/use-cases/menu/publish-due-menu-versions';
+import { ScheduleMenuVersionUseCase } from '@/application/use-cases/menu/schedule-menu-version';
+import { SaveStoreUseCase } from '@/application/use-cases/stores/save-store';
+import { ListStoresUseCase } from '@/application/use-cases/stores/list-stores';
+import { FindStoreForAddressUseCase } from '@/application/use-cases/stores/find-store-for-address';
+import { AssignStaffStoresUseCase } from '@/application/use-cases/stores/assign-staff-stores';
+import { PauseStoreOrderingUseCase } from '@/application/use-cases/stores/pause-store-ordering';
+import { GetEarliestSlotUseCase } from '@/application/use-cases/stores/get-earliest-slot';
+import { SetTaxExemptUseCase } from '@/application/use-cases/users/set-tax-exempt';
 import { DrizzleUserRepository, type UserRepository } from '@/infrastructure/database/repositories/user-repository';
+import { DrizzleOrderRepository } from '@/infrastructure/database/repositories/order-repository';
+import { DrizzleMenuRepository } from '@/infrastructure/database/repositories/menu-repository';
+import { DrizzlePaymentRepository } from '@/infrastructure/database/repositories/payment-repository';
+import { DrizzleOrderNumberGenerator } from '@/infrastructure/database/order-number-generator';
+import { FakePaymentGateway } from '@/infrastructure/payments/fake-payment-gateway';
+import { StaticExchangeRateProvider } from '@/infrastructure/exchange-rates/static-exchange-rate-provider';
+import { DrizzlePromotionRepository } from '@/infrastructure/database/repositories/promotion-repository';
+import { DrizzleDeliveryZoneRepository } from '@/infrastructure/database/repositories/delivery-zone-repository';
+import { DrizzleLoyaltyRepository } from '@/infrastructure/database/repositories/loyalty-repository';
+import { DrizzleGiftCardRepository } from '@/infrastructure/database/repositories/gift-card-repository';
+import { DrizzleInventoryRepository } from '@/infrastructure/database/repositories/inventory-repository';
+import { DrizzleSupplierRepository } from '@/infrastructure/database/repositories/supplier-repository';
+import { DrizzlePurchaseOrderRepository } from '@/infrastructure/database/repositories/purchase-order-repository';
+import { DrizzleMenuVersionRepository } from '@/infrastructure/database/repositories/menu-version-repository';
+import { DrizzleStoreRepository } from '@/infrastructure/database/repositories/store-repository';
+import { LookupTableGeocoder } from '@/infrastructure/geocoding/lookup-table-geocoder';
+import { DomainEventDispatcher } from '@/infrastructure/events/domain-event-dispatcher';
+import { LoyaltyOrderRefundedHandler, LoyaltyOrderStatusChangedHandler } from '@/infrastructure/events/loyalty-event-handlers';
+import { GiftCardOrderCancelledHandler } from '@/infrastructure/events/gift-card-event-handlers';
+import { InventoryOrderStatusChangedHandler } from '@/infrastructure/events/inventory-event-handlers';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import type { OrderNumberGenerator } from '@/domain/order/order-number';
+import type { PaymentRepository } from '@/domain/payment/payment-repository';
+import type { PaymentGateway } from '@/domain/payment/payment-gateway';
+import type { ExchangeRateProvider } from '@/domain/shared/exchange-rate';
+import { TaxEngine } from '@/domain/tax/tax-engine';
+import { DeliveryZoneService } from '@/domain/delivery/delivery-zone-service';
+import type { DeliveryZoneRepository } from '@/domain/delivery/delivery-zone-repository';
+import type { Geocoder } from '@/domain/delivery/geocoder';
+import type { PromotionRepository } from '@/domain/promotion/promotion-repository';
+import type { LoyaltyRepository } from '@/domain/loyalty/loyalty-repository';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import type { InventoryRepository } from '@/domain/inventory/inventory-repository';
+import type { SupplierRepository } from '@/domain/purchasing/supplier-repository';
+import type { PurchaseOrderRepository } from '@/domain/purchasing/purchase-order-repository';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import type { StoreRepository } from '@/domain/store/store-repository';
 
 // Dependency Injection Container
 export class DIContainer {
   private static instance: DIContainer;
-  private userRepository: UserRepository;
-  private registerUserUseCase: RegisterUserUseCase;
-  private authenticateUserUseCase: AuthenticateUserUseCase;
+  private userRepository!: UserRepository;
+  private orderRepository!: OrderRepository;
+  private menuRepository!: MenuRepository;
+  private orderNumberGenerator!: OrderNumberGenerator;
+  private paymentRepository!: PaymentRepository;
+  private paymentGateway!: PaymentGateway;
+  private exchangeRateProvider!: ExchangeRateProvider;
+  private taxEngine!: TaxEngine;
+  private deliveryZoneRepository!: DeliveryZoneRepository;
+  private geocoder!: Geocoder;
+  private promotionRepository!: PromotionRepository;
+  private loyaltyRepository!: LoyaltyRepository;
+  private giftCardRepository!: GiftCardRepository;
+  private inventoryRepository!: InventoryRepository;
+  private supplierRepository!: SupplierRepository;
+  private purchaseOrderRepository!: PurchaseOrderRepository;
+  private menuVersionRepository!: MenuVersionRepository;
+  private storeRepository!: StoreRepository;
+  private registerUserUseCase!: RegisterUserUseCase;
+  private authenticateUserUseCase!: AuthenticateUserUseCase;
+  private placeOrderUseCase!: PlaceOrderUseCase;
+  private getOrderUseCase!: GetOrderUseCase;
+  private getOrderTimelineUseCase!: GetOrderTimelineUseCase;
+  private changeOrderStatusUseCase!: ChangeOrderStatusUseCase;
+  private payOrderUseCase!: PayOrderUseCase;
+  private refundOrderUseCase!: RefundOrderUseCase;
+  private getLoyaltyAccountUseCase!: GetLoyaltyAccountUseCase;
+  private updateLoyaltyForOrderUseCase!: UpdateLoyaltyForOrderUseCase;
+  private issueGiftCardUseCase!: IssueGiftCardUseCase;
+  private voidGiftCardUseCase!: VoidGiftCardUseCase;
+  private restoreGiftCardsForOrderUseCase!: RestoreGiftCardsForOrderUseCase;
+  private updateInventoryForOrderUseCase!: UpdateInventoryForOrderUseCase;
+  private recordStockUseCase!: RecordStockUseCase;
+  private createSupplierUseCase!: CreateSupplierUseCase;
+  private createPurchaseOrderUseCase!: CreatePurchaseOrderUseCase;
+  private changePurchaseOrderStatusUseCase!: ChangePurchaseOrderStatusUseCase;
+  private receivePurchaseOrderUseCase!: ReceivePurchaseOrderUseCase;
+  private suggestReordersUseCase!: SuggestReordersUseCase;
+  private getMarginReportUseCase!: GetMarginReportUseCase;
+  private getMenuFoodCostsUseCase!: GetMenuFoodCostsUseCase;
+  private getPizzaMenuUseCase!: GetPizzaMenuUseCase;
+  private describePizzaUseCase!: DescribePizzaUseCase;
+  private getAllergenMatrixUseCase!: GetAllergenMatrixUseCase;
+  private createMenuDraftUseCase!: CreateMenuDraftUseCase;
+  private saveDraftRecipeUseCase!: SaveDraftRecipeUseCase;
+  private removeDraftRecipeUseCase!: RemoveDraftRecipeUseCase;
+  private getMenuVersionDiffUseCase!: GetMenuVersionDiffUseCase;
+  private publishDueMenuVersionsUseCase!: PublishDueMenuVersionsUseCase;
+  private scheduleMenuVersionUseCase!: ScheduleMenuVersionUseCase;
+  private saveStoreUseCase!: SaveStoreUseCase;
+  private listStoresUseCase!: ListStoresUseCase;
+  private findStoreForAddressUseCase!: FindStoreForAddressUseCase;
+  private assignStaffStoresUseCase!: AssignStaffStoresUseCase;
+  private pauseStoreOrderingUseCase!: PauseStoreOrderingUseCase;
+  private getEarliestSlotUseCase!: GetEarliestSlotUseCase;
+  private setTaxExemptUseCase!: SetTaxExemptUseCase;
 
   private constructor() {
     this.initializeDependencies();
@@ -16,6 +143,7 @@ export class DIContainer {
   static getInstance(): DIContainer {
     if (!DIContainer.instance) {
       DIContainer.instance = new DIContainer();
+      DIContainer.instance.registerEventHandlers();
     }
     return DIContainer.instance;
   }
@@ -23,6 +151,28 @@ export class DIContainer {
   private initializeDependencies(): void {
     // Infrastructure layer
     this.userRepository = new DrizzleUserRepository();
+    this.orderRepository = new DrizzleOrderRepository();
+    this.menuRepository = new DrizzleMenuRepository();
+    this.orderNumberGenerator = new DrizzleOrderNumberGenerator();
+    this.paymentRepository = new DrizzlePaymentRepository();
+    // Swap in a real provider adapter here; the fake keeps checkout working offline
+    this.paymentGateway = new FakePaymentGateway();
+    this.exchangeRateProvider = process.env.EXCHANGE_RATES_FILE
+      ? StaticExchangeRateProvider.fromFile(process.env.EXCHANGE_RATES_FILE)
+      : new StaticExchangeRateProvider();
+    this.taxEngine = new TaxEngine();
+    this.deliveryZoneRepository = new DrizzleDeliveryZoneRepository();
+    this.geocoder = process.env.GEOCODING_TABLE_FILE
+      ? LookupTableGeocoder.fromFile(process.env.GEOCODING_TABLE_FILE)
+      : new LookupTableGeocoder();
+    this.promotionRepository = new DrizzlePromotionRepository();
+    this.loyaltyRepository = new DrizzleLoyaltyRepository();
+    this.giftCardRepository = new DrizzleGiftCardRepository();
+    this.inventoryRepository = new DrizzleInventoryRepository();
+    this.supplierRepository = new DrizzleSupplierRepository();
+    this.purchaseOrderRepository = new DrizzlePurchaseOrderRepository();
+    this.menuVersionRepository = new DrizzleMenuVersionRepository();
+    this.storeRepository = new DrizzleStoreRepository();
 
     // Application layer - inject dependencies
     this.registerUserUseCase = new RegisterUserUseCase(this.userRepository);
@@ -30,12 +180,128 @@ export class DIContainer {
       this.userRepository,
       process.env.JWT_SECRET
     );
+    this.placeOrderUseCase = new PlaceOrderUseCase(
+      this.orderRepository,
+      this.menuRepository,
+      this.userRepository,
+      this.orderNumberGenerator,
+      this.exchangeRateProvider,
+      new DeliveryZoneService(this.deliveryZoneRepository, this.geocoder, this.exchangeRateProvider),
+      this.promotionRepository,
+      this.loyaltyRepository,
+      this.storeRepository,
+      this.taxEngine
+    );
+    this.getOrderUseCase = new GetOrderUseCase(this.orderRepository);
+    this.getOrderTimelineUseCase = new GetOrderTimelineUseCase(this.orderRepository);
+    this.changeOrderStatusUseCase = new ChangeOrderStatusUseCase(this.orderRepository);
+    this.payOrderUseCase = new PayOrderUseCase(
+      this.orderRepository,
+      this.paymentRepository,
+      this.paymentGateway,
+      this.giftCardRepository
+    );
+    this.refundOrderUseCase = new RefundOrderUseCase(
+      this.orderRepository,
+      this.paymentRepository,
+      this.paymentGateway,
+      this.giftCardRepository
+    );
+    this.getLoyaltyAccountUseCase = new GetLoyaltyAccountUseCase(this.loyaltyRepository);
+    this.updateLoyaltyForOrderUseCase = new UpdateLoyaltyForOrderUseCase(
+      this.orderRepository,
+      this.loyaltyRepository
+    );
+    this.issueGiftCardUseCase = new IssueGiftCardUseCase(this.giftCardRepository);
+    this.voidGiftCardUseCase = new VoidGiftCardUseCase(this.giftCardRepository);
+    this.restoreGiftCardsForOrderUseCase = new RestoreGiftCardsForOrderUseCase(
+      this.orderRepository,
+      this.paymentRepository,
+      this.giftCardRepository
+    );
+    this.updateInventoryForOrderUseCase = new UpdateInventoryForOrderUseCase(
+      this.orderRepository,
+      this.menuRepository,
+      this.menuVersionRepository,
+      this.inventoryRepository,
+      this.storeRepository
+    );
+    this.recordStockUseCase = new RecordStockUseCase(
+      this.inventoryRepository,
+      this.menuRepository,
+      this.storeRepository
+    );
+    this.createSupplierUseCase = new CreateSupplierUseCase(this.supplierRepository);
+    this.createPurchaseOrderUseCase = new CreatePurchaseOrderUseCase(
+      this.purchaseOrderRepository,
+      this.supplierRepository,
+      this.menuRepository
+    );
+    this.changePurchaseOrderStatusUseCase = new ChangePurchaseOrderStatusUseCase(this.purchaseOrderRepository);
+    this.receivePurchaseOrderUseCase = new ReceivePurchaseOrderUseCase(
+      this.purchaseOrderRepository,
+      this.recordStockUseCase
+    );
+    this.suggestReordersUseCase = new SuggestReordersUseCase(
+      this.inventoryRepository,
+      this.purchaseOrderRepository,
+      this.supplierRepository
+    );
+    this.getMarginReportUseCase = new GetMarginReportUseCase(this.orderRepository, this.menuRepository);
+    this.getMenuFoodCostsUseCase = new GetMenuFoodCostsUseCase(this.menuRepository);
+    this.getPizzaMenuUseCase = new GetPizzaMenuUseCase(this.menuRepository, this.menuVersionRepository, this.storeRepository);
+    this.describePizzaUseCase = new DescribePizzaUseCase(this.menuRepository);
+    this.getAllergenMatrixUseCase = new GetAllergenMatrixUseCase(this.menuRepository);
+    this.createMenuDraftUseCase = new CreateMenuDraftUseCase(this.menuVersionRepository, this.menuRepository);
+    this.saveDraftRecipeUseCase = new SaveDraftRecipeUseCase(this.menuVersionRepository, this.menuRepository);
+    this.removeDraftRecipeUseCase = new RemoveDraftRecipeUseCase(this.menuVersionRepository);
+    this.getMenuVersionDiffUseCase = new GetMenuVersionDiffUseCase(this.menuVersionRepository);
+    this.publishDueMenuVersionsUseCase = new PublishDueMenuVersionsUseCase(this.menuVersionRepository);
+    this.scheduleMenuVersionUseCase = new ScheduleMenuVersionUseCase(
+      this.menuVersionRepository,
+      this.publishDueMenuVersionsUseCase
+    );
+    this.saveStoreUseCase = new SaveStoreUseCase(this.storeRepository);
+    this.listStoresUseCase = new ListStoresUseCase(this.storeRepository);
+    this.findStoreForAddressUseCase = new FindStoreForAddressUseCase(
+      this.storeRepository,
+      new DeliveryZoneService(this.deliveryZoneRepository, this.geocoder, this.exchangeRateProvider)
+    );
+    this.assignStaffStoresUseCase = new AssignStaffStoresUseCase(this.userRepository, this.storeRepository);
+    this.pauseStoreOrderingUseCase = new PauseStoreOrderingUseCase(this.storeRepository);
+    this.getEarliestSlotUseCase = new GetEarliestSlotUseCase(this.storeRepository);
+    this.setTaxExemptUseCase = new SetTaxExemptUseCase(this.userRepository);
+  }
+
+  // Only the application-wide container subscribes, so test containers never touch the dispatcher
+  private registerEventHandlers(): void {
+    const dispatcher = DomainEventDispatcher.getInstance();
+    dispatcher.register('OrderStatusChangedEvent', new LoyaltyOrderStatusChangedHandler(this.updateLoyaltyForOrderUseCase));
+    dispatcher.register('OrderRefundedEvent', new LoyaltyOrderRefundedHandler(this.updateLoyaltyForOrderUseCase));
+    dispatcher.register('OrderStatusChangedEvent', new GiftCardOrderCancelledHandler(this.restoreGiftCardsForOrderUseCase));
+    dispatcher.register('OrderStatusChangedEvent', new InventoryOrderStatusChangedHandler(this.updateInventoryForOrderUseCase));
   }
 
   getUserRepository(): UserRepository {
     return this.userRepository;
   }
 
+  getOrderRepository(): OrderRepository {
+    return this.orderRepository;
+  }
+
+  getMenuRepository(): MenuRepository {
+    return this.menuRepository;
+  }
+
+  getPaymentRepository(): PaymentRepository {
+    return this.paymentRepository;
+  }
+
+  getStoreRepository(): StoreRepository {
+    return this.storeRepository;
+  }
+
   getRegisterUserUseCase(): RegisterUserUseCase {
     return this.registerUserUseCase;
   }
@@ -44,9 +310,170 @@ export class DIContainer {
     return this.authenticateUserUseCase;
   }
 
+  getPlaceOrderUseCase(): PlaceOrderUseCase {
+    return this.placeOrderUseCase;
+  }
+
+  getGetOrderUseCase(): GetOrderUseCase {
+    return this.getOrderUseCase;
+  }
+
+  getGetOrderTimelineUseCase(): GetOrderTimelineUseCase {
+    return this.getOrderTimelineUseCase;
+  }
+
+  getChangeOrderStatusUseCase(): ChangeOrderStatusUseCase {
+    return this.changeOrderStatusUseCase;
+  }
+
+  getPayOrderUseCase(): PayOrderUseCase {
+    return this.payOrderUseCase;
+  }
+
+  getRefundOrderUseCase(): RefundOrderUseCase {
+    return this.refundOrderUseCase;
+  }
+
+  getGetLoyaltyAccountUseCase(): GetLoyaltyAccountUseCase {
+    return this.getLoyaltyAccountUseCase;
+  }
+
+  getUpdateLoyaltyForOrderUseCase(): UpdateLoyaltyForOrderUseCase {
+    return this.updateLoyaltyForOrderUseCase;
+  }
+
+  getIssueGiftCardUseCase(): IssueGiftCardUseCase {
+    return this.issueGiftCardUseCase;
+  }
+
+  getVoidGiftCardUseCase(): VoidGiftCardUseCase {
+    return this.voidGiftCardUseCase;
+  }
+
+  getRestoreGiftCardsForOrderUseCase(): RestoreGiftCardsForOrderUseCase {
+    return this.restoreGiftCardsForOrderUseCase;
+  }
+
+  getUpdateInventoryForOrderUseCase(): UpdateInventoryForOrderUseCase {
+    return this.updateInventoryForOrderUseCase;
+  }
+
+  getRecordStockUseCase(): RecordStockUseCase {
+    return this.recordStockUseCase;
+  }
+
+  getCreateSupplierUseCase(): CreateSupplierUseCase {
+    return this.createSupplierUseCase;
+  }
+
+  getCreatePurchaseOrderUseCase(): CreatePurchaseOrderUseCase {
+    return this.createPurchaseOrderUseCase;
+  }
+
+  getChangePurchaseOrderStatusUseCase(): ChangePurchaseOrderStatusUseCase {
+    return this.changePurchaseOrderStatusUseCase;
+  }
+
+  getReceivePurchaseOrderUseCase(): ReceivePurchaseOrderUseCase {
+    return this.receivePurchaseOrderUseCase;
+  }
+
+  getSuggestReordersUseCase(): SuggestReordersUseCase {
+    return this.suggestReordersUseCase;
+  }
+
+  getGetMarginReportUseCase(): GetMarginReportUseCase {
+    return this.getMarginReportUseCase;
+  }
+
+  getGetMenuFoodCostsUseCase(): GetMenuFoodCostsUseCase {
+    return this.getMenuFoodCostsUseCase;
+  }
+
+  getGetPizzaMenuUseCase(): GetPizzaMenuUseCase {
+    return this.getPizzaMenuUseCase;
+  }
+
+  getDescribePizzaUseCase(): DescribePizzaUseCase {
+    return this.describePizzaUseCase;
+  }
+
+  getGetAllergenMatrixUseCase(): GetAllergenMatrixUseCase {
+    return this.getAllergenMatrixUseCase;
+  }
+
+  getCreateMenuDraftUseCase(): CreateMenuDraftUseCase {
+    return this.createMenuDraftUseCase;
+  }
+
+  getSaveDraftRecipeUseCase(): SaveDraftRecipeUseCase {
+    return this.saveDraftRecipeUseCase;
+  }
+
+  getRemoveDraftRecipeUseCase(): RemoveDraftRecipeUseCase {
+    return this.removeDraftRecipeUseCase;
+  }
+
+  getGetMenuVersionDiffUseCase(): GetMenuVersionDiffUseCase {
+    return this.getMenuVersionDiffUseCase;
+  }
+
+  getPublishDueMenuVersionsUseCase(): PublishDueMenuVersionsUseCase {
+    return this.publishDueMenuVersionsUseCase;
+  }
+
+  getScheduleMenuVersionUseCase(): ScheduleMenuVersionUseCase {
+    return this.scheduleMenuVersionUseCase;
+  }
+
+  getSaveStoreUseCase(): SaveStoreUseCase {
+    return this.saveStoreUseCase;
+  }
+
+  getListStoresUseCase(): ListStoresUseCase {
+    return this.listStoresUseCase;
+  }
+
+  getFindStoreForAddressUseCase(): FindStoreForAddressUseCase {
+    return this.findStoreForAddressUseCase;
+  }
+
+  getAssignStaffStoresUseCase(): AssignStaffStoresUseCase {
+    return this.assignStaffStoresUseCase;
+  }
+
+  getPauseStoreOrderingUseCase(): PauseStoreOrderingUseCase {
+    return this.pauseStoreOrderingUseCase;
+  }
+
+  getGetEarliestSlotUseCase(): GetEarliestSlotUseCase {
+    return this.getEarliestSlotUseCase;
+  }
+
+  getSetTaxExemptUseCase(): SetTaxExemptUseCase {
+    return this.setTaxExemptUseCase;
+  }
+
   // Factory method for testing with mocks
   static createForTesting(overrides: {
     userRepository?: UserRepository;
+    orderRepository?: OrderRepository;
+    menuRepository?: MenuRepository;
+    orderNumberGenerator?: OrderNumberGenerator;
+    paymentRepository?: PaymentRepository;
+    paymentGateway?: PaymentGateway;
+    exchangeRateProvider?: ExchangeRateProvider;
+    taxEngine?: TaxEngine;
+    deliveryZoneRepository?: DeliveryZoneRepository;
+    geocoder?: Geocoder;
+    promotionRepository?: PromotionRepository;
+    loyaltyRepository?: LoyaltyRepository;
+    giftCardRepository?: GiftCardRepository;
+    inventoryRepository?: InventoryRepository;
+    supplierRepository?: SupplierRepository;
+    purchaseOrderRepository?: PurchaseOrderRepository;
+    menuVersionRepository?: MenuVersionRepository;
+    storeRepository?: StoreRepository;
     jwtSecret?: string;
   }): DIContainer {
     const container = new DIContainer();
@@ -54,13 +481,172 @@ export class DIContainer {
     if (overrides.userRepository) {
       container.userRepository = overrides.userRepository;
     }
+
+    if (overrides.orderRepository) {
+      container.orderRepository = overrides.orderRepository;
+    }
+
+    if (overrides.menuRepository) {
+      container.menuRepository = overrides.menuRepository;
+    }
+
+    if (overrides.orderNumberGenerator) {
+      container.orderNumberGenerator = overrides.orderNumberGenerator;
+    }
+
+    if (overrides.paymentRepository) {
+      container.paymentRepository = overrides.paymentRepository;
+    }
+
+    if (overrides.paymentGateway) {
+      container.paymentGateway = overrides.paymentGateway;
+    }
+
+    if (overrides.exchangeRateProvider) {
+      container.exchangeRateProvider = overrides.exchangeRateProvider;
+    }
+
+    if (overrides.taxEngine) {
+      container.taxEngine = overrides.taxEngine;
+    }
+
+    if (overrides.deliveryZoneRepository) {
+      container.deliveryZoneRepository = overrides.deliveryZoneRepository;
+    }
+
+    if (overrides.geocoder) {
+      container.geocoder = overrides.geocoder;
+    }
+
+    if (overrides.promotionRepository) {
+      container.promotionRepository = overrides.promotionRepository;
+    }
+
+    if (overrides.loyaltyRepository) {
+      container.loyaltyRepository = overrides.loyaltyRepository;
+    }
+
+    if (overrides.giftCardRepository) {
+      container.giftCardRepository = overrides.giftCardRepository;
+    }
+
+    if (overrides.inventoryRepository) {
+      container.inventoryRepository = overrides.inventoryRepository;
+    }
+
+    if (overrides.supplierRepository) {
+      container.supplierRepository = overrides.supplierRepository;
+    }
+
+    if (overrides.purchaseOrderRepository) {
+      container.purchaseOrderRepository = overrides.purchaseOrderRepository;
+    }
+
+    if (overrides.menuVersionRepository) {
+      container.menuVersionRepository = overrides.menuVersionRepository;
+    }
+
+    if (overrides.storeRepository) {
+      container.storeRepository = overrides.storeRepository;
+    }
     
     container.registerUserUseCase = new RegisterUserUseCase(container.userRepository);
     container.authenticateUserUseCase = new AuthenticateUserUseCase(
       container.userRepository,
       overrides.jwtSecret
     );
+    container.placeOrderUseCase = new PlaceOrderUseCase(
+      container.orderRepository,
+      container.menuRepository,
+      container.userRepository,
+      container.orderNumberGenerator,
+      container.exchangeRateProvider,
+      new DeliveryZoneService(container.deliveryZoneRepository, container.geocoder, container.exchangeRateProvider),
+      container.promotionRepository,
+      container.loyaltyRepository,
+      container.storeRepository,
+      container.taxEngine
+    );
+    container.getOrderUseCase = new GetOrderUseCase(container.orderRepository);
+    container.getOrderTimelineUseCase = new GetOrderTimelineUseCase(container.orderRepository);
+    container.changeOrderStatusUseCase = new ChangeOrderStatusUseCase(container.orderRepository);
+    container.payOrderUseCase = new PayOrderUseCase(
+      container.orderRepository,
+      container.paymentRepository,
+      container.paymentGateway,
+      container.giftCardRepository
+    );
+    container.refundOrderUseCase = new RefundOrderUseCase(
+      container.orderRepository,
+      container.paymentRepository,
+      container.paymentGateway,
+      container.giftCardRepository
+    );
+    container.getLoyaltyAccountUseCase = new GetLoyaltyAccountUseCase(container.loyaltyRepository);
+    container.updateLoyaltyForOrderUseCase = new UpdateLoyaltyForOrderUseCase(
+      container.orderRepository,
+      container.loyaltyRepository
+    );
+    container.issueGiftCardUseCase = new IssueGiftCardUseCase(container.giftCardRepository);
+    container.voidGiftCardUseCase = new VoidGiftCardUseCase(container.giftCardRepository);
+    container.restoreGiftCardsForOrderUseCase = new RestoreGiftCardsForOrderUseCase(
+      container.orderRepository,
+      container.paymentRepository,
+      container.giftCardRepository
+    );
+    container.updateInventoryForOrderUseCase = new UpdateInventoryForOrderUseCase(
+      container.orderRepository,
+      container.menuRepository,
+      container.menuVersionRepository,
+      container.inventoryRepository,
+      container.storeRepository
+    );
+    container.recordStockUseCase = new RecordStockUseCase(
+      container.inventoryRepository,
+      container.menuRepository,
+      container.storeRepository
+    );
+    container.createSupplierUseCase = new CreateSupplierUseCase(container.supplierRepository);
+    container.createPurchaseOrderUseCase = new CreatePurchaseOrderUseCase(
+      container.purchaseOrderRepository,
+      container.supplierRepository,
+      container.menuRepository
+    );
+    container.changePurchaseOrderStatusUseCase = new ChangePurchaseOrderStatusUseCase(container.purchaseOrderRepository);
+    container.receivePurchaseOrderUseCase = new ReceivePurchaseOrderUseCase(
+      container.purchaseOrderRepository,
+      container.recordStockUseCase
+    );
+    container.suggestReordersUseCase = new SuggestReordersUseCase(
+      container.inventoryRepository,
+      container.purchaseOrderRepository,
+      container.supplierRepository
+    );
+    container.getMarginReportUseCase = new GetMarginReportUseCase(container.orderRepository, container.menuRepository);
+    container.getMenuFoodCostsUseCase = new GetMenuFoodCostsUseCase(container.menuRepository);
+    container.getPizzaMenuUseCase = new GetPizzaMenuUseCase(container.menuRepository, container.menuVersionRepository, container.storeRepository);
+    container.describePizzaUseCase = new DescribePizzaUseCase(container.menuRepository);
+    container.getAllergenMatrixUseCase = new GetAllergenMatrixUseCase(container.menuRepository);
+    container.createMenuDraftUseCase = new CreateMenuDraftUseCase(container.menuVersionRepository, container.menuRepository);
+    container.saveDraftRecipeUseCase = new SaveDraftRecipeUseCase(container.menuVersionRepository, container.menuRepository);
+    container.removeDraftRecipeUseCase = new RemoveDraftRecipeUseCase(container.menuVersionRepository);
+    container.getMenuVersionDiffUseCase = new GetMenuVersionDiffUseCase(container.menuVersionRepository);
+    container.publishDueMenuVersionsUseCase = new PublishDueMenuVersionsUseCase(container.menuVersionRepository);
+    container.scheduleMenuVersionUseCase = new ScheduleMenuVersionUseCase(
+      container.menuVersionRepository,
+      container.publishDueMenuVersionsUseCase
+    );
+    container.saveStoreUseCase = new SaveStoreUseCase(container.storeRepository);
+    container.listStoresUseCase = new ListStoresUseCase(container.storeRepository);
+    container.findStoreForAddressUseCase = new FindStoreForAddressUseCase(
+      container.storeRepository,
+      new DeliveryZoneService(container.deliveryZoneRepository, container.geocoder, container.exchangeRateProvider)
+    );
+    container.assignStaffStoresUseCase = new AssignStaffStoresUseCase(container.userRepository, container.storeRepository);
+    container.pauseStoreOrderingUseCase = new PauseStoreOrderingUseCase(container.storeRepository);
+    container.getEarliestSlotUseCase = new GetEarliestSlotUseCase(container.storeRepository);
+    container.setTaxExemptUseCase = new SetTaxExemptUseCase(container.userRepository);
     
     return container;
   }
-}
\ No newline at end of file
+}
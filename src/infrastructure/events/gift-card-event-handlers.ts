@@ -0,0 +1,18 @@
+import type { DomainEventHandler } from './domain-event-dispatcher';
+import type { OrderStatusChangedEvent } from '@/domain/order/order';
+import type { RestoreGiftCardsForOrderUseCase } from '@/application/use-cases/gift-cards/restore-gift-cards-for-order';
+
+export class GiftCardOrderCancelledHandler implements DomainEventHandler<OrderStatusChangedEvent> {
+  constructor(private restoreGiftCardsForOrderUseCase: RestoreGiftCardsForOrderUseCase) {}
+
+  async handle(event: OrderStatusChangedEvent): Promise<void> {
+    if (event.newStatus !== 'CANCELLED') {
+      return;
+    }
+
+    const result = await this.restoreGiftCardsForOrderUseCase.execute({ orderId: event.orderId });
+    if (result.isErr()) {
+      throw result.error;
+    }
+  }
+}
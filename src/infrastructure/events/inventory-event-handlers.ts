@@ -0,0 +1,21 @@
+import type { DomainEventHandler } from './domain-event-dispatcher';
+import type { OrderStatusChangedEvent } from '@/domain/order/order';
+import type { UpdateInventoryForOrderUseCase } from '@/application/use-cases/inventory/update-inventory-for-order';
+
+export class InventoryOrderStatusChangedHandler implements DomainEventHandler<OrderStatusChangedEvent> {
+  constructor(private updateInventoryForOrderUseCase: UpdateInventoryForOrderUseCase) {}
+
+  async handle(event: OrderStatusChangedEvent): Promise<void> {
+    if (event.newStatus !== 'CONFIRMED' && event.newStatus !== 'PREPARING' && event.newStatus !== 'CANCELLED') {
+      return;
+    }
+
+    const result = await this.updateInventoryForOrderUseCase.execute({
+      orderId: event.orderId,
+      change: event.newStatus,
+    });
+    if (result.isErr()) {
+      throw result.error;
+    }
+  }
+}
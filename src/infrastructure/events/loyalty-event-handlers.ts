@@ -0,0 +1,40 @@
+import type { DomainEventHandler } from './domain-event-dispatcher';
+import type { OrderRefundedEvent, OrderStatusChangedEvent } from '@/domain/order/order';
+import type { UpdateLoyaltyForOrderUseCase } from '@/application/use-cases/loyalty/update-loyalty-for-order';
+
+export class LoyaltyOrderStatusChangedHandler implements DomainEventHandler<OrderStatusChangedEvent> {
+  constructor(private updateLoyaltyForOrderUseCase: UpdateLoyaltyForOrderUseCase) {}
+
+  async handle(event: OrderStatusChangedEvent): Promise<void> {
+    if (event.newStatus !== 'DELIVERED' && event.newStatus !== 'CANCELLED') {
+      return;
+    }
+
+    const result = await this.updateLoyaltyForOrderUseCase.execute({
+      orderId: event.orderId,
+      change: { kind: event.newStatus },
+    });
+    if (result.isErr()) {
+      throw result.error;
+    }
+  }
+}
+
+export class LoyaltyOrderRefundedHandler implements DomainEventHandler<OrderRefundedEvent> {
+  constructor(private updateLoyaltyForOrderUseCase: UpdateLoyaltyForOrderUseCase) {}
+
+  async handle(event: OrderRefundedEvent): Promise<void> {
+    const result = await this.updateLoyaltyForOrderUseCase.execute({
+      orderId: event.orderId,
+      change: {
+        kind: 'REFUNDED',
+        refundId: event.refundId,
+        amount: event.amount,
+        fullyRefunded: event.fullyRefunded,
+      },
+    });
+    if (result.isErr()) {
+      throw result.error;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { CurrencySchema, type Currency } from '@/domain/shared/money';
+import type { ExchangeRate, ExchangeRateProvider } from '@/domain/shared/exchange-rate';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+
+// Rates are quoted against one base currency: 1 base = rates[currency]
+export const ExchangeRateTableSchema = z.object({
+  base: CurrencySchema,
+  asOf: z.coerce.date(),
+  rates: z.record(CurrencySchema, z.number().positive()),
+});
+export type ExchangeRateTable = z.infer<typeof ExchangeRateTableSchema>;
+
+export const DEFAULT_EXCHANGE_RATE_TABLE: ExchangeRateTable = {
+  base: 'USD',
+  asOf: new Date('2026-01-01T00:00:00Z'),
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    RUB: 92.5,
+  },
+};
+
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  constructor(
+    private readonly table: ExchangeRateTable = DEFAULT_EXCHANGE_RATE_TABLE,
+    private readonly source: string = 'static'
+  ) {}
+
+  // Loads a table in the same shape as DEFAULT_EXCHANGE_RATE_TABLE from a JSON file
+  static fromFile(path: string): StaticExchangeRateProvider {
+    const table = ExchangeRateTableSchema.parse(JSON.parse(readFileSync(path, 'utf-8')));
+    return new StaticExchangeRateProvider(table, `file:${path}`);
+  }
+
+  getRate(from: Currency, to: Currency): Result<ExchangeRate, NotFoundError> {
+    const fromRate = this.rateAgainstBase(from);
+    const toRate = this.rateAgainstBase(to);
+
+    if (fromRate === undefined || toRate === undefined) {
+      return Err(new NotFoundError('ExchangeRate', `${from}/${to}`));
+    }
+
+    return Ok({
+      from,
+      to,
+      rate: toRate / fromRate,
+      asOf: this.table.asOf,
+      source: this.source,
+    });
+  }
+
+  private rateAgainstBase(currency: Currency): number | undefined {
+    return currency === this.table.base ? 1 : this.table.rates[currency];
+  }
+}
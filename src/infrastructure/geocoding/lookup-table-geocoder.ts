@@ -0,0 +1,32 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { Address } from '@/domain/order/order';
+import { CoordinatesSchema, normalizePostalCode, type Coordinates } from '@/domain/delivery/delivery-zone';
+import type { Geocoder } from '@/domain/delivery/geocoder';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+
+// Postal code centroids keyed by "COUNTRY:POSTALCODE", e.g. "US:90210"
+export const GeocodingTableSchema = z.record(z.string(), CoordinatesSchema);
+export type GeocodingTable = z.infer<typeof GeocodingTableSchema>;
+
+// Offline geocoder that resolves an address to its postal code centroid
+export class LookupTableGeocoder implements Geocoder {
+  private readonly table: Map<string, Coordinates>;
+
+  constructor(table: GeocodingTable = {}) {
+    this.table = new Map(
+      Object.entries(table).map(([key, coordinates]) => [normalizePostalCode(key), coordinates])
+    );
+  }
+
+  static fromFile(path: string): LookupTableGeocoder {
+    return new LookupTableGeocoder(GeocodingTableSchema.parse(JSON.parse(readFileSync(path, 'utf-8'))));
+  }
+
+  async geocode(address: Address): Promise<Result<Coordinates, NotFoundError>> {
+    const key = `${address.country.toUpperCase()}:${normalizePostalCode(address.postalCode)}`;
+    const coordinates = this.table.get(key);
+
+    return coordinates ? Ok(coordinates) : Err(new NotFoundError('Coordinates', key));
+  }
+}
@@ -0,0 +1,110 @@
+import type { AuthorizationRequest, GatewayOutcome, PaymentGateway } from '@/domain/payment/payment-gateway';
+import { Money } from '@/domain/shared/money';
+import { Result, Ok, Err } from '@/domain/shared/result';
+
+// Card numbers with a fixed outcome, so checkout can be exercised offline.
+// Any other number is declined.
+export const FAKE_GATEWAY_TEST_CARDS = {
+  SUCCESS: '4242424242424242',
+  DECLINED: '4000000000000002',
+  INSUFFICIENT_FUNDS: '4000000000009995',
+  CAPTURE_FAILS: '4000000000000341',
+  GATEWAY_ERROR: '4000000000000119',
+} as const;
+
+interface FakeCharge {
+  cardNumber: string;
+  authorized: Money;
+  captured: Money | null;
+  refunded: Money | null;
+  voided: boolean;
+}
+
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  private charges: Map<string, FakeCharge> = new Map();
+
+  async authorize(request: AuthorizationRequest): Promise<Result<GatewayOutcome, Error>> {
+    const cardNumber = request.card.number.replace(/\s+/g, '');
+
+    switch (cardNumber) {
+      case FAKE_GATEWAY_TEST_CARDS.GATEWAY_ERROR:
+        return Err(new Error('Fake gateway: simulated processing error'));
+      case FAKE_GATEWAY_TEST_CARDS.DECLINED:
+        return Ok({ approved: false, providerReference: null, declineReason: 'Card declined' });
+      case FAKE_GATEWAY_TEST_CARDS.INSUFFICIENT_FUNDS:
+        return Ok({ approved: false, providerReference: null, declineReason: 'Insufficient funds' });
+      case FAKE_GATEWAY_TEST_CARDS.SUCCESS:
+      case FAKE_GATEWAY_TEST_CARDS.CAPTURE_FAILS:
+        break;
+      default:
+        return Ok({ approved: false, providerReference: null, declineReason: 'Unknown test card' });
+    }
+
+    const providerReference = `fake_${crypto.randomUUID()}`;
+    this.charges.set(providerReference, {
+      cardNumber,
+      authorized: request.amount,
+      captured: null,
+      refunded: null,
+      voided: false,
+    });
+
+    return Ok({ approved: true, providerReference });
+  }
+
+  async capture(providerReference: string, amount: Money): Promise<Result<GatewayOutcome, Error>> {
+    const charge = this.charges.get(providerReference);
+    if (!charge) {
+      return Err(new Error(`Fake gateway: unknown charge ${providerReference}`));
+    }
+
+    if (charge.cardNumber === FAKE_GATEWAY_TEST_CARDS.CAPTURE_FAILS) {
+      return Ok({ approved: false, providerReference, declineReason: 'Capture rejected by issuer' });
+    }
+
+    if (charge.voided || charge.captured) {
+      return Ok({ approved: false, providerReference, declineReason: 'Charge is not capturable' });
+    }
+
+    if (amount.isGreaterThan(charge.authorized)) {
+      return Ok({ approved: false, providerReference, declineReason: 'Amount exceeds authorization' });
+    }
+
+    charge.captured = amount;
+    return Ok({ approved: true, providerReference });
+  }
+
+  async void(providerReference: string): Promise<Result<GatewayOutcome, Error>> {
+    const charge = this.charges.get(providerReference);
+    if (!charge) {
+      return Err(new Error(`Fake gateway: unknown charge ${providerReference}`));
+    }
+
+    if (charge.captured) {
+      return Ok({ approved: false, providerReference, declineReason: 'Captured charges must be refunded' });
+    }
+
+    charge.voided = true;
+    return Ok({ approved: true, providerReference });
+  }
+
+  async refund(providerReference: string, amount: Money): Promise<Result<GatewayOutcome, Error>> {
+    const charge = this.charges.get(providerReference);
+    if (!charge) {
+      return Err(new Error(`Fake gateway: unknown charge ${providerReference}`));
+    }
+
+    if (!charge.captured) {
+      return Ok({ approved: false, providerReference, declineReason: 'Charge has not been captured' });
+    }
+
+    const refunded = charge.refunded ? charge.refunded.add(amount) : amount;
+    if (refunded.isGreaterThan(charge.captured)) {
+      return Ok({ approved: false, providerReference, declineReason: 'Refund exceeds captured amount' });
+    }
+
+    charge.refunded = refunded;
+    return Ok({ approved: true, providerReference: `fake_refund_${crypto.randomUUID()}` });
+  }
+}
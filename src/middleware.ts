@@ -5,6 +5,8 @@ interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  // Missing from tokens issued before stores were introduced
+  storeIds?: string[];
   iat: number;
   exp: number;
 }
@@ -17,6 +19,14 @@ const publicPaths = [
   '/api/auth/login',
   '/api/auth/register',
   '/api/menu/pizzas',
+  '/api/menu/pizzas/nutrition',
+  '/api/menu/allergen-matrix',
+  '/api/menu/products',
+  '/api/menu/bundles',
+  '/api/stores',
+  '/api/stores/*',
+  // Scheduled jobs; each route checks CRON_SECRET itself
+  '/api/cron/*',
   '/',
   '/menu',
   '/about',
@@ -24,9 +34,19 @@ const publicPaths = [
 
 const adminPaths = [
   '/api/admin',
-  '/api/menu/pizzas',
 ];
 
+// Admin routes managers may use too; the use cases limit them to their own stores
+const managerAdminPaths = [
+  /^\/api\/admin\/stores\/[^/]+\/ordering$/,
+  /^\/api\/admin\/inventory(\/.*)?$/,
+  /^\/api\/admin\/suppliers(\/.*)?$/,
+  /^\/api\/admin\/purchase-orders(\/.*)?$/,
+  /^\/api\/admin\/menu-versions(\/.*)?$/,
+];
+
+const USER_HEADERS = ['x-user-id', 'x-user-email', 'x-user-role', 'x-user-store-ids'];
+
 const protectedPaths = [
   '/api/orders',
   '/api/user',
@@ -38,7 +58,11 @@ export async function middleware(request: NextRequest) {
 
   // Check if path is public
   if (isPublicPath(pathname)) {
-    return NextResponse.next();
+    return NextResponse.next({
+      request: {
+        headers: withoutUserHeaders(request.headers),
+      },
+    });
   }
 
   // Get tokens from cookies
@@ -51,26 +75,8 @@ export async function middleware(request: NextRequest) {
   try {
     // Verify JWT token
     const { payload } = await jwtVerify(accessToken, JWT_SECRET) as { payload: JWTPayload };
-    
-    // Check admin permissions for admin paths
-    if (isAdminPath(pathname) && payload.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      );
-    }
 
-    // Add user info to headers for downstream handlers
-    const requestHeaders = new Headers(request.headers);
-    requestHeaders.set('x-user-id', payload.userId);
-    requestHeaders.set('x-user-email', payload.email);
-    requestHeaders.set('x-user-role', payload.role);
-
-    return NextResponse.next({
-      request: {
-        headers: requestHeaders,
-      },
-    });
+    return forwardAs(request, payload);
   } catch (error) {
     console.error('JWT verification failed:', error);
     
@@ -81,7 +87,11 @@ export async function middleware(request: NextRequest) {
       try {
         const refreshResponse = await refreshAccessToken(refreshToken);
         if (refreshResponse) {
-          const response = NextResponse.next();
+          const response = forwardAs(request, refreshResponse.payload);
+          if (!response.ok) {
+            return response;
+          }
+
           response.cookies.set('accessToken', refreshResponse.accessToken, {
             httpOnly: true,
             secure: process.env.NODE_ENV === 'production',
@@ -100,6 +110,37 @@ export async function middleware(request: NextRequest) {
   }
 }
 
+// Checks admin permissions for admin paths, then hands the verified user to downstream handlers
+// in place of any identity headers the client sent
+function forwardAs(request: NextRequest, payload: JWTPayload): NextResponse {
+  const { pathname } = request.nextUrl;
+  if (isAdminPath(pathname) && payload.role !== 'ADMIN' && !(payload.role === 'MANAGER' && isManagerAdminPath(pathname))) {
+    return NextResponse.json(
+      { error: 'Insufficient permissions' },
+      { status: 403 }
+    );
+  }
+
+  const requestHeaders = withoutUserHeaders(request.headers);
+  requestHeaders.set('x-user-id', payload.userId);
+  requestHeaders.set('x-user-email', payload.email);
+  requestHeaders.set('x-user-role', payload.role);
+  requestHeaders.set('x-user-store-ids', (payload.storeIds || []).join(','));
+
+  return NextResponse.next({
+    request: {
+      headers: requestHeaders,
+    },
+  });
+}
+
+// Public paths skip token verification, so identity headers sent by the client must not reach them
+function withoutUserHeaders(headers: Headers): Headers {
+  const requestHeaders = new Headers(headers);
+  USER_HEADERS.forEach(header => requestHeaders.delete(header));
+  return requestHeaders;
+}
+
 function isPublicPath(pathname: string): boolean {
   return publicPaths.some(path => 
     pathname === path || 
@@ -108,7 +149,11 @@ function isPublicPath(pathname: string): boolean {
 }
 
 function isAdminPath(pathname: string): boolean {
-  return adminPaths.some(path => pathname.startsWith(path));
+  return adminPaths.some(path => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+function isManagerAdminPath(pathname: string): boolean {
+  return managerAdminPaths.some(pattern => pattern.test(pathname));
 }
 
 function isProtectedPath(pathname: string): boolean {
@@ -121,12 +166,13 @@ function redirectToLogin(request: NextRequest): NextResponse {
   return NextResponse.redirect(loginUrl);
 }
 
-async function refreshAccessToken(refreshToken: string): Promise<{ accessToken: string } | null> {
+async function refreshAccessToken(refreshToken: string): Promise<{ accessToken: string; payload: JWTPayload } | null> {
   try {
     const { SignJWT } = await import('jose');
     const { payload } = await jwtVerify(refreshToken, JWT_SECRET) as { payload: JWTPayload & { type: string } };
     
-    if (payload.type !== 'refresh') {
+    // Refresh tokens issued before they carried the user's role cannot vouch for it
+    if (payload.type !== 'refresh' || !payload.role) {
       return null;
     }
 
@@ -135,13 +181,14 @@ async function refreshAccessToken(refreshToken: string): Promise<{ accessToken:
       userId: payload.userId,
       email: payload.email,
       role: payload.role,
+      storeIds: payload.storeIds || [],
     })
       .setProtectedHeader({ alg: 'HS256' })
       .setIssuedAt()
       .setExpirationTime('1h')
       .sign(JWT_SECRET);
 
-    return { accessToken: newAccessToken };
+    return { accessToken: newAccessToken, payload };
   } catch {
     return null;
   }
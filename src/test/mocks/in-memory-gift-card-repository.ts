@@ -0,0 +1,71 @@
+import { GiftCard, giftCardTransactionDelta, normalizeGiftCardCode } from '@/domain/gift-card/gift-card';
+import type { GiftCardRepository } from '@/domain/gift-card/gift-card-repository';
+import { Result, Ok, Err, NotFoundError, ConflictError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+type StoredGiftCard = Parameters<typeof GiftCard.reconstitute>[0];
+
+/**
+ * In-memory implementation of GiftCardRepository for testing purposes.
+ * Cards are stored as snapshots, so each lookup gets its own copy just like a database read.
+ */
+export class InMemoryGiftCardRepository implements GiftCardRepository {
+  private giftCards: Map<ID, StoredGiftCard> = new Map();
+
+  async findById(id: ID): Promise<Result<GiftCard, NotFoundError>> {
+    const stored = this.giftCards.get(id);
+    return stored ? Ok(GiftCard.reconstitute(stored)) : Err(new NotFoundError('GiftCard', id));
+  }
+
+  async findByCode(code: string): Promise<Result<GiftCard, NotFoundError>> {
+    const normalized = normalizeGiftCardCode(code);
+    const stored = Array.from(this.giftCards.values()).find(candidate => candidate.code === normalized);
+    return stored ? Ok(GiftCard.reconstitute(stored)) : Err(new NotFoundError('GiftCard', code));
+  }
+
+  async findByOrderId(orderId: ID): Promise<Result<GiftCard[], Error>> {
+    return Ok(
+      Array.from(this.giftCards.values())
+        .filter(stored => stored.transactions.some(transaction => transaction.orderId === orderId))
+        .map(stored => GiftCard.reconstitute(stored))
+    );
+  }
+
+  async save(giftCard: GiftCard): Promise<Result<GiftCard, ConflictError | Error>> {
+    const stored = this.giftCards.get(giftCard.id);
+    const pendingDelta = giftCard.pendingTransactions.reduce(
+      (total, transaction) => total + giftCardTransactionDelta(transaction),
+      0
+    );
+
+    if (stored && stored.balance.minorUnits + pendingDelta !== giftCard.balance.minorUnits) {
+      return Err(new ConflictError('Gift card balance', {
+        giftCardId: giftCard.id,
+      }));
+    }
+
+    this.giftCards.set(giftCard.id, {
+      id: giftCard.id,
+      code: giftCard.code,
+      initialBalance: giftCard.initialBalance,
+      balance: giftCard.balance,
+      status: giftCard.status,
+      expiresAt: giftCard.expiresAt,
+      issuedBy: giftCard.issuedBy,
+      transactions: [...(stored?.transactions || []), ...giftCard.pendingTransactions],
+      createdAt: giftCard.createdAt,
+      updatedAt: giftCard.updatedAt,
+    });
+
+    giftCard.markTransactionsPersisted();
+    giftCard.clearEvents();
+    return Ok(giftCard);
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.giftCards.clear();
+  }
+}
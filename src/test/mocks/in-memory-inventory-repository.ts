@@ -0,0 +1,103 @@
+import { StockLevel, roundQuantity, stockMovementDelta, type StockMovement } from '@/domain/inventory/stock-level';
+import type { InventoryRepository } from '@/domain/inventory/inventory-repository';
+import { Result, Ok, Err, ConflictError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+type StoredStockLevel = Parameters<typeof StockLevel.reconstitute>[0];
+
+/**
+ * In-memory implementation of InventoryRepository for testing purposes.
+ * Levels are stored as snapshots keyed by store and ingredient, so each lookup gets its own copy.
+ */
+export class InMemoryInventoryRepository implements InventoryRepository {
+  private levels: Map<string, StoredStockLevel> = new Map();
+  private movements: StockMovement[] = [];
+
+  async findStockLevels(storeId: ID, ingredientIds: ID[]): Promise<Result<StockLevel[], Error>> {
+    return Ok(
+      ingredientIds
+        .map(ingredientId => this.levels.get(this.keyOf(storeId, ingredientId)))
+        .filter((stored): stored is StoredStockLevel => stored !== undefined)
+        .map(stored => StockLevel.reconstitute(stored))
+    );
+  }
+
+  async findStockLevelsByStore(storeId: ID): Promise<Result<StockLevel[], Error>> {
+    return Ok(
+      Array.from(this.levels.values())
+        .filter(stored => stored.storeId === storeId)
+        .map(stored => StockLevel.reconstitute(stored))
+    );
+  }
+
+  async findMovementsByOrderId(orderId: ID): Promise<Result<StockMovement[], Error>> {
+    return Ok(this.movements.filter(movement => movement.orderId === orderId));
+  }
+
+  async findConsumptionSince(storeId: ID, since: Date): Promise<Result<Map<ID, number>, Error>> {
+    const consumption = new Map<ID, number>();
+    for (const movement of this.movements) {
+      if (movement.storeId === storeId && movement.type === 'CONSUME' && movement.createdAt >= since) {
+        consumption.set(movement.ingredientId, roundQuantity((consumption.get(movement.ingredientId) || 0) + movement.quantity));
+      }
+    }
+    return Ok(consumption);
+  }
+
+  async save(levels: StockLevel[]): Promise<Result<StockLevel[], ConflictError | Error>> {
+    for (const level of levels) {
+      const stored = this.levels.get(this.keyOf(level.storeId, level.ingredientId));
+      const deltas = level.pendingMovements.map(stockMovementDelta);
+      const onHandDelta = deltas.reduce((total, delta) => total + delta.onHand, 0);
+      const reservedDelta = deltas.reduce((total, delta) => total + delta.reserved, 0);
+
+      if (stored && (
+        roundQuantity(stored.onHand + onHandDelta) !== level.onHand ||
+        roundQuantity(stored.reserved + reservedDelta) !== level.reserved
+      )) {
+        return Err(new ConflictError('Stock level', {
+          storeId: level.storeId,
+          ingredientId: level.ingredientId,
+        }));
+      }
+    }
+
+    for (const level of levels) {
+      this.levels.set(this.keyOf(level.storeId, level.ingredientId), {
+        id: level.id,
+        storeId: level.storeId,
+        ingredientId: level.ingredientId,
+        onHand: level.onHand,
+        reserved: level.reserved,
+        parLevel: level.parLevel,
+        createdAt: level.createdAt,
+        updatedAt: level.updatedAt,
+      });
+      this.movements.push(...level.pendingMovements);
+
+      level.markMovementsPersisted();
+      level.clearEvents();
+    }
+
+    return Ok(levels);
+  }
+
+  /**
+   * Current figures for one ingredient, for assertions.
+   */
+  levelOf(storeId: ID, ingredientId: ID): StoredStockLevel | undefined {
+    return this.levels.get(this.keyOf(storeId, ingredientId));
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.levels.clear();
+    this.movements = [];
+  }
+
+  private keyOf(storeId: ID, ingredientId: ID): string {
+    return `${storeId}:${ingredientId}`;
+  }
+}
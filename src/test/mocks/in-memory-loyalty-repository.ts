@@ -0,0 +1,62 @@
+import type { LoyaltyLedgerEntry } from '@/domain/loyalty/loyalty';
+import type { LoyaltyRepository } from '@/domain/loyalty/loyalty-repository';
+import { Result, Ok, Err, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+/**
+ * In-memory implementation of LoyaltyRepository for testing purposes.
+ * Balance checks and writes happen without awaiting, so parallel redemptions behave atomically.
+ */
+export class InMemoryLoyaltyRepository implements LoyaltyRepository {
+  private entries: LoyaltyLedgerEntry[] = [];
+
+  async findByCustomerId(customerId: ID): Promise<Result<LoyaltyLedgerEntry[], Error>> {
+    return Ok(this.entries.filter(entry => entry.customerId === customerId));
+  }
+
+  async findByOrderId(orderId: ID): Promise<Result<LoyaltyLedgerEntry[], Error>> {
+    return Ok(this.entries.filter(entry => entry.orderId === orderId));
+  }
+
+  async append(entries: LoyaltyLedgerEntry[]): Promise<Result<void, Error>> {
+    for (const entry of entries) {
+      const recorded = this.entries.some(
+        existing => existing.type === entry.type && existing.reference === entry.reference
+      );
+      if (!recorded) {
+        this.entries.push(entry);
+      }
+    }
+    return Ok(undefined);
+  }
+
+  async redeem(entry: LoyaltyLedgerEntry): Promise<Result<void, BusinessRuleViolationError | Error>> {
+    const balance = this.entries
+      .filter(existing => existing.customerId === entry.customerId)
+      .reduce((total, existing) => total + existing.points, 0);
+
+    if (balance + entry.points < 0) {
+      return Err(new BusinessRuleViolationError('Not enough loyalty points', {
+        balance,
+        requested: -entry.points,
+      }));
+    }
+
+    this.entries.push(entry);
+    return Ok(undefined);
+  }
+
+  /**
+   * Get all recorded entries. Useful for testing.
+   */
+  getAll(): LoyaltyLedgerEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,94 @@
+import { MenuVersion } from '@/domain/menu/menu-version';
+import type { MenuVersionRepository } from '@/domain/menu/menu-version-repository';
+import { PizzaRecipe } from '@/domain/menu/pizza';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+type StoredMenuVersion = Parameters<typeof MenuVersion.reconstitute>[0];
+
+/**
+ * In-memory implementation of MenuVersionRepository for testing purposes.
+ * Versions are stored as snapshots, so each lookup gets its own copy just like a database read.
+ * The live menu that publish() writes is kept as the recipes it would put in pizza_recipes.
+ */
+export class InMemoryMenuVersionRepository implements MenuVersionRepository {
+  private versions: Map<ID, StoredMenuVersion> = new Map();
+  private liveRecipes: Map<ID, { recipe: PizzaRecipe; isAvailable: boolean; versionId: ID }> = new Map();
+
+  async findById(id: ID): Promise<Result<MenuVersion, NotFoundError>> {
+    const stored = this.versions.get(id);
+    return stored ? Ok(MenuVersion.reconstitute(stored)) : Err(new NotFoundError('MenuVersion', id));
+  }
+
+  async findPublished(): Promise<Result<MenuVersion | null, Error>> {
+    const stored = Array.from(this.versions.values()).find(version => version.status === 'PUBLISHED');
+    return Ok(stored ? MenuVersion.reconstitute(stored) : null);
+  }
+
+  async findDue(now: Date): Promise<Result<MenuVersion[], Error>> {
+    return Ok(
+      Array.from(this.versions.values())
+        .map(stored => MenuVersion.reconstitute(stored))
+        .filter(version => version.isDue(now))
+        .sort((a, b) => a.publishAt!.getTime() - b.publishAt!.getTime())
+    );
+  }
+
+  async findRecipesByVersionIds(ids: ID[]): Promise<Result<PizzaRecipe[], Error>> {
+    return Ok(
+      Array.from(this.versions.values())
+        .flatMap(version => version.recipes)
+        .filter(entry => ids.includes(entry.id))
+        // Read back pointing at its entry, as the database returns it
+        .map(entry => PizzaRecipe.create({ ...entry.recipe, versionId: entry.id })._unsafeUnwrap())
+    );
+  }
+
+  async save(version: MenuVersion): Promise<Result<MenuVersion, Error>> {
+    this.versions.set(version.id, {
+      id: version.id,
+      name: version.name,
+      recipes: version.recipes,
+      basedOnId: version.basedOnId,
+      createdBy: version.createdBy,
+      status: version.status,
+      publishAt: version.publishAt,
+      publishedAt: version.publishedAt,
+      createdAt: version.createdAt,
+      updatedAt: version.updatedAt,
+    });
+
+    return Ok(version);
+  }
+
+  async publish(version: MenuVersion, replaced: MenuVersion[]): Promise<Result<MenuVersion, Error>> {
+    for (const replacedVersion of replaced) {
+      await this.save(replacedVersion);
+    }
+    await this.save(version);
+
+    for (const live of this.liveRecipes.values()) {
+      live.isAvailable = false;
+    }
+    for (const entry of version.recipes) {
+      this.liveRecipes.set(entry.recipe.id, { recipe: entry.recipe, isAvailable: entry.isAvailable, versionId: entry.id });
+    }
+
+    return Ok(version);
+  }
+
+  /**
+   * The live menu as publish() left it, by recipe id.
+   */
+  getLiveRecipes(): Map<ID, { recipe: PizzaRecipe; isAvailable: boolean; versionId: ID }> {
+    return new Map(this.liveRecipes);
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.versions.clear();
+    this.liveRecipes.clear();
+  }
+}
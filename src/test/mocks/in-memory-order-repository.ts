@@ -1,183 +1,132 @@
-import { Order } from '@/domain/order/order';
-import { OrderRepository } from '@/domain/order/order-repository';
-import { Maybe } from '@/domain/shared/functional';
+import {
+  Order,
+  OrderCreatedEvent,
+  OrderStatusChangedEvent,
+  ACTIVE_ORDER_STATUSES,
+  type OrderStatus,
+} from '@/domain/order/order';
+import type { OrderRepository, PopularPizza } from '@/domain/order/order-repository';
+import type { OrderStatusHistoryEntry } from '@/domain/order/order-timeline';
+import { Money, type Currency } from '@/domain/shared/money';
+import { Result, Ok, Err, NotFoundError, ConflictError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
 
 /**
  * In-memory implementation of OrderRepository for testing purposes.
  * Provides a fast, isolated storage mechanism without external dependencies.
  */
 export class InMemoryOrderRepository implements OrderRepository {
-  private orders: Map<string, Order> = new Map();
-  private customerIndex: Map<string, string[]> = new Map(); // customerId -> orderIds[]
-  private orderNumberIndex: Map<string, string> = new Map(); // orderNumber -> orderId
-  private statusIndex: Map<string, string[]> = new Map(); // status -> orderIds[]
-
-  async save(order: Order): Promise<void> {
-    const orderId = order.getId();
-    const customerId = order.getCustomerId();
-    const orderNumber = order.getOrderNumber();
-    const status = order.getStatus();
-
-    // Update customer index
-    if (!this.customerIndex.has(customerId)) {
-      this.customerIndex.set(customerId, []);
-    }
-    const customerOrders = this.customerIndex.get(customerId)!;
-    if (!customerOrders.includes(orderId)) {
-      customerOrders.push(orderId);
-    }
-
-    // Update order number index
-    this.orderNumberIndex.set(orderNumber, orderId);
-
-    // Update status index
-    if (!this.statusIndex.has(status)) {
-      this.statusIndex.set(status, []);
-    }
-    const statusOrders = this.statusIndex.get(status)!;
-    if (!statusOrders.includes(orderId)) {
-      statusOrders.push(orderId);
-    }
-
-    // Store order
-    this.orders.set(orderId, order);
-  }
+  private orders: Map<ID, Order> = new Map();
+  // Saved versions, kept apart from the shared instances so a concurrent save can be simulated
+  private versions: Map<ID, number> = new Map();
+  private statusHistory: OrderStatusHistoryEntry[] = [];
+  private simulateConnectionError = false;
 
-  async findById(id: string): Promise<Maybe<Order>> {
+  async findById(id: ID): Promise<Result<Order, NotFoundError>> {
     const order = this.orders.get(id);
-    return order ? Maybe.some(order) : Maybe.none();
+    return order ? Ok(order) : Err(new NotFoundError('Order', id));
   }
 
-  async findByOrderNumber(orderNumber: string): Promise<Maybe<Order>> {
-    const orderId = this.orderNumberIndex.get(orderNumber);
-    
-    if (!orderId) {
-      return Maybe.none();
-    }
-
-    const order = this.orders.get(orderId);
-    return order ? Maybe.some(order) : Maybe.none();
+  async findByOrderNumber(orderNumber: string): Promise<Result<Order, NotFoundError>> {
+    const normalized = orderNumber.trim().toUpperCase();
+    const order = Array.from(this.orders.values()).find(
+      candidate => candidate.orderNumber.value === normalized
+    );
+    return order ? Ok(order) : Err(new NotFoundError('Order', orderNumber));
   }
 
-  async findByCustomerId(customerId: string): Promise<Order[]> {
-    const orderIds = this.customerIndex.get(customerId) || [];
-    return orderIds
-      .map(id => this.orders.get(id))
-      .filter((order): order is Order => order !== undefined);
+  async findByCustomerId(customerId: ID): Promise<Result<Order[], Error>> {
+    return this.findWhere(order => order.customerId === customerId);
   }
 
-  async findByStatus(status: string): Promise<Order[]> {
-    const orderIds = this.statusIndex.get(status) || [];
-    return orderIds
-      .map(id => this.orders.get(id))
-      .filter((order): order is Order => order !== undefined);
+  async findByStatus(status: OrderStatus): Promise<Result<Order[], Error>> {
+    return this.findWhere(order => order.status === status);
   }
 
-  async findActiveOrders(): Promise<Order[]> {
-    const activeStatuses = ['pending', 'confirmed', 'preparing', 'ready', 'out-for-delivery'];
-    const activeOrders: Order[] = [];
-
-    for (const status of activeStatuses) {
-      const orders = await this.findByStatus(status);
-      activeOrders.push(...orders);
-    }
-
-    return activeOrders;
+  async findActiveOrders(): Promise<Result<Order[], Error>> {
+    return this.findWhere(order => ACTIVE_ORDER_STATUSES.includes(order.status));
   }
 
-  async findOrdersCreatedBetween(startDate: Date, endDate: Date): Promise<Order[]> {
-    return Array.from(this.orders.values()).filter(order => {
-      const createdAt = order.getCreatedAt();
-      return createdAt >= startDate && createdAt <= endDate;
-    });
+  async getTotalRevenue(currency: Currency): Promise<Result<Money, Error>> {
+    return Ok(this.sumRevenue(currency, () => true));
   }
 
-  async findOrdersWithDeliveryBetween(startDate: Date, endDate: Date): Promise<Order[]> {
-    return Array.from(this.orders.values()).filter(order => {
-      const estimatedDelivery = order.getEstimatedDeliveryTime();
-      return estimatedDelivery >= startDate && estimatedDelivery <= endDate;
-    });
+  async getRevenueByDateRange(startDate: Date, endDate: Date, currency: Currency): Promise<Result<Money, Error>> {
+    return Ok(this.sumRevenue(
+      currency,
+      order => order.createdAt >= startDate && order.createdAt <= endDate
+    ));
   }
 
-  async countOrdersByStatus(status: string): Promise<number> {
-    const orders = await this.findByStatus(status);
-    return orders.length;
+  async findDeliveredByDateRange(startDate: Date, endDate: Date, currency: Currency): Promise<Result<Order[], Error>> {
+    return this.findWhere(order =>
+      order.status === 'DELIVERED' &&
+      order.currency === currency &&
+      order.createdAt >= startDate &&
+      order.createdAt <= endDate
+    );
   }
 
-  async countOrdersByCustomer(customerId: string): Promise<number> {
-    const orders = await this.findByCustomerId(customerId);
-    return orders.length;
-  }
+  async findPopularPizzas(limit: number): Promise<Result<PopularPizza[], Error>> {
+    const stats = new Map<ID, PopularPizza>();
 
-  async getTotalRevenue(): Promise<number> {
-    return Array.from(this.orders.values())
-      .filter(order => order.getStatus() === 'delivered')
-      .reduce((total, order) => total + order.getTotal().getAmount(), 0);
-  }
+    for (const order of this.orders.values()) {
+      if (order.status === 'CANCELLED') continue;
+
+      for (const item of order.items) {
+        if (item.type !== 'PIZZA') continue;
+
+        const current = stats.get(item.pizza.recipeId) || {
+          recipeId: item.pizza.recipeId,
+          recipeName: item.pizza.recipeId,
+          orderCount: 0,
+          quantitySold: 0,
+        };
+        current.orderCount += 1;
+        current.quantitySold += item.quantity;
+        stats.set(item.pizza.recipeId, current);
+      }
+    }
 
-  async getRevenueByDateRange(startDate: Date, endDate: Date): Promise<number> {
-    return Array.from(this.orders.values())
-      .filter(order => {
-        const createdAt = order.getCreatedAt();
-        return order.getStatus() === 'delivered' && 
-               createdAt >= startDate && 
-               createdAt <= endDate;
-      })
-      .reduce((total, order) => total + order.getTotal().getAmount(), 0);
+    return Ok(
+      Array.from(stats.values())
+        .sort((a, b) => b.quantitySold - a.quantitySold)
+        .slice(0, limit)
+    );
   }
 
-  async delete(id: string): Promise<void> {
-    const order = this.orders.get(id);
-    
-    if (order) {
-      const customerId = order.getCustomerId();
-      const orderNumber = order.getOrderNumber();
-      const status = order.getStatus();
-
-      // Remove from customer index
-      const customerOrders = this.customerIndex.get(customerId);
-      if (customerOrders) {
-        const index = customerOrders.indexOf(id);
-        if (index > -1) {
-          customerOrders.splice(index, 1);
-        }
-        if (customerOrders.length === 0) {
-          this.customerIndex.delete(customerId);
-        }
-      }
+  async findStatusHistory(orderId: ID): Promise<Result<OrderStatusHistoryEntry[], Error>> {
+    return Ok(this.statusHistory.filter(entry => entry.orderId === orderId));
+  }
 
-      // Remove from order number index
-      this.orderNumberIndex.delete(orderNumber);
-
-      // Remove from status index
-      const statusOrders = this.statusIndex.get(status);
-      if (statusOrders) {
-        const index = statusOrders.indexOf(id);
-        if (index > -1) {
-          statusOrders.splice(index, 1);
-        }
-        if (statusOrders.length === 0) {
-          this.statusIndex.delete(status);
-        }
-      }
+  async save(order: Order): Promise<Result<Order, ConflictError | Error>> {
+    if (this.simulateConnectionError) {
+      return Err(new Error('Simulated database connection error'));
+    }
 
-      // Remove order
-      this.orders.delete(id);
+    if ((this.versions.get(order.id) ?? 0) !== order.version) {
+      return Err(new ConflictError('Order', { orderId: order.id }));
     }
+
+    order.markPersisted();
+    this.versions.set(order.id, order.version);
+    this.orders.set(order.id, order);
+    this.recordStatusHistory(order);
+    order.clearEvents();
+    return Ok(order);
   }
 
   /**
    * Test utility methods
    */
-  
+
   /**
    * Clear all stored data. Useful for test cleanup.
    */
   clear(): void {
     this.orders.clear();
-    this.customerIndex.clear();
-    this.orderNumberIndex.clear();
-    this.statusIndex.clear();
+    this.versions.clear();
+    this.statusHistory = [];
   }
 
   /**
@@ -197,58 +146,22 @@ export class InMemoryOrderRepository implements OrderRepository {
   /**
    * Check if an order exists by ID. Useful for testing.
    */
-  hasOrder(id: string): boolean {
+  hasOrder(id: ID): boolean {
     return this.orders.has(id);
   }
 
   /**
-   * Get internal state for debugging. Useful for testing.
-   */
-  getInternalState(): {
-    orderCount: number;
-    customerIndexSize: number;
-    orderNumberIndexSize: number;
-    statusIndexSize: number;
-    statuses: string[];
-    customerIds: string[];
-  } {
-    return {
-      orderCount: this.orders.size,
-      customerIndexSize: this.customerIndex.size,
-      orderNumberIndexSize: this.orderNumberIndex.size,
-      statusIndexSize: this.statusIndex.size,
-      statuses: Array.from(this.statusIndex.keys()),
-      customerIds: Array.from(this.customerIndex.keys())
-    };
-  }
-
-  /**
-   * Simulate database transaction for testing complex scenarios.
+   * Seed the repository with test data
    */
-  async transaction<T>(operation: () => Promise<T>): Promise<T> {
-    // Save current state
-    const orderBackup = new Map(this.orders);
-    const customerBackup = new Map(this.customerIndex);
-    const orderNumberBackup = new Map(this.orderNumberIndex);
-    const statusBackup = new Map(this.statusIndex);
-
-    try {
-      return await operation();
-    } catch (error) {
-      // Rollback on error
-      this.orders = orderBackup;
-      this.customerIndex = customerBackup;
-      this.orderNumberIndex = orderNumberBackup;
-      this.statusIndex = statusBackup;
-      throw error;
+  async seed(orders: Order[]): Promise<void> {
+    for (const order of orders) {
+      await this.save(order);
     }
   }
 
   /**
    * Simulate database connection issues for testing error handling.
    */
-  private simulateConnectionError = false;
-
   simulateConnectionFailure(): void {
     this.simulateConnectionError = true;
   }
@@ -257,151 +170,81 @@ export class InMemoryOrderRepository implements OrderRepository {
     this.simulateConnectionError = false;
   }
 
-  private checkConnection(): void {
-    if (this.simulateConnectionError) {
-      throw new Error('Simulated database connection error');
-    }
-  }
-
-  /**
-   * Seed the repository with test data
-   */
-  async seed(orders: Order[]): Promise<void> {
-    for (const order of orders) {
-      await this.save(order);
-    }
-  }
-
-  /**
-   * Create a snapshot of current state for comparison testing
-   */
-  createSnapshot(): {
-    orders: Array<{
-      id: string;
-      orderNumber: string;
-      customerId: string;
-      status: string;
-      total: number;
-      itemCount: number;
-      createdAt: Date;
-      estimatedDeliveryTime: Date;
-    }>;
-  } {
-    return {
-      orders: Array.from(this.orders.values()).map(order => ({
-        id: order.getId(),
-        orderNumber: order.getOrderNumber(),
-        customerId: order.getCustomerId(),
-        status: order.getStatus(),
-        total: order.getTotal().getAmount(),
-        itemCount: order.getItems().length,
-        createdAt: order.getCreatedAt(),
-        estimatedDeliveryTime: order.getEstimatedDeliveryTime()
-      }))
-    };
-  }
-
-  /**
-   * Simulate slow database operations for performance testing
-   */
-  private simulateDelay = 0;
-
-  setSimulatedDelay(milliseconds: number): void {
-    this.simulateDelay = milliseconds;
-  }
-
-  private async delay(): Promise<void> {
-    if (this.simulateDelay > 0) {
-      await new Promise(resolve => setTimeout(resolve, this.simulateDelay));
-    }
-  }
-
-  async saveWithDelay(order: Order): Promise<void> {
-    await this.delay();
-    return this.save(order);
-  }
-
-  async findByIdWithDelay(id: string): Promise<Maybe<Order>> {
-    await this.delay();
-    return this.findById(id);
-  }
-
   /**
-   * Find orders with specific pizza types (for analytics)
+   * Simulate another request saving the order after it was loaded: the next save of the copy
+   * already handed out conflicts, and lookups return a fresh copy.
    */
-  async findOrdersWithPizza(pizzaId: string): Promise<Order[]> {
-    return Array.from(this.orders.values()).filter(order => 
-      order.getItems().some(item => item.pizzaId === pizzaId)
-    );
-  }
-
-  /**
-   * Get popular pizzas by order frequency
-   */
-  async getPopularPizzas(limit: number = 10): Promise<Array<{ pizzaId: string; orderCount: number }>> {
-    const pizzaCounts = new Map<string, number>();
-
-    for (const order of this.orders.values()) {
-      for (const item of order.getItems()) {
-        const current = pizzaCounts.get(item.pizzaId) || 0;
-        pizzaCounts.set(item.pizzaId, current + item.quantity);
+  simulateConcurrentSave(id: ID): void {
+    const order = this.orders.get(id);
+    if (!order) return;
+
+    const version = order.version + 1;
+    this.versions.set(id, version);
+    this.orders.set(id, Order.reconstitute({
+      id: order.id,
+      orderNumber: order.orderNumber,
+      customerId: order.customerId,
+      customerInfo: order.customerInfo,
+      items: order.items,
+      deliveryType: order.deliveryType,
+      deliveryAddress: order.deliveryAddress,
+      specialInstructions: order.specialInstructions,
+      requestedDeliveryTime: order.requestedDeliveryTime,
+      totalAmount: order.totalAmount,
+      tax: order.tax,
+      deliveryFee: order.deliveryFee,
+      exchangeRates: order.exchangeRates,
+      taxLines: order.taxLines,
+      deliveryZoneId: order.deliveryZoneId,
+      deliveryEtaMinutes: order.deliveryEtaMinutes,
+      discounts: order.discounts,
+      storeId: order.storeId,
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      estimatedDeliveryTime: order.estimatedDeliveryTime || undefined,
+      refunds: order.refunds.map(refund => ({ ...refund })),
+      version,
+      createdAt: order.createdAt,
+      updatedAt: order.updatedAt,
+    }));
+  }
+
+  private recordStatusHistory(order: Order): void {
+    for (const event of order.domainEvents) {
+      if (event instanceof OrderCreatedEvent) {
+        this.statusHistory.push({
+          orderId: order.id,
+          previousStatus: null,
+          newStatus: 'PENDING',
+          actorId: event.customerId,
+          reason: null,
+          occurredAt: event.occurredOn,
+        });
+      } else if (event instanceof OrderStatusChangedEvent) {
+        this.statusHistory.push({
+          orderId: order.id,
+          previousStatus: event.previousStatus,
+          newStatus: event.newStatus,
+          actorId: event.actorId,
+          reason: event.reason,
+          occurredAt: event.occurredOn,
+        });
       }
     }
-
-    return Array.from(pizzaCounts.entries())
-      .map(([pizzaId, orderCount]) => ({ pizzaId, orderCount }))
-      .sort((a, b) => b.orderCount - a.orderCount)
-      .slice(0, limit);
   }
 
-  /**
-   * Get average order value
-   */
-  async getAverageOrderValue(): Promise<number> {
-    const orders = Array.from(this.orders.values());
-    if (orders.length === 0) return 0;
+  private findWhere(predicate: (order: Order) => boolean): Result<Order[], Error> {
+    if (this.simulateConnectionError) {
+      return Err(new Error('Simulated database connection error'));
+    }
 
-    const total = orders.reduce((sum, order) => sum + order.getTotal().getAmount(), 0);
-    return total / orders.length;
+    return Ok(Array.from(this.orders.values()).filter(predicate));
   }
 
-  /**
-   * Get customer order statistics
-   */
-  async getCustomerStats(customerId: string): Promise<{
-    orderCount: number;
-    totalSpent: number;
-    averageOrderValue: number;
-    lastOrderDate?: Date;
-    favoriteStatus: string;
-  }> {
-    const customerOrders = await this.findByCustomerId(customerId);
-    
-    if (customerOrders.length === 0) {
-      return {
-        orderCount: 0,
-        totalSpent: 0,
-        averageOrderValue: 0,
-        favoriteStatus: 'new'
-      };
-    }
-
-    const totalSpent = customerOrders.reduce((sum, order) => sum + order.getTotal().getAmount(), 0);
-    const averageOrderValue = totalSpent / customerOrders.length;
-    const lastOrderDate = customerOrders
-      .map(order => order.getCreatedAt())
-      .sort((a, b) => b.getTime() - a.getTime())[0];
-
-    let favoriteStatus = 'regular';
-    if (customerOrders.length >= 10) favoriteStatus = 'vip';
-    else if (customerOrders.length >= 5) favoriteStatus = 'loyal';
-
-    return {
-      orderCount: customerOrders.length,
-      totalSpent,
-      averageOrderValue,
-      lastOrderDate,
-      favoriteStatus
-    };
+  private sumRevenue(currency: Currency, predicate: (order: Order) => boolean): Money {
+    return Array.from(this.orders.values())
+      .filter(order => order.status === 'DELIVERED' && order.grandTotal.currency === currency)
+      .filter(predicate)
+      .reduce((total, order) => total.add(order.grandTotal), Money.create(0, currency));
   }
 }
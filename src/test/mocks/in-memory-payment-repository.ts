@@ -0,0 +1,40 @@
+import { Payment } from '@/domain/payment/payment';
+import type { PaymentRepository } from '@/domain/payment/payment-repository';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+/**
+ * In-memory implementation of PaymentRepository for testing purposes.
+ */
+export class InMemoryPaymentRepository implements PaymentRepository {
+  private payments: Map<ID, Payment> = new Map();
+
+  async findById(id: ID): Promise<Result<Payment, NotFoundError>> {
+    const payment = this.payments.get(id);
+    return payment ? Ok(payment) : Err(new NotFoundError('Payment', id));
+  }
+
+  async findByOrderId(orderId: ID): Promise<Result<Payment[], Error>> {
+    return Ok(Array.from(this.payments.values()).filter(payment => payment.orderId === orderId));
+  }
+
+  async save(payment: Payment): Promise<Result<Payment, Error>> {
+    this.payments.set(payment.id, payment);
+    payment.clearEvents();
+    return Ok(payment);
+  }
+
+  /**
+   * Get all stored payments. Useful for testing.
+   */
+  getAllPayments(): Payment[] {
+    return Array.from(this.payments.values());
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.payments.clear();
+  }
+}
@@ -0,0 +1,75 @@
+import { normalizePromoCode, type Promotion } from '@/domain/promotion/promotion';
+import type { PromotionRedemption, PromotionRepository } from '@/domain/promotion/promotion-repository';
+import { Result, Ok, Err, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+/**
+ * In-memory implementation of PromotionRepository for testing purposes.
+ * Limit checks and writes happen without awaiting, so parallel redemptions behave atomically.
+ */
+export class InMemoryPromotionRepository implements PromotionRepository {
+  private promotions: Map<ID, Promotion> = new Map();
+  private redemptions: PromotionRedemption[] = [];
+
+  async findByCodes(codes: string[]): Promise<Result<Promotion[], Error>> {
+    const normalized = codes.map(normalizePromoCode);
+    return Ok(Array.from(this.promotions.values()).filter(promotion => normalized.includes(promotion.code)));
+  }
+
+  async redeem(redemptions: PromotionRedemption[]): Promise<Result<void, BusinessRuleViolationError | Error>> {
+    for (const redemption of redemptions) {
+      const promotion = this.promotions.get(redemption.promotionId);
+      if (!promotion) {
+        return Err(new Error(`Unknown promotion ${redemption.promotionId}`));
+      }
+
+      const used = this.redemptions.filter(existing => existing.promotionId === promotion.id);
+      if (promotion.maxRedemptions !== null && used.length >= promotion.maxRedemptions) {
+        return Err(new BusinessRuleViolationError('Promo code has already been used up', {
+          promotionId: promotion.id,
+        }));
+      }
+
+      const usedByCustomer = used.filter(existing => existing.customerId === redemption.customerId);
+      if (
+        promotion.maxRedemptionsPerCustomer !== null &&
+        redemption.customerId &&
+        usedByCustomer.length >= promotion.maxRedemptionsPerCustomer
+      ) {
+        return Err(new BusinessRuleViolationError(`You have already used promo code ${promotion.code}`, {
+          promotionId: promotion.id,
+        }));
+      }
+    }
+
+    this.redemptions.push(...redemptions);
+    return Ok(undefined);
+  }
+
+  async release(orderId: ID): Promise<Result<void, Error>> {
+    this.redemptions = this.redemptions.filter(redemption => redemption.orderId !== orderId);
+    return Ok(undefined);
+  }
+
+  /**
+   * Add a promotion. Useful for testing.
+   */
+  add(promotion: Promotion): void {
+    this.promotions.set(promotion.id, promotion);
+  }
+
+  /**
+   * Get all recorded redemptions. Useful for testing.
+   */
+  getAllRedemptions(): PromotionRedemption[] {
+    return [...this.redemptions];
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.promotions.clear();
+    this.redemptions = [];
+  }
+}
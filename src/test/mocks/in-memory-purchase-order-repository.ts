@@ -0,0 +1,52 @@
+import { PurchaseOrder } from '@/domain/purchasing/purchase-order';
+import type { PurchaseOrderRepository } from '@/domain/purchasing/purchase-order-repository';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+type StoredPurchaseOrder = Parameters<typeof PurchaseOrder.reconstitute>[0];
+
+/**
+ * In-memory implementation of PurchaseOrderRepository for testing purposes.
+ * Orders are stored as snapshots, so each lookup gets its own copy just like a database read.
+ */
+export class InMemoryPurchaseOrderRepository implements PurchaseOrderRepository {
+  private purchaseOrders: Map<ID, StoredPurchaseOrder> = new Map();
+
+  async findById(id: ID): Promise<Result<PurchaseOrder, NotFoundError>> {
+    const stored = this.purchaseOrders.get(id);
+    return stored ? Ok(PurchaseOrder.reconstitute(stored)) : Err(new NotFoundError('PurchaseOrder', id));
+  }
+
+  async findOpenByStore(storeId: ID): Promise<Result<PurchaseOrder[], Error>> {
+    return Ok(
+      Array.from(this.purchaseOrders.values())
+        .map(stored => PurchaseOrder.reconstitute(stored))
+        .filter(purchaseOrder => purchaseOrder.storeId === storeId && purchaseOrder.isOpen())
+    );
+  }
+
+  async save(purchaseOrder: PurchaseOrder): Promise<Result<PurchaseOrder, Error>> {
+    this.purchaseOrders.set(purchaseOrder.id, {
+      id: purchaseOrder.id,
+      supplierId: purchaseOrder.supplierId,
+      storeId: purchaseOrder.storeId,
+      expectedDeliveryDate: purchaseOrder.expectedDeliveryDate,
+      lines: purchaseOrder.lines,
+      notes: purchaseOrder.notes,
+      createdBy: purchaseOrder.createdBy,
+      status: purchaseOrder.status,
+      receivedAt: purchaseOrder.receivedAt,
+      createdAt: purchaseOrder.createdAt,
+      updatedAt: purchaseOrder.updatedAt,
+    });
+
+    return Ok(purchaseOrder);
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.purchaseOrders.clear();
+  }
+}
@@ -0,0 +1,57 @@
+import { Store } from '@/domain/store/store';
+import type { StoreRepository } from '@/domain/store/store-repository';
+import { Result, Ok, Err, NotFoundError } from '@/domain/shared/result';
+import type { ID } from '@/domain/shared/types';
+
+type StoredStore = Parameters<typeof Store.reconstitute>[0];
+
+/**
+ * In-memory implementation of StoreRepository for testing purposes.
+ * Stores are kept as snapshots, so each lookup gets its own copy just like a database read.
+ */
+export class InMemoryStoreRepository implements StoreRepository {
+  private stores: Map<ID, StoredStore> = new Map();
+
+  async findById(id: ID): Promise<Result<Store, NotFoundError>> {
+    const stored = this.stores.get(id);
+    return stored ? Ok(Store.reconstitute(stored)) : Err(new NotFoundError('Store', id));
+  }
+
+  async findActive(): Promise<Result<Store[], Error>> {
+    return Ok(
+      Array.from(this.stores.values())
+        .filter(stored => stored.isActive)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(stored => Store.reconstitute(stored))
+    );
+  }
+
+  async save(store: Store): Promise<Result<Store, Error>> {
+    this.stores.set(store.id, {
+      id: store.id,
+      name: store.name,
+      address: store.address,
+      timeZone: store.timeZone,
+      currency: store.currency,
+      orderNumberPrefix: store.orderNumberPrefix,
+      openingHours: store.openingHours,
+      holidayClosures: store.holidayClosures,
+      excludedItemIds: store.excludedItemIds,
+      priceOverrides: store.priceOverrides,
+      isActive: store.isActive,
+      orderingPause: store.orderingPause,
+      unavailableIngredientIds: store.unavailableIngredientIds,
+      createdAt: store.createdAt,
+      updatedAt: store.updatedAt,
+    });
+
+    return Ok(store);
+  }
+
+  /**
+   * Clear all stored data. Useful for test cleanup.
+   */
+  clear(): void {
+    this.stores.clear();
+  }
+}
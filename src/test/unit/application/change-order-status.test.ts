@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChangeOrderStatusUseCase } from '@/application/use-cases/orders/change-order-status';
+import { Order } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+import { BusinessRuleViolationError, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import { InMemoryOrderRepository } from '@/test/mocks/in-memory-order-repository';
+
+const CUSTOMER_ID = '223e4567-e89b-12d3-a456-426614174000';
+const STAFF_ID = '523e4567-e89b-12d3-a456-426614174000';
+
+describe('ChangeOrderStatusUseCase', () => {
+  let orderRepository: InMemoryOrderRepository;
+  let changeOrderStatusUseCase: ChangeOrderStatusUseCase;
+  let order: Order;
+
+  beforeEach(async () => {
+    orderRepository = new InMemoryOrderRepository();
+    changeOrderStatusUseCase = new ChangeOrderStatusUseCase(orderRepository);
+
+    order = Order.create({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 1)._unsafeUnwrap(),
+      customerId: CUSTOMER_ID,
+      customerInfo: { name: 'John Doe', phone: '+1234567890' },
+      items: [
+        {
+          id: '323e4567-e89b-12d3-a456-426614174000',
+          type: 'PIZZA',
+          pizza: new Pizza('11111111-1111-4111-8111-111111111111', 'MEDIUM', 'THIN'),
+          quantity: 1,
+          unitPrice: Money.create(10, 'USD'),
+          totalPrice: Money.create(10, 'USD'),
+        },
+      ],
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+
+    await orderRepository.save(order);
+  });
+
+  it('should let staff advance an order', async () => {
+    const result = await changeOrderStatusUseCase.execute({
+      orderId: order.id,
+      status: 'CONFIRMED',
+      requester: { userId: STAFF_ID, role: 'STAFF' },
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(order.status).toBe('CONFIRMED');
+  });
+
+  it('should surface state machine rejections', async () => {
+    const result = await changeOrderStatusUseCase.execute({
+      orderId: order.id,
+      status: 'READY',
+      requester: { userId: STAFF_ID, role: 'STAFF' },
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(BusinessRuleViolationError);
+    }
+  });
+
+  it('should let customers cancel their own pending orders', async () => {
+    const result = await changeOrderStatusUseCase.execute({
+      orderId: order.id,
+      status: 'CANCELLED',
+      reason: 'Changed my mind',
+      requester: { userId: CUSTOMER_ID, role: 'CUSTOMER' },
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(order.status).toBe('CANCELLED');
+  });
+
+  it('should not let customers move orders forward', async () => {
+    const result = await changeOrderStatusUseCase.execute({
+      orderId: order.id,
+      status: 'CONFIRMED',
+      requester: { userId: CUSTOMER_ID, role: 'CUSTOMER' },
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(ForbiddenError);
+    }
+  });
+
+  it("should hide other customers' orders", async () => {
+    const result = await changeOrderStatusUseCase.execute({
+      orderId: order.id,
+      status: 'CANCELLED',
+      requester: { userId: STAFF_ID, role: 'CUSTOMER' },
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(NotFoundError);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GetOrderUseCase } from '@/application/use-cases/orders/get-order';
+import { Order } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+import { NotFoundError } from '@/domain/shared/result';
+import { InMemoryOrderRepository } from '@/test/mocks/in-memory-order-repository';
+
+const CUSTOMER_ID = '223e4567-e89b-12d3-a456-426614174000';
+const OTHER_CUSTOMER_ID = '423e4567-e89b-12d3-a456-426614174000';
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const OTHER_STORE_ID = '98999999-9999-4999-8999-999999999999';
+
+describe('GetOrderUseCase', () => {
+  let orderRepository: InMemoryOrderRepository;
+  let getOrderUseCase: GetOrderUseCase;
+  let order: Order;
+
+  const createOrder = (storeId?: string) => Order.create({
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 42)._unsafeUnwrap(),
+    customerId: CUSTOMER_ID,
+    customerInfo: { name: 'John Doe', phone: '+1234567890' },
+    items: [
+      {
+        id: '323e4567-e89b-12d3-a456-426614174000',
+        type: 'PIZZA',
+        pizza: new Pizza('11111111-1111-4111-8111-111111111111', 'MEDIUM', 'THIN'),
+        quantity: 1,
+        unitPrice: Money.create(10, 'USD'),
+        totalPrice: Money.create(10, 'USD'),
+      },
+    ],
+    deliveryType: 'PICKUP',
+    taxContext: { storeId },
+  })._unsafeUnwrap();
+
+  beforeEach(async () => {
+    orderRepository = new InMemoryOrderRepository();
+    getOrderUseCase = new GetOrderUseCase(orderRepository);
+
+    order = createOrder();
+    await orderRepository.save(order);
+  });
+
+  it('should find an order by its number', async () => {
+    const result = await getOrderUseCase.execute({
+      orderNumber: 'dp-20261019-0042',
+      requester: { userId: CUSTOMER_ID, role: 'CUSTOMER' },
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.order.id).toBe(order.id);
+    }
+  });
+
+  it('should let staff look up any order', async () => {
+    const result = await getOrderUseCase.execute({
+      orderId: order.id,
+      requester: { userId: OTHER_CUSTOMER_ID, role: 'STAFF' },
+    });
+
+    expect(result.isOk()).toBe(true);
+  });
+
+  it('should only show staff the orders of the stores they operate', async () => {
+    orderRepository.clear();
+    await orderRepository.save(createOrder(STORE_ID));
+
+    const ownStore = await getOrderUseCase.execute({
+      orderId: order.id,
+      requester: { userId: OTHER_CUSTOMER_ID, role: 'STAFF', storeIds: [STORE_ID] },
+    });
+    const otherStore = await getOrderUseCase.execute({
+      orderId: order.id,
+      requester: { userId: OTHER_CUSTOMER_ID, role: 'STAFF', storeIds: [OTHER_STORE_ID] },
+    });
+    const admin = await getOrderUseCase.execute({
+      orderId: order.id,
+      requester: { userId: OTHER_CUSTOMER_ID, role: 'ADMIN' },
+    });
+
+    expect(ownStore.isOk()).toBe(true);
+    expect(otherStore._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+    expect(admin.isOk()).toBe(true);
+  });
+
+  it("should hide other customers' orders", async () => {
+    const result = await getOrderUseCase.execute({
+      orderNumber: 'DP-20261019-0042',
+      requester: { userId: OTHER_CUSTOMER_ID, role: 'CUSTOMER' },
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(NotFoundError);
+    }
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PayOrderUseCase } from '@/application/use-cases/payments/pay-order';
+import { Order } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+import { BusinessRuleViolationError, ConflictError, NotFoundError, PaymentDeclinedError, ValidationError } from '@/domain/shared/result';
+import { GiftCard } from '@/domain/gift-card/gift-card';
+import { FakePaymentGateway, FAKE_GATEWAY_TEST_CARDS } from '@/infrastructure/payments/fake-payment-gateway';
+import { InMemoryOrderRepository } from '@/test/mocks/in-memory-order-repository';
+import { InMemoryPaymentRepository } from '@/test/mocks/in-memory-payment-repository';
+import { InMemoryGiftCardRepository } from '@/test/mocks/in-memory-gift-card-repository';
+import type { Requester } from '@/application/requester';
+
+const CUSTOMER_ID = '223e4567-e89b-12d3-a456-426614174000';
+
+describe('PayOrderUseCase', () => {
+  let orderRepository: InMemoryOrderRepository;
+  let paymentRepository: InMemoryPaymentRepository;
+  let giftCardRepository: InMemoryGiftCardRepository;
+  let payOrderUseCase: PayOrderUseCase;
+  let order: Order;
+
+  const requester: Requester = { userId: CUSTOMER_ID, role: 'CUSTOMER' };
+  const card = (number: string) => ({ number, expiryMonth: 12, expiryYear: 2030, cvc: '123' });
+
+  beforeEach(async () => {
+    orderRepository = new InMemoryOrderRepository();
+    paymentRepository = new InMemoryPaymentRepository();
+    giftCardRepository = new InMemoryGiftCardRepository();
+    payOrderUseCase = new PayOrderUseCase(
+      orderRepository,
+      paymentRepository,
+      new FakePaymentGateway(),
+      giftCardRepository
+    );
+
+    order = Order.create({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 1)._unsafeUnwrap(),
+      customerId: CUSTOMER_ID,
+      customerInfo: { name: 'John Doe', phone: '+1234567890' },
+      items: [
+        {
+          id: '323e4567-e89b-12d3-a456-426614174000',
+          type: 'PIZZA',
+          pizza: new Pizza('11111111-1111-4111-8111-111111111111', 'MEDIUM', 'THIN'),
+          quantity: 1,
+          unitPrice: Money.create(10, 'USD'),
+          totalPrice: Money.create(10, 'USD'),
+        },
+      ],
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+
+    await orderRepository.save(order);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should capture the full total and mark the order as paid', async () => {
+    const result = await payOrderUseCase.execute({
+      orderId: order.id,
+      card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS),
+      requester,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      const [payment] = result.value.payments;
+      expect(payment.status).toBe('CAPTURED');
+      expect(payment.amount.equals(order.grandTotal)).toBe(true);
+      expect(payment.cardLast4).toBe('4242');
+      expect(result.value.order.paymentStatus).toBe('PAID');
+    }
+  });
+
+  it('should record a declined attempt and mark the payment as failed', async () => {
+    const result = await payOrderUseCase.execute({
+      orderId: order.id,
+      card: card(FAKE_GATEWAY_TEST_CARDS.INSUFFICIENT_FUNDS),
+      requester,
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(PaymentDeclinedError);
+      expect(result.error.message).toContain('Insufficient funds');
+    }
+    expect(order.paymentStatus).toBe('FAILED');
+    expect(paymentRepository.getAllPayments().map(payment => payment.status)).toEqual(['DECLINED']);
+  });
+
+  it('should void the authorization when capture fails', async () => {
+    const result = await payOrderUseCase.execute({
+      orderId: order.id,
+      card: card(FAKE_GATEWAY_TEST_CARDS.CAPTURE_FAILS),
+      requester,
+    });
+
+    expect(result.isErr()).toBe(true);
+    expect(paymentRepository.getAllPayments().map(payment => payment.status)).toEqual(['VOIDED']);
+    expect(order.paymentStatus).toBe('FAILED');
+  });
+
+  it('should allow retrying with another card after a decline', async () => {
+    await payOrderUseCase.execute({ orderId: order.id, card: card(FAKE_GATEWAY_TEST_CARDS.DECLINED), requester });
+
+    const result = await payOrderUseCase.execute({
+      orderId: order.id,
+      card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS),
+      requester,
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(order.paymentStatus).toBe('PAID');
+    if (result.isOk()) {
+      expect(result.value.payments[0].status).toBe('CAPTURED');
+    }
+  });
+
+  it('should surface gateway outages and leave the order free to pay again', async () => {
+    const result = await payOrderUseCase.execute({
+      orderId: order.id,
+      card: card(FAKE_GATEWAY_TEST_CARDS.GATEWAY_ERROR),
+      requester,
+    });
+
+    expect(result.isErr()).toBe(true);
+    // The attempt was recorded before the provider was called and never got an answer
+    expect(paymentRepository.getAllPayments().map(payment => payment.status)).toEqual(['PENDING']);
+    expect(order.paymentStatus).toBe('FAILED');
+
+    const retry = await payOrderUseCase.execute({ orderId: order.id, card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS), requester });
+    expect(retry._unsafeUnwrap().order.paymentStatus).toBe('PAID');
+  });
+
+  it('should not charge an order twice', async () => {
+    await payOrderUseCase.execute({ orderId: order.id, card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS), requester });
+
+    const result = await payOrderUseCase.execute({
+      orderId: order.id,
+      card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS),
+      requester,
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(BusinessRuleViolationError);
+    }
+  });
+
+  it('should not charge an order that another attempt claimed after it was loaded', async () => {
+    const findOrder = orderRepository.findById.bind(orderRepository);
+    vi.spyOn(orderRepository, 'findById').mockImplementationOnce(async id => {
+      const loaded = await findOrder(id);
+      orderRepository.simulateConcurrentSave(id);
+      return loaded;
+    });
+
+    const result = await payOrderUseCase.execute({ orderId: order.id, card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS), requester });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ConflictError);
+    expect(paymentRepository.getAllPayments()).toHaveLength(0);
+  });
+
+  it('should hide other customers\' orders', async () => {
+    const result = await payOrderUseCase.execute({
+      orderId: order.id,
+      card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS),
+      requester: { userId: '999e4567-e89b-12d3-a456-426614174000', role: 'CUSTOMER' },
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(NotFoundError);
+    }
+  });
+
+  describe('gift cards', () => {
+    const issueGiftCard = async (amount: number) => {
+      const giftCard = GiftCard.issue({
+        id: '623e4567-e89b-12d3-a456-426614174000',
+        code: 'GIFT-CARD-TEST-0001',
+        initialBalance: Money.create(amount, 'USD'),
+      })._unsafeUnwrap();
+      await giftCardRepository.save(giftCard);
+    };
+
+    const balance = async () =>
+      (await giftCardRepository.findByCode('GIFTCARDTEST0001'))._unsafeUnwrap().balance.amount;
+
+    it('should pay the whole order from a gift card that covers it', async () => {
+      await issueGiftCard(50);
+
+      const result = await payOrderUseCase.execute({ orderId: order.id, giftCardCode: 'gift-card-test-0001', requester });
+
+      const { payments } = result._unsafeUnwrap();
+      expect(payments).toHaveLength(1);
+      expect(payments[0]).toMatchObject({ provider: 'gift-card', status: 'CAPTURED', cardLast4: '0001' });
+      expect(order.paymentStatus).toBe('PAID');
+      expect(await balance()).toBe(39);
+    });
+
+    it('should split the total between the gift card and the card', async () => {
+      await issueGiftCard(4);
+
+      const result = await payOrderUseCase.execute({
+        orderId: order.id,
+        giftCardCode: 'GIFT-CARD-TEST-0001',
+        card: card(FAKE_GATEWAY_TEST_CARDS.SUCCESS),
+        requester,
+      });
+
+      const { payments } = result._unsafeUnwrap();
+      expect(payments.map(payment => payment.amount.amount)).toEqual([4, 7]);
+      expect(payments.every(payment => payment.status === 'CAPTURED')).toBe(true);
+      expect(order.paymentStatus).toBe('PAID');
+      expect(await balance()).toBe(0);
+    });
+
+    it('should give the balance back when the card part is declined', async () => {
+      await issueGiftCard(4);
+
+      const result = await payOrderUseCase.execute({
+        orderId: order.id,
+        giftCardCode: 'GIFT-CARD-TEST-0001',
+        card: card(FAKE_GATEWAY_TEST_CARDS.DECLINED),
+        requester,
+      });
+
+      expect(result.isErr()).toBe(true);
+      expect(order.paymentStatus).toBe('FAILED');
+      expect(await balance()).toBe(4);
+    });
+
+    it('should ask for a card when the gift card does not cover the total', async () => {
+      await issueGiftCard(4);
+
+      const result = await payOrderUseCase.execute({ orderId: order.id, giftCardCode: 'GIFT-CARD-TEST-0001', requester });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(await balance()).toBe(4);
+    });
+
+    it('should return NotFoundError for unknown gift cards', async () => {
+      const result = await payOrderUseCase.execute({ orderId: order.id, giftCardCode: 'NOPE', requester });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+});
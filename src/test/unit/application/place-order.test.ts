@@ -0,0 +1,923 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PlaceOrderUseCase, type PlaceOrderItemRequest } from '@/application/use-cases/orders/place-order';
+import { PizzaRecipe, Ingredient } from '@/domain/menu/pizza';
+import { Product } from '@/domain/menu/product';
+import { Bundle } from '@/domain/menu/bundle';
+import { Money } from '@/domain/shared/money';
+import { Ok, Err, NotFoundError, ValidationError, BusinessRuleViolationError } from '@/domain/shared/result';
+import type { OrderRepository } from '@/domain/order/order-repository';
+import type { BundleOrderItem, PizzaOrderItem } from '@/domain/order/order';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { OrderNumber, type OrderNumberGenerator } from '@/domain/order/order-number';
+import { User } from '@/domain/user/user';
+import type { UserRepository } from '@/infrastructure/database/repositories/user-repository';
+import { DeliveryZoneService } from '@/domain/delivery/delivery-zone-service';
+import type { DeliveryZoneRepository } from '@/domain/delivery/delivery-zone-repository';
+import { LookupTableGeocoder } from '@/infrastructure/geocoding/lookup-table-geocoder';
+import { InMemoryPromotionRepository } from '@/test/mocks/in-memory-promotion-repository';
+import { InMemoryLoyaltyRepository } from '@/test/mocks/in-memory-loyalty-repository';
+import { InMemoryStoreRepository } from '@/test/mocks/in-memory-store-repository';
+import { Store } from '@/domain/store/store';
+import type { LoyaltyLedgerEntry } from '@/domain/loyalty/loyalty';
+import type { Promotion } from '@/domain/promotion/promotion';
+import { StaticExchangeRateProvider } from '@/infrastructure/exchange-rates/static-exchange-rate-provider';
+import {
+  OrderPricingService,
+  SplitPizzaPricingPolicy,
+  DEFAULT_MODIFIER_PRICE_DELTAS,
+} from '@/domain/order/order-pricing-service';
+
+const RECIPE_ID = '11111111-1111-4111-8111-111111111111';
+const RECIPE_VERSION_ID = 'a23e4567-e89b-12d3-a456-426614174000';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const BASIL_ID = '33333333-3333-4333-8333-333333333333';
+const PEPPERONI_RECIPE_ID = '88888888-8888-4888-8888-888888888888';
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const OTHER_STORE_ID = '98999999-9999-4999-8999-999999999999';
+
+// Mock repositories
+const mockOrderRepository: OrderRepository = {
+  findById: vi.fn(),
+  findByOrderNumber: vi.fn(),
+  findByCustomerId: vi.fn(),
+  findByStatus: vi.fn(),
+  findActiveOrders: vi.fn(),
+  getTotalRevenue: vi.fn(),
+  getRevenueByDateRange: vi.fn(),
+  findDeliveredByDateRange: vi.fn(),
+  findPopularPizzas: vi.fn(),
+  findStatusHistory: vi.fn(),
+  save: vi.fn(),
+};
+
+const mockMenuRepository: MenuRepository = {
+  findAvailableRecipesByIds: vi.fn(),
+  findRecipesByIds: vi.fn(),
+  findAvailableRecipes: vi.fn(),
+  findIngredientsByIds: vi.fn(),
+  saveIngredient: vi.fn(),
+  findAvailableProductsByIds: vi.fn(),
+  findAvailableBundlesByIds: vi.fn(),
+};
+
+const mockUserRepository: UserRepository = {
+  findById: vi.fn(),
+  findByEmail: vi.fn(),
+  save: vi.fn(),
+  existsByEmail: vi.fn(),
+};
+
+const mockDeliveryZoneRepository: DeliveryZoneRepository = {
+  findActive: vi.fn(),
+};
+
+const mockOrderNumberGenerator: OrderNumberGenerator = {
+  next: vi.fn(),
+};
+
+const createRecipe = (): PizzaRecipe =>
+  PizzaRecipe.create({
+    id: RECIPE_ID,
+    name: 'Margherita',
+    description: 'Tomato, mozzarella and basil',
+    ingredients: new Map([[CHEESE_ID, 1]]),
+    basePrice: Money.create(10, 'USD'),
+    preparationTimeMinutes: 15,
+    difficulty: 2,
+    versionId: RECIPE_VERSION_ID,
+  })._unsafeUnwrap();
+
+const createPepperoniRecipe = (): PizzaRecipe =>
+  PizzaRecipe.create({
+    id: PEPPERONI_RECIPE_ID,
+    name: 'Pepperoni',
+    description: 'Tomato, mozzarella and pepperoni',
+    ingredients: new Map([[CHEESE_ID, 1]]),
+    basePrice: Money.create(14, 'USD'),
+    preparationTimeMinutes: 15,
+    difficulty: 2,
+  })._unsafeUnwrap();
+
+const createStore = (id: string, overrides: Partial<Parameters<typeof Store.create>[0]> = {}): Store =>
+  Store.create({
+    id,
+    name: 'Downtown',
+    address: { street: '1 Main St', city: 'Pizza Town', postalCode: '90210', country: 'US' },
+    timeZone: 'America/Los_Angeles',
+    currency: 'USD',
+    ...overrides,
+  })._unsafeUnwrap();
+
+const COLA_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const BUNDLE_ID = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc';
+
+const createCola = (): Product =>
+  Product.create({ id: COLA_ID, name: 'Cola', category: 'DRINK', price: Money.create(2.5, 'USD') })._unsafeUnwrap();
+
+// 2 large pizzas + 2 drinks for $29.99
+const createPartyBundle = (): Bundle =>
+  Bundle.create({
+    id: BUNDLE_ID,
+    name: 'Party deal',
+    price: Money.create(29.99, 'USD'),
+    choiceGroups: [
+      { id: 'pizzas', name: 'Pizzas', kind: 'PIZZA', quantity: 2, pizzaSize: 'LARGE', eligibleIds: [] },
+      { id: 'drinks', name: 'Drinks', kind: 'PRODUCT', quantity: 2, productCategory: 'DRINK', eligibleIds: [] },
+    ],
+  })._unsafeUnwrap();
+
+const VEGAN_CHEESE_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+
+const createVeganCheese = (): Ingredient =>
+  Ingredient.create({
+    id: VEGAN_CHEESE_ID,
+    name: 'Cashew mozzarella',
+    category: 'CHEESE',
+    pricePerUnit: Money.create(1.5, 'USD'),
+    isAvailable: true,
+    allergens: ['nuts'],
+    isVegan: true,
+  })._unsafeUnwrap();
+
+const createIngredient = (id: string, name: string, isAvailable = true): Ingredient =>
+  Ingredient.create({
+    id,
+    name,
+    category: 'CHEESE',
+    pricePerUnit: Money.create(1, 'USD'),
+    isAvailable,
+  })._unsafeUnwrap();
+
+const tenPercentOff = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: '55555555-5555-4555-8555-555555555555',
+  code: 'PIZZA10',
+  description: '10% off your order',
+  reward: { type: 'PERCENTAGE', percent: 10 },
+  currency: 'USD',
+  minimumOrder: null,
+  validFrom: new Date('2026-01-01T00:00:00Z'),
+  validUntil: null,
+  maxRedemptions: null,
+  maxRedemptionsPerCustomer: null,
+  stackable: false,
+  isActive: true,
+  ...overrides,
+});
+
+const earned = (points: number, createdAt = new Date()): LoyaltyLedgerEntry => ({
+  id: '66666666-6666-4666-8666-666666666666',
+  customerId: '123e4567-e89b-12d3-a456-426614174000',
+  orderId: '77777777-7777-4777-8777-777777777777',
+  type: 'EARN',
+  points,
+  reference: '77777777-7777-4777-8777-777777777777',
+  description: 'Earlier order delivered',
+  createdAt,
+});
+
+describe('PlaceOrderUseCase', () => {
+  let placeOrderUseCase: PlaceOrderUseCase;
+  const promotionRepository = new InMemoryPromotionRepository();
+  const loyaltyRepository = new InMemoryLoyaltyRepository();
+  const storeRepository = new InMemoryStoreRepository();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    promotionRepository.clear();
+    loyaltyRepository.clear();
+    storeRepository.clear();
+    await storeRepository.save(createStore(STORE_ID));
+    const exchangeRateProvider = new StaticExchangeRateProvider({
+      base: 'USD',
+      asOf: new Date('2026-10-19T00:00:00Z'),
+      rates: { EUR: 0.9 },
+    });
+    placeOrderUseCase = new PlaceOrderUseCase(
+      mockOrderRepository,
+      mockMenuRepository,
+      mockUserRepository,
+      mockOrderNumberGenerator,
+      exchangeRateProvider,
+      new DeliveryZoneService(mockDeliveryZoneRepository, new LookupTableGeocoder(), exchangeRateProvider),
+      promotionRepository,
+      loyaltyRepository,
+      storeRepository
+    );
+
+    vi.mocked(mockMenuRepository.findAvailableRecipesByIds).mockResolvedValue(Ok([createRecipe()]));
+    vi.mocked(mockMenuRepository.findAvailableProductsByIds).mockResolvedValue(Ok([]));
+    vi.mocked(mockMenuRepository.findAvailableBundlesByIds).mockResolvedValue(Ok([]));
+    vi.mocked(mockMenuRepository.findIngredientsByIds).mockResolvedValue(
+      Ok([createIngredient(CHEESE_ID, 'Mozzarella')])
+    );
+    vi.mocked(mockDeliveryZoneRepository.findActive).mockResolvedValue(Ok([
+      {
+        id: '44444444-4444-4444-8444-444444444444',
+        name: 'Berlin Mitte',
+        area: { type: 'POSTAL_CODES', country: 'DE', postalCodes: ['10115'] },
+        fee: Money.create(5, 'EUR'),
+        feePerKm: null,
+        origin: null,
+        minimumOrder: Money.create(15, 'EUR'),
+        maxEtaMinutes: 40,
+      },
+    ]));
+    vi.mocked(mockUserRepository.findById).mockImplementation(async id => Err(new NotFoundError('User', id)));
+    vi.mocked(mockOrderRepository.save).mockImplementation(async order => Ok(order));
+    vi.mocked(mockOrderNumberGenerator.next).mockImplementation(async (prefix, date, timeZone) =>
+      OrderNumber.create(prefix, date, 42, timeZone)
+    );
+  });
+
+  const validRequest = {
+    customerId: '123e4567-e89b-12d3-a456-426614174000',
+    storeId: STORE_ID,
+    customerInfo: { name: 'John Doe', phone: '+1234567890' },
+    items: [
+      {
+        recipeId: RECIPE_ID,
+        size: 'MEDIUM' as const,
+        crust: 'THIN' as const,
+        quantity: 2,
+        customIngredients: { [CHEESE_ID]: 1 },
+      },
+    ],
+    deliveryType: 'PICKUP' as const,
+  };
+
+  describe('successful placement', () => {
+    it('should price, create and persist the order', async () => {
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      expect(result.isOk()).toBe(true);
+      expect(mockOrderRepository.save).toHaveBeenCalledTimes(1);
+
+      if (result.isOk()) {
+        const { order } = result.value;
+        expect(order.status).toBe('PENDING');
+        expect(order.orderNumber.value).toMatch(/^DP-\d{8}-0042$/);
+        expect(order.customerId).toBe(validRequest.customerId);
+        expect(order.items).toHaveLength(1);
+        // (10 base + 1 extra cheese) * 2 pizzas
+        expect(order.items[0].totalPrice.amount).toBeCloseTo(22);
+        expect(order.items[0].unitPrice.amount).toBeCloseTo(11);
+        expect(order.totalAmount.amount).toBeCloseTo(22);
+      }
+    });
+
+    it('should price one pizza and charge the line as a whole number of them', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        items: [{ ...validRequest.items[0], quantity: 3 }],
+      });
+
+      // 11 less the 5% discount for three or more
+      const [item] = result._unsafeUnwrap().order.items;
+      expect(item.unitPrice.minorUnits).toBe(1045);
+      expect(item.totalPrice.minorUnits).toBe(3135);
+    });
+
+    it('should load each referenced recipe and ingredient once', async () => {
+      await placeOrderUseCase.execute({
+        ...validRequest,
+        items: [validRequest.items[0], { ...validRequest.items[0], size: 'LARGE' as const }],
+      });
+
+      expect(mockMenuRepository.findAvailableRecipesByIds).toHaveBeenCalledWith([RECIPE_ID]);
+      expect(mockMenuRepository.findIngredientsByIds).toHaveBeenCalledWith([CHEESE_ID]);
+    });
+
+    it('should record the menu version of the recipe the pizza was sold from', async () => {
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      expect((result._unsafeUnwrap().order.items[0] as PizzaOrderItem).recipeVersionIds).toEqual([RECIPE_VERSION_ID]);
+    });
+
+    it('should price in the requested currency and keep the rate snapshot', async () => {
+      const result = await placeOrderUseCase.execute({ ...validRequest, currency: 'EUR' });
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        const { order } = result.value;
+        expect(order.currency).toBe('EUR');
+        expect(order.items[0].unitPrice.minorUnits).toBe(990);
+        expect(order.items[0].totalPrice.minorUnits).toBe(1980);
+        expect(order.exchangeRates).toHaveLength(1);
+        expect(order.exchangeRates[0]).toMatchObject({ from: 'USD', to: 'EUR', rate: 0.9 });
+      }
+    });
+
+    it('should not record a rate when no conversion was needed', async () => {
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      expect(result._unsafeUnwrap().order.exchangeRates).toEqual([]);
+    });
+
+    it('should tax based on the delivery location', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        currency: 'EUR',
+        deliveryType: 'DELIVERY',
+        deliveryAddress: { street: 'Hauptstr. 1', city: 'Berlin', postalCode: '10115', country: 'DE' },
+      });
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.taxLines.map(line => line.ruleName)).toEqual(['USt. 7%', 'USt. 19%']);
+      // VAT is already inside the prices, so the customer pays the items plus the fee
+      expect(order.grandTotal.equals(order.totalAmount.add(order.deliveryFee))).toBe(true);
+      expect(order.tax.minorUnits).toBe(130 + 80);
+    });
+
+    it('should not charge tax to tax-exempt customers', async () => {
+      const customer = User.reconstitute({
+        id: validRequest.customerId,
+        email: 'school@example.com',
+        passwordHash: 'hash',
+        firstName: 'Pizza',
+        lastName: 'School',
+        phone: '+1234567890',
+        role: 'CUSTOMER',
+        status: 'ACTIVE',
+        emailVerified: true,
+        taxExempt: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(Ok(customer));
+
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.tax.isZero()).toBe(true);
+      expect(order.taxLines[0].ruleName).toBe('EXEMPT');
+      expect(order.grandTotal.amount).toBeCloseTo(22);
+    });
+  });
+
+  describe('promo codes', () => {
+    it('should apply the discount before tax and record the redemption', async () => {
+      promotionRepository.add(tenPercentOff());
+
+      const result = await placeOrderUseCase.execute({ ...validRequest, promoCodes: ['pizza10'] });
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.discounts).toHaveLength(1);
+      expect(order.discounts[0]).toMatchObject({ code: 'PIZZA10', appliesTo: 'ITEMS' });
+      expect(order.discountTotal.amount).toBe(2.2);
+      expect(order.tax.amount).toBe(1.98);
+      expect(order.grandTotal.amount).toBe(21.78);
+      expect(promotionRepository.getAllRedemptions()).toHaveLength(1);
+    });
+
+    it('should let only one of two parallel orders redeem a single-use code', async () => {
+      promotionRepository.add(tenPercentOff({ maxRedemptions: 1 }));
+
+      const results = await Promise.all([
+        placeOrderUseCase.execute({ ...validRequest, promoCodes: ['PIZZA10'] }),
+        placeOrderUseCase.execute({ ...validRequest, promoCodes: ['PIZZA10'] }),
+      ]);
+
+      expect(results.filter(result => result.isOk())).toHaveLength(1);
+      expect(promotionRepository.getAllRedemptions()).toHaveLength(1);
+      expect(mockOrderRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give the code back when the order cannot be saved', async () => {
+      promotionRepository.add(tenPercentOff());
+      vi.mocked(mockOrderRepository.save).mockResolvedValue(Err(new Error('Database down')));
+
+      const result = await placeOrderUseCase.execute({ ...validRequest, promoCodes: ['PIZZA10'] });
+
+      expect(result.isErr()).toBe(true);
+      expect(promotionRepository.getAllRedemptions()).toHaveLength(0);
+    });
+
+    it('should return NotFoundError for unknown codes', async () => {
+      const result = await placeOrderUseCase.execute({ ...validRequest, promoCodes: ['NOPE'] });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe('loyalty points', () => {
+    it('should redeem points as a discount and record them in the ledger', async () => {
+      await loyaltyRepository.append([earned(500)]);
+
+      const result = await placeOrderUseCase.execute({ ...validRequest, loyaltyPointsToRedeem: 200 });
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.discounts[0]).toMatchObject({ promotionId: null, code: 'LOYALTY', appliesTo: 'ITEMS' });
+      expect(order.discountTotal.amount).toBe(2);
+      const redeemed = loyaltyRepository.getAll().filter(entry => entry.type === 'REDEEM');
+      expect(redeemed).toHaveLength(1);
+      expect(redeemed[0]).toMatchObject({ points: -200, orderId: order.id });
+    });
+
+    it('should reject redeeming more points than the customer has', async () => {
+      await loyaltyRepository.append([earned(100)]);
+
+      const result = await placeOrderUseCase.execute({ ...validRequest, loyaltyPointsToRedeem: 200 });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(BusinessRuleViolationError);
+      }
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject redemptions from guests', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        customerId: undefined,
+        loyaltyPointsToRedeem: 10,
+      });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it('should give the points back when the order cannot be saved', async () => {
+      await loyaltyRepository.append([earned(500)]);
+      vi.mocked(mockOrderRepository.save).mockResolvedValue(Err(new Error('Database down')));
+
+      await placeOrderUseCase.execute({ ...validRequest, loyaltyPointsToRedeem: 200 });
+
+      const balance = loyaltyRepository.getAll().reduce((total, entry) => total + entry.points, 0);
+      expect(balance).toBe(500);
+    });
+
+    it('should price VIP customers with the VIP discount', async () => {
+      await loyaltyRepository.append([earned(1000)]);
+
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.items[0].unitPrice.isLessThan(Money.create(11, 'USD'))).toBe(true);
+    });
+  });
+
+  describe('split pizzas', () => {
+    const halfAndHalf = {
+      size: 'MEDIUM' as const,
+      crust: 'THIN' as const,
+      quantity: 1,
+      sections: [
+        { position: 'LEFT' as const, recipeId: RECIPE_ID },
+        { position: 'RIGHT' as const, recipeId: PEPPERONI_RECIPE_ID },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockMenuRepository.findAvailableRecipesByIds).mockResolvedValue(
+        Ok([createRecipe(), createPepperoniRecipe()])
+      );
+    });
+
+    const withPolicy = (policy: SplitPizzaPricingPolicy) => {
+      const exchangeRateProvider = new StaticExchangeRateProvider({ base: 'USD', asOf: new Date(), rates: {} });
+      return new PlaceOrderUseCase(
+        mockOrderRepository,
+        mockMenuRepository,
+        mockUserRepository,
+        mockOrderNumberGenerator,
+        exchangeRateProvider,
+        new DeliveryZoneService(mockDeliveryZoneRepository, new LookupTableGeocoder(), exchangeRateProvider),
+        promotionRepository,
+        loyaltyRepository,
+        storeRepository,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        policy
+      );
+    };
+
+    it('should price a half-and-half at the more expensive half by default', async () => {
+      const result = await placeOrderUseCase.execute({ ...validRequest, items: [halfAndHalf] });
+
+      const { order } = result._unsafeUnwrap();
+      expect((order.items[0] as PizzaOrderItem).pizza.recipeIds).toEqual([RECIPE_ID, PEPPERONI_RECIPE_ID]);
+      expect(order.items[0].unitPrice.amount).toBeCloseTo(14);
+    });
+
+    it('should price at the average of the halves for stores configured that way', async () => {
+      await storeRepository.save(createStore(OTHER_STORE_ID));
+      const useCase = withPolicy(new SplitPizzaPricingPolicy('MORE_EXPENSIVE', { [OTHER_STORE_ID]: 'AVERAGE' }));
+
+      const atStore = await useCase.execute({ ...validRequest, storeId: OTHER_STORE_ID, items: [halfAndHalf] });
+      const elsewhere = await useCase.execute({ ...validRequest, items: [halfAndHalf] });
+
+      expect(atStore._unsafeUnwrap().order.items[0].unitPrice.amount).toBeCloseTo(12);
+      expect(elsewhere._unsafeUnwrap().order.items[0].unitPrice.amount).toBeCloseTo(14);
+    });
+
+    it('should charge half for toppings added to one half', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        items: [{
+          ...halfAndHalf,
+          sections: [
+            {
+              position: 'LEFT' as const,
+              recipeId: RECIPE_ID,
+              modifiers: [{ type: 'ADD' as const, ingredientId: CHEESE_ID }],
+            },
+            {
+              position: 'RIGHT' as const,
+              recipeId: PEPPERONI_RECIPE_ID,
+              modifiers: [{ type: 'REMOVE' as const, ingredientId: CHEESE_ID }],
+            },
+          ],
+        }],
+      });
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.items[0].unitPrice.amount).toBeCloseTo(14.5);
+      expect((order.items[0] as PizzaOrderItem).pizza.sections[1].modifiers[0].type).toBe('REMOVE');
+    });
+
+    it('should reject removing an ingredient the recipe does not have', async () => {
+      vi.mocked(mockMenuRepository.findIngredientsByIds).mockResolvedValue(
+        Ok([createIngredient(CHEESE_ID, 'Mozzarella'), createIngredient(BASIL_ID, 'Basil')])
+      );
+
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        items: [{
+          ...halfAndHalf,
+          sections: [
+            {
+              position: 'LEFT' as const,
+              recipeId: RECIPE_ID,
+              modifiers: [{ type: 'REMOVE' as const, ingredientId: BASIL_ID }],
+            },
+            { position: 'RIGHT' as const, recipeId: PEPPERONI_RECIPE_ID },
+          ],
+        }],
+      });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ingredient modifiers', () => {
+    const margherita = (modifiers: PlaceOrderItemRequest['modifiers']) => ({
+      ...validRequest,
+      items: [{ recipeId: RECIPE_ID, size: 'MEDIUM' as const, crust: 'THIN' as const, quantity: 1, modifiers }],
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockMenuRepository.findIngredientsByIds).mockResolvedValue(Ok([
+        createIngredient(CHEESE_ID, 'Mozzarella'),
+        createVeganCheese(),
+        Ingredient.create({
+          id: BASIL_ID,
+          name: 'Basil',
+          category: 'VEGETABLES',
+          pricePerUnit: Money.create(0.5, 'USD'),
+          isAvailable: true,
+        })._unsafeUnwrap(),
+      ]));
+    });
+
+    it('should charge the price difference of a substitution and recompute dietary flags', async () => {
+      const result = await placeOrderUseCase.execute(margherita([
+        { type: 'SUBSTITUTE', ingredientId: CHEESE_ID, replacementId: VEGAN_CHEESE_ID },
+      ]));
+
+      const item = result._unsafeUnwrap().order.items[0] as PizzaOrderItem;
+      expect(item.unitPrice.amount).toBeCloseTo(10.5);
+      expect(item.dietary).toEqual({ allergens: ['nuts'], isVegetarian: true, isVegan: true, isGlutenFree: true });
+    });
+
+    it('should reject substitutions across ingredient categories', async () => {
+      const result = await placeOrderUseCase.execute(margherita([
+        { type: 'SUBSTITUTE', ingredientId: CHEESE_ID, replacementId: BASIL_ID },
+      ]));
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it('should charge an extra portion and nothing for light by default', async () => {
+      const extra = await placeOrderUseCase.execute(margherita([{ type: 'EXTRA', ingredientId: CHEESE_ID }]));
+      const light = await placeOrderUseCase.execute(margherita([{ type: 'LIGHT', ingredientId: CHEESE_ID }]));
+
+      expect(extra._unsafeUnwrap().order.items[0].unitPrice.amount).toBeCloseTo(11);
+      expect(light._unsafeUnwrap().order.items[0].unitPrice.amount).toBeCloseTo(10);
+    });
+
+    it('should let removal credits offset additions but never go below the base price', async () => {
+      const exchangeRateProvider = new StaticExchangeRateProvider({ base: 'USD', asOf: new Date(), rates: {} });
+      const useCase = new PlaceOrderUseCase(
+        mockOrderRepository,
+        mockMenuRepository,
+        mockUserRepository,
+        mockOrderNumberGenerator,
+        exchangeRateProvider,
+        new DeliveryZoneService(mockDeliveryZoneRepository, new LookupTableGeocoder(), exchangeRateProvider),
+        promotionRepository,
+        loyaltyRepository,
+        storeRepository,
+        undefined,
+        undefined,
+        undefined,
+        new OrderPricingService(undefined, { ...DEFAULT_MODIFIER_PRICE_DELTAS, REMOVE: 1 })
+      );
+
+      const swapped = await useCase.execute(margherita([
+        { type: 'REMOVE', ingredientId: CHEESE_ID },
+        { type: 'ADD', ingredientId: BASIL_ID, quantity: 3 },
+      ]));
+      const removedOnly = await useCase.execute(margherita([{ type: 'REMOVE', ingredientId: CHEESE_ID }]));
+
+      expect(swapped._unsafeUnwrap().order.items[0].unitPrice.amount).toBeCloseTo(10.5);
+      expect(removedOnly._unsafeUnwrap().order.items[0].unitPrice.amount).toBeCloseTo(10);
+    });
+
+    it('should drop dietary flags when meat is added', async () => {
+      vi.mocked(mockMenuRepository.findIngredientsByIds).mockResolvedValue(Ok([
+        createIngredient(CHEESE_ID, 'Mozzarella'),
+        Ingredient.create({
+          id: BASIL_ID,
+          name: 'Salami',
+          category: 'MEAT',
+          pricePerUnit: Money.create(2, 'USD'),
+          isAvailable: true,
+        })._unsafeUnwrap(),
+      ]));
+
+      const result = await placeOrderUseCase.execute(margherita([{ type: 'ADD', ingredientId: BASIL_ID }]));
+
+      expect((result._unsafeUnwrap().order.items[0] as PizzaOrderItem).dietary).toMatchObject({ isVegetarian: false, isVegan: false });
+    });
+  });
+
+  describe('products and bundles', () => {
+    const partyDeal = (drinkSelections = [
+      { groupId: 'drinks', productId: COLA_ID },
+      { groupId: 'drinks', productId: COLA_ID },
+    ]) => ({
+      ...validRequest,
+      items: [{
+        bundleId: BUNDLE_ID,
+        quantity: 1,
+        selections: [
+          { groupId: 'pizzas', recipeId: RECIPE_ID, crust: 'THIN' as const },
+          { groupId: 'pizzas', recipeId: RECIPE_ID, crust: 'THICK' as const },
+          ...drinkSelections,
+        ],
+      }],
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockMenuRepository.findAvailableProductsByIds).mockResolvedValue(Ok([createCola()]));
+      vi.mocked(mockMenuRepository.findAvailableBundlesByIds).mockResolvedValue(Ok([createPartyBundle()]));
+    });
+
+    it('should sell products next to pizzas and tax drinks as beverages', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        items: [...validRequest.items, { productId: COLA_ID, quantity: 2 }],
+      });
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.items[1]).toMatchObject({ type: 'PRODUCT', product: { name: 'Cola', category: 'DRINK' } });
+      expect(order.items[1].totalPrice.amount).toBe(5);
+      expect(order.taxLines.map(line => line.category)).toEqual(['FOOD', 'BEVERAGE']);
+    });
+
+    it('should charge the bundle price and split it over the components by list price', async () => {
+      const result = await placeOrderUseCase.execute(partyDeal());
+
+      const { order } = result._unsafeUnwrap();
+      const item = order.items[0] as BundleOrderItem;
+      expect(item.totalPrice.amount).toBeCloseTo(29.99);
+      expect(item.bundle.components.map(component => component.allocatedPrice.minorUnits)).toEqual([1258, 1257, 242, 242]);
+      expect(item.bundle.components[0].pizza?.size).toBe('LARGE');
+      expect(order.taxLines.map(line => [line.category, line.net.minorUnits])).toEqual([
+        ['FOOD', 2515],
+        ['BEVERAGE', 484],
+      ]);
+    });
+
+    it('should not guess a crust for a bundle pizza', async () => {
+      const request = partyDeal();
+      const result = await placeOrderUseCase.execute({
+        ...request,
+        items: [{
+          ...request.items[0],
+          selections: [{ groupId: 'pizzas', recipeId: RECIPE_ID }, ...request.items[0].selections.slice(1)],
+        }],
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject picks that do not fill the choice groups', async () => {
+      const result = await placeOrderUseCase.execute(partyDeal([{ groupId: 'drinks', productId: COLA_ID }]));
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it('should return NotFoundError for unknown or unavailable products', async () => {
+      vi.mocked(mockMenuRepository.findAvailableProductsByIds).mockResolvedValue(Ok([]));
+
+      const result = await placeOrderUseCase.execute({ ...validRequest, items: [{ productId: COLA_ID, quantity: 1 }] });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe('stores', () => {
+    const berlinAddress = { street: 'Hauptstr. 1', city: 'Berlin', postalCode: '10115', country: 'DE' };
+
+    it('should assign deliveries to the store that delivers to the address', async () => {
+      await storeRepository.save(createStore(OTHER_STORE_ID, {
+        name: 'Berlin Mitte',
+        address: { street: 'Torstr. 1', city: 'Berlin', postalCode: '10119', country: 'DE' },
+        timeZone: 'Europe/Berlin',
+        currency: 'EUR',
+      }));
+      const [zone] = (await mockDeliveryZoneRepository.findActive())._unsafeUnwrap();
+      vi.mocked(mockDeliveryZoneRepository.findActive).mockResolvedValue(Ok([{ ...zone, storeId: OTHER_STORE_ID }]));
+
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        storeId: undefined,
+        deliveryType: 'DELIVERY',
+        deliveryAddress: berlinAddress,
+      });
+
+      const { order } = result._unsafeUnwrap();
+      expect(order.storeId).toBe(OTHER_STORE_ID);
+      expect(order.currency).toBe('EUR');
+    });
+
+    it("should number orders with the store's prefix on the store's calendar", async () => {
+      await storeRepository.save(createStore(STORE_ID, { orderNumberPrefix: 'DT' }));
+
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      expect(result._unsafeUnwrap().order.orderNumber.prefix).toBe('DT');
+      expect(mockOrderNumberGenerator.next).toHaveBeenCalledWith('DT', expect.any(Date), 'America/Los_Angeles');
+    });
+
+    it("should sell at the store's own prices and not sell what it leaves off the menu", async () => {
+      await storeRepository.save(createStore(STORE_ID, { priceOverrides: new Map([[RECIPE_ID, Money.create(12, 'USD')]]) }));
+      await storeRepository.save(createStore(OTHER_STORE_ID, { excludedItemIds: [RECIPE_ID] }));
+
+      const repriced = await placeOrderUseCase.execute(validRequest);
+      const excluded = await placeOrderUseCase.execute({ ...validRequest, storeId: OTHER_STORE_ID });
+
+      // 12 store price + 1 extra cheese
+      expect(repriced._unsafeUnwrap().order.items[0].unitPrice.amount).toBeCloseTo(13);
+      expect(excluded._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+    });
+
+    it('should not sell pizzas made with an ingredient only another store has run short of', async () => {
+      await storeRepository.save(createStore(OTHER_STORE_ID, { unavailableIngredientIds: [CHEESE_ID] }));
+
+      const stocked = await placeOrderUseCase.execute(validRequest);
+      const short = await placeOrderUseCase.execute({ ...validRequest, storeId: OTHER_STORE_ID });
+
+      expect(stocked.isOk()).toBe(true);
+      expect(short._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+    });
+
+    it('should need a store for pickup orders and reject stores that are not trading', async () => {
+      await storeRepository.save(createStore(OTHER_STORE_ID, { isActive: false }));
+
+      const withoutStore = await placeOrderUseCase.execute({ ...validRequest, storeId: undefined });
+      const inactive = await placeOrderUseCase.execute({ ...validRequest, storeId: OTHER_STORE_ID });
+
+      expect(withoutStore._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+      expect(inactive._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should turn orders away while the store has paused ordering or for times it does not take', async () => {
+      const pausedStore = createStore(OTHER_STORE_ID);
+      pausedStore.pauseOrdering('Oven is down', '523e4567-e89b-12d3-a456-426614174000');
+      await storeRepository.save(pausedStore);
+
+      const paused = await placeOrderUseCase.execute({ ...validRequest, storeId: OTHER_STORE_ID });
+      const tooFarAhead = await placeOrderUseCase.execute({
+        ...validRequest,
+        requestedDeliveryTime: new Date(Date.now() + 30 * 24 * 60 * 60000),
+      });
+
+      expect(paused._unsafeUnwrapErr().message).toContain('Oven is down');
+      expect(tooFarAhead._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+      expect(mockOrderNumberGenerator.next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('errors', () => {
+    it('should fail when no exchange rate is known', async () => {
+      const result = await placeOrderUseCase.execute({ ...validRequest, currency: 'RUB' });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return NotFoundError for unknown or unavailable recipes', async () => {
+      vi.mocked(mockMenuRepository.findAvailableRecipesByIds).mockResolvedValue(Ok([]));
+
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      expect(result.isErr()).toBe(true);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+      expect(mockOrderNumberGenerator.next).not.toHaveBeenCalled();
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+
+    it('should return NotFoundError for unknown custom ingredients', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        items: [{ ...validRequest.items[0], customIngredients: { [BASIL_ID]: 1 } }],
+      });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+        expect(result.error.message).toContain(BASIL_ID);
+      }
+    });
+
+    it('should reject unavailable custom ingredients', async () => {
+      vi.mocked(mockMenuRepository.findIngredientsByIds).mockResolvedValue(
+        Ok([createIngredient(CHEESE_ID, 'Mozzarella', false)])
+      );
+
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(BusinessRuleViolationError);
+      }
+    });
+
+    it('should return validation error when delivery address is missing', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        deliveryType: 'DELIVERY',
+      });
+
+      expect(result.isErr()).toBe(true);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it('should reject delivery outside every zone', async () => {
+      const result = await placeOrderUseCase.execute({
+        ...validRequest,
+        deliveryType: 'DELIVERY',
+        deliveryAddress: { street: '123 Main St', city: 'Pizza Town', postalCode: '90210', country: 'US' },
+      });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(BusinessRuleViolationError);
+      }
+      expect(mockOrderNumberGenerator.next).not.toHaveBeenCalled();
+    });
+
+    it('should propagate repository failures', async () => {
+      vi.mocked(mockOrderRepository.save).mockResolvedValue(Err(new Error('Database down')));
+
+      const result = await placeOrderUseCase.execute(validRequest);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toBe('Database down');
+      }
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScheduleMenuVersionUseCase } from '@/application/use-cases/menu/schedule-menu-version';
+import { PublishDueMenuVersionsUseCase } from '@/application/use-cases/menu/publish-due-menu-versions';
+import { MenuVersion } from '@/domain/menu/menu-version';
+import { PizzaRecipe } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+import { ForbiddenError } from '@/domain/shared/result';
+import { InMemoryMenuVersionRepository } from '@/test/mocks/in-memory-menu-version-repository';
+
+const LIVE_ID = '123e4567-e89b-12d3-a456-426614174000';
+const DRAFT_ID = '223e4567-e89b-12d3-a456-426614174000';
+const LATER_DRAFT_ID = '323e4567-e89b-12d3-a456-426614174000';
+const MARGHERITA_ID = '11111111-1111-4111-8111-111111111111';
+const PEPPERONI_RECIPE_ID = '88888888-8888-4888-8888-888888888888';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const MANAGER = { userId: '523e4567-e89b-12d3-a456-426614174000', role: 'MANAGER' as const };
+const CUSTOMER = { userId: '623e4567-e89b-12d3-a456-426614174000', role: 'CUSTOMER' as const };
+
+const createRecipe = (id: string, name: string, basePrice: number) =>
+  PizzaRecipe.create({
+    id,
+    name,
+    description: name,
+    ingredients: new Map([[CHEESE_ID, 1]]),
+    basePrice: Money.create(basePrice, 'USD'),
+    preparationTimeMinutes: 15,
+    difficulty: 2,
+  })._unsafeUnwrap();
+
+const createDraft = (id: string, recipes: PizzaRecipe[]) =>
+  MenuVersion.create({
+    id,
+    name: id,
+    recipes: recipes.map(recipe => ({ recipe, isAvailable: true })),
+  })._unsafeUnwrap();
+
+describe('ScheduleMenuVersionUseCase', () => {
+  let menuVersionRepository: InMemoryMenuVersionRepository;
+  let publishDueMenuVersionsUseCase: PublishDueMenuVersionsUseCase;
+  let scheduleMenuVersionUseCase: ScheduleMenuVersionUseCase;
+
+  beforeEach(async () => {
+    menuVersionRepository = new InMemoryMenuVersionRepository();
+    publishDueMenuVersionsUseCase = new PublishDueMenuVersionsUseCase(menuVersionRepository);
+    scheduleMenuVersionUseCase = new ScheduleMenuVersionUseCase(menuVersionRepository, publishDueMenuVersionsUseCase);
+
+    const live = createDraft(LIVE_ID, [
+      createRecipe(MARGHERITA_ID, 'Margherita', 10),
+      createRecipe(PEPPERONI_RECIPE_ID, 'Pepperoni', 12),
+    ]);
+    live.schedule(new Date('2026-01-01T00:00:00Z'));
+    live.publish(new Date('2026-01-01T00:00:00Z'));
+    await menuVersionRepository.publish(live, []);
+  });
+
+  it('should keep a future publish time scheduled and the live menu unchanged', async () => {
+    await menuVersionRepository.save(createDraft(DRAFT_ID, [createRecipe(MARGHERITA_ID, 'Margherita', 11)]));
+
+    const result = await scheduleMenuVersionUseCase.execute({
+      menuVersionId: DRAFT_ID,
+      publishAt: new Date(Date.now() + 60 * 60 * 1000),
+      requester: MANAGER,
+    });
+
+    expect(result._unsafeUnwrap().version.status).toBe('SCHEDULED');
+    expect(menuVersionRepository.getLiveRecipes().get(MARGHERITA_ID)!.recipe.basePrice.amount).toBe(10);
+  });
+
+  it('should publish straight away and retire the live version when the time has passed', async () => {
+    await menuVersionRepository.save(createDraft(DRAFT_ID, [createRecipe(MARGHERITA_ID, 'Margherita', 11)]));
+
+    const result = await scheduleMenuVersionUseCase.execute({
+      menuVersionId: DRAFT_ID,
+      publishAt: new Date('2026-01-02T00:00:00Z'),
+      requester: MANAGER,
+    });
+
+    expect(result._unsafeUnwrap().version.status).toBe('PUBLISHED');
+    expect((await menuVersionRepository.findById(LIVE_ID))._unsafeUnwrap().status).toBe('RETIRED');
+
+    const live = menuVersionRepository.getLiveRecipes();
+    expect(live.get(MARGHERITA_ID)!.recipe.basePrice.amount).toBe(11);
+    // Dropped from the menu but kept for the orders that point at it
+    expect(live.get(PEPPERONI_RECIPE_ID)!.isAvailable).toBe(false);
+  });
+
+  it('should not let customers publish the menu', async () => {
+    await menuVersionRepository.save(createDraft(DRAFT_ID, [createRecipe(MARGHERITA_ID, 'Margherita', 11)]));
+
+    const result = await scheduleMenuVersionUseCase.execute({
+      menuVersionId: DRAFT_ID,
+      publishAt: new Date(),
+      requester: CUSTOMER,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ForbiddenError);
+  });
+});
+
+describe('PublishDueMenuVersionsUseCase', () => {
+  it('should publish the latest due version and retire the ones it overtook', async () => {
+    const menuVersionRepository = new InMemoryMenuVersionRepository();
+    const earlier = createDraft(DRAFT_ID, [createRecipe(MARGHERITA_ID, 'Margherita', 11)]);
+    earlier.schedule(new Date('2026-10-19T06:00:00Z'));
+    const later = createDraft(LATER_DRAFT_ID, [createRecipe(MARGHERITA_ID, 'Margherita', 12)]);
+    later.schedule(new Date('2026-10-19T09:00:00Z'));
+    await menuVersionRepository.save(earlier);
+    await menuVersionRepository.save(later);
+
+    const result = await new PublishDueMenuVersionsUseCase(menuVersionRepository).execute({
+      requester: MANAGER,
+      now: new Date('2026-10-19T12:00:00Z'),
+    });
+
+    expect(result._unsafeUnwrap().published!.id).toBe(LATER_DRAFT_ID);
+    expect((await menuVersionRepository.findById(DRAFT_ID))._unsafeUnwrap().status).toBe('RETIRED');
+    expect(menuVersionRepository.getLiveRecipes().get(MARGHERITA_ID)!.recipe.basePrice.amount).toBe(12);
+  });
+
+  it('should run for the scheduler without a requester but not for users who cannot write the menu', async () => {
+    const menuVersionRepository = new InMemoryMenuVersionRepository();
+    const draft = createDraft(DRAFT_ID, [createRecipe(MARGHERITA_ID, 'Margherita', 11)]);
+    draft.schedule(new Date('2026-10-19T06:00:00Z'));
+    await menuVersionRepository.save(draft);
+    const publishDue = new PublishDueMenuVersionsUseCase(menuVersionRepository);
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    const byCustomer = await publishDue.execute({ requester: CUSTOMER, now });
+    const byScheduler = await publishDue.execute({ now });
+
+    expect(byCustomer._unsafeUnwrapErr()).toBeInstanceOf(ForbiddenError);
+    expect(byScheduler._unsafeUnwrap().published!.id).toBe(DRAFT_ID);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReceivePurchaseOrderUseCase } from '@/application/use-cases/purchasing/receive-purchase-order';
+import { SuggestReordersUseCase } from '@/application/use-cases/purchasing/suggest-reorders';
+import { RecordStockUseCase } from '@/application/use-cases/inventory/record-stock';
+import { PurchaseOrder } from '@/domain/purchasing/purchase-order';
+import { Supplier } from '@/domain/purchasing/supplier';
+import type { SupplierRepository } from '@/domain/purchasing/supplier-repository';
+import { ReorderPolicy } from '@/domain/purchasing/reorder-policy';
+import { Ingredient } from '@/domain/menu/pizza';
+import { StockLevel } from '@/domain/inventory/stock-level';
+import { Store } from '@/domain/store/store';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { Money } from '@/domain/shared/money';
+import { Ok, ForbiddenError, BusinessRuleViolationError } from '@/domain/shared/result';
+import { InMemoryInventoryRepository } from '@/test/mocks/in-memory-inventory-repository';
+import { InMemoryPurchaseOrderRepository } from '@/test/mocks/in-memory-purchase-order-repository';
+import { InMemoryStoreRepository } from '@/test/mocks/in-memory-store-repository';
+
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const SUPPLIER_ID = '88888888-8888-4888-8888-888888888888';
+const PURCHASE_ORDER_ID = '123e4567-e89b-12d3-a456-426614174000';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const MANAGER = { userId: '523e4567-e89b-12d3-a456-426614174000', role: 'MANAGER' as const, storeIds: [STORE_ID] };
+
+const mockMenuRepository: MenuRepository = {
+  findAvailableRecipesByIds: vi.fn(),
+  findRecipesByIds: vi.fn(),
+  findAvailableRecipes: vi.fn(),
+  findIngredientsByIds: vi.fn(),
+  saveIngredient: vi.fn(),
+  findAvailableProductsByIds: vi.fn(),
+  findAvailableBundlesByIds: vi.fn(),
+};
+
+const mockSupplierRepository: SupplierRepository = {
+  findById: vi.fn(),
+  findAll: vi.fn(),
+  save: vi.fn(),
+};
+
+const createCheese = () =>
+  Ingredient.create({
+    id: CHEESE_ID,
+    name: 'Mozzarella',
+    category: 'CHEESE',
+    pricePerUnit: Money.create(1, 'USD'),
+    isAvailable: true,
+  })._unsafeUnwrap();
+
+const createStore = (unavailableIngredientIds: string[] = []) =>
+  Store.create({
+    id: STORE_ID,
+    name: 'Downtown',
+    address: { street: '1 Main St', city: 'Pizza Town', postalCode: '90210', country: 'US' },
+    timeZone: 'America/Los_Angeles',
+    currency: 'USD',
+    unavailableIngredientIds,
+  })._unsafeUnwrap();
+
+const createSubmittedOrder = () => {
+  const purchaseOrder = PurchaseOrder.create({
+    id: PURCHASE_ORDER_ID,
+    supplierId: SUPPLIER_ID,
+    storeId: STORE_ID,
+    expectedDeliveryDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+    lines: [{ ingredientId: CHEESE_ID, quantity: 20, unitCost: Money.create(4.5, 'USD') }],
+  })._unsafeUnwrap();
+  purchaseOrder.submit();
+  return purchaseOrder;
+};
+
+describe('ReceivePurchaseOrderUseCase', () => {
+  let inventoryRepository: InMemoryInventoryRepository;
+  let purchaseOrderRepository: InMemoryPurchaseOrderRepository;
+  let storeRepository: InMemoryStoreRepository;
+  let receivePurchaseOrderUseCase: ReceivePurchaseOrderUseCase;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    inventoryRepository = new InMemoryInventoryRepository();
+    purchaseOrderRepository = new InMemoryPurchaseOrderRepository();
+    storeRepository = new InMemoryStoreRepository();
+    receivePurchaseOrderUseCase = new ReceivePurchaseOrderUseCase(
+      purchaseOrderRepository,
+      new RecordStockUseCase(inventoryRepository, mockMenuRepository, storeRepository)
+    );
+
+    vi.mocked(mockMenuRepository.findIngredientsByIds).mockResolvedValue(Ok([createCheese()]));
+    vi.mocked(mockMenuRepository.saveIngredient).mockImplementation(async (ingredient) => Ok(ingredient));
+
+    const level = StockLevel.create({ storeId: STORE_ID, ingredientId: CHEESE_ID, parLevel: 5 })._unsafeUnwrap();
+    level.receive(2);
+    await inventoryRepository.save([level]);
+    await storeRepository.save(createStore([CHEESE_ID]));
+    await purchaseOrderRepository.save(createSubmittedOrder());
+  });
+
+  it('should add the delivery to stock at its cost and put the ingredient back on the menu', async () => {
+    const result = await receivePurchaseOrderUseCase.execute({
+      purchaseOrderId: PURCHASE_ORDER_ID,
+      lines: [{ ingredientId: CHEESE_ID, quantity: 12 }],
+      requester: MANAGER,
+    });
+
+    const { purchaseOrder } = result._unsafeUnwrap();
+    expect(purchaseOrder.status).toBe('PARTIALLY_RECEIVED');
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)).toMatchObject({ onHand: 14 });
+    expect((await storeRepository.findById(STORE_ID))._unsafeUnwrap().isIngredientAvailable(CHEESE_ID)).toBe(true);
+    expect(vi.mocked(mockMenuRepository.saveIngredient).mock.calls[0][0].costPerUnit?.amount).toBe(4.5);
+
+    const stored = (await purchaseOrderRepository.findById(PURCHASE_ORDER_ID))._unsafeUnwrap();
+    expect(stored.outstandingQuantities().get(CHEESE_ID)).toBe(8);
+  });
+
+  it('should leave stock alone when the order is already received', async () => {
+    await receivePurchaseOrderUseCase.execute({
+      purchaseOrderId: PURCHASE_ORDER_ID,
+      lines: [{ ingredientId: CHEESE_ID, quantity: 20 }],
+      requester: MANAGER,
+    });
+
+    const result = await receivePurchaseOrderUseCase.execute({
+      purchaseOrderId: PURCHASE_ORDER_ID,
+      lines: [{ ingredientId: CHEESE_ID, quantity: 20 }],
+      requester: MANAGER,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)).toMatchObject({ onHand: 22 });
+  });
+
+  it('should not let customers receive deliveries', async () => {
+    const result = await receivePurchaseOrderUseCase.execute({
+      purchaseOrderId: PURCHASE_ORDER_ID,
+      lines: [{ ingredientId: CHEESE_ID, quantity: 20 }],
+      requester: { ...MANAGER, role: 'CUSTOMER' },
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should not let managers receive deliveries for stores they do not operate', async () => {
+    const result = await receivePurchaseOrderUseCase.execute({
+      purchaseOrderId: PURCHASE_ORDER_ID,
+      lines: [{ ingredientId: CHEESE_ID, quantity: 20 }],
+      requester: { ...MANAGER, storeIds: [] },
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ForbiddenError);
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)).toMatchObject({ onHand: 2 });
+  });
+});
+
+describe('SuggestReordersUseCase', () => {
+  let inventoryRepository: InMemoryInventoryRepository;
+  let purchaseOrderRepository: InMemoryPurchaseOrderRepository;
+  let suggestReordersUseCase: SuggestReordersUseCase;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    inventoryRepository = new InMemoryInventoryRepository();
+    purchaseOrderRepository = new InMemoryPurchaseOrderRepository();
+    suggestReordersUseCase = new SuggestReordersUseCase(
+      inventoryRepository,
+      purchaseOrderRepository,
+      mockSupplierRepository,
+      new ReorderPolicy({ trailingDays: 28, coverDays: 7 })
+    );
+
+    vi.mocked(mockSupplierRepository.findById).mockResolvedValue(Ok(
+      Supplier.create({ id: SUPPLIER_ID, name: 'Dairy Co', leadTimeDays: 3 })._unsafeUnwrap()
+    ));
+
+    // 56 consumed over the window is 2 a day, leaving 14 on hand against a par of 10
+    const level = StockLevel.create({ storeId: STORE_ID, ingredientId: CHEESE_ID, parLevel: 10 })._unsafeUnwrap();
+    level.receive(70);
+    level.consume(PURCHASE_ORDER_ID, 56);
+    await inventoryRepository.save([level]);
+  });
+
+  it('should suggest enough to last the supplier lead time and cover period', async () => {
+    const result = await suggestReordersUseCase.execute({
+      storeId: STORE_ID,
+      supplierId: SUPPLIER_ID,
+      requester: MANAGER,
+    });
+
+    // par 10 + 2 x (3 + 7) = 30, less 14 available
+    expect(result._unsafeUnwrap().suggestions).toEqual([
+      expect.objectContaining({ ingredientId: CHEESE_ID, targetLevel: 30, suggestedQuantity: 16 }),
+    ]);
+  });
+
+  it('should count what is already on order', async () => {
+    await purchaseOrderRepository.save(createSubmittedOrder());
+
+    const result = await suggestReordersUseCase.execute({
+      storeId: STORE_ID,
+      supplierId: SUPPLIER_ID,
+      requester: MANAGER,
+    });
+
+    expect(result._unsafeUnwrap().suggestions).toEqual([]);
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RefundOrderUseCase } from '@/application/use-cases/payments/refund-order';
+import { PayOrderUseCase } from '@/application/use-cases/payments/pay-order';
+import { Order } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza } from '@/domain/menu/pizza';
+import { GiftCard } from '@/domain/gift-card/gift-card';
+import { Money } from '@/domain/shared/money';
+import { Ok, BusinessRuleViolationError, ForbiddenError, ConflictError } from '@/domain/shared/result';
+import { FakePaymentGateway, FAKE_GATEWAY_TEST_CARDS } from '@/infrastructure/payments/fake-payment-gateway';
+import { InMemoryOrderRepository } from '@/test/mocks/in-memory-order-repository';
+import { InMemoryPaymentRepository } from '@/test/mocks/in-memory-payment-repository';
+import { InMemoryGiftCardRepository } from '@/test/mocks/in-memory-gift-card-repository';
+import type { Requester } from '@/application/requester';
+
+const CUSTOMER_ID = '223e4567-e89b-12d3-a456-426614174000';
+const STAFF_ID = '523e4567-e89b-12d3-a456-426614174000';
+const MARGHERITA_LINE = '323e4567-e89b-12d3-a456-426614174000';
+const PEPPERONI_LINE = '333e4567-e89b-12d3-a456-426614174000';
+
+describe('RefundOrderUseCase', () => {
+  let orderRepository: InMemoryOrderRepository;
+  let paymentRepository: InMemoryPaymentRepository;
+  let giftCardRepository: InMemoryGiftCardRepository;
+  let gateway: FakePaymentGateway;
+  let refundOrderUseCase: RefundOrderUseCase;
+  let order: Order;
+
+  const staff: Requester = { userId: STAFF_ID, role: 'STAFF' };
+  const customer: Requester = { userId: CUSTOMER_ID, role: 'CUSTOMER' };
+
+  beforeEach(async () => {
+    orderRepository = new InMemoryOrderRepository();
+    paymentRepository = new InMemoryPaymentRepository();
+    giftCardRepository = new InMemoryGiftCardRepository();
+    gateway = new FakePaymentGateway();
+    refundOrderUseCase = new RefundOrderUseCase(orderRepository, paymentRepository, gateway, giftCardRepository);
+
+    const pizza = new Pizza('11111111-1111-4111-8111-111111111111', 'MEDIUM', 'THIN');
+    order = Order.create({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 1)._unsafeUnwrap(),
+      customerId: CUSTOMER_ID,
+      customerInfo: { name: 'John Doe', phone: '+1234567890' },
+      items: [
+        { id: MARGHERITA_LINE, type: 'PIZZA', pizza, quantity: 1, unitPrice: Money.create(10, 'USD'), totalPrice: Money.create(10, 'USD') },
+        { id: PEPPERONI_LINE, type: 'PIZZA', pizza, quantity: 1, unitPrice: Money.create(20, 'USD'), totalPrice: Money.create(20, 'USD') },
+      ],
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+
+    await orderRepository.save(order);
+    await new PayOrderUseCase(orderRepository, paymentRepository, gateway, giftCardRepository).execute({
+      orderId: order.id,
+      card: { number: FAKE_GATEWAY_TEST_CARDS.SUCCESS, expiryMonth: 12, expiryYear: 2030, cvc: '123' },
+      requester: customer,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refund a single line through the gateway and record it in the ledger', async () => {
+    const result = await refundOrderUseCase.execute({
+      orderId: order.id,
+      orderItemIds: [MARGHERITA_LINE],
+      reason: 'Burnt crust',
+      requester: staff,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.refunds).toHaveLength(1);
+      expect(result.value.refunds[0].amount.amount).toBe(11);
+      expect(result.value.refunds[0].actorId).toBe(STAFF_ID);
+      expect(result.value.order.paymentStatus).toBe('PARTIALLY_REFUNDED');
+      expect(result.value.order.refunds).toHaveLength(1);
+    }
+  });
+
+  it('should refund whatever is left of the order', async () => {
+    await refundOrderUseCase.execute({
+      orderId: order.id,
+      orderItemIds: [MARGHERITA_LINE],
+      reason: 'Burnt crust',
+      requester: staff,
+    });
+
+    const result = await refundOrderUseCase.execute({
+      orderId: order.id,
+      reason: 'Customer complaint',
+      requester: staff,
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.refunds[0].amount.amount).toBe(22);
+      expect(result.value.refunds[0].orderItemIds).toEqual([PEPPERONI_LINE]);
+      expect(result.value.order.paymentStatus).toBe('REFUNDED');
+    }
+  });
+
+  it('should save the refund as pending before asking the provider', async () => {
+    const saveOrder = orderRepository.save.bind(orderRepository);
+    const savedStatuses: string[][] = [];
+    vi.spyOn(orderRepository, 'save').mockImplementation(async saved => {
+      savedStatuses.push(saved.refunds.map(refund => refund.status));
+      return saveOrder(saved);
+    });
+    const gatewayRefund = vi.spyOn(gateway, 'refund');
+
+    await refundOrderUseCase.execute({
+      orderId: order.id,
+      orderItemIds: [MARGHERITA_LINE],
+      reason: 'Burnt crust',
+      requester: staff,
+    });
+
+    expect(savedStatuses).toEqual([['PENDING'], ['COMPLETED']]);
+    expect(vi.mocked(orderRepository.save).mock.invocationCallOrder[0])
+      .toBeLessThan(gatewayRefund.mock.invocationCallOrder[0]);
+  });
+
+  it('should not pay out a refund quoted from a copy of the order that has since changed', async () => {
+    const gatewayRefund = vi.spyOn(gateway, 'refund');
+    const findOrder = orderRepository.findById.bind(orderRepository);
+    // Another refund saves the order between this one loading and saving it
+    vi.spyOn(orderRepository, 'findById').mockImplementationOnce(async id => {
+      const loaded = await findOrder(id);
+      orderRepository.simulateConcurrentSave(id);
+      return loaded;
+    });
+
+    const result = await refundOrderUseCase.execute({
+      orderId: order.id,
+      reason: 'Burnt crust',
+      requester: staff,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ConflictError);
+    expect(gatewayRefund).not.toHaveBeenCalled();
+    expect((await orderRepository.findById(order.id))._unsafeUnwrap().refunds).toEqual([]);
+  });
+
+  it('should still record a refund that was paid out while the order changed', async () => {
+    const refund = gateway.refund.bind(gateway);
+    // The kitchen moves the order on while the provider is handling the refund
+    vi.spyOn(gateway, 'refund').mockImplementationOnce(async (reference, amount) => {
+      orderRepository.simulateConcurrentSave(order.id);
+      return refund(reference, amount);
+    });
+
+    const result = await refundOrderUseCase.execute({
+      orderId: order.id,
+      orderItemIds: [MARGHERITA_LINE],
+      reason: 'Burnt crust',
+      requester: staff,
+    });
+
+    expect(result._unsafeUnwrap().order.paymentStatus).toBe('PARTIALLY_REFUNDED');
+    const stored = (await orderRepository.findById(order.id))._unsafeUnwrap();
+    expect(stored.refunds.map(entry => entry.status)).toEqual(['COMPLETED']);
+  });
+
+  it('should mark the refund failed and leave the order paid when the provider rejects it', async () => {
+    vi.spyOn(gateway, 'refund').mockResolvedValueOnce(
+      Ok({ approved: false, providerReference: null, declineReason: 'Refund window closed' })
+    );
+
+    const result = await refundOrderUseCase.execute({
+      orderId: order.id,
+      orderItemIds: [MARGHERITA_LINE],
+      reason: 'Burnt crust',
+      requester: staff,
+    });
+
+    expect(result.isErr()).toBe(true);
+    const stored = (await orderRepository.findById(order.id))._unsafeUnwrap();
+    expect(stored.refunds.map(refund => refund.status)).toEqual(['FAILED']);
+    expect(stored.paymentStatus).toBe('PAID');
+    expect(stored.quoteRefund([MARGHERITA_LINE]).isOk()).toBe(true);
+  });
+
+  it('should give the gift card share of a split-tender order back to the gift card', async () => {
+    const giftCard = GiftCard.issue({
+      id: '623e4567-e89b-12d3-a456-426614174000',
+      code: 'GIFT-CARD-TEST-0001',
+      initialBalance: Money.create(10, 'USD'),
+    })._unsafeUnwrap();
+    await giftCardRepository.save(giftCard);
+
+    const splitOrder = Order.create({
+      id: '143e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 3)._unsafeUnwrap(),
+      customerId: CUSTOMER_ID,
+      customerInfo: order.customerInfo,
+      items: order.items,
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+    await orderRepository.save(splitOrder);
+    // The gift card and card payments need ids of their own
+    let nextId = 0;
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(
+      () => `00000000-0000-4000-8000-${String(++nextId).padStart(12, '0')}` as ReturnType<typeof crypto.randomUUID>
+    );
+    await new PayOrderUseCase(orderRepository, paymentRepository, gateway, giftCardRepository).execute({
+      orderId: splitOrder.id,
+      card: { number: FAKE_GATEWAY_TEST_CARDS.SUCCESS, expiryMonth: 12, expiryYear: 2030, cvc: '123' },
+      giftCardCode: 'GIFT-CARD-TEST-0001',
+      requester: customer,
+    });
+
+    const result = await refundOrderUseCase.execute({
+      orderId: splitOrder.id,
+      reason: 'Order never arrived',
+      requester: staff,
+    });
+
+    const { order: refunded, refunds } = result._unsafeUnwrap();
+    expect(refunds.map(refund => refund.amount.amount)).toEqual([23, 10]);
+    expect(refunded.paymentStatus).toBe('REFUNDED');
+    expect((await giftCardRepository.findByCode('GIFT-CARD-TEST-0001'))._unsafeUnwrap().balance.amount).toBe(10);
+  });
+
+  it('should not record more going back to the gift card than it can take back', async () => {
+    const giftCard = GiftCard.issue({
+      id: '623e4567-e89b-12d3-a456-426614174000',
+      code: 'GIFT-CARD-TEST-0001',
+      initialBalance: Money.create(33, 'USD'),
+    })._unsafeUnwrap();
+    await giftCardRepository.save(giftCard);
+
+    const giftCardOrder = Order.create({
+      id: '153e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 4)._unsafeUnwrap(),
+      customerId: CUSTOMER_ID,
+      customerInfo: order.customerInfo,
+      items: order.items,
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+    await orderRepository.save(giftCardOrder);
+    let nextId = 0;
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(
+      () => `00000000-0000-4000-8000-${String(++nextId).padStart(12, '0')}` as ReturnType<typeof crypto.randomUUID>
+    );
+    await new PayOrderUseCase(orderRepository, paymentRepository, gateway, giftCardRepository).execute({
+      orderId: giftCardOrder.id,
+      giftCardCode: 'GIFT-CARD-TEST-0001',
+      requester: customer,
+    });
+    // Part of the payment went back to the card without passing through the order's ledger
+    const paidCard = (await giftCardRepository.findByCode('GIFT-CARD-TEST-0001'))._unsafeUnwrap();
+    paidCard.restore(giftCardOrder.id, Money.create(5, 'USD'));
+    await giftCardRepository.save(paidCard);
+
+    const result = await refundOrderUseCase.execute({
+      orderId: giftCardOrder.id,
+      reason: 'Order never arrived',
+      requester: staff,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+    const refunded = (await orderRepository.findById(giftCardOrder.id))._unsafeUnwrap();
+    expect(refunded.refunds.map(refund => refund.status)).toEqual(['FAILED']);
+    expect((await giftCardRepository.findByCode('GIFT-CARD-TEST-0001'))._unsafeUnwrap().balance.amount).toBe(5);
+  });
+
+  it('should not let customers issue refunds', async () => {
+    const result = await refundOrderUseCase.execute({
+      orderId: order.id,
+      reason: 'I want my money back',
+      requester: customer,
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(ForbiddenError);
+    }
+  });
+
+  it('should refuse to refund an unpaid order', async () => {
+    const unpaid = Order.create({
+      id: '133e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 2)._unsafeUnwrap(),
+      customerId: CUSTOMER_ID,
+      customerInfo: order.customerInfo,
+      items: order.items,
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+    await orderRepository.save(unpaid);
+
+    const result = await refundOrderUseCase.execute({
+      orderId: unpaid.id,
+      reason: 'Burnt crust',
+      requester: staff,
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(BusinessRuleViolationError);
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RestoreGiftCardsForOrderUseCase } from '@/application/use-cases/gift-cards/restore-gift-cards-for-order';
+import { PayOrderUseCase } from '@/application/use-cases/payments/pay-order';
+import { RefundOrderUseCase } from '@/application/use-cases/payments/refund-order';
+import { Order } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza } from '@/domain/menu/pizza';
+import { GiftCard } from '@/domain/gift-card/gift-card';
+import { Money } from '@/domain/shared/money';
+import { FakePaymentGateway, FAKE_GATEWAY_TEST_CARDS } from '@/infrastructure/payments/fake-payment-gateway';
+import { InMemoryOrderRepository } from '@/test/mocks/in-memory-order-repository';
+import { InMemoryPaymentRepository } from '@/test/mocks/in-memory-payment-repository';
+import { InMemoryGiftCardRepository } from '@/test/mocks/in-memory-gift-card-repository';
+
+const ORDER_ID = '123e4567-e89b-12d3-a456-426614174000';
+const CUSTOMER_ID = '223e4567-e89b-12d3-a456-426614174000';
+const STAFF_ID = '523e4567-e89b-12d3-a456-426614174000';
+
+describe('RestoreGiftCardsForOrderUseCase', () => {
+  let orderRepository: InMemoryOrderRepository;
+  let paymentRepository: InMemoryPaymentRepository;
+  let giftCardRepository: InMemoryGiftCardRepository;
+  let gateway: FakePaymentGateway;
+  let restoreGiftCardsForOrderUseCase: RestoreGiftCardsForOrderUseCase;
+  let giftCard: GiftCard;
+
+  beforeEach(async () => {
+    orderRepository = new InMemoryOrderRepository();
+    paymentRepository = new InMemoryPaymentRepository();
+    giftCardRepository = new InMemoryGiftCardRepository();
+    gateway = new FakePaymentGateway();
+    restoreGiftCardsForOrderUseCase = new RestoreGiftCardsForOrderUseCase(
+      orderRepository,
+      paymentRepository,
+      giftCardRepository
+    );
+
+    // Gift card, payments and refunds need ids of their own
+    let nextId = 0;
+    vi.spyOn(crypto, 'randomUUID').mockImplementation(
+      () => `00000000-0000-4000-8000-${String(++nextId).padStart(12, '0')}` as ReturnType<typeof crypto.randomUUID>
+    );
+
+    const order = Order.create({
+      id: ORDER_ID,
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 1)._unsafeUnwrap(),
+      customerId: CUSTOMER_ID,
+      customerInfo: { name: 'John Doe', phone: '+1234567890' },
+      items: [
+        {
+          id: '323e4567-e89b-12d3-a456-426614174000',
+          type: 'PIZZA',
+          pizza: new Pizza('11111111-1111-4111-8111-111111111111', 'MEDIUM', 'THIN'),
+          quantity: 1,
+          unitPrice: Money.create(30, 'USD'),
+          totalPrice: Money.create(30, 'USD'),
+        },
+      ],
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+    await orderRepository.save(order);
+
+    giftCard = GiftCard.issue({
+      id: '623e4567-e89b-12d3-a456-426614174000',
+      code: 'GIFT-CARD-TEST-0001',
+      initialBalance: Money.create(50, 'USD'),
+    })._unsafeUnwrap();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const balance = async () =>
+    (await giftCardRepository.findByCode('GIFT-CARD-TEST-0001'))._unsafeUnwrap().balance.amount;
+
+  // $10 on the gift card, the rest of the $33 on a card
+  const payWithGiftCardAndCard = async () => {
+    giftCard.redeem(Money.create(40, 'USD'), '999e4567-e89b-12d3-a456-426614174000');
+    await giftCardRepository.save(giftCard);
+    await new PayOrderUseCase(orderRepository, paymentRepository, gateway, giftCardRepository).execute({
+      orderId: ORDER_ID,
+      card: { number: FAKE_GATEWAY_TEST_CARDS.SUCCESS, expiryMonth: 12, expiryYear: 2030, cvc: '123' },
+      giftCardCode: 'GIFT-CARD-TEST-0001',
+      requester: { userId: CUSTOMER_ID, role: 'CUSTOMER' },
+    });
+  };
+
+  describe('when the card was only held', () => {
+    beforeEach(async () => {
+      giftCard.redeem(Money.create(20, 'USD'), ORDER_ID);
+      await giftCardRepository.save(giftCard);
+    });
+
+    it('should give a cancelled order\'s gift card payment back', async () => {
+      const result = await restoreGiftCardsForOrderUseCase.execute({ orderId: ORDER_ID });
+
+      expect(result._unsafeUnwrap().transactions).toHaveLength(1);
+      expect(await balance()).toBe(50);
+    });
+
+    it('should not restore twice when the cancellation is processed again', async () => {
+      await restoreGiftCardsForOrderUseCase.execute({ orderId: ORDER_ID });
+      const result = await restoreGiftCardsForOrderUseCase.execute({ orderId: ORDER_ID });
+
+      expect(result._unsafeUnwrap().transactions).toEqual([]);
+      expect(await balance()).toBe(50);
+    });
+  });
+
+  it('should record the gift card share of a paid order as refunded', async () => {
+    await payWithGiftCardAndCard();
+
+    await restoreGiftCardsForOrderUseCase.execute({ orderId: ORDER_ID });
+
+    const order = (await orderRepository.findById(ORDER_ID))._unsafeUnwrap();
+    expect(order.refunds.map(refund => [refund.status, refund.amount.amount])).toEqual([['COMPLETED', 10]]);
+    expect(order.paymentStatus).toBe('PARTIALLY_REFUNDED');
+    expect(await balance()).toBe(10);
+  });
+
+  it('should leave only the card share for a later refund', async () => {
+    await payWithGiftCardAndCard();
+    await restoreGiftCardsForOrderUseCase.execute({ orderId: ORDER_ID });
+
+    const result = await new RefundOrderUseCase(orderRepository, paymentRepository, gateway, giftCardRepository).execute({
+      orderId: ORDER_ID,
+      reason: 'Order cancelled',
+      requester: { userId: STAFF_ID, role: 'STAFF' },
+    });
+
+    expect(result._unsafeUnwrap().refunds.map(refund => refund.amount.amount)).toEqual([23]);
+    expect(result._unsafeUnwrap().order.paymentStatus).toBe('REFUNDED');
+    expect(await balance()).toBe(10);
+  });
+
+  it('should try again when the order changed while the restore was being worked out', async () => {
+    await payWithGiftCardAndCard();
+    const findOrder = orderRepository.findById.bind(orderRepository);
+    vi.spyOn(orderRepository, 'findById').mockImplementationOnce(async id => {
+      const loaded = await findOrder(id);
+      orderRepository.simulateConcurrentSave(id);
+      return loaded;
+    });
+
+    const result = await restoreGiftCardsForOrderUseCase.execute({ orderId: ORDER_ID });
+
+    expect(result._unsafeUnwrap().transactions).toHaveLength(1);
+    const order = (await orderRepository.findById(ORDER_ID))._unsafeUnwrap();
+    expect(order.refunds.map(refund => refund.status)).toEqual(['COMPLETED']);
+    expect(await balance()).toBe(10);
+  });
+});
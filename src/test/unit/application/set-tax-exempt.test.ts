@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SetTaxExemptUseCase } from '@/application/use-cases/users/set-tax-exempt';
+import { User } from '@/domain/user/user';
+import { Ok, Err, ForbiddenError, NotFoundError } from '@/domain/shared/result';
+import type { UserRepository } from '@/infrastructure/database/repositories/user-repository';
+
+const mockUserRepository: UserRepository = {
+  findById: vi.fn(),
+  findByEmail: vi.fn(),
+  save: vi.fn(),
+  existsByEmail: vi.fn(),
+};
+
+const CUSTOMER_ID = '123e4567-e89b-12d3-a456-426614174000';
+const admin = { userId: '223e4567-e89b-12d3-a456-426614174000', role: 'ADMIN' as const, storeIds: [] };
+
+describe('SetTaxExemptUseCase', () => {
+  let setTaxExemptUseCase: SetTaxExemptUseCase;
+  let customer: User;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setTaxExemptUseCase = new SetTaxExemptUseCase(mockUserRepository);
+
+    customer = User.reconstitute({
+      id: CUSTOMER_ID,
+      email: 'school@example.com',
+      passwordHash: 'hash',
+      firstName: 'Pizza',
+      lastName: 'School',
+      phone: '+1234567890',
+      role: 'CUSTOMER',
+      status: 'ACTIVE',
+      emailVerified: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    vi.mocked(mockUserRepository.findById).mockResolvedValue(Ok(customer));
+    vi.mocked(mockUserRepository.save).mockImplementation(async user => Ok(user));
+  });
+
+  it('should mark a customer as tax exempt and clear it again', async () => {
+    const result = await setTaxExemptUseCase.execute({ userId: CUSTOMER_ID, taxExempt: true, requester: admin });
+
+    expect(result._unsafeUnwrap().user.taxExempt).toBe(true);
+    expect(mockUserRepository.save).toHaveBeenCalledWith(customer);
+
+    await setTaxExemptUseCase.execute({ userId: CUSTOMER_ID, taxExempt: false, requester: admin });
+
+    expect(customer.taxExempt).toBe(false);
+  });
+
+  it('should only let admins change tax exemptions', async () => {
+    const result = await setTaxExemptUseCase.execute({
+      userId: CUSTOMER_ID,
+      taxExempt: true,
+      requester: { ...admin, role: 'MANAGER' },
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ForbiddenError);
+    expect(mockUserRepository.save).not.toHaveBeenCalled();
+    expect(customer.taxExempt).toBe(false);
+  });
+
+  it('should report unknown users', async () => {
+    vi.mocked(mockUserRepository.findById).mockResolvedValue(Err(new NotFoundError('User', CUSTOMER_ID)));
+
+    const result = await setTaxExemptUseCase.execute({ userId: CUSTOMER_ID, taxExempt: true, requester: admin });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UpdateInventoryForOrderUseCase } from '@/application/use-cases/inventory/update-inventory-for-order';
+import { Order } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza, PizzaRecipe, Ingredient } from '@/domain/menu/pizza';
+import { MenuVersion } from '@/domain/menu/menu-version';
+import { StockLevel } from '@/domain/inventory/stock-level';
+import { Store } from '@/domain/store/store';
+import type { MenuRepository } from '@/domain/menu/menu-repository';
+import { Money } from '@/domain/shared/money';
+import { Ok } from '@/domain/shared/result';
+import { InMemoryOrderRepository } from '@/test/mocks/in-memory-order-repository';
+import { InMemoryInventoryRepository } from '@/test/mocks/in-memory-inventory-repository';
+import { InMemoryMenuVersionRepository } from '@/test/mocks/in-memory-menu-version-repository';
+import { InMemoryStoreRepository } from '@/test/mocks/in-memory-store-repository';
+
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const RECIPE_ID = '11111111-1111-4111-8111-111111111111';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const SAUCE_ID = '33333333-3333-4333-8333-333333333333';
+const BASIL_ID = '44444444-4444-4444-8444-444444444444';
+
+const mockMenuRepository: MenuRepository = {
+  findAvailableRecipesByIds: vi.fn(),
+  findRecipesByIds: vi.fn(),
+  findAvailableRecipes: vi.fn(),
+  findIngredientsByIds: vi.fn(),
+  saveIngredient: vi.fn(),
+  findAvailableProductsByIds: vi.fn(),
+  findAvailableBundlesByIds: vi.fn(),
+};
+
+const createMargherita = (cheese: number) =>
+  PizzaRecipe.create({
+    id: RECIPE_ID,
+    name: 'Margherita',
+    description: 'Classic pizza',
+    ingredients: new Map([[CHEESE_ID, cheese], [SAUCE_ID, 1]]),
+    basePrice: Money.create(10, 'USD'),
+    preparationTimeMinutes: 15,
+    difficulty: 2,
+  })._unsafeUnwrap();
+
+const createCheese = () =>
+  Ingredient.create({
+    id: CHEESE_ID,
+    name: 'Mozzarella',
+    category: 'CHEESE',
+    pricePerUnit: Money.create(1, 'USD'),
+    isAvailable: true,
+  })._unsafeUnwrap();
+
+const createStore = (unavailableIngredientIds: string[] = []) =>
+  Store.create({
+    id: STORE_ID,
+    name: 'Downtown',
+    address: { street: '1 Main St', city: 'Pizza Town', postalCode: '90210', country: 'US' },
+    timeZone: 'America/Los_Angeles',
+    currency: 'USD',
+    unavailableIngredientIds,
+  })._unsafeUnwrap();
+
+describe('UpdateInventoryForOrderUseCase', () => {
+  let orderRepository: InMemoryOrderRepository;
+  let menuVersionRepository: InMemoryMenuVersionRepository;
+  let inventoryRepository: InMemoryInventoryRepository;
+  let storeRepository: InMemoryStoreRepository;
+  let updateInventoryForOrderUseCase: UpdateInventoryForOrderUseCase;
+  let order: Order;
+
+  // Two large Margheritas with basil: cheese 2 x 1.3 x 2, sauce 1 x 1.3 x 2, basil 0.5 x 1.3 x 2
+  const createOrder = (storeId?: string, recipeVersionIds?: string[]) =>
+    Order.create({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 1)._unsafeUnwrap(),
+      customerInfo: { name: 'John Doe', phone: '+1234567890' },
+      items: [
+        {
+          id: '323e4567-e89b-12d3-a456-426614174000',
+          type: 'PIZZA',
+          pizza: new Pizza(RECIPE_ID, 'LARGE', 'THIN', new Map([[BASIL_ID, 0.5]])),
+          quantity: 2,
+          unitPrice: Money.create(15, 'USD'),
+          totalPrice: Money.create(30, 'USD'),
+          recipeVersionIds,
+        },
+      ],
+      deliveryType: 'PICKUP',
+      taxContext: { storeId },
+    })._unsafeUnwrap();
+
+  const stock = async (ingredientId: string, onHand: number, parLevel: number) => {
+    const level = StockLevel.create({ storeId: STORE_ID, ingredientId, parLevel })._unsafeUnwrap();
+    level.receive(onHand);
+    await inventoryRepository.save([level]);
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    orderRepository = new InMemoryOrderRepository();
+    menuVersionRepository = new InMemoryMenuVersionRepository();
+    inventoryRepository = new InMemoryInventoryRepository();
+    storeRepository = new InMemoryStoreRepository();
+    updateInventoryForOrderUseCase = new UpdateInventoryForOrderUseCase(
+      orderRepository,
+      mockMenuRepository,
+      menuVersionRepository,
+      inventoryRepository,
+      storeRepository
+    );
+
+    vi.mocked(mockMenuRepository.findRecipesByIds).mockResolvedValue(Ok([createMargherita(2)]));
+    vi.mocked(mockMenuRepository.findIngredientsByIds).mockResolvedValue(Ok([createCheese()]));
+    vi.mocked(mockMenuRepository.saveIngredient).mockImplementation(async ingredient => Ok(ingredient));
+
+    // Basil is not tracked in this store
+    await stock(CHEESE_ID, 10, 5);
+    await stock(SAUCE_ID, 100, 0);
+    await storeRepository.save(createStore());
+
+    order = createOrder(STORE_ID);
+    await orderRepository.save(order);
+  });
+
+  it('should reserve recipe quantities scaled by size and quantity when the order is confirmed', async () => {
+    const result = await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CONFIRMED' });
+
+    expect(result._unsafeUnwrap().movements.map(movement => [movement.type, movement.quantity])).toEqual([
+      ['RESERVE', 5.2],
+      ['RESERVE', 2.6],
+    ]);
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)).toMatchObject({ onHand: 10, reserved: 5.2 });
+  });
+
+  it('should use the recipe version the order was sold from rather than the current recipe', async () => {
+    const version = MenuVersion.create({
+      id: '55555555-5555-4555-8555-555555555555',
+      name: 'Spring menu',
+      recipes: [{ recipe: createMargherita(1), isAvailable: true }],
+    })._unsafeUnwrap();
+    await menuVersionRepository.save(version);
+    const soldOrder = createOrder(STORE_ID, [version.recipes[0].id]);
+    orderRepository.clear();
+    await orderRepository.save(soldOrder);
+
+    const result = await updateInventoryForOrderUseCase.execute({ orderId: soldOrder.id, change: 'CONFIRMED' });
+
+    expect(result._unsafeUnwrap().movements.map(movement => [movement.type, movement.quantity])).toEqual([
+      ['RESERVE', 2.6],
+      ['RESERVE', 2.6],
+    ]);
+    expect(mockMenuRepository.findRecipesByIds).not.toHaveBeenCalled();
+  });
+
+  it('should work the change out again when another order moved the stock meanwhile', async () => {
+    const findStockLevels = inventoryRepository.findStockLevels.bind(inventoryRepository);
+    vi.spyOn(inventoryRepository, 'findStockLevels').mockImplementationOnce(async (storeId, ingredientIds) => {
+      const loaded = await findStockLevels(storeId, ingredientIds);
+      const [cheese] = (await findStockLevels(STORE_ID, [CHEESE_ID]))._unsafeUnwrap();
+      cheese.receive(5);
+      await inventoryRepository.save([cheese]);
+      return loaded;
+    });
+
+    const result = await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CONFIRMED' });
+
+    expect(result.isOk()).toBe(true);
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)).toMatchObject({ onHand: 15, reserved: 5.2 });
+  });
+
+  it("should take an ingredient that drops below par off that store's menu only", async () => {
+    const result = await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CONFIRMED' });
+
+    expect(result._unsafeUnwrap().depletedIngredientIds).toEqual([CHEESE_ID]);
+    const store = (await storeRepository.findById(STORE_ID))._unsafeUnwrap();
+    expect(store.isIngredientAvailable(CHEESE_ID)).toBe(false);
+    expect(store.isIngredientAvailable(SAUCE_ID)).toBe(true);
+    expect(mockMenuRepository.saveIngredient).not.toHaveBeenCalled();
+  });
+
+  it('should not reserve twice when the confirmation is processed again', async () => {
+    await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CONFIRMED' });
+    const result = await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CONFIRMED' });
+
+    expect(result._unsafeUnwrap().movements).toEqual([]);
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)?.reserved).toBe(5.2);
+  });
+
+  it('should turn the reservation into consumption when preparation starts', async () => {
+    await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CONFIRMED' });
+    await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'PREPARING' });
+
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)).toMatchObject({ onHand: 4.8, reserved: 0 });
+    expect(inventoryRepository.levelOf(STORE_ID, SAUCE_ID)).toMatchObject({ onHand: 97.4, reserved: 0 });
+  });
+
+  it('should release the reservation when a confirmed order is cancelled', async () => {
+    await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CONFIRMED' });
+    await updateInventoryForOrderUseCase.execute({ orderId: order.id, change: 'CANCELLED' });
+
+    expect(inventoryRepository.levelOf(STORE_ID, CHEESE_ID)).toMatchObject({ onHand: 10, reserved: 0 });
+  });
+
+  it('should leave stock alone for orders without a store', async () => {
+    const storeless = createOrder();
+    orderRepository.clear();
+    await orderRepository.save(storeless);
+
+    const result = await updateInventoryForOrderUseCase.execute({ orderId: storeless.id, change: 'CONFIRMED' });
+
+    expect(result._unsafeUnwrap().movements).toEqual([]);
+    expect(mockMenuRepository.findRecipesByIds).not.toHaveBeenCalled();
+  });
+});
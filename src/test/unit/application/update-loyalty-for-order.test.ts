@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UpdateLoyaltyForOrderUseCase } from '@/application/use-cases/loyalty/update-loyalty-for-order';
+import { Order } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza } from '@/domain/menu/pizza';
+import { LoyaltyProgram } from '@/domain/loyalty/loyalty';
+import { Money } from '@/domain/shared/money';
+import { InMemoryOrderRepository } from '@/test/mocks/in-memory-order-repository';
+import { InMemoryLoyaltyRepository } from '@/test/mocks/in-memory-loyalty-repository';
+
+const CUSTOMER_ID = '223e4567-e89b-12d3-a456-426614174000';
+const REFUND_ID = '423e4567-e89b-12d3-a456-426614174000';
+
+describe('UpdateLoyaltyForOrderUseCase', () => {
+  let orderRepository: InMemoryOrderRepository;
+  let loyaltyRepository: InMemoryLoyaltyRepository;
+  let updateLoyaltyForOrderUseCase: UpdateLoyaltyForOrderUseCase;
+  let order: Order;
+  const program = new LoyaltyProgram();
+
+  const createOrder = (customerId?: string) =>
+    Order.create({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 1)._unsafeUnwrap(),
+      customerId,
+      customerInfo: { name: 'John Doe', phone: '+1234567890' },
+      items: [
+        {
+          id: '323e4567-e89b-12d3-a456-426614174000',
+          type: 'PIZZA',
+          pizza: new Pizza('11111111-1111-4111-8111-111111111111', 'MEDIUM', 'THIN'),
+          quantity: 1,
+          unitPrice: Money.create(30, 'USD'),
+          totalPrice: Money.create(30, 'USD'),
+        },
+      ],
+      deliveryType: 'PICKUP',
+    })._unsafeUnwrap();
+
+  beforeEach(async () => {
+    orderRepository = new InMemoryOrderRepository();
+    loyaltyRepository = new InMemoryLoyaltyRepository();
+    updateLoyaltyForOrderUseCase = new UpdateLoyaltyForOrderUseCase(orderRepository, loyaltyRepository, program);
+
+    order = createOrder(CUSTOMER_ID);
+    await orderRepository.save(order);
+  });
+
+  const balance = () => program.balance(loyaltyRepository.getAll());
+
+  it('should earn points on what the customer paid once the order is delivered', async () => {
+    const result = await updateLoyaltyForOrderUseCase.execute({ orderId: order.id, change: { kind: 'DELIVERED' } });
+
+    expect(result.isOk()).toBe(true);
+    // 30 USD plus 10% sales tax
+    expect(balance()).toBe(33);
+    expect(loyaltyRepository.getAll()[0]).toMatchObject({ type: 'EARN', customerId: CUSTOMER_ID });
+  });
+
+  it('should not earn twice when the same delivery is processed again', async () => {
+    await updateLoyaltyForOrderUseCase.execute({ orderId: order.id, change: { kind: 'DELIVERED' } });
+    await updateLoyaltyForOrderUseCase.execute({ orderId: order.id, change: { kind: 'DELIVERED' } });
+
+    expect(balance()).toBe(33);
+  });
+
+  it('should take back points in proportion to a partial refund', async () => {
+    await updateLoyaltyForOrderUseCase.execute({ orderId: order.id, change: { kind: 'DELIVERED' } });
+
+    await updateLoyaltyForOrderUseCase.execute({
+      orderId: order.id,
+      change: { kind: 'REFUNDED', refundId: REFUND_ID, amount: Money.create(11, 'USD'), fullyRefunded: false },
+    });
+
+    expect(balance()).toBe(22);
+  });
+
+  it('should reverse earned points and restore redeemed ones when the order is cancelled', async () => {
+    await updateLoyaltyForOrderUseCase.execute({ orderId: order.id, change: { kind: 'DELIVERED' } });
+    await loyaltyRepository.redeem({
+      id: '523e4567-e89b-12d3-a456-426614174000',
+      customerId: CUSTOMER_ID,
+      orderId: order.id,
+      type: 'REDEEM',
+      points: -20,
+      reference: order.id,
+      description: 'Redeemed',
+      createdAt: new Date(),
+    });
+
+    await updateLoyaltyForOrderUseCase.execute({ orderId: order.id, change: { kind: 'CANCELLED' } });
+
+    expect(balance()).toBe(0);
+    expect(loyaltyRepository.getAll().map(entry => entry.type)).toEqual([
+      'EARN',
+      'REDEEM',
+      'REVERSE_EARN',
+      'RESTORE_REDEEM',
+    ]);
+  });
+
+  it('should ignore guest orders', async () => {
+    const guestOrder = createOrder();
+    orderRepository.clear();
+    await orderRepository.save(guestOrder);
+
+    const result = await updateLoyaltyForOrderUseCase.execute({ orderId: guestOrder.id, change: { kind: 'DELIVERED' } });
+
+    expect(result._unsafeUnwrap().entries).toEqual([]);
+    expect(loyaltyRepository.getAll()).toEqual([]);
+  });
+});
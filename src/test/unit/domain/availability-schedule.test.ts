@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AvailabilityScheduleSchema,
+  isAvailableAt,
+  type AvailabilitySchedule,
+} from '@/domain/menu/availability-schedule';
+
+// 2026-10-19 is a Monday
+const at = (iso: string) => new Date(iso);
+
+describe('Availability schedules', () => {
+  const lunch: AvailabilitySchedule = {
+    windows: [{ days: ['MON', 'TUE', 'WED', 'THU', 'FRI'], from: '11:00', until: '14:30' }],
+  };
+
+  it('should keep unscheduled items on sale all the time', () => {
+    expect(isAvailableAt(null, at('2026-10-19T03:00:00Z'), 'UTC')).toBe(true);
+    expect(isAvailableAt({ windows: [] }, at('2026-10-25T23:59:00Z'), 'UTC')).toBe(true);
+  });
+
+  it('should limit items to their windows, including the start and excluding the end', () => {
+    expect(isAvailableAt(lunch, at('2026-10-19T11:00:00Z'), 'UTC')).toBe(true);
+    expect(isAvailableAt(lunch, at('2026-10-19T14:29:00Z'), 'UTC')).toBe(true);
+    expect(isAvailableAt(lunch, at('2026-10-19T14:30:00Z'), 'UTC')).toBe(false);
+    expect(isAvailableAt(lunch, at('2026-10-19T10:59:00Z'), 'UTC')).toBe(false);
+    // Saturday
+    expect(isAvailableAt(lunch, at('2026-10-24T12:00:00Z'), 'UTC')).toBe(false);
+  });
+
+  it('should read the window in the store time zone', () => {
+    // 12:00 UTC is 08:00 in New York and 21:00 in Tokyo
+    expect(isAvailableAt(lunch, at('2026-10-19T12:00:00Z'), 'America/New_York')).toBe(false);
+    expect(isAvailableAt(lunch, at('2026-10-19T16:00:00Z'), 'America/New_York')).toBe(true);
+    // 02:30 UTC is Monday 11:30 in Tokyo
+    expect(isAvailableAt(lunch, at('2026-10-19T02:30:00Z'), 'Asia/Tokyo')).toBe(true);
+  });
+
+  it('should carry overnight windows into the next day', () => {
+    const lateNight: AvailabilitySchedule = { windows: [{ days: ['FRI', 'SAT'], from: '22:00', until: '02:00' }] };
+
+    expect(isAvailableAt(lateNight, at('2026-10-23T23:00:00Z'), 'UTC')).toBe(true);
+    // Saturday 01:00 is still Friday night
+    expect(isAvailableAt(lateNight, at('2026-10-24T01:00:00Z'), 'UTC')).toBe(true);
+    expect(isAvailableAt(lateNight, at('2026-10-24T02:00:00Z'), 'UTC')).toBe(false);
+    // Friday 01:00 belongs to Thursday night
+    expect(isAvailableAt(lateNight, at('2026-10-23T01:00:00Z'), 'UTC')).toBe(false);
+    // Monday 01:00 belongs to Sunday night, which is not covered
+    expect(isAvailableAt(lateNight, at('2026-10-26T01:00:00Z'), 'UTC')).toBe(false);
+  });
+
+  it('should only sell between the start and end dates of the store calendar', () => {
+    const october: AvailabilitySchedule = { windows: [], startDate: '2026-10-01', endDate: '2026-10-31' };
+
+    expect(isAvailableAt(october, at('2026-10-31T23:30:00Z'), 'UTC')).toBe(true);
+    expect(isAvailableAt(october, at('2026-11-01T00:00:00Z'), 'UTC')).toBe(false);
+    // Already November 1st in Berlin
+    expect(isAvailableAt(october, at('2026-10-31T23:30:00Z'), 'Europe/Berlin')).toBe(false);
+    expect(isAvailableAt(october, at('2026-09-30T12:00:00Z'), 'UTC')).toBe(false);
+  });
+
+  it('should reject malformed schedules', () => {
+    expect(AvailabilityScheduleSchema.safeParse({ windows: [{ days: ['MON'], from: '25:00', until: '14:00' }] }).success).toBe(false);
+    expect(AvailabilityScheduleSchema.safeParse({ windows: [{ days: [], from: '11:00', until: '14:00' }] }).success).toBe(false);
+    expect(AvailabilityScheduleSchema.safeParse({ windows: [{ days: ['MON'], from: '11:00', until: '11:00' }] }).success).toBe(false);
+    expect(AvailabilityScheduleSchema.safeParse({ startDate: '2026-11-01', endDate: '2026-10-01' }).success).toBe(false);
+    expect(AvailabilityScheduleSchema.parse({ startDate: '2026-10-01' }).windows).toEqual([]);
+  });
+});
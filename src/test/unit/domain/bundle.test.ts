@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Bundle } from '@/domain/menu/bundle';
+import { Money } from '@/domain/shared/money';
+import { ValidationError } from '@/domain/shared/result';
+
+const MARGHERITA_ID = '11111111-1111-4111-8111-111111111111';
+const PEPPERONI_ID = '88888888-8888-4888-8888-888888888888';
+const COLA_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const BROWNIE_ID = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd';
+
+const createBundle = () =>
+  Bundle.create({
+    id: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+    name: 'Margherita and a drink',
+    price: Money.create(12.5, 'USD'),
+    choiceGroups: [
+      { id: 'pizza', name: 'Pizza', kind: 'PIZZA', quantity: 1, pizzaSize: 'MEDIUM', eligibleIds: [MARGHERITA_ID] },
+      { id: 'drink', name: 'Drink', kind: 'PRODUCT', quantity: 1, productCategory: 'DRINK', eligibleIds: [] },
+    ],
+  });
+
+describe('Bundle', () => {
+  it('should require a size on pizza groups and unique group ids', () => {
+    const pizzaGroup = { id: 'pizza', name: 'Pizza', kind: 'PIZZA' as const, quantity: 1, eligibleIds: [] };
+
+    const withoutSize = Bundle.create({
+      id: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+      name: 'Deal',
+      price: Money.create(10, 'USD'),
+      choiceGroups: [pizzaGroup],
+    });
+    const duplicated = Bundle.create({
+      id: 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+      name: 'Deal',
+      price: Money.create(10, 'USD'),
+      choiceGroups: [{ ...pizzaGroup, pizzaSize: 'LARGE' }, { ...pizzaGroup, pizzaSize: 'SMALL' }],
+    });
+
+    expect(withoutSize._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+    expect(duplicated.isErr()).toBe(true);
+  });
+
+  it('should accept one eligible pick per group', () => {
+    const bundle = createBundle()._unsafeUnwrap();
+
+    const result = bundle.checkPicks([
+      { groupId: 'pizza', kind: 'PIZZA', id: MARGHERITA_ID },
+      { groupId: 'drink', kind: 'PRODUCT', id: COLA_ID, productCategory: 'DRINK' },
+    ]);
+
+    expect(result.isOk()).toBe(true);
+  });
+
+  it('should reject ineligible recipes, wrong categories and missing picks', () => {
+    const bundle = createBundle()._unsafeUnwrap();
+    const drink = { groupId: 'drink', kind: 'PRODUCT' as const, id: COLA_ID, productCategory: 'DRINK' as const };
+
+    expect(bundle.checkPicks([{ groupId: 'pizza', kind: 'PIZZA', id: PEPPERONI_ID }, drink]).isErr()).toBe(true);
+    expect(bundle.checkPicks([
+      { groupId: 'pizza', kind: 'PIZZA', id: MARGHERITA_ID },
+      { groupId: 'drink', kind: 'PRODUCT', id: BROWNIE_ID, productCategory: 'DESSERT' },
+    ]).isErr()).toBe(true);
+    expect(bundle.checkPicks([drink]).isErr()).toBe(true);
+  });
+
+  it('should split its price by list price without losing a cent', () => {
+    const bundle = createBundle()._unsafeUnwrap();
+
+    const shares = bundle.allocatePrice([Money.create(10, 'USD'), Money.create(2.5, 'USD')].map(price => price.multiply(1.1)));
+
+    expect(shares.map(share => share.minorUnits)).toEqual([1000, 250]);
+    expect(shares.reduce((total, share) => total.add(share), Money.zero('USD')).amount).toBe(12.5);
+  });
+});
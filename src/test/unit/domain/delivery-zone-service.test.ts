@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { DeliveryZoneService } from '@/domain/delivery/delivery-zone-service';
+import type { DeliveryZone } from '@/domain/delivery/delivery-zone';
+import type { Address } from '@/domain/order/order';
+import { Money } from '@/domain/shared/money';
+import { Ok, BusinessRuleViolationError } from '@/domain/shared/result';
+import { LookupTableGeocoder } from '@/infrastructure/geocoding/lookup-table-geocoder';
+import { StaticExchangeRateProvider } from '@/infrastructure/exchange-rates/static-exchange-rate-provider';
+
+const DOWNTOWN_ID = '11111111-1111-4111-8111-111111111111';
+const SUBURBS_ID = '22222222-2222-4222-8222-222222222222';
+const MIDTOWN_STORE_ID = '33333333-3333-4333-8333-333333333333';
+const BROOKLYN_STORE_ID = '44444444-4444-4444-8444-444444444444';
+
+describe('DeliveryZoneService', () => {
+  const downtown: DeliveryZone = {
+    id: DOWNTOWN_ID,
+    name: 'Downtown',
+    area: { type: 'POSTAL_CODES', country: 'US', postalCodes: ['10001', '10002'] },
+    fee: Money.create(3, 'USD'),
+    feePerKm: null,
+    origin: null,
+    minimumOrder: Money.create(15, 'USD'),
+    maxEtaMinutes: 30,
+  };
+
+  // A box around the store, charged by distance from it
+  const suburbs: DeliveryZone = {
+    id: SUBURBS_ID,
+    name: 'Suburbs',
+    area: {
+      type: 'POLYGON',
+      points: [
+        { latitude: 40.6, longitude: -74.1 },
+        { latitude: 40.6, longitude: -73.8 },
+        { latitude: 40.9, longitude: -73.8 },
+        { latitude: 40.9, longitude: -74.1 },
+      ],
+    },
+    fee: Money.create(4, 'USD'),
+    feePerKm: Money.create(0.5, 'USD'),
+    origin: { latitude: 40.75, longitude: -73.99 },
+    minimumOrder: Money.create(20, 'USD'),
+    maxEtaMinutes: 50,
+  };
+
+  const geocoder = new LookupTableGeocoder({
+    'US:10001': { latitude: 40.75, longitude: -73.99 },
+    'US:11201': { latitude: 40.69, longitude: -73.99 },
+    'US:07030': { latitude: 40.74, longitude: -74.2 },
+  });
+
+  const service = (zones: DeliveryZone[]) =>
+    new DeliveryZoneService({ findActive: async () => Ok(zones) }, geocoder, new StaticExchangeRateProvider());
+
+  const address = (postalCode: string): Address => ({
+    street: '1 Main St',
+    city: 'New York',
+    postalCode,
+    country: 'US',
+  });
+
+  it('should quote a postal code zone', async () => {
+    const quote = (await service([downtown]).quote(address('10002'), Money.create(20, 'USD')))._unsafeUnwrap();
+
+    expect(quote.zoneId).toBe(DOWNTOWN_ID);
+    expect(quote.fee.amount).toBe(3);
+    expect(quote.maxEtaMinutes).toBe(30);
+  });
+
+  it('should add a distance fee inside a polygon zone', async () => {
+    const quote = (await service([suburbs]).quote(address('11201'), Money.create(25, 'USD')))._unsafeUnwrap();
+
+    expect(quote.zoneId).toBe(SUBURBS_ID);
+    // About 6.7 km from the store at $0.50 per km
+    expect(quote.distanceKm).toBeCloseTo(6.67, 1);
+    expect(quote.fee.amount).toBe(7.34);
+  });
+
+  it('should pick the cheapest zone covering the address', async () => {
+    const quote = (await service([suburbs, downtown]).quote(address('10001'), Money.create(25, 'USD')))._unsafeUnwrap();
+
+    expect(quote.zoneId).toBe(DOWNTOWN_ID);
+  });
+
+  it('should convert the fee into the order currency', async () => {
+    const quote = (await service([downtown]).quote(address('10001'), Money.create(20, 'EUR')))._unsafeUnwrap();
+
+    expect(quote.fee.currency).toBe('EUR');
+    expect(quote.fee.amount).toBe(2.76);
+  });
+
+  it('should reject addresses outside every zone', async () => {
+    const result = await service([downtown, suburbs]).quote(address('07030'), Money.create(25, 'USD'));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBeInstanceOf(BusinessRuleViolationError);
+    }
+  });
+
+  it('should enforce the zone minimum order', async () => {
+    const result = await service([downtown]).quote(address('10001'), Money.create(10, 'USD'));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.message).toContain('Minimum order');
+    }
+  });
+
+  it("should only quote a store's own zones and zones shared by every store", async () => {
+    const zones = [{ ...downtown, storeId: MIDTOWN_STORE_ID }, { ...suburbs, storeId: BROOKLYN_STORE_ID }];
+
+    const brooklyn = (await service(zones).quote(address('10001'), Money.create(25, 'USD'), BROOKLYN_STORE_ID))._unsafeUnwrap();
+    const shared = await service([downtown]).quote(address('10001'), Money.create(25, 'USD'), BROOKLYN_STORE_ID);
+    const outside = await service(zones.slice(0, 1)).quote(address('10001'), Money.create(25, 'USD'), BROOKLYN_STORE_ID);
+
+    expect(brooklyn.zoneId).toBe(SUBURBS_ID);
+    expect(shared.isOk()).toBe(true);
+    expect(outside._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+  });
+
+  it('should assign an address to the store that delivers there fastest', async () => {
+    const zones = [{ ...suburbs, storeId: BROOKLYN_STORE_ID }, { ...downtown, storeId: MIDTOWN_STORE_ID }];
+
+    expect((await service(zones).storeFor(address('10001')))._unsafeUnwrap()).toBe(MIDTOWN_STORE_ID);
+    expect((await service(zones).storeFor(address('11201')))._unsafeUnwrap()).toBe(BROOKLYN_STORE_ID);
+    // Shared zones do not pick a store
+    expect((await service([downtown]).storeFor(address('10001')))._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+  });
+});
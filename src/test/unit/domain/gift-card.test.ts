@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { GiftCard, normalizeGiftCardCode } from '@/domain/gift-card/gift-card';
+import { Money } from '@/domain/shared/money';
+import { ValidationError } from '@/domain/shared/result';
+
+const ORDER_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const issue = (overrides: { amount?: number; expiresAt?: Date } = {}) =>
+  GiftCard.issue(
+    {
+      id: '623e4567-e89b-12d3-a456-426614174000',
+      code: 'abcd-efgh-jkmn-pqrs',
+      initialBalance: Money.create(overrides.amount ?? 50, 'USD'),
+      expiresAt: overrides.expiresAt,
+    },
+    new Date('2026-10-19T00:00:00Z')
+  );
+
+describe('GiftCard', () => {
+  it('should issue with the full balance and an ISSUE transaction', () => {
+    const giftCard = issue()._unsafeUnwrap();
+
+    expect(giftCard.code).toBe('ABCDEFGHJKMNPQRS');
+    expect(giftCard.balance.amount).toBe(50);
+    expect(giftCard.transactions.map(transaction => transaction.type)).toEqual(['ISSUE']);
+  });
+
+  it('should reject an empty balance or an expiry in the past', () => {
+    expect(issue({ amount: 0 })._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+    expect(issue({ expiresAt: new Date('2026-01-01T00:00:00Z') }).isErr()).toBe(true);
+  });
+
+  it('should redeem part of the balance', () => {
+    const giftCard = issue()._unsafeUnwrap();
+
+    const result = giftCard.redeem(Money.create(20, 'USD'), ORDER_ID);
+
+    expect(result.isOk()).toBe(true);
+    expect(giftCard.balance.amount).toBe(30);
+    expect(giftCard.redeemedFor(ORDER_ID).amount).toBe(20);
+  });
+
+  it('should refuse to redeem more than the balance, another currency, or after expiry', () => {
+    const giftCard = issue({ expiresAt: new Date('2027-01-01T00:00:00Z') })._unsafeUnwrap();
+
+    expect(giftCard.redeem(Money.create(60, 'USD'), ORDER_ID).isErr()).toBe(true);
+    expect(giftCard.redeem(Money.create(10, 'EUR'), ORDER_ID).isErr()).toBe(true);
+    expect(giftCard.redeem(Money.create(10, 'USD'), ORDER_ID, new Date('2027-02-01T00:00:00Z')).isErr()).toBe(true);
+    expect(giftCard.balance.amount).toBe(50);
+  });
+
+  it('should restore what an order took only once', () => {
+    const giftCard = issue()._unsafeUnwrap();
+    giftCard.redeem(Money.create(20, 'USD'), ORDER_ID);
+
+    expect(giftCard.restore(ORDER_ID)?.amount.amount).toBe(20);
+    expect(giftCard.restore(ORDER_ID)).toBeNull();
+    expect(giftCard.balance.amount).toBe(50);
+  });
+
+  it('should restore part of what an order took for a partial refund', () => {
+    const giftCard = issue()._unsafeUnwrap();
+    giftCard.redeem(Money.create(20, 'USD'), ORDER_ID);
+
+    expect(giftCard.restore(ORDER_ID, Money.create(5, 'USD'))?.amount.amount).toBe(5);
+    expect(giftCard.restore(ORDER_ID, Money.create(100, 'USD'))?.amount.amount).toBe(15);
+    expect(giftCard.balance.amount).toBe(50);
+  });
+
+  it('should write off the remaining balance when voided', () => {
+    const giftCard = issue()._unsafeUnwrap();
+
+    expect(giftCard.void().isOk()).toBe(true);
+    expect(giftCard.status).toBe('VOIDED');
+    expect(giftCard.balance.isZero()).toBe(true);
+    expect(giftCard.redeem(Money.create(1, 'USD'), ORDER_ID).isErr()).toBe(true);
+    expect(giftCard.void().isErr()).toBe(true);
+  });
+
+  it('should compare codes without separators or case', () => {
+    expect(normalizeGiftCardCode(' abcd-efgh jkmn ')).toBe('ABCDEFGHJKMN');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { LoyaltyProgram, type LoyaltyLedgerEntry } from '@/domain/loyalty/loyalty';
+import { Money } from '@/domain/shared/money';
+
+const entry = (overrides: Partial<LoyaltyLedgerEntry>): LoyaltyLedgerEntry => ({
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  customerId: '223e4567-e89b-12d3-a456-426614174000',
+  orderId: '323e4567-e89b-12d3-a456-426614174000',
+  type: 'EARN',
+  points: 0,
+  reference: '323e4567-e89b-12d3-a456-426614174000',
+  description: 'Order delivered',
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('LoyaltyProgram', () => {
+  const program = new LoyaltyProgram({
+    earnRates: { USD: 1, EUR: 1, RUB: 0.01 },
+    pointValues: { USD: 1, EUR: 1, RUB: 100 },
+    vipThreshold: 100,
+    tierWindowMonths: 12,
+  });
+  const now = new Date('2026-10-19T00:00:00Z');
+
+  it('should earn whole points per major unit paid', () => {
+    expect(program.pointsFor(Money.create(24.99, 'USD'))).toBe(24);
+    expect(program.pointsFor(Money.create(1250, 'RUB'))).toBe(12);
+  });
+
+  it('should value points in the checkout currency', () => {
+    expect(program.valueOf(150, 'USD').amount).toBe(1.5);
+    expect(program.valueOf(3, 'RUB').amount).toBe(3);
+  });
+
+  it('should sum every entry into the spendable balance', () => {
+    const entries = [
+      entry({ points: 80 }),
+      entry({ type: 'REDEEM', points: -50 }),
+      entry({ type: 'REVERSE_EARN', points: -10 }),
+      entry({ type: 'RESTORE_REDEEM', points: 50 }),
+    ];
+
+    expect(program.balance(entries)).toBe(70);
+  });
+
+  it('should reach VIP from points earned within the window, ignoring redemptions', () => {
+    const entries = [entry({ points: 120 }), entry({ type: 'REDEEM', points: -120 })];
+
+    expect(program.tierFor(entries, now)).toBe('VIP');
+  });
+
+  it('should not count points earned before the window or reversed later', () => {
+    const entries = [
+      entry({ points: 90, createdAt: new Date('2025-09-01T00:00:00Z') }),
+      entry({ points: 60 }),
+      entry({ type: 'REVERSE_EARN', points: -20 }),
+    ];
+
+    expect(program.qualifyingPoints(entries, now)).toBe(40);
+    expect(program.tierFor(entries, now)).toBe('REGULAR');
+  });
+});
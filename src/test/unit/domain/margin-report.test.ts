@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { FoodCostCalculator } from '@/domain/reporting/food-cost';
+import { buildMarginReport } from '@/domain/reporting/margin-report';
+import { Ingredient, Pizza, PizzaRecipe, type IngredientCategory } from '@/domain/menu/pizza';
+import { Order, type OrderItem } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Money } from '@/domain/shared/money';
+
+const MARGHERITA_ID = '11111111-1111-4111-8111-111111111111';
+const PEPPERONI_RECIPE_ID = '88888888-8888-4888-8888-888888888888';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const SAUCE_ID = '33333333-3333-4333-8333-333333333333';
+const PEPPERONI_ID = '44444444-4444-4444-8444-444444444444';
+const BASIL_ID = '55555555-5555-4555-8555-555555555555';
+const COLA_ID = '66666666-6666-4666-8666-666666666666';
+
+const createIngredient = (id: string, category: IngredientCategory, cost: number | null) =>
+  Ingredient.create({
+    id,
+    name: id,
+    category,
+    pricePerUnit: Money.create(1, 'USD'),
+    costPerUnit: cost === null ? null : Money.create(cost, 'USD'),
+    isAvailable: true,
+  })._unsafeUnwrap();
+
+const createRecipe = (id: string, name: string, basePrice: number, ingredients: [string, number][]) =>
+  PizzaRecipe.create({
+    id,
+    name,
+    description: name,
+    ingredients: new Map(ingredients),
+    basePrice: Money.create(basePrice, 'USD'),
+    preparationTimeMinutes: 15,
+    difficulty: 2,
+  })._unsafeUnwrap();
+
+// Margherita costs 2 x 1.50 + 0.50 = 3.50 a medium; pepperoni 2 x 1.50 + 3 x 2.50 = 10.50
+const margherita = createRecipe(MARGHERITA_ID, 'Margherita', 10, [[CHEESE_ID, 2], [SAUCE_ID, 1]]);
+const pepperoni = createRecipe(PEPPERONI_RECIPE_ID, 'Pepperoni', 9, [[CHEESE_ID, 2], [PEPPERONI_ID, 3]]);
+const recipes = new Map([[MARGHERITA_ID, margherita], [PEPPERONI_RECIPE_ID, pepperoni]]);
+
+const calculator = new FoodCostCalculator(new Map([
+  [CHEESE_ID, createIngredient(CHEESE_ID, 'CHEESE', 1.5)],
+  [SAUCE_ID, createIngredient(SAUCE_ID, 'SAUCE', 0.5)],
+  [PEPPERONI_ID, createIngredient(PEPPERONI_ID, 'MEAT', 2.5)],
+  [BASIL_ID, createIngredient(BASIL_ID, 'SPICES', null)],
+]));
+
+const pizzaItem = (pizza: Pizza, quantity: number, unitPrice: number): OrderItem => ({
+  id: crypto.randomUUID(),
+  type: 'PIZZA',
+  pizza,
+  quantity,
+  unitPrice: Money.create(unitPrice, 'USD'),
+  totalPrice: Money.create(unitPrice * quantity, 'USD'),
+});
+
+const createOrder = (placedAt: string, sequence: number, items: OrderItem[]) => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(placedAt));
+  return Order.create({
+    id: crypto.randomUUID(),
+    orderNumber: OrderNumber.create('DP', new Date(placedAt), sequence)._unsafeUnwrap(),
+    customerInfo: { name: 'John Doe', phone: '+1234567890' },
+    items,
+    deliveryType: 'PICKUP',
+  })._unsafeUnwrap();
+};
+
+describe('FoodCostCalculator', () => {
+  it('should cost a recipe by size from ingredient cost prices', () => {
+    expect(calculator.recipeCost(margherita, 'MEDIUM').cost.amount).toBe(3.5);
+    expect(calculator.recipeCost(margherita, 'LARGE').cost.amount).toBe(4.55);
+  });
+
+  it('should list ingredients that have no cost price', () => {
+    const basil = createRecipe(MARGHERITA_ID, 'Basil', 10, [[CHEESE_ID, 2], [BASIL_ID, 1]]);
+
+    const foodCost = calculator.recipeCost(basil, 'MEDIUM');
+
+    expect(foodCost.cost.amount).toBe(3);
+    expect(foodCost.uncostedIngredientIds).toEqual([BASIL_ID]);
+  });
+
+  it('should show menu items that sell below their food cost', () => {
+    const menuCosts = calculator.menuCosts([pepperoni]);
+    const medium = menuCosts.find(item => item.size === 'MEDIUM')!;
+
+    expect(menuCosts).toHaveLength(4);
+    expect(medium.price.amount).toBe(9);
+    expect(medium.foodCost.amount).toBe(10.5);
+    expect(medium.marginMinorUnits).toBe(-150);
+  });
+});
+
+describe('buildMarginReport', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report margins by recipe, order and day', () => {
+    const plain = createOrder('2026-10-18T18:00:00Z', 1, [
+      pizzaItem(new Pizza(MARGHERITA_ID, 'MEDIUM', 'THIN'), 1, 10),
+    ]);
+    const halfAndHalf = Pizza.create({
+      size: 'MEDIUM',
+      crust: 'THIN',
+      sections: [
+        { position: 'LEFT', recipeId: MARGHERITA_ID },
+        { position: 'RIGHT', recipeId: PEPPERONI_RECIPE_ID },
+      ],
+    })._unsafeUnwrap();
+    const split = createOrder('2026-10-19T18:00:00Z', 2, [pizzaItem(halfAndHalf, 2, 10)]);
+
+    const report = buildMarginReport([plain, split], recipes, calculator, 'USD');
+
+    // Margherita: 10.00 + 10.00 revenue, 3.50 + 3.50 cost; pepperoni: 10.00 revenue, 10.50 cost
+    expect(report.totals).toMatchObject({ marginMinorUnits: 1250, profitMargin: 0.4167, isComplete: true });
+    expect(report.byRecipe.map(recipe => [recipe.recipeName, recipe.pizzasSold, recipe.marginMinorUnits])).toEqual([
+      ['Pepperoni', 1, -50],
+      ['Margherita', 2, 1300],
+    ]);
+    expect(report.byOrder.map(order => order.marginMinorUnits)).toEqual([650, 600]);
+    expect(report.byDay.map(day => [day.date, day.orderCount, day.revenue.amount])).toEqual([
+      ['2026-10-18', 1, 10],
+      ['2026-10-19', 1, 20],
+    ]);
+  });
+
+  it('should take item discounts off revenue and flag uncosted products', () => {
+    const order = Order.create({
+      id: crypto.randomUUID(),
+      orderNumber: OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 3)._unsafeUnwrap(),
+      customerInfo: { name: 'John Doe', phone: '+1234567890' },
+      items: [
+        pizzaItem(new Pizza(MARGHERITA_ID, 'MEDIUM', 'THIN'), 1, 10),
+        {
+          id: '723e4567-e89b-12d3-a456-426614174000',
+          type: 'PRODUCT',
+          product: { productId: COLA_ID, name: 'Cola', category: 'DRINK' },
+          quantity: 1,
+          unitPrice: Money.create(2, 'USD'),
+          totalPrice: Money.create(2, 'USD'),
+        },
+      ],
+      deliveryType: 'PICKUP',
+      discounts: [{
+        promotionId: null,
+        code: 'TEN',
+        description: '10% off',
+        appliesTo: 'ITEMS',
+        amount: Money.create(1.2, 'USD'),
+      }],
+    })._unsafeUnwrap();
+
+    const report = buildMarginReport([order], recipes, calculator, 'USD');
+
+    expect(report.totals.revenue.amount).toBe(10.8);
+    expect(report.totals.foodCost.amount).toBe(3.5);
+    expect(report.totals.isComplete).toBe(false);
+    expect(report.byRecipe[0]).toMatchObject({ recipeName: 'Margherita', isComplete: true });
+    expect(report.byRecipe[0].revenue.amount).toBe(9);
+  });
+});
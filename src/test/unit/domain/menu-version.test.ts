@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { MenuVersion, diffMenuVersions } from '@/domain/menu/menu-version';
+import { PizzaRecipe } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+import { BusinessRuleViolationError, NotFoundError } from '@/domain/shared/result';
+
+const LIVE_ID = '123e4567-e89b-12d3-a456-426614174000';
+const DRAFT_ID = '223e4567-e89b-12d3-a456-426614174000';
+const MARGHERITA_ID = '11111111-1111-4111-8111-111111111111';
+const PEPPERONI_RECIPE_ID = '88888888-8888-4888-8888-888888888888';
+const FUNGHI_ID = '77777777-7777-4777-8777-777777777777';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const SAUCE_ID = '33333333-3333-4333-8333-333333333333';
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const createRecipe = (id: string, name: string, basePrice: number, cheese: number = 1) =>
+  PizzaRecipe.create({
+    id,
+    name,
+    description: name,
+    ingredients: new Map([[CHEESE_ID, cheese], [SAUCE_ID, 1]]),
+    basePrice: Money.create(basePrice, 'USD'),
+    preparationTimeMinutes: 15,
+    difficulty: 2,
+  })._unsafeUnwrap();
+
+const createDraft = (id: string = DRAFT_ID) =>
+  MenuVersion.create({
+    id,
+    name: 'Autumn menu',
+    recipes: [
+      { recipe: createRecipe(MARGHERITA_ID, 'Margherita', 10), isAvailable: true },
+      { recipe: createRecipe(PEPPERONI_RECIPE_ID, 'Pepperoni', 12), isAvailable: true },
+    ],
+  })._unsafeUnwrap();
+
+describe('MenuVersion', () => {
+  it('should only be edited as a draft', () => {
+    const version = createDraft();
+    version.schedule(new Date('2026-10-20T06:00:00Z'));
+
+    const result = version.putRecipe(createRecipe(FUNGHI_ID, 'Funghi', 11));
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+    expect(version.recipes).toHaveLength(2);
+  });
+
+  it('should replace its copy of a recipe it already has', () => {
+    const version = createDraft();
+
+    version.putRecipe(createRecipe(MARGHERITA_ID, 'Margherita', 11), false);
+
+    expect(version.recipes).toHaveLength(2);
+    expect(version.availableRecipes().map(recipe => recipe.id)).toEqual([PEPPERONI_RECIPE_ID]);
+  });
+
+  it('should report removing a recipe it does not have', () => {
+    const result = createDraft().removeRecipe(FUNGHI_ID);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should not be scheduled without an available recipe', () => {
+    const version = MenuVersion.create({ id: DRAFT_ID, name: 'Empty' })._unsafeUnwrap();
+
+    expect(version.schedule(NOW)._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+  });
+
+  it('should be published only once its publish time has come', () => {
+    const version = createDraft();
+    version.schedule(new Date('2026-10-20T06:00:00Z'));
+
+    expect(version.publish(NOW).isErr()).toBe(true);
+    expect(version.publish(new Date('2026-10-20T06:00:00Z')).isOk()).toBe(true);
+    expect(version.status).toBe('PUBLISHED');
+    expect(version.publishedAt).toEqual(new Date('2026-10-20T06:00:00Z'));
+  });
+
+  it('should go back to a draft when unscheduled', () => {
+    const version = createDraft();
+    version.schedule(new Date('2026-10-20T06:00:00Z'));
+
+    version.unschedule();
+
+    expect(version.status).toBe('DRAFT');
+    expect(version.publishAt).toBeNull();
+    expect(version.putRecipe(createRecipe(FUNGHI_ID, 'Funghi', 11)).isOk()).toBe(true);
+  });
+});
+
+describe('diffMenuVersions', () => {
+  it('should list added, removed and changed recipes against the live version', () => {
+    const live = createDraft(LIVE_ID);
+    const draft = createDraft();
+    draft.putRecipe(createRecipe(MARGHERITA_ID, 'Margherita', 11, 2));
+    draft.removeRecipe(PEPPERONI_RECIPE_ID);
+    draft.putRecipe(createRecipe(FUNGHI_ID, 'Funghi', 11));
+
+    const diff = diffMenuVersions(live, draft);
+
+    expect(diff.added.map(entry => entry.recipe.id)).toEqual([FUNGHI_ID]);
+    expect(diff.removed.map(entry => entry.recipe.id)).toEqual([PEPPERONI_RECIPE_ID]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].fields).toEqual(['basePrice', 'ingredients']);
+    expect(diff.changed[0].before.recipe.basePrice.amount).toBe(10);
+  });
+
+  it('should treat every recipe as added before anything is published', () => {
+    const diff = diffMenuVersions(null, createDraft());
+
+    expect(diff.added).toHaveLength(2);
+    expect(diff.removed).toHaveLength(0);
+    expect(diff.changed).toHaveLength(0);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { Money } from '@/domain/shared/money';
-import { ValidationError } from '@/domain/shared/result';
+import { Money, MoneySchema } from '@/domain/shared/money';
+import type { ExchangeRateProvider } from '@/domain/shared/exchange-rate';
+import { Ok, Err, NotFoundError, ValidationError } from '@/domain/shared/result';
 
 describe('Money Value Object', () => {
   describe('creation', () => {
@@ -133,4 +134,106 @@ describe('Money Value Object', () => {
       expect(money.toCents()).toBe(1100);
     });
   });
+
+  describe('integer minor units', () => {
+    it('should store whole cents so repeated arithmetic stays exact', () => {
+      const tenCents = Money.create(0.1, 'USD');
+      const total = tenCents.add(tenCents).add(tenCents);
+
+      expect(total.minorUnits).toBe(30);
+      expect(total.equals(Money.create(0.3, 'USD'))).toBe(true);
+    });
+
+    it('should reject fractional cents', () => {
+      expect(() => Money.fromCents(10.5, 'USD')).toThrow(ValidationError);
+    });
+
+    it('should accept zero amounts', () => {
+      expect(Money.zero('USD').isZero()).toBe(true);
+      expect(MoneySchema.safeParse({ amount: 0, currency: 'USD' }).success).toBe(true);
+      expect(MoneySchema.safeParse({ amount: -1, currency: 'USD' }).success).toBe(false);
+    });
+  });
+
+  describe('rounding', () => {
+    it('should round half to even by default', () => {
+      expect(Money.fromCents(125, 'USD').multiply(0.1).minorUnits).toBe(12);
+      expect(Money.fromCents(135, 'USD').multiply(0.1).minorUnits).toBe(14);
+    });
+
+    it('should round half up when asked', () => {
+      expect(Money.fromCents(125, 'USD').multiply(0.1, 'HALF_UP').minorUnits).toBe(13);
+    });
+
+    it('should treat binary noise around a tie as a tie', () => {
+      expect(Money.create(10.995, 'USD', 'HALF_UP').minorUnits).toBe(1100);
+    });
+  });
+
+  describe('currency conversion', () => {
+    const provider: ExchangeRateProvider = {
+      getRate: (from, to) =>
+        from === 'USD' && to === 'EUR'
+          ? Ok({ from, to, rate: 0.92, asOf: new Date('2026-10-19T00:00:00Z'), source: 'test' })
+          : Err(new NotFoundError('ExchangeRate', `${from}/${to}`)),
+    };
+
+    it('should convert using the provider rate', () => {
+      const result = Money.create(10, 'USD').convertTo('EUR', provider);
+
+      expect(result._unsafeUnwrap().equals(Money.create(9.2, 'EUR'))).toBe(true);
+    });
+
+    it('should return the same amount for the same currency', () => {
+      const money = Money.create(10, 'USD');
+
+      expect(money.convertTo('USD', provider)._unsafeUnwrap()).toBe(money);
+    });
+
+    it('should fail when the provider has no rate', () => {
+      expect(Money.create(10, 'EUR').convertTo('USD', provider).isErr()).toBe(true);
+    });
+
+    it('should refuse a rate quoted for another currency', () => {
+      const rate = { from: 'EUR' as const, to: 'USD' as const, rate: 1.1, asOf: new Date(), source: 'test' };
+
+      expect(Money.create(10, 'USD').convertWith(rate).isErr()).toBe(true);
+    });
+  });
+
+  describe('locale formatting', () => {
+    it('should format each currency in its own locale', () => {
+      expect(Money.create(1234.5, 'EUR').toString()).toMatch(/1\.234,50\s€/);
+      expect(Money.create(1234.5, 'EUR').toString('en-US')).toBe('€1,234.50');
+    });
+  });
+
+  describe('allocation', () => {
+    it('should split without losing a cent', () => {
+      const shares = Money.fromCents(100, 'USD').allocate([1, 1, 1]);
+
+      expect(shares.map(share => share.minorUnits)).toEqual([34, 33, 33]);
+    });
+
+    it('should give leftovers to the largest remainders', () => {
+      const shares = Money.fromCents(1000, 'USD').allocate([3, 7]);
+
+      expect(shares.map(share => share.minorUnits)).toEqual([300, 700]);
+      expect(
+        Money.fromCents(5, 'USD').allocate([1, 3]).map(share => share.minorUnits)
+      ).toEqual([1, 4]);
+    });
+
+    it('should reject empty or negative ratios', () => {
+      const money = Money.fromCents(100, 'USD');
+
+      expect(() => money.allocate([])).toThrow(ValidationError);
+      expect(() => money.allocate([1, -1])).toThrow(ValidationError);
+    });
+
+    it('should split equally when every ratio is zero', () => {
+      expect(Money.fromCents(101, 'USD').allocate([0, 0]).map(share => share.minorUnits)).toEqual([51, 50]);
+      expect(Money.zero('USD').allocate([0, 0, 0]).map(share => share.minorUnits)).toEqual([0, 0, 0]);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { nutritionOf, MAJOR_ALLERGENS, type NutritionFacts } from '@/domain/menu/nutrition';
+import { allergenMatrixOf, dietaryProfileOf } from '@/domain/menu/pizza-composition';
+import { Ingredient, PizzaRecipe, type IngredientCategory } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+
+const MARGHERITA_ID = '11111111-1111-4111-8111-111111111111';
+const PEPPERONI_RECIPE_ID = '88888888-8888-4888-8888-888888888888';
+const DOUGH_ID = '22222222-2222-4222-8222-222222222222';
+const CHEESE_ID = '33333333-3333-4333-8333-333333333333';
+const PEPPERONI_ID = '44444444-4444-4444-8444-444444444444';
+const GF_DOUGH_ID = '55555555-5555-4555-8555-555555555555';
+
+const createIngredient = (
+  id: string,
+  category: IngredientCategory,
+  allergens: string[],
+  nutrition: NutritionFacts | null
+) =>
+  Ingredient.create({
+    id,
+    name: id,
+    category,
+    pricePerUnit: Money.create(1, 'USD'),
+    isAvailable: true,
+    allergens,
+    nutrition,
+  })._unsafeUnwrap();
+
+const createRecipe = (id: string, name: string, ingredients: [string, number][]) =>
+  PizzaRecipe.create({
+    id,
+    name,
+    description: name,
+    ingredients: new Map(ingredients),
+    basePrice: Money.create(10, 'USD'),
+    preparationTimeMinutes: 15,
+    difficulty: 2,
+  })._unsafeUnwrap();
+
+const dough = createIngredient(DOUGH_ID, 'VEGETABLES', ['Gluten '], { kcal: 250, protein: 8, fat: 1.5, carbs: 50, salt: 1.2 });
+const cheese = createIngredient(CHEESE_ID, 'CHEESE', ['milk'], { kcal: 280, protein: 22, fat: 20, carbs: 2, salt: 0.7 });
+const pepperoni = createIngredient(PEPPERONI_ID, 'MEAT', ['mustard', 'smoke flavouring'], null);
+const glutenFreeDough = createIngredient(GF_DOUGH_ID, 'VEGETABLES', [], { kcal: 240, protein: 3, fat: 4, carbs: 48, salt: 1 });
+
+const ingredientMap = new Map([dough, cheese, pepperoni, glutenFreeDough].map(ingredient => [ingredient.id, ingredient]));
+
+describe('Ingredient allergens and nutrition', () => {
+  it('normalises declared allergens', () => {
+    expect(dough.allergens).toEqual(['gluten']);
+  });
+
+  it('rejects negative nutrition values', () => {
+    const result = Ingredient.create({
+      id: DOUGH_ID,
+      name: 'Dough',
+      category: 'VEGETABLES',
+      pricePerUnit: Money.create(1, 'USD'),
+      isAvailable: true,
+      nutrition: { kcal: -1, protein: 0, fat: 0, carbs: 0, salt: 0 },
+    });
+
+    expect(result.isErr()).toBe(true);
+  });
+});
+
+describe('nutritionOf', () => {
+  it('adds up nutrition per unit times quantity', () => {
+    const { nutrition, isComplete } = nutritionOf(new Map([[DOUGH_ID, 2], [CHEESE_ID, 1.3]]), ingredientMap);
+
+    expect(nutrition).toEqual({ kcal: 864, protein: 44.6, fat: 29, carbs: 102.6, salt: 3.31 });
+    expect(isComplete).toBe(true);
+  });
+
+  it('marks totals incomplete when an ingredient has no nutrition data', () => {
+    const { nutrition, isComplete } = nutritionOf(new Map([[CHEESE_ID, 1], [PEPPERONI_ID, 3]]), ingredientMap);
+
+    expect(nutrition.kcal).toBe(280);
+    expect(isComplete).toBe(false);
+  });
+});
+
+describe('dietaryProfileOf', () => {
+  it('is gluten free only when no ingredient declares gluten', () => {
+    expect(dietaryProfileOf([new Map([[DOUGH_ID, 1], [CHEESE_ID, 1]])], ingredientMap).isGlutenFree).toBe(false);
+    expect(dietaryProfileOf([new Map([[GF_DOUGH_ID, 1], [CHEESE_ID, 1]])], ingredientMap).isGlutenFree).toBe(true);
+  });
+
+  it('is not gluten free when an ingredient is unknown', () => {
+    expect(dietaryProfileOf([new Map([['unknown', 1]])], ingredientMap).isGlutenFree).toBe(false);
+  });
+});
+
+describe('allergenMatrixOf', () => {
+  it('lists recipes by name with the major allergens first', () => {
+    const matrix = allergenMatrixOf([
+      createRecipe(PEPPERONI_RECIPE_ID, 'Pepperoni', [[DOUGH_ID, 1], [CHEESE_ID, 1], [PEPPERONI_ID, 1]]),
+      createRecipe(MARGHERITA_ID, 'Margherita', [[GF_DOUGH_ID, 1], [CHEESE_ID, 1]]),
+    ], ingredientMap);
+
+    expect(matrix.allergens).toEqual([...MAJOR_ALLERGENS, 'smoke flavouring']);
+    expect(matrix.rows.map(row => row.recipeName)).toEqual(['Margherita', 'Pepperoni']);
+    expect(matrix.rows[0]).toMatchObject({
+      recipeId: MARGHERITA_ID,
+      allergens: ['milk'],
+      isVegetarian: true,
+      isVegan: false,
+      isGlutenFree: true,
+    });
+    expect(matrix.rows[1]).toMatchObject({
+      allergens: ['gluten', 'milk', 'mustard', 'smoke flavouring'],
+      isVegetarian: false,
+      isGlutenFree: false,
+    });
+  });
+});
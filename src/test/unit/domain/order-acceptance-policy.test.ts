@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { OrderAcceptancePolicy } from '@/domain/store/order-acceptance-policy';
+import { Store } from '@/domain/store/store';
+import { BusinessRuleViolationError } from '@/domain/shared/result';
+
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const MANAGER_ID = '523e4567-e89b-12d3-a456-426614174000';
+
+// 2026-10-19 is a Monday; New York is four hours behind UTC
+const at = (iso: string) => new Date(iso);
+
+describe('OrderAcceptancePolicy', () => {
+  const policy = new OrderAcceptancePolicy();
+
+  const createStore = () =>
+    Store.create({
+      id: STORE_ID,
+      name: 'Downtown',
+      address: { street: '1 Main St', city: 'New York', postalCode: '10001', country: 'US' },
+      timeZone: 'America/New_York',
+      currency: 'USD',
+      openingHours: [{ days: ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'], from: '11:00', until: '23:00' }],
+      holidayClosures: ['2026-10-20'],
+    })._unsafeUnwrap();
+
+  it('should take ASAP orders only while the store is open until the order is ready', () => {
+    const store = createStore();
+
+    // 12:00 in New York
+    expect(policy.accept(store, undefined, at('2026-10-19T16:00:00Z')).isOk()).toBe(true);
+    // 10:00, before opening
+    expect(policy.accept(store, undefined, at('2026-10-19T14:00:00Z'))._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+    // 22:50, closed before the pizza would be ready
+    expect(policy.accept(store, undefined, at('2026-10-20T02:50:00Z')).isErr()).toBe(true);
+  });
+
+  it('should check scheduled orders against lead time, opening hours, closures and the scheduling window', () => {
+    const store = createStore();
+    const now = at('2026-10-19T16:00:00Z');
+
+    expect(policy.accept(store, at('2026-10-19T22:00:00Z'), now).isOk()).toBe(true);
+    // Ten minutes out is sooner than the kitchen can manage
+    expect(policy.accept(store, at('2026-10-19T16:10:00Z'), now)._unsafeUnwrapErr().message).toContain('too soon');
+    // Tuesday is a holiday closure
+    expect(policy.accept(store, at('2026-10-20T18:00:00Z'), now)._unsafeUnwrapErr().message).toContain('closed');
+    expect(policy.accept(store, at('2026-10-27T18:00:00Z'), now)._unsafeUnwrapErr().message).toContain('7 days ahead');
+  });
+
+  it('should offer the first slot the kitchen can make while the store is open', () => {
+    const store = createStore();
+
+    // 12:05 + 20 minutes rounds up to 12:30
+    expect(policy.earliestSlot(store, at('2026-10-19T16:05:00Z'))).toEqual(at('2026-10-19T16:30:00Z'));
+    // A delivery adds the drive
+    expect(policy.earliestSlot(store, at('2026-10-19T16:05:00Z'), 30)).toEqual(at('2026-10-19T17:00:00Z'));
+    // Late on Monday the next opening is Wednesday 11:00, after the Tuesday closure
+    expect(policy.earliestSlot(store, at('2026-10-20T03:30:00Z'))).toEqual(at('2026-10-21T15:00:00Z'));
+  });
+
+  it('should turn every order away while ordering is paused', () => {
+    const store = createStore();
+    store.pauseOrdering('Oven is down', MANAGER_ID);
+
+    const result = policy.accept(store, at('2026-10-19T22:00:00Z'), at('2026-10-19T16:00:00Z'));
+
+    expect(result._unsafeUnwrapErr().message).toContain('Oven is down');
+    expect(policy.earliestSlot(store, at('2026-10-19T16:00:00Z'))).toBeNull();
+
+    store.resumeOrdering();
+    expect(policy.accept(store, undefined, at('2026-10-19T16:00:00Z')).isOk()).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { OrderNumber } from '@/domain/order/order-number';
+import { ValidationError } from '@/domain/shared/result';
+
+describe('OrderNumber Value Object', () => {
+  const businessDate = new Date('2026-10-19T15:30:00Z');
+
+  describe('creation', () => {
+    it('should format prefix, business date and zero-padded sequence', () => {
+      const result = OrderNumber.create('DP', businessDate, 42);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.value).toBe('DP-20261019-0042');
+        expect(result.value.toString()).toBe('DP-20261019-0042');
+      }
+    });
+
+    it("should date the number by the store's local calendar", () => {
+      const lateEvening = new Date('2026-10-20T03:30:00Z');
+
+      expect(OrderNumber.create('LA', lateEvening, 7, 'America/Los_Angeles')._unsafeUnwrap().value).toBe('LA-20261019-0007');
+      expect(OrderNumber.create('DP', lateEvening, 7)._unsafeUnwrap().value).toBe('DP-20261020-0007');
+    });
+
+    it('should grow past four digits on very busy days', () => {
+      const result = OrderNumber.create('DP', businessDate, 12345);
+
+      expect(result._unsafeUnwrap().value).toBe('DP-20261019-12345');
+    });
+
+    it('should reject invalid prefixes and sequences', () => {
+      expect(OrderNumber.create('dp', businessDate, 1).isErr()).toBe(true);
+      expect(OrderNumber.create('DP', businessDate, 0).isErr()).toBe(true);
+      expect(OrderNumber.create('DP', businessDate, 1.5).isErr()).toBe(true);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should parse numbers read back over the phone', () => {
+      const result = OrderNumber.parse(' dp-20261019-0042 ');
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.prefix).toBe('DP');
+        expect(result.value.businessDate).toBe('20261019');
+        expect(result.value.sequence).toBe(42);
+        expect(result.value.equals(OrderNumber.create('DP', businessDate, 42)._unsafeUnwrap())).toBe(true);
+      }
+    });
+
+    it('should reject malformed numbers', () => {
+      const result = OrderNumber.parse('123e4567-e89b-12d3-a456-426614174000');
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildOrderTimeline, type OrderStatusHistoryEntry } from '@/domain/order/order-timeline';
+import type { OrderStatus } from '@/domain/order/order';
+import type { ID } from '@/domain/shared/types';
+
+const orderId = 'order-1' as ID;
+
+const entry = (
+  previousStatus: OrderStatus | null,
+  newStatus: OrderStatus,
+  occurredAt: string,
+  reason: string | null = null
+): OrderStatusHistoryEntry => ({
+  orderId,
+  previousStatus,
+  newStatus,
+  actorId: 'staff-1' as ID,
+  reason,
+  occurredAt: new Date(occurredAt),
+});
+
+describe('buildOrderTimeline', () => {
+  it('should return an empty timeline when there is no history', () => {
+    const timeline = buildOrderTimeline([]);
+
+    expect(timeline.currentStatus).toBeNull();
+    expect(timeline.stages).toEqual([]);
+    expect(timeline.totalDurationMs).toBe(0);
+  });
+
+  it('should measure time spent in each stage', () => {
+    const timeline = buildOrderTimeline([
+      entry(null, 'PENDING', '2026-10-19T12:00:00Z'),
+      entry('PENDING', 'CONFIRMED', '2026-10-19T12:02:00Z'),
+      entry('CONFIRMED', 'PREPARING', '2026-10-19T12:05:00Z'),
+    ], new Date('2026-10-19T12:15:00Z'));
+
+    expect(timeline.currentStatus).toBe('PREPARING');
+    expect(timeline.stages.map(stage => stage.durationMs)).toEqual([
+      2 * 60_000,
+      3 * 60_000,
+      10 * 60_000,
+    ]);
+    expect(timeline.stages[0].exitedAt).toEqual(new Date('2026-10-19T12:02:00Z'));
+    expect(timeline.stages[2].exitedAt).toBeNull();
+    expect(timeline.totalDurationMs).toBe(15 * 60_000);
+  });
+
+  it('should sort entries by when they happened', () => {
+    const timeline = buildOrderTimeline([
+      entry('PENDING', 'CONFIRMED', '2026-10-19T12:02:00Z'),
+      entry(null, 'PENDING', '2026-10-19T12:00:00Z'),
+    ], new Date('2026-10-19T12:03:00Z'));
+
+    expect(timeline.stages.map(stage => stage.status)).toEqual(['PENDING', 'CONFIRMED']);
+  });
+
+  it('should stop the clock once the order is closed', () => {
+    const timeline = buildOrderTimeline([
+      entry(null, 'PENDING', '2026-10-19T12:00:00Z'),
+      entry('PENDING', 'CANCELLED', '2026-10-19T12:04:00Z', 'Customer changed their mind'),
+    ], new Date('2026-10-19T18:00:00Z'));
+
+    const cancelled = timeline.stages[1];
+    expect(timeline.currentStatus).toBe('CANCELLED');
+    expect(cancelled.durationMs).toBeNull();
+    expect(cancelled.reason).toBe('Customer changed their mind');
+    expect(timeline.totalDurationMs).toBe(4 * 60_000);
+  });
+});
@@ -0,0 +1,474 @@
+import { describe, it, expect } from 'vitest';
+import { Order, OrderStatusChangedEvent, type NewOrderRefund, type OrderProps } from '@/domain/order/order';
+import { OrderNumber } from '@/domain/order/order-number';
+import { Pizza } from '@/domain/menu/pizza';
+import { Payment } from '@/domain/payment/payment';
+import { Money } from '@/domain/shared/money';
+import { BusinessRuleViolationError } from '@/domain/shared/result';
+
+describe('Order Aggregate', () => {
+  const pizza = new Pizza('11111111-1111-4111-8111-111111111111', 'LARGE', 'THIN');
+
+  const orderNumber = OrderNumber.create('DP', new Date('2026-10-19T12:00:00Z'), 1)._unsafeUnwrap();
+
+  const validOrderProps: OrderProps = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    orderNumber,
+    customerId: '223e4567-e89b-12d3-a456-426614174000',
+    customerInfo: { name: 'John Doe', phone: '+1234567890' },
+    items: [
+      {
+        id: '323e4567-e89b-12d3-a456-426614174000',
+        type: 'PIZZA',
+        pizza,
+        quantity: 2,
+        unitPrice: Money.create(10, 'USD'),
+        totalPrice: Money.create(20, 'USD'),
+      },
+    ],
+    deliveryType: 'DELIVERY',
+    deliveryAddress: {
+      street: '123 Main St',
+      city: 'Pizza Town',
+      postalCode: '90210',
+      country: 'US',
+    },
+    deliveryQuote: {
+      zoneId: '923e4567-e89b-12d3-a456-426614174000',
+      fee: Money.create(5, 'USD'),
+      maxEtaMinutes: 30,
+      distanceKm: null,
+    },
+  };
+
+  describe('creation', () => {
+    it('should create a pending order and raise OrderCreatedEvent', () => {
+      const result = Order.create(validOrderProps);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        const order = result.value;
+        expect(order.status).toBe('PENDING');
+        expect(order.paymentStatus).toBe('PENDING');
+        expect(order.domainEvents).toHaveLength(1);
+        expect(order.domainEvents[0].constructor.name).toBe('OrderCreatedEvent');
+      }
+    });
+
+    it('should require a delivery address for delivery orders', () => {
+      const result = Order.create({ ...validOrderProps, deliveryAddress: undefined });
+
+      expect(result.isErr()).toBe(true);
+    });
+
+    it('should charge the delivery fee quoted for the zone', () => {
+      const order = Order.create(validOrderProps)._unsafeUnwrap();
+
+      expect(order.deliveryFee.amount).toBe(5);
+      expect(order.deliveryZoneId).toBe('923e4567-e89b-12d3-a456-426614174000');
+      expect(Order.create({ ...validOrderProps, deliveryQuote: undefined }).isErr()).toBe(true);
+    });
+
+    it('should reject items not on sale at the requested delivery time', () => {
+      const availability = {
+        timeZone: 'Europe/Berlin',
+        items: [{
+          id: pizza.recipeId,
+          name: 'Lunch Margherita',
+          availability: { windows: [{ days: ['MON' as const, 'TUE' as const], from: '11:00', until: '14:00' }] },
+        }],
+      };
+
+      // Monday 12:30 and 20:30 in Berlin
+      const lunch = Order.create({ ...validOrderProps, availability, requestedDeliveryTime: new Date('2026-10-19T10:30:00Z') });
+      const dinner = Order.create({ ...validOrderProps, availability, requestedDeliveryTime: new Date('2026-10-19T18:30:00Z') });
+
+      expect(lunch.isOk()).toBe(true);
+      expect(dinner.isErr()).toBe(true);
+      expect(dinner._unsafeUnwrapErr().message).toContain('Lunch Margherita is not available');
+    });
+  });
+
+  describe('reconstitution', () => {
+    it('should restore persisted state without raising events', () => {
+      const createdAt = new Date('2026-01-01T12:00:00Z');
+      const estimatedDeliveryTime = new Date('2026-01-01T13:00:00Z');
+
+      const order = Order.reconstitute({
+        id: validOrderProps.id,
+        orderNumber,
+        customerId: validOrderProps.customerId!,
+        customerInfo: validOrderProps.customerInfo,
+        items: validOrderProps.items,
+        deliveryType: 'DELIVERY',
+        deliveryAddress: validOrderProps.deliveryAddress!,
+        specialInstructions: null,
+        requestedDeliveryTime: null,
+        totalAmount: Money.create(20, 'USD'),
+        tax: Money.create(2, 'USD'),
+        deliveryFee: Money.create(5, 'USD'),
+        status: 'OUT_FOR_DELIVERY',
+        paymentStatus: 'PAID',
+        estimatedDeliveryTime,
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      expect(order.status).toBe('OUT_FOR_DELIVERY');
+      expect(order.paymentStatus).toBe('PAID');
+      expect(order.estimatedDeliveryTime).toEqual(estimatedDeliveryTime);
+      expect(order.createdAt).toEqual(createdAt);
+      expect(order.grandTotal.amount).toBe(27);
+      expect(order.domainEvents).toHaveLength(0);
+    });
+
+    it('should continue the lifecycle from the restored status', () => {
+      const createdAt = new Date();
+      const order = Order.reconstitute({
+        id: validOrderProps.id,
+        orderNumber,
+        customerId: null,
+        customerInfo: validOrderProps.customerInfo,
+        items: validOrderProps.items,
+        deliveryType: 'DELIVERY',
+        deliveryAddress: validOrderProps.deliveryAddress!,
+        specialInstructions: null,
+        requestedDeliveryTime: null,
+        totalAmount: Money.create(20, 'USD'),
+        tax: Money.create(2, 'USD'),
+        deliveryFee: Money.create(5, 'USD'),
+        status: 'OUT_FOR_DELIVERY',
+        paymentStatus: 'PAID',
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      expect(order.markAsDelivered().isOk()).toBe(true);
+      expect(order.status).toBe('DELIVERED');
+      expect(order.domainEvents).toHaveLength(1);
+    });
+  });
+
+  const createOrder = (overrides: Partial<OrderProps> = {}) =>
+    Order.create({ ...validOrderProps, ...overrides })._unsafeUnwrap();
+
+  const paymentFor = (order: Order, amount: Money = order.grandTotal) =>
+    Payment.create({
+      id: '423e4567-e89b-12d3-a456-426614174000',
+      orderId: order.id,
+      amount,
+      provider: 'fake',
+      cardLast4: '4242',
+    });
+
+  const capturedPaymentFor = (order: Order, amount?: Money) => {
+    const payment = paymentFor(order, amount);
+    payment.authorize('fake_auth_1');
+    payment.capture();
+    return payment;
+  };
+
+  describe('payment', () => {
+    it('should become PAID only through a captured payment for the full total', () => {
+      const order = createOrder();
+
+      const result = order.recordPayment(capturedPaymentFor(order));
+
+      expect(result.isOk()).toBe(true);
+      expect(order.paymentStatus).toBe('PAID');
+      expect(order.domainEvents.map(event => event.constructor.name)).toContain('OrderPaidEvent');
+    });
+
+    it('should reject payments that are not captured', () => {
+      const order = createOrder();
+      const payment = paymentFor(order);
+      payment.authorize('fake_auth_1');
+
+      expect(order.recordPayment(payment).isErr()).toBe(true);
+      expect(order.paymentStatus).toBe('PENDING');
+    });
+
+    it('should reject a captured amount that does not match the total', () => {
+      const order = createOrder();
+
+      const result = order.recordPayment(capturedPaymentFor(order, Money.create(1, 'USD')));
+
+      expect(result.isErr()).toBe(true);
+      expect(order.paymentStatus).toBe('PENDING');
+    });
+
+    it('should not accept a second payment', () => {
+      const order = createOrder();
+      order.recordPayment(capturedPaymentFor(order));
+
+      expect(order.recordPayment(capturedPaymentFor(order)).isErr()).toBe(true);
+    });
+
+    it('should let only one payment attempt run at a time', () => {
+      const order = createOrder();
+
+      expect(order.startPayment().isOk()).toBe(true);
+      expect(order.paymentStatus).toBe('PROCESSING');
+      expect(order.startPayment().isErr()).toBe(true);
+
+      order.abandonPayment();
+      expect(order.startPayment().isOk()).toBe(true);
+    });
+
+    it('should mark the order FAILED after a declined attempt', () => {
+      const order = createOrder();
+      const payment = paymentFor(order);
+      payment.decline('Card declined');
+
+      expect(order.recordPaymentFailure(payment).isOk()).toBe(true);
+      expect(order.paymentStatus).toBe('FAILED');
+    });
+  });
+
+  describe('refunds', () => {
+    const twoLineOrder = () => {
+      const order = createOrder({
+        items: [
+          {
+            id: '623e4567-e89b-12d3-a456-426614174000',
+            type: 'PIZZA',
+            pizza,
+            quantity: 1,
+            unitPrice: Money.create(10, 'USD'),
+            totalPrice: Money.create(10, 'USD'),
+          },
+          {
+            id: '723e4567-e89b-12d3-a456-426614174000',
+            type: 'PIZZA',
+            pizza,
+            quantity: 1,
+            unitPrice: Money.create(30, 'USD'),
+            totalPrice: Money.create(30, 'USD'),
+          },
+        ],
+      });
+      order.recordPayment(capturedPaymentFor(order));
+      return order;
+    };
+
+    const refundFor = (order: Order, amount: Money, orderItemIds: string[]) => ({
+      id: '823e4567-e89b-12d3-a456-426614174000',
+      paymentId: '423e4567-e89b-12d3-a456-426614174000',
+      amount,
+      orderItemIds,
+      reason: 'Burnt crust',
+      actorId: null,
+      createdAt: new Date(),
+    });
+
+    const recordRefund = (order: Order, refund: NewOrderRefund) => {
+      const started = order.startRefund(refund);
+      return started.isErr() ? started : order.completeRefund(refund.id, 'fake_refund_1');
+    };
+
+    it('should quote a line refund as the line total plus its tax', () => {
+      const order = twoLineOrder();
+
+      const quote = order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000'])._unsafeUnwrap();
+
+      expect(quote.amount.amount).toBe(11);
+      expect(quote.orderItemIds).toEqual(['623e4567-e89b-12d3-a456-426614174000']);
+    });
+
+    it('should not take another payment once money has been refunded', () => {
+      const order = twoLineOrder();
+      const quote = order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000'])._unsafeUnwrap();
+      recordRefund(order, refundFor(order, quote.amount, quote.orderItemIds));
+
+      expect(order.startPayment()._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+      expect(order.recordPayment(capturedPaymentFor(order)).isErr()).toBe(true);
+      expect(order.paymentStatus).toBe('PARTIALLY_REFUNDED');
+    });
+
+    it('should still prepare an order after one of its lines was refunded', () => {
+      const order = twoLineOrder();
+      order.confirm();
+      const quote = order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000'])._unsafeUnwrap();
+      recordRefund(order, refundFor(order, quote.amount, quote.orderItemIds));
+
+      expect(order.startPreparation().isOk()).toBe(true);
+      expect(order.status).toBe('PREPARING');
+    });
+
+    it('should become PARTIALLY_REFUNDED and then REFUNDED', () => {
+      const order = twoLineOrder();
+
+      const lineQuote = order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000'])._unsafeUnwrap();
+      expect(recordRefund(order, refundFor(order, lineQuote.amount, lineQuote.orderItemIds)).isOk()).toBe(true);
+      expect(order.paymentStatus).toBe('PARTIALLY_REFUNDED');
+
+      const restQuote = order.quoteRefund()._unsafeUnwrap();
+      expect(restQuote.amount.amount).toBe(order.grandTotal.amount - 11);
+      expect(restQuote.orderItemIds).toEqual(['723e4567-e89b-12d3-a456-426614174000']);
+
+      recordRefund(order, refundFor(order, restQuote.amount, restQuote.orderItemIds));
+      expect(order.paymentStatus).toBe('REFUNDED');
+      expect(order.refundedAmount.equals(order.grandTotal)).toBe(true);
+      expect(order.quoteRefund().isErr()).toBe(true);
+    });
+
+    it('should refund every tax category of a bundle line', () => {
+      const order = createOrder({
+        items: [
+          {
+            id: 'a23e4567-e89b-12d3-a456-426614174000',
+            type: 'BUNDLE',
+            bundle: {
+              bundleId: 'b23e4567-e89b-12d3-a456-426614174000',
+              name: 'Pizza & Cola',
+              components: [
+                { groupId: 'pizza', kind: 'PIZZA', pizza, product: null, allocatedPrice: Money.create(10, 'USD') },
+                {
+                  groupId: 'drink',
+                  kind: 'PRODUCT',
+                  pizza: null,
+                  product: { productId: 'c23e4567-e89b-12d3-a456-426614174000', name: 'Cola', category: 'DRINK' },
+                  allocatedPrice: Money.create(5, 'USD'),
+                },
+              ],
+            },
+            quantity: 1,
+            unitPrice: Money.create(15, 'USD'),
+            totalPrice: Money.create(15, 'USD'),
+          },
+        ],
+      });
+      order.recordPayment(capturedPaymentFor(order));
+      expect(order.taxLines.map(line => line.category)).toEqual(['FOOD', 'BEVERAGE', 'DELIVERY']);
+
+      const quote = order.quoteRefund(['a23e4567-e89b-12d3-a456-426614174000'])._unsafeUnwrap();
+
+      expect(quote.amount.amount).toBe(16.5);
+    });
+
+    it('should hold a pending refund back and release it when the refund fails', () => {
+      const order = twoLineOrder();
+      const quote = order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000'])._unsafeUnwrap();
+
+      const pending = order.startRefund(refundFor(order, quote.amount, quote.orderItemIds))._unsafeUnwrap();
+
+      expect(pending.status).toBe('PENDING');
+      expect(order.paymentStatus).toBe('PAID');
+      expect(order.refundedAmount.isZero()).toBe(true);
+      expect(order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000']).isErr()).toBe(true);
+
+      expect(order.failRefund(pending.id)._unsafeUnwrap().status).toBe('FAILED');
+      expect(order.completeRefund(pending.id, 'fake_refund_1').isErr()).toBe(true);
+      expect(order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000']).isOk()).toBe(true);
+    });
+
+    it('should not refund the same line twice', () => {
+      const order = twoLineOrder();
+      const quote = order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000'])._unsafeUnwrap();
+      recordRefund(order, refundFor(order, quote.amount, quote.orderItemIds));
+
+      const result = order.quoteRefund(['623e4567-e89b-12d3-a456-426614174000']);
+
+      expect(result.isErr()).toBe(true);
+    });
+
+    it('should reject unknown lines', () => {
+      const order = twoLineOrder();
+
+      const result = order.quoteRefund(['999e4567-e89b-12d3-a456-426614174000']);
+
+      expect(result.isErr()).toBe(true);
+    });
+
+    it('should not refund more than was paid', () => {
+      const order = twoLineOrder();
+
+      const result = recordRefund(order, refundFor(order, Money.create(1000, 'USD'), []));
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toContain('cannot exceed');
+      }
+      expect(order.paymentStatus).toBe('PAID');
+    });
+
+    it('should only refund paid orders', () => {
+      const order = createOrder();
+
+      expect(order.quoteRefund().isErr()).toBe(true);
+    });
+  });
+
+  describe('lifecycle', () => {
+
+    it('should walk a paid delivery order through every stage', () => {
+      const order = createOrder();
+
+      expect(order.confirm().isOk()).toBe(true);
+      order.recordPayment(capturedPaymentFor(order));
+      expect(order.startPreparation().isOk()).toBe(true);
+      expect(order.markAsReady().isOk()).toBe(true);
+      expect(order.startDelivery().isOk()).toBe(true);
+      expect(order.markAsDelivered().isOk()).toBe(true);
+      expect(order.status).toBe('DELIVERED');
+      expect(order.getAllowedTransitions()).toEqual([]);
+    });
+
+    it('should set an estimated delivery time on confirmation', () => {
+      const order = createOrder();
+
+      order.confirm();
+
+      expect(order.estimatedDeliveryTime).toBeInstanceOf(Date);
+    });
+
+    it('should not start preparation before payment', () => {
+      const order = createOrder();
+      order.confirm();
+
+      const result = order.startPreparation();
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toContain('must be paid');
+      }
+      expect(order.getAllowedTransitions()).toEqual(['CANCELLED']);
+    });
+
+    it('should never send pickup orders out for delivery', () => {
+      const order = createOrder({ deliveryType: 'PICKUP', deliveryAddress: undefined });
+      order.confirm();
+      order.recordPayment(capturedPaymentFor(order));
+      order.startPreparation();
+      order.markAsReady();
+
+      expect(order.getAllowedTransitions()).toEqual(['DELIVERED', 'CANCELLED']);
+      expect(order.startDelivery().isErr()).toBe(true);
+      expect(order.markAsDelivered().isOk()).toBe(true);
+    });
+
+    it('should reject transitions missing from the table', () => {
+      const order = createOrder();
+
+      const result = order.markAsReady();
+
+      expect(result.isErr()).toBe(true);
+      expect(order.status).toBe('PENDING');
+      expect(order.getAllowedTransitions()).toEqual(['CONFIRMED', 'CANCELLED']);
+    });
+
+    it('should carry actor and reason on status change events', () => {
+      const order = createOrder();
+      order.clearEvents();
+
+      order.cancel({ actorId: 'staff-1', reason: 'Customer called to cancel' });
+
+      const [event] = order.domainEvents as OrderStatusChangedEvent[];
+      expect(event).toBeInstanceOf(OrderStatusChangedEvent);
+      expect(event.previousStatus).toBe('PENDING');
+      expect(event.newStatus).toBe('CANCELLED');
+      expect(event.actorId).toBe('staff-1');
+      expect(event.reason).toBe('Customer called to cancel');
+    });
+  });
+});
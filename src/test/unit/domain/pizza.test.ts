@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Pizza, type IngredientModifierProps } from '@/domain/menu/pizza';
+import { ValidationError } from '@/domain/shared/result';
+
+const MARGHERITA_ID = '11111111-1111-4111-8111-111111111111';
+const PEPPERONI_ID = '88888888-8888-4888-8888-888888888888';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+
+describe('Pizza', () => {
+  it('should describe a whole pizza as a single section', () => {
+    const pizza = Pizza.create({
+      recipeId: MARGHERITA_ID,
+      size: 'MEDIUM',
+      crust: 'THIN',
+      customIngredients: new Map([[CHEESE_ID, 1]]),
+    })._unsafeUnwrap();
+
+    expect(pizza.sections).toEqual([
+      {
+        position: 'WHOLE',
+        recipeId: MARGHERITA_ID,
+        modifiers: [{ type: 'ADD', ingredientId: CHEESE_ID, quantity: 1, replacementId: null }],
+      },
+    ]);
+    expect(pizza.hasSections()).toBe(false);
+  });
+
+  it('should keep halves in layout order and take the first recipe as its own', () => {
+    const pizza = Pizza.create({
+      size: 'LARGE',
+      crust: 'THICK',
+      sections: [
+        { position: 'RIGHT', recipeId: PEPPERONI_ID },
+        { position: 'LEFT', recipeId: MARGHERITA_ID },
+      ],
+    })._unsafeUnwrap();
+
+    expect(pizza.sections.map(section => section.position)).toEqual(['LEFT', 'RIGHT']);
+    expect(pizza.recipeId).toBe(MARGHERITA_ID);
+    expect(pizza.recipeIds).toEqual([MARGHERITA_ID, PEPPERONI_ID]);
+    expect(pizza.hasSections()).toBe(true);
+  });
+
+  it('should reject sections that do not cover the pizza', () => {
+    const result = Pizza.create({
+      size: 'MEDIUM',
+      crust: 'THIN',
+      sections: [
+        { position: 'LEFT', recipeId: MARGHERITA_ID },
+        { position: 'TOP_RIGHT', recipeId: PEPPERONI_ID },
+      ],
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+  });
+
+  it('should reject changing the same ingredient twice in a section', () => {
+    const result = Pizza.create({
+      recipeId: MARGHERITA_ID,
+      size: 'MEDIUM',
+      crust: 'THIN',
+      customIngredients: new Map([[CHEESE_ID, 1]]),
+      modifiers: [{ type: 'REMOVE', ingredientId: CHEESE_ID }],
+    });
+
+    expect(result.isErr()).toBe(true);
+  });
+
+  it('should require a different replacement for substitutions and no quantity on removals', () => {
+    const create = (modifier: IngredientModifierProps) =>
+      Pizza.create({ recipeId: MARGHERITA_ID, size: 'MEDIUM', crust: 'THIN', modifiers: [modifier] });
+
+    expect(create({ type: 'SUBSTITUTE', ingredientId: CHEESE_ID }).isErr()).toBe(true);
+    expect(create({ type: 'SUBSTITUTE', ingredientId: CHEESE_ID, replacementId: CHEESE_ID }).isErr()).toBe(true);
+    expect(create({ type: 'REMOVE', ingredientId: CHEESE_ID, quantity: 2 }).isErr()).toBe(true);
+    expect(create({ type: 'EXTRA', ingredientId: CHEESE_ID, quantity: 2 }).isOk()).toBe(true);
+  });
+
+  it('should only keep whole-pizza additions as custom ingredients', () => {
+    const pizza = Pizza.create({
+      recipeId: MARGHERITA_ID,
+      size: 'MEDIUM',
+      crust: 'THIN',
+      modifiers: [
+        { type: 'ADD', ingredientId: PEPPERONI_ID, quantity: 2 },
+        { type: 'REMOVE', ingredientId: CHEESE_ID },
+      ],
+    })._unsafeUnwrap();
+
+    expect(pizza.customIngredients).toEqual(new Map([[PEPPERONI_ID, 2]]));
+    expect(pizza.hasSections()).toBe(true);
+  });
+});
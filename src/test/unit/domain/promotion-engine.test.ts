@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { PromotionEngine, type PromotionCart } from '@/domain/promotion/promotion-engine';
+import type { Promotion } from '@/domain/promotion/promotion';
+import { Pizza } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+
+const MARGHERITA_ID = '11111111-1111-4111-8111-111111111111';
+const PEPPERONI_ID = '22222222-2222-4222-8222-222222222222';
+
+describe('PromotionEngine', () => {
+  const engine = new PromotionEngine();
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  const promotion = (overrides: Partial<Promotion>): Promotion => ({
+    id: '33333333-3333-4333-8333-333333333333',
+    code: 'PROMO',
+    description: 'Promotion',
+    reward: { type: 'PERCENTAGE', percent: 10 },
+    currency: 'USD',
+    minimumOrder: null,
+    validFrom: new Date('2026-10-01T00:00:00Z'),
+    validUntil: new Date('2026-10-31T23:59:59Z'),
+    maxRedemptions: null,
+    maxRedemptionsPerCustomer: null,
+    stackable: true,
+    isActive: true,
+    ...overrides,
+  });
+
+  const line = (id: string, recipeId: string, quantity: number, unitPrice: number) => ({
+    id,
+    type: 'PIZZA' as const,
+    pizza: new Pizza(recipeId, 'LARGE', 'THIN'),
+    quantity,
+    unitPrice: Money.create(unitPrice, 'USD'),
+    totalPrice: Money.create(unitPrice * quantity, 'USD'),
+  });
+
+  const cart: PromotionCart = {
+    items: [
+      line('44444444-4444-4444-8444-444444444444', MARGHERITA_ID, 2, 10),
+      line('55555555-5555-4555-8555-555555555555', PEPPERONI_ID, 1, 14),
+    ],
+    subtotal: Money.create(34, 'USD'),
+    deliveryFee: Money.create(5, 'USD'),
+    customerId: '66666666-6666-4666-8666-666666666666',
+  };
+
+  it('should take a percentage off the items', () => {
+    const [discount] = engine.apply([promotion({})], cart, now)._unsafeUnwrap();
+
+    expect(discount.appliesTo).toBe('ITEMS');
+    expect(discount.amount.amount).toBe(3.4);
+  });
+
+  it('should waive the delivery fee', () => {
+    const [discount] = engine
+      .apply([promotion({ reward: { type: 'FREE_DELIVERY' } })], cart, now)
+      ._unsafeUnwrap();
+
+    expect(discount.appliesTo).toBe('DELIVERY');
+    expect(discount.amount.amount).toBe(5);
+  });
+
+  it('should make the cheapest qualifying pizzas free for buy X get Y', () => {
+    const buyOneGetOne = promotion({ reward: { type: 'BUY_X_GET_Y', buyQuantity: 1, getQuantity: 1 } });
+
+    const [discount] = engine.apply([buyOneGetOne], cart, now)._unsafeUnwrap();
+
+    // Three pizzas make one pair; the cheaper one ($10) is free
+    expect(discount.amount.amount).toBe(10);
+  });
+
+  it('should only count the named recipe for buy X get Y', () => {
+    const pepperoniDeal = promotion({
+      reward: { type: 'BUY_X_GET_Y', buyQuantity: 1, getQuantity: 1, recipeId: PEPPERONI_ID },
+    });
+
+    expect(engine.apply([pepperoniDeal], cart, now).isErr()).toBe(true);
+  });
+
+  it('should stack stackable codes without going below zero', () => {
+    const result = engine.apply([
+      promotion({ id: '77777777-7777-4777-8777-777777777777', code: 'HALF', reward: { type: 'PERCENTAGE', percent: 50 } }),
+      promotion({ id: '88888888-8888-4888-8888-888888888888', code: 'BIG', reward: { type: 'FIXED_AMOUNT', amountCents: 2500 } }),
+    ], cart, now);
+
+    const discounts = result._unsafeUnwrap();
+    expect(discounts.map(discount => discount.amount.amount)).toEqual([17, 17]);
+  });
+
+  it('should refuse to combine a non-stackable code', () => {
+    const result = engine.apply([
+      promotion({ id: '77777777-7777-4777-8777-777777777777', code: 'SOLO', stackable: false }),
+      promotion({ id: '88888888-8888-4888-8888-888888888888', code: 'OTHER' }),
+    ], cart, now);
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.message).toContain('SOLO');
+    }
+  });
+
+  it('should reject expired codes and orders below the minimum', () => {
+    expect(engine.apply([promotion({})], cart, new Date('2026-11-02T00:00:00Z')).isErr()).toBe(true);
+    expect(engine.apply([promotion({ minimumOrder: Money.create(50, 'USD') })], cart, now).isErr()).toBe(true);
+  });
+
+  it('should require a signed-in customer for codes limited per customer', () => {
+    const result = engine.apply(
+      [promotion({ maxRedemptionsPerCustomer: 1 })],
+      { ...cart, customerId: undefined },
+      now
+    );
+
+    expect(result.isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { PurchaseOrder } from '@/domain/purchasing/purchase-order';
+import { ReorderPolicy } from '@/domain/purchasing/reorder-policy';
+import { Money } from '@/domain/shared/money';
+import { ValidationError, BusinessRuleViolationError } from '@/domain/shared/result';
+
+const SUPPLIER_ID = '88888888-8888-4888-8888-888888888888';
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const SAUCE_ID = '33333333-3333-4333-8333-333333333333';
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const createPurchaseOrder = () =>
+  PurchaseOrder.create({
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    supplierId: SUPPLIER_ID,
+    storeId: STORE_ID,
+    expectedDeliveryDate: new Date('2026-10-22T08:00:00Z'),
+    lines: [
+      { ingredientId: CHEESE_ID, quantity: 20, unitCost: Money.create(4.5, 'USD') },
+      { ingredientId: SAUCE_ID, quantity: 10, unitCost: Money.create(2, 'USD') },
+    ],
+  }, NOW)._unsafeUnwrap();
+
+const createSubmitted = () => {
+  const purchaseOrder = createPurchaseOrder();
+  purchaseOrder.submit();
+  return purchaseOrder;
+};
+
+describe('PurchaseOrder', () => {
+  it('should start as a draft totalled at the quoted costs', () => {
+    const purchaseOrder = createPurchaseOrder();
+
+    expect(purchaseOrder.status).toBe('DRAFT');
+    expect(purchaseOrder.orderedTotal.amount).toBe(110);
+    expect(purchaseOrder.receivedTotal.isZero()).toBe(true);
+  });
+
+  it('should reject the same ingredient on two lines', () => {
+    const result = PurchaseOrder.create({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      supplierId: SUPPLIER_ID,
+      storeId: STORE_ID,
+      expectedDeliveryDate: new Date('2026-10-22T08:00:00Z'),
+      lines: [
+        { ingredientId: CHEESE_ID, quantity: 20, unitCost: Money.create(4.5, 'USD') },
+        { ingredientId: CHEESE_ID, quantity: 5, unitCost: Money.create(4.5, 'USD') },
+      ],
+    }, NOW);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+  });
+
+  it('should not accept deliveries before it is submitted', () => {
+    const purchaseOrder = createPurchaseOrder();
+
+    const result = purchaseOrder.receive([{ ingredientId: CHEESE_ID, quantity: 20 }], false, NOW);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+  });
+
+  it('should stay open after a short delivery and track what is outstanding', () => {
+    const purchaseOrder = createSubmitted();
+
+    purchaseOrder.receive([{ ingredientId: CHEESE_ID, quantity: 15, unitCost: Money.create(5, 'USD') }], false, NOW);
+
+    expect(purchaseOrder.status).toBe('PARTIALLY_RECEIVED');
+    expect(purchaseOrder.outstandingQuantities()).toEqual(new Map([[CHEESE_ID, 5], [SAUCE_ID, 10]]));
+    expect(purchaseOrder.receivedTotal.amount).toBe(75);
+    expect(purchaseOrder.receivedAt).toBeNull();
+  });
+
+  it('should be received once every line has arrived', () => {
+    const purchaseOrder = createSubmitted();
+
+    purchaseOrder.receive([{ ingredientId: CHEESE_ID, quantity: 15 }], false, NOW);
+    purchaseOrder.receive([
+      { ingredientId: CHEESE_ID, quantity: 5 },
+      { ingredientId: SAUCE_ID, quantity: 12 },
+    ], false, NOW);
+
+    expect(purchaseOrder.status).toBe('RECEIVED');
+    expect(purchaseOrder.receivedAt).toEqual(NOW);
+    expect(purchaseOrder.receivedTotal.amount).toBe(114);
+    expect(purchaseOrder.outstandingQuantities().size).toBe(0);
+  });
+
+  it('should close short when told the rest will not follow', () => {
+    const purchaseOrder = createSubmitted();
+
+    purchaseOrder.receive([{ ingredientId: CHEESE_ID, quantity: 15 }], true, NOW);
+
+    expect(purchaseOrder.status).toBe('RECEIVED');
+    expect(purchaseOrder.outstandingQuantities().size).toBe(0);
+  });
+
+  it('should reject receipts for ingredients that were not ordered', () => {
+    const purchaseOrder = createSubmitted();
+
+    const result = purchaseOrder.receive([{ ingredientId: '44444444-4444-4444-8444-444444444444', quantity: 1 }], false, NOW);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+    expect(purchaseOrder.status).toBe('SUBMITTED');
+  });
+
+  it('should not cancel once goods have arrived', () => {
+    const purchaseOrder = createSubmitted();
+    purchaseOrder.receive([{ ingredientId: CHEESE_ID, quantity: 1 }], false, NOW);
+
+    expect(purchaseOrder.cancel()._unsafeUnwrapErr()).toBeInstanceOf(BusinessRuleViolationError);
+    expect(createSubmitted().cancel().isOk()).toBe(true);
+  });
+});
+
+describe('ReorderPolicy', () => {
+  const policy = new ReorderPolicy({ trailingDays: 28, coverDays: 7 });
+
+  it('should order enough to cover the lead time and cover period above par', () => {
+    // 56 consumed over 28 days is 2 a day; par 10 + 2 x (3 + 7) = 30 target
+    const suggestion = policy.suggest({
+      ingredientId: CHEESE_ID,
+      available: 12,
+      parLevel: 10,
+      onOrder: 5,
+      consumed: 56,
+      leadTimeDays: 3,
+    });
+
+    expect(suggestion).toMatchObject({ dailyConsumption: 2, targetLevel: 30, suggestedQuantity: 13 });
+  });
+
+  it('should round up to whole units', () => {
+    const suggestion = policy.suggest({
+      ingredientId: CHEESE_ID,
+      available: 9.25,
+      parLevel: 10,
+      onOrder: 0,
+      consumed: 0,
+      leadTimeDays: 0,
+    });
+
+    expect(suggestion?.suggestedQuantity).toBe(1);
+  });
+
+  it('should suggest nothing when stock and open orders already cover the target', () => {
+    expect(policy.suggest({
+      ingredientId: CHEESE_ID,
+      available: 20,
+      parLevel: 10,
+      onOrder: 10,
+      consumed: 56,
+      leadTimeDays: 3,
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { StockLevel, IngredientDepletedEvent } from '@/domain/inventory/stock-level';
+import { ValidationError } from '@/domain/shared/result';
+
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+const ORDER_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+const createLevel = (onHand: number, parLevel: number) => {
+  const level = StockLevel.create({ storeId: STORE_ID, ingredientId: CHEESE_ID, parLevel })._unsafeUnwrap();
+  level.receive(onHand);
+  level.clearEvents();
+  return level;
+};
+
+const depletionEvents = (level: StockLevel) =>
+  level.domainEvents.filter(event => event instanceof IngredientDepletedEvent);
+
+describe('StockLevel', () => {
+  it('should keep reserved stock on hand until it is consumed', () => {
+    const level = createLevel(10, 0);
+
+    level.reserve(ORDER_ID, 3);
+    expect(level).toMatchObject({ onHand: 10, reserved: 3, available: 7 });
+
+    level.release(ORDER_ID, 3);
+    level.consume(ORDER_ID, 3);
+    expect(level).toMatchObject({ onHand: 7, reserved: 0, available: 7 });
+  });
+
+  it('should report depletion once, when available stock first drops below par', () => {
+    const level = createLevel(10, 5);
+
+    level.reserve(ORDER_ID, 4);
+    expect(depletionEvents(level)).toHaveLength(0);
+
+    level.reserve(ORDER_ID, 2);
+    level.reserve(ORDER_ID, 2);
+    expect(depletionEvents(level)).toHaveLength(1);
+    expect(depletionEvents(level)[0]).toMatchObject({ ingredientId: CHEESE_ID, available: 4, parLevel: 5 });
+  });
+
+  it('should report depletion when the par level is raised above what is available', () => {
+    const level = createLevel(10, 5);
+
+    level.changeParLevel(12);
+
+    expect(level.isBelowPar).toBe(true);
+    expect(depletionEvents(level)).toHaveLength(1);
+  });
+
+  it('should correct on-hand to a counted figure', () => {
+    const level = createLevel(10, 0);
+
+    const movement = level.countedAs(8.5)._unsafeUnwrap();
+
+    expect(movement).toMatchObject({ type: 'ADJUST', quantity: -1.5 });
+    expect(level.onHand).toBe(8.5);
+    expect(level.countedAs(8.5)._unsafeUnwrap()).toBeNull();
+  });
+
+  it('should reject non-positive deliveries and negative counts', () => {
+    const level = createLevel(10, 0);
+
+    expect(level.receive(0)._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+    expect(level.countedAs(-1)._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+  });
+});
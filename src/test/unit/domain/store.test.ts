@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { Store, type StoreProps } from '@/domain/store/store';
+import { Product } from '@/domain/menu/product';
+import { PizzaRecipe } from '@/domain/menu/pizza';
+import { Money } from '@/domain/shared/money';
+import { ValidationError } from '@/domain/shared/result';
+
+const STORE_ID = '99999999-9999-4999-8999-999999999999';
+const COLA_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const FRIES_ID = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd';
+const RECIPE_ID = '11111111-1111-4111-8111-111111111111';
+const CHEESE_ID = '22222222-2222-4222-8222-222222222222';
+
+const storeProps = (overrides: Partial<StoreProps> = {}): StoreProps => ({
+  id: STORE_ID,
+  name: 'Berlin Mitte',
+  address: { street: 'Torstr. 1', city: 'Berlin', postalCode: '10119', country: 'DE' },
+  timeZone: 'Europe/Berlin',
+  currency: 'EUR',
+  ...overrides,
+});
+
+const createProduct = (id: string, name: string, price: number) =>
+  Product.create({ id, name, category: 'SIDE', price: Money.create(price, 'EUR') })._unsafeUnwrap();
+
+describe('Store', () => {
+  it('should open only within its hours, read in its own time zone', () => {
+    const store = Store.create(storeProps({
+      openingHours: [{ days: ['MON', 'TUE', 'WED', 'THU', 'FRI'], from: '11:00', until: '23:00' }],
+    }))._unsafeUnwrap();
+
+    // 2026-10-19 is a Monday; Berlin is two hours ahead of UTC
+    expect(store.isOpenAt(new Date('2026-10-19T09:00:00Z'))).toBe(true);
+    expect(store.isOpenAt(new Date('2026-10-19T08:59:00Z'))).toBe(false);
+    expect(store.isOpenAt(new Date('2026-10-24T12:00:00Z'))).toBe(false);
+  });
+
+  it('should stay shut on holiday closures', () => {
+    const store = Store.create(storeProps({ holidayClosures: ['2026-12-25', '2026-12-24', '2026-12-25'] }))._unsafeUnwrap();
+
+    expect(store.holidayClosures).toEqual(['2026-12-24', '2026-12-25']);
+    // Already Christmas Day in Berlin
+    expect(store.isOpenAt(new Date('2026-12-24T23:30:00Z'))).toBe(false);
+    expect(store.isOpenAt(new Date('2026-12-26T12:00:00Z'))).toBe(true);
+  });
+
+  it('should drop the items it leaves out and apply its own prices', () => {
+    const store = Store.create(storeProps({
+      excludedItemIds: [FRIES_ID],
+      priceOverrides: new Map([[COLA_ID, Money.create(3, 'EUR')]]),
+    }))._unsafeUnwrap();
+
+    const menu = store.menuOf([createProduct(COLA_ID, 'Cola', 2.5), createProduct(FRIES_ID, 'Fries', 3.5)]);
+
+    expect(menu.map(product => product.id)).toEqual([COLA_ID]);
+    expect(menu[0].price.amount).toBe(3);
+    expect(store.taxLocation).toEqual({ country: 'DE', postalCode: '10119' });
+  });
+
+  it('should drop pizzas made with an ingredient it has run short of until it is restocked', () => {
+    const store = Store.create(storeProps())._unsafeUnwrap();
+    const margherita = PizzaRecipe.create({
+      id: RECIPE_ID,
+      name: 'Margherita',
+      description: 'Classic pizza',
+      ingredients: new Map([[CHEESE_ID, 2]]),
+      basePrice: Money.create(10, 'EUR'),
+      preparationTimeMinutes: 15,
+      difficulty: 2,
+    })._unsafeUnwrap();
+
+    store.markIngredientUnavailable(CHEESE_ID);
+    expect(store.menuOf([margherita])).toEqual([]);
+
+    store.markIngredientAvailable(CHEESE_ID);
+    expect(store.menuOf([margherita]).map(recipe => recipe.id)).toEqual([RECIPE_ID]);
+  });
+
+  it('should need a reason to pause ordering', () => {
+    const store = Store.create(storeProps())._unsafeUnwrap();
+
+    expect(store.pauseOrdering(' ', STORE_ID)._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+    expect(store.orderingPause).toBeNull();
+  });
+
+  it('should reject invalid stores', () => {
+    const invalid = [
+      storeProps({ name: '  ' }),
+      storeProps({ address: { street: '', city: 'Berlin', postalCode: '10119', country: 'DE' } }),
+      storeProps({ timeZone: 'Mars/Olympus_Mons' }),
+      storeProps({ holidayClosures: ['25.12.2026'] }),
+      storeProps({ orderNumberPrefix: 'dt' }),
+      storeProps({ priceOverrides: new Map([[COLA_ID, Money.create(3, 'USD')]]) }),
+    ];
+
+    for (const props of invalid) {
+      expect(Store.create(props)._unsafeUnwrapErr()).toBeInstanceOf(ValidationError);
+    }
+  });
+});
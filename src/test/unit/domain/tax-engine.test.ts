@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { TaxEngine, DEFAULT_TAX_RULES, type TaxRule, type TaxableLine } from '@/domain/tax/tax-engine';
+import { Money } from '@/domain/shared/money';
+
+const STORE_ID = '11111111-1111-4111-8111-111111111111';
+
+describe('TaxEngine', () => {
+  const rules: TaxRule[] = [
+    ...DEFAULT_TAX_RULES,
+    { name: 'City food tax', category: 'FOOD', rate: 0.12, inclusive: false, country: 'US', postalCodePrefix: '902' },
+    { name: 'State food tax', category: 'FOOD', rate: 0.08, inclusive: false, country: 'US' },
+    { name: 'Store food tax', category: 'FOOD', rate: 0.05, inclusive: false, country: 'US', storeId: STORE_ID },
+  ];
+  const engine = new TaxEngine(rules);
+
+  const food = (amount: number, currency: 'USD' | 'EUR' = 'USD'): TaxableLine => ({
+    lineId: '22222222-2222-4222-8222-222222222222',
+    category: 'FOOD',
+    amount: Money.create(amount, currency),
+  });
+
+  it('should add exclusive tax on top of the price', () => {
+    const [line] = new TaxEngine().calculate([food(20)], { location: { country: 'US' } })._unsafeUnwrap();
+
+    expect(line.ruleName).toBe('Sales tax');
+    expect(line.net.amount).toBe(20);
+    expect(line.tax.amount).toBe(2);
+  });
+
+  it('should extract inclusive VAT from the price', () => {
+    const [line] = engine
+      .calculate([food(10.7, 'EUR')], { location: { country: 'DE', postalCode: '10115' } })
+      ._unsafeUnwrap();
+
+    expect(line.inclusive).toBe(true);
+    expect(line.tax.amount).toBe(0.7);
+    expect(line.net.amount).toBe(10);
+  });
+
+  it('should use a separate rate for the delivery fee', () => {
+    const deliveryFee: TaxableLine = { lineId: null, category: 'DELIVERY', amount: Money.create(5.95, 'EUR') };
+
+    const [foodLine, feeLine] = engine
+      .calculate([food(10.7, 'EUR'), deliveryFee], { location: { country: 'DE' } })
+      ._unsafeUnwrap();
+
+    expect(foodLine.rate).toBe(0.07);
+    expect(feeLine.rate).toBe(0.19);
+    expect(feeLine.tax.amount).toBe(0.95);
+  });
+
+  it('should prefer the most specific matching rule', () => {
+    const rateFor = (context: Parameters<TaxEngine['calculate']>[1]) =>
+      engine.calculate([food(10)], context)._unsafeUnwrap()[0].rate;
+
+    expect(rateFor({ location: { country: 'FR' } })).toBe(0.1);
+    expect(rateFor({ location: { country: 'us', postalCode: '10001' } })).toBe(0.08);
+    expect(rateFor({ location: { country: 'US', postalCode: '90210' } })).toBe(0.12);
+    expect(rateFor({ location: { country: 'US', postalCode: '90210' }, storeId: STORE_ID })).toBe(0.05);
+  });
+
+  it('should charge exempt customers the net price', () => {
+    const [line] = engine
+      .calculate([food(10.7, 'EUR')], { location: { country: 'DE' }, taxExempt: true })
+      ._unsafeUnwrap();
+
+    expect(line.ruleName).toBe('EXEMPT');
+    expect(line.tax.isZero()).toBe(true);
+    expect(line.net.amount).toBe(10);
+  });
+
+  it('should fail when no rule covers the line', () => {
+    const result = new TaxEngine([]).calculate([food(10)], { location: { country: 'US' } });
+
+    expect(result.isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { NextRequest } from 'next/server';
+import { SignJWT } from 'jose';
+import { middleware } from '@/middleware';
+
+const JWT_SECRET = new TextEncoder().encode(process.env.JWT_SECRET || 'fallback-secret');
+const CUSTOMER_ID = '123e4567-e89b-12d3-a456-426614174000';
+const OTHER_CUSTOMER_ID = '223e4567-e89b-12d3-a456-426614174000';
+
+const refreshToken = () =>
+  new SignJWT({ userId: CUSTOMER_ID, email: 'john@example.com', role: 'CUSTOMER', storeIds: [], type: 'refresh' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime('7d')
+    .sign(JWT_SECRET);
+
+// An expired or tampered access token sends the request down the refresh path
+const requestWithForgedHeaders = async (path: string) =>
+  new NextRequest(`http://localhost${path}`, {
+    headers: {
+      cookie: `accessToken=not-a-token; refreshToken=${await refreshToken()}`,
+      'x-user-id': OTHER_CUSTOMER_ID,
+      'x-user-role': 'ADMIN',
+      'x-user-store-ids': '99999999-9999-4999-8999-999999999999',
+    },
+  });
+
+// NextResponse.next passes overridden request headers on as x-middleware-request-*
+const forwardedHeader = (response: Response, name: string) => response.headers.get(`x-middleware-request-${name}`);
+
+describe('middleware', () => {
+  // The test setup stubs crypto down to randomUUID; signing tokens needs the real one
+  beforeAll(() => {
+    globalThis.crypto = webcrypto as Crypto;
+  });
+
+  it('should forward the refreshed user in place of identity headers the client sent', async () => {
+    const response = await middleware(await requestWithForgedHeaders('/api/orders'));
+
+    expect(forwardedHeader(response, 'x-user-id')).toBe(CUSTOMER_ID);
+    expect(forwardedHeader(response, 'x-user-role')).toBe('CUSTOMER');
+    expect(forwardedHeader(response, 'x-user-store-ids')).toBe('');
+    expect(response.headers.get('set-cookie')).toContain('accessToken=');
+  });
+
+  it('should keep admin paths closed to a refreshed customer claiming to be an admin', async () => {
+    const response = await middleware(await requestWithForgedHeaders('/api/admin/users/' + OTHER_CUSTOMER_ID));
+
+    expect(response.status).toBe(403);
+    expect(forwardedHeader(response, 'x-user-role')).toBeNull();
+  });
+
+  it('should strip identity headers on public paths', async () => {
+    const response = await middleware(new NextRequest('http://localhost/api/menu/pizzas', {
+      headers: { 'x-user-id': OTHER_CUSTOMER_ID, 'x-user-role': 'ADMIN' },
+    }));
+
+    expect(forwardedHeader(response, 'x-user-id')).toBeNull();
+    expect(forwardedHeader(response, 'x-user-role')).toBeNull();
+  });
+});